@@ -3,7 +3,29 @@ import { aiPipeline } from "@/core/ai-pipeline";
 import { intentEngine } from "@/core/intent-engine";
 import { storage } from "@/core/storage-manager";
 import { processingQueue } from "@/core/processing-queue";
+import { intentRelationships } from "@/core/intent-relationships";
+import { historyImporter } from "@/core/history-importer";
+import { dataImporter } from "@/core/data-import";
+import {
+  captureRules,
+  SENSITIVE_CATEGORIES,
+  stripToMetadata,
+} from "@/core/capture-rules";
+import { extractSearchQuery } from "@/core/search-queries";
 import { nudgeGenerator } from "@/services/nudge-generator";
+import { nudgeNotifier } from "@/services/nudge-notifier";
+import { nudgeFeedback } from "@/services/nudge-feedback";
+import { nudgeScheduler, WAKE_ALARM } from "@/services/nudge-scheduler";
+import { intentLifecycle } from "@/services/intent-lifecycle";
+import { retentionPolicy } from "@/services/retention";
+import { searchEngine } from "@/core/search-engine";
+import { mergeProposals } from "@/core/merge-proposals";
+import { actionExecutor } from "@/services/action-executor";
+import {
+  defaultMatchingModel,
+  matchLearner,
+  MIN_TRAINING_EXAMPLES,
+} from "@/core/match-learning";
 import {
   generateIntentInsights,
   generateNextSteps,
@@ -11,6 +33,8 @@ import {
 
 class BackgroundWorker {
   constructor() {
+    // Before any await, so a notification click can wake the worker
+    nudgeNotifier.listen();
     this.initialize();
   }
 
@@ -78,6 +102,11 @@ class BackgroundWorker {
     // Set up alarms for background jobs
     this.setupAlarms();
 
+    // Index existing pages and intents the first time search is available
+    searchEngine.ensureIndex().catch((error) => {
+      console.error("BrynAI: Search index build failed", error);
+    });
+
     // Open side panel on extension icon click
     chrome.action.onClicked.addListener((tab) => {
       if (tab.windowId) {
@@ -109,7 +138,22 @@ class BackgroundWorker {
       periodInMinutes: 720,
     });
 
+    // Detect relationships between intents every 12 hours
+    chrome.alarms.create("detect-relationships", {
+      periodInMinutes: 720,
+    });
+
+    // Move idle intents to dormant/expired/completed every 5 minutes
+    chrome.alarms.create("intent-lifecycle", {
+      periodInMinutes: 5,
+    });
+
     chrome.alarms.onAlarm.addListener(this.handleAlarm.bind(this));
+
+    // Wake snoozed nudges when their snooze ends (one-shot, re-armed)
+    nudgeScheduler.scheduleWake().catch((error) => {
+      console.error("BrynAI: Could not schedule nudge wake-up", error);
+    });
   }
 
   private async handleAlarm(alarm: chrome.alarms.Alarm) {
@@ -123,6 +167,21 @@ class BackgroundWorker {
       await this.analyzeKnowledgeGaps();
     } else if (alarm.name === "predict-milestones") {
       await this.predictMilestones();
+    } else if (alarm.name === "detect-relationships") {
+      await this.detectRelationships();
+    } else if (alarm.name === "intent-lifecycle") {
+      await this.runIntentLifecycle();
+    } else if (alarm.name === WAKE_ALARM) {
+      await this.wakeNudges();
+    }
+  }
+
+  private async wakeNudges() {
+    try {
+      const woken = await nudgeScheduler.wakeDue();
+      if (woken > 0) await nudgeNotifier.deliver();
+    } catch (error) {
+      console.error("BrynAI: Nudge wake-up failed", error);
     }
   }
 
@@ -130,6 +189,7 @@ class BackgroundWorker {
     try {
       const nudges = await nudgeGenerator.generateNudges();
       console.log(`BrynAI: Generated ${nudges.length} nudges`);
+      await nudgeNotifier.deliver();
     } catch (error) {
       console.error("BrynAI: Nudge generation failed", error);
     }
@@ -149,8 +209,14 @@ class BackgroundWorker {
       await storage.clearOldActivitySummaries(24 * 60 * 60 * 1000);
       console.log("BrynAI: Cleared old activity summaries");
 
-      // TODO: Implement compression for old pages
-      // TODO: Cleanup completed/abandoned intents older than 90 days
+      // Compress old pages and archive finished intents (retention tiers)
+      await retentionPolicy.runRetention();
+
+      // Recompute intent centroids from their pages (incremental drift)
+      await intentEngine.rebuildCentroids();
+
+      // Forget nudge responses past the feedback window
+      await nudgeFeedback.pruneResolved();
     } catch (error) {
       console.error("BrynAI: Maintenance failed", error);
     }
@@ -199,6 +265,45 @@ class BackgroundWorker {
     }
   }
 
+  private async detectRelationships() {
+    try {
+      const intents = await storage.getAllIntents();
+      // Recently touched intents (including finished ones) are the ones
+      // most likely to have picked up a new connection
+      const recentIntents = intents
+        .filter(
+          (i) =>
+            i.pageCount >= 2 &&
+            i.status !== "merged" &&
+            i.status !== "discarded" &&
+            Date.now() - i.lastUpdated < 7 * 24 * 60 * 60 * 1000
+        )
+        .sort((a, b) => b.lastUpdated - a.lastUpdated)
+        .slice(0, 5);
+
+      for (const intent of recentIntents) {
+        await processingQueue.addTask(
+          "detect_intent_relationships",
+          intent.id,
+          32
+        );
+      }
+      console.log(
+        `BrynAI: Queued relationship detection for ${recentIntents.length} intents`
+      );
+    } catch (error) {
+      console.error("BrynAI: Relationship detection failed", error);
+    }
+  }
+
+  private async runIntentLifecycle() {
+    try {
+      await intentLifecycle.runLifecycleCheck();
+    } catch (error) {
+      console.error("BrynAI: Intent lifecycle check failed", error);
+    }
+  }
+
   private startResourceMonitoring(): void {
     // Monitor memory usage every 30 seconds
     setInterval(() => {
@@ -282,6 +387,22 @@ class BackgroundWorker {
             sendResponse({ success: true });
             break;
 
+          case "GET_NUDGE_STATS": {
+            const stats = await nudgeFeedback.getStats();
+            sendResponse({ stats });
+            break;
+          }
+
+          case "SNOOZE_NUDGE": {
+            const nudge = await storage.getNudge(request.nudgeId);
+            if (!nudge) {
+              throw new Error(`Nudge ${request.nudgeId} not found`);
+            }
+            await nudgeScheduler.snooze(nudge, request.preset);
+            sendResponse({ nudge });
+            break;
+          }
+
           case "DELETE_NUDGE":
             await storage.deleteNudge(request.nudgeId);
             sendResponse({ success: true });
@@ -297,6 +418,161 @@ class BackgroundWorker {
             sendResponse({ success: true });
             break;
 
+          case "PREVIEW_IMPORT": {
+            const preview = await dataImporter.preview(
+              request.data,
+              request.mode
+            );
+            sendResponse({ preview });
+            break;
+          }
+
+          case "IMPORT_DATA": {
+            const summary = await dataImporter.importData(
+              request.data,
+              request.mode
+            );
+            sendResponse({ summary });
+            break;
+          }
+
+          case "RUN_RETENTION": {
+            const report = await retentionPolicy.runRetention();
+            sendResponse({ report });
+            break;
+          }
+
+          case "SEARCH": {
+            const response = await searchEngine.search(request.query || "", {
+              limit: request.limit,
+              kind: request.kind,
+            });
+            sendResponse(response);
+            break;
+          }
+
+          case "REBUILD_SEARCH_INDEX":
+            await searchEngine.rebuild();
+            sendResponse({ success: true });
+            break;
+
+          case "VALIDATE_DATABASE": {
+            const report = await storage.validateDatabase();
+            sendResponse({ report });
+            break;
+          }
+
+          case "GET_MIGRATION_REPORT": {
+            const report = await storage.getMigrationReport();
+            sendResponse({ report });
+            break;
+          }
+
+          case "GET_MATCHING_MODEL": {
+            const [state, logged] = await Promise.all([
+              matchLearner.getState(),
+              storage.getMatchCorrections(),
+            ]);
+            const corrections = logged.filter((c) => c.source === "user");
+            sendResponse({
+              state,
+              defaults: defaultMatchingModel(),
+              corrections: corrections.length,
+              examples: corrections.flatMap((c) => c.examples).length,
+              minExamples: MIN_TRAINING_EXAMPLES,
+            });
+            break;
+          }
+
+          case "RESET_MATCHING_MODEL": {
+            const state = await matchLearner.reset();
+            sendResponse({ state });
+            break;
+          }
+
+          case "REASSIGN_PAGE":
+            await intentEngine.reassignPage(
+              request.pageId,
+              request.intentId,
+              "user"
+            );
+            sendResponse({ success: true });
+            break;
+
+          case "SPLIT_PAGE":
+            await intentEngine.createNewIntentFromPage(request.pageId, "user");
+            sendResponse({ success: true });
+            break;
+
+          case "PROPOSE_INTENT_SPLIT": {
+            const proposal = await intentEngine.proposeSplit(
+              request.intentId,
+              request.groupCount
+            );
+            sendResponse({ proposal });
+            break;
+          }
+
+          case "GET_MERGED_SOURCES": {
+            const sources = await intentEngine.getMergedSources(
+              request.intentId
+            );
+            sendResponse({ sources });
+            break;
+          }
+
+          case "UNMERGE_INTENT":
+            await intentEngine.unmergeIntent(request.intentId);
+            sendResponse({ success: true });
+            break;
+
+          case "GET_SIDE_PANEL_LINK":
+            sendResponse({ link: nudgeNotifier.takePendingLink() });
+            break;
+
+          case "EXECUTE_ACTION": {
+            const result = await actionExecutor.execute(
+              request.action,
+              request.intentId
+            );
+            sendResponse({ result });
+            break;
+          }
+
+          case "EXECUTE_NEXT_STEP": {
+            const result = await actionExecutor.executeNextStep(
+              request.intentId,
+              request.stepId
+            );
+            sendResponse({ result });
+            break;
+          }
+
+          case "GET_MERGE_PROPOSALS": {
+            const proposals = await mergeProposals.listPending();
+            sendResponse({ proposals });
+            break;
+          }
+
+          case "ACCEPT_MERGE_PROPOSAL":
+            await mergeProposals.accept(request.proposalId);
+            sendResponse({ success: true });
+            break;
+
+          case "REJECT_MERGE_PROPOSAL":
+            await mergeProposals.reject(request.proposalId);
+            sendResponse({ success: true });
+            break;
+
+          case "SPLIT_INTENT": {
+            const intentIds = await intentEngine.splitIntent(
+              request.intentId,
+              request.groups
+            );
+            sendResponse({ success: true, intentIds });
+            break;
+          }
+
           case "UPDATE_INTENT":
             await storage.saveIntent(request.intent);
             sendResponse({ success: true });
@@ -370,16 +646,102 @@ class BackgroundWorker {
             sendResponse({ nextSteps });
             break;
 
+          case "GET_INTENT_RELATIONSHIPS": {
+            const [related, evolution] = await Promise.all([
+              intentRelationships.getRelationships(request.intentId),
+              intentRelationships.getEvolution(request.intentId),
+            ]);
+            sendResponse({ related, evolution });
+            break;
+          }
+
+          case "TRAVERSE_INTENT_RELATIONSHIPS": {
+            const nodes = await intentRelationships.traverse(request.intentId, {
+              maxDepth: request.maxDepth,
+              types: request.types,
+            });
+            sendResponse({ nodes });
+            break;
+          }
+
+          case "DETECT_INTENT_RELATIONSHIPS": {
+            const taskId = await processingQueue.addTask(
+              "detect_intent_relationships",
+              request.intentId,
+              32
+            );
+            sendResponse({ success: true, taskId });
+            break;
+          }
+
+          case "START_HISTORY_IMPORT": {
+            const importState = await historyImporter.start(request.days);
+            sendResponse({ state: importState });
+            break;
+          }
+
+          case "GET_HISTORY_IMPORT_STATUS": {
+            const importState = await historyImporter.getStatus();
+            sendResponse({ state: importState });
+            break;
+          }
+
+          case "CANCEL_HISTORY_IMPORT": {
+            const importState = await historyImporter.cancel();
+            sendResponse({ state: importState });
+            break;
+          }
+
+          case "GET_CAPTURE_MODE": {
+            const mode = await captureRules.getMode(request.url);
+            sendResponse({ mode });
+            break;
+          }
+
+          case "GET_SENSITIVE_CATEGORIES":
+            sendResponse({ categories: SENSITIVE_CATEGORIES });
+            break;
+
+          case "ADD_CAPTURE_RULE": {
+            const { rule, purged } = await captureRules.addRule(
+              request.rule,
+              Boolean(request.purge)
+            );
+            sendResponse({ rule, purged });
+            break;
+          }
+
+          case "REMOVE_CAPTURE_RULE":
+            await captureRules.removeRule(request.ruleId);
+            sendResponse({ success: true });
+            break;
+
+          case "SET_SENSITIVE_CATEGORY": {
+            const purged = await captureRules.setCategory(
+              request.category,
+              Boolean(request.enabled),
+              Boolean(request.purge)
+            );
+            sendResponse({ success: true, purged });
+            break;
+          }
+
           case "GET_SETTINGS":
             const settings = await storage.getSettings();
             sendResponse({ settings });
             break;
 
-          case "UPDATE_SETTINGS":
-            await storage.saveSettings(request.settings);
-            await processingQueue.updateSettings(request.settings);
+          case "UPDATE_SETTINGS": {
+            // Partial update - capture rules are managed by their own messages
+            const updatedSettings = {
+              ...(await storage.getSettings()),
+              ...request.settings,
+            };
+            await storage.saveSettings(updatedSettings);
+            await processingQueue.updateSettings(updatedSettings);
             sendResponse({ success: true });
             break;
+          }
 
           case "QUEUE_ACTIVITY_SUMMARY":
             // Queue activity summary generation as background task
@@ -465,12 +827,19 @@ class BackgroundWorker {
         }
       }
 
+      // Privacy rules - the tracker checks too, but never trust one side
+      const captureMode = await captureRules.getMode(url);
+      if (captureMode === "ignore") {
+        console.log("BrynAI: Page excluded by capture rules");
+        return;
+      }
+
       // Generate unique ID
       const pageId = `page-${Date.now()}-${Math.random()
         .toString(36)
         .substr(2, 9)}`;
 
-      const pageData: PageData = {
+      let pageData: PageData = {
         id: pageId,
         url: data.url!,
         title: data.title!,
@@ -478,14 +847,22 @@ class BackgroundWorker {
         content: data.content || null,
         contentSummary: null,
         contentSize: data.contentSize || 0,
+        contentSections: data.contentSections,
+        structuredData: data.structuredData,
+        searchQuery: extractSearchQuery(data.url!) || undefined,
         metadata: data.metadata!,
         interactions: data.interactions!,
         intentAssignments: {
           primary: null,
           secondary: [],
         },
+        visitIds: data.visitIds,
       };
 
+      if (captureMode === "metadata_only") {
+        pageData = stripToMetadata(pageData);
+      }
+
       console.log("BrynAI: Processing page:", pageData.title);
 
       // Process with intent engine
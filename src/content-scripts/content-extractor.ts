@@ -0,0 +1,235 @@
+import type { ContentExtraction, ContentSection } from "@/types/page";
+
+/**
+ * Main-content extraction (Readability-style)
+ *
+ * 1. Strip boilerplate: navigation, headers/footers, sidebars, cookie
+ *    banners, dialogs - by tag, ARIA role and class/id hints
+ * 2. Pick the content root: a substantial <article>/<main>, otherwise the
+ *    block with the best text-density score
+ * 3. Walk the root in document order, splitting text into sections at headings
+ */
+
+const NOISE_SELECTOR =
+  "script, style, noscript, iframe, svg, canvas, template, button, select, input, textarea";
+
+const BOILERPLATE_SELECTOR = [
+  "nav",
+  "footer",
+  "aside",
+  "form",
+  "dialog",
+  "[role=navigation]",
+  "[role=banner]",
+  "[role=contentinfo]",
+  "[role=complementary]",
+  "[role=dialog]",
+  "[role=alertdialog]",
+  "[role=search]",
+  "[aria-hidden=true]",
+  "[hidden]",
+].join(", ");
+
+const BLOCK_SELECTOR =
+  "h1, h2, h3, h4, h5, h6, p, li, pre, blockquote, td, dd, dt, figcaption";
+
+const HEADING_TAGS = new Set(["H1", "H2", "H3", "H4", "H5", "H6"]);
+
+const NEGATIVE_HINT =
+  /cookie|consent|gdpr|banner|modal|popup|newsletter|subscribe|signup|share|social|promo|sponsor|advert|\bads?\b|sidebar|widget|related|recommend|comment|breadcrumb|pagination|menu|masthead|footer|header|navbar|toolbar/i;
+const POSITIVE_HINT =
+  /article|content|main|post|entry|story|body|text|prose|markdown|docs?/i;
+
+const MIN_ROOT_TEXT = 500; // <article>/<main> shorter than this isn't trusted
+const MIN_MAIN_TEXT = 200; // Below this, fall back to the whole body
+const MAX_SECTIONS = 40;
+const MAX_SECTION_CHARS = 2000;
+const MAX_CONTENT_CHARS = 50000;
+
+export interface ExtractedContent {
+  content: string;
+  sections: ContentSection[];
+  extraction: ContentExtraction;
+}
+
+export function extractMainContent(doc: Document): ExtractedContent | null {
+  if (!doc.body) return null;
+
+  const clone = doc.body.cloneNode(true) as HTMLElement;
+  clone.querySelectorAll(NOISE_SELECTOR).forEach((el) => el.remove());
+  const bodyTextLength = normalize(clone.textContent || "").length;
+
+  removeBoilerplate(clone);
+
+  const { root, method } = findContentRoot(clone);
+  const sections = collectSections(root);
+  const mainTextLength = sections.reduce(
+    (sum, s) => sum + s.text.length + (s.heading?.length || 0),
+    0
+  );
+
+  if (mainTextLength < MIN_MAIN_TEXT) return null;
+
+  return {
+    content: formatSections(sections).substring(0, MAX_CONTENT_CHARS),
+    sections,
+    extraction: {
+      method,
+      mainTextLength,
+      boilerplateTextLength: Math.max(bodyTextLength - mainTextLength, 0),
+    },
+  };
+}
+
+/**
+ * Sections as plain text with markdown-style headings
+ */
+export function formatSections(sections: ContentSection[]): string {
+  return sections
+    .map((s) =>
+      s.heading
+        ? `${"#".repeat(s.level)} ${s.heading}\n${s.text}`.trim()
+        : s.text
+    )
+    .join("\n\n");
+}
+
+function removeBoilerplate(root: HTMLElement) {
+  root.querySelectorAll(BOILERPLATE_SELECTOR).forEach((el) => el.remove());
+
+  // Page-level <header> is boilerplate, an article's own header isn't
+  root.querySelectorAll("header").forEach((el) => {
+    if (!el.closest("article, main, [role=main]")) el.remove();
+  });
+
+  root.querySelectorAll<HTMLElement>("[class], [id]").forEach((el) => {
+    // Already gone with a removed ancestor
+    if (!root.contains(el) || el.matches("article, main, [role=main]")) {
+      return;
+    }
+    const hints = `${el.id} ${el.getAttribute("class") || ""}`;
+    if (NEGATIVE_HINT.test(hints) && !POSITIVE_HINT.test(hints)) {
+      el.remove();
+    }
+  });
+}
+
+function findContentRoot(body: HTMLElement): {
+  root: HTMLElement;
+  method: ContentExtraction["method"];
+} {
+  const semantic = Array.from(
+    body.querySelectorAll<HTMLElement>(
+      "article, [itemprop=articleBody], main, [role=main]"
+    )
+  )
+    .map((el) => ({ el, length: normalize(el.textContent || "").length }))
+    .filter(({ length }) => length >= MIN_ROOT_TEXT)
+    .sort((a, b) => b.length - a.length);
+
+  // A single dominant article wins; several (feeds, listings) fall through
+  // to <main> or scoring
+  const articles = semantic.filter(({ el }) => el.tagName === "ARTICLE");
+  if (articles.length === 1) {
+    return { root: articles[0].el, method: "semantic" };
+  }
+
+  const main = semantic.find(({ el }) => el.tagName !== "ARTICLE");
+  if (main) return { root: main.el, method: "semantic" };
+
+  const scored = scoreBlocks(body);
+  return scored
+    ? { root: scored, method: "scored" }
+    : { root: body, method: "body" };
+}
+
+/**
+ * Text-density scoring: each paragraph adds to its parent (and half to its
+ * grandparent); link-heavy containers are discounted
+ */
+function scoreBlocks(body: HTMLElement): HTMLElement | null {
+  const scores = new Map<HTMLElement, number>();
+
+  body.querySelectorAll<HTMLElement>("p, pre, td, blockquote").forEach((el) => {
+    const text = normalize(el.textContent || "");
+    if (text.length < 25) return;
+
+    const score =
+      1 + text.split(",").length + Math.min(Math.floor(text.length / 100), 3);
+
+    const parent = el.parentElement;
+    const grandparent = parent?.parentElement;
+    if (parent) scores.set(parent, (scores.get(parent) || 0) + score);
+    if (grandparent) {
+      scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+    }
+  });
+
+  let best: HTMLElement | null = null;
+  let bestScore = 0;
+  for (const [el, score] of scores) {
+    const hints = `${el.id} ${el.getAttribute("class") || ""}`;
+    const weight = POSITIVE_HINT.test(hints) ? 1.25 : 1;
+    const adjusted = score * weight * (1 - linkDensity(el));
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+
+  return best;
+}
+
+function collectSections(root: HTMLElement): ContentSection[] {
+  const sections: ContentSection[] = [];
+  let current: ContentSection = { heading: null, level: 0, text: "" };
+
+  const blocks = Array.from(
+    root.querySelectorAll<HTMLElement>(BLOCK_SELECTOR)
+  ).filter((el) => !el.parentElement?.closest(BLOCK_SELECTOR));
+
+  for (const block of blocks) {
+    const text = normalize(block.textContent || "");
+    if (!text) continue;
+
+    if (HEADING_TAGS.has(block.tagName)) {
+      if (current.heading || current.text) sections.push(current);
+      current = {
+        heading: text.substring(0, 200),
+        level: Number(block.tagName[1]),
+        text: "",
+      };
+      continue;
+    }
+
+    // Link lists (tag clouds, "read next") inside the content root
+    if (linkDensity(block) > 0.5 && text.length < 200) continue;
+
+    if (current.text.length < MAX_SECTION_CHARS) {
+      current.text = `${current.text} ${text}`
+        .trim()
+        .substring(0, MAX_SECTION_CHARS);
+    }
+  }
+  if (current.heading || current.text) sections.push(current);
+
+  // Headings with nothing under them are navigation, not structure
+  return sections
+    .filter((s) => s.text.length > 0 || s.level <= 1)
+    .slice(0, MAX_SECTIONS);
+}
+
+function linkDensity(el: HTMLElement): number {
+  const textLength = normalize(el.textContent || "").length;
+  if (textLength === 0) return 0;
+
+  const linkLength = Array.from(el.querySelectorAll("a")).reduce(
+    (sum, a) => sum + normalize(a.textContent || "").length,
+    0
+  );
+  return linkLength / textLength;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
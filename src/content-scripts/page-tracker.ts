@@ -1,4 +1,14 @@
-import type { PageData, PageInteractions, TextSelection } from "@/types/page";
+import type {
+  ContentExtraction,
+  ContentSection,
+  DwellBreakdown,
+  PageData,
+  PageInteractions,
+  TextSelection,
+} from "@/types/page";
+import type { CaptureMode } from "@/types/settings";
+import { extractMainContent } from "./content-extractor";
+import { extractStructuredData } from "./structured-data";
 
 // Track page interactions and send to background
 interface FocusedSection {
@@ -9,19 +19,69 @@ interface FocusedSection {
   textSelections: number;
 }
 
+// Virtual page lifecycle timings
+const SNAPSHOT_DELAY_MS = 3000; // Let the route render before reading the DOM
+const INITIAL_REPORT_MS = 15000; // First report (sufficient time for interaction tracking)
+const ROUTE_POLL_MS = 1000; // pushState can't be observed from the content script world
+const IDLE_THRESHOLD_MS = 60000; // No input for a minute = idle (unless media is playing)
+
+const INPUT_EVENTS = [
+  "mousemove",
+  "mousedown",
+  "keydown",
+  "wheel",
+  "touchstart",
+];
+
+type ActivityState = keyof DwellBreakdown;
+
+// Page facts captured once per virtual page, before the next route replaces the DOM
+type PageSnapshot = Pick<
+  PageData,
+  | "url"
+  | "title"
+  | "content"
+  | "contentSections"
+  | "contentSize"
+  | "metadata"
+  | "structuredData"
+>;
+
+/**
+ * One tracker per tab. Each route in a single-page app is its own virtual
+ * page with a `visitId`; reports carry interaction deltas since the previous
+ * report so the service worker can add them up without double-counting.
+ */
 class PageTracker {
+  private visitId = this.createVisitId();
+  private url = window.location.href;
+  private referrer = document.referrer;
   private startTime = Date.now();
+  private snapshot: PageSnapshot | null = null;
+  private captureMode: CaptureMode = "full"; // Privacy rules, resolved per virtual page
+  private visitTimers: number[] = [];
+
+  // Dwell clock: only visible, focused, non-idle time counts as dwell
+  private activityState: ActivityState = "active";
+  private activitySince = this.startTime;
+  private lastInputAt = this.startTime;
+  private dwell: DwellBreakdown = { active: 0, background: 0, idle: 0 }; // Since last report
+  private visitActiveTime = 0; // Whole virtual page (engagement, sections)
+
   private maxScrollY = 0;
-  private totalScrollDistance = 0;
-  private lastScrollY = 0;
-  private textSelections: TextSelection[] = [];
+  private totalScrollDistance = 0; // Since last report
+  private lastScrollY = window.scrollY;
+  private textSelections: TextSelection[] = []; // Since last report
+  private selectionCount = 0; // Whole virtual page (for engagement)
   private intervalId: number | null = null;
   private contextValid = true;
 
   // Section tracking
   private focusedSections: Map<string, FocusedSection> = new Map();
+  private reportedSections: Map<string, FocusedSection> = new Map();
   private currentSection: string | null = null;
   private sectionStartTime: number = 0;
+  private sectionStartActive: number = 0; // Active clock when section was entered
   private intersectionObserver: IntersectionObserver | null = null;
 
   constructor() {
@@ -37,21 +97,34 @@ class PageTracker {
     // Track text selection
     document.addEventListener("mouseup", this.handleTextSelection.bind(this));
 
-    // Setup section tracking after page loads
-    if (document.readyState === "loading") {
-      document.addEventListener("DOMContentLoaded", () => {
-        this.setupSectionTracking();
+    // Dwell clock inputs: tab visibility, window focus, user input
+    document.addEventListener("visibilitychange", () =>
+      this.updateActivityState()
+    );
+    window.addEventListener("focus", () => this.updateActivityState());
+    window.addEventListener("blur", () => this.updateActivityState());
+    for (const type of INPUT_EVENTS) {
+      window.addEventListener(type, this.handleInput.bind(this), {
+        passive: true,
       });
-    } else {
-      this.setupSectionTracking();
     }
-
-    // Send data ONCE when leaving page (final update only)
+    this.activityState = this.detectActivityState(Date.now());
+
+    // Route changes: back/forward and hash routes fire events, pushState
+    // is caught by polling the URL (the same tick notices going idle)
+    window.addEventListener("popstate", () => this.checkRouteChange());
+    window.addEventListener("hashchange", () => this.checkRouteChange());
+    this.intervalId = window.setInterval(() => {
+      this.updateActivityState();
+      this.checkRouteChange();
+    }, ROUTE_POLL_MS);
+
+    // Final report when leaving the page
     // CRITICAL: Must wrap in try-catch - context may be invalidated
     window.addEventListener("beforeunload", () => {
       try {
-        this.finalizeCurrentSection();
-        this.sendData();
+        this.checkRouteChange();
+        this.endVisit();
       } catch (error) {
         // Extension context invalidated - silently ignore
         // This is expected when extension reloads during browsing
@@ -60,17 +133,124 @@ class PageTracker {
       }
     });
 
-    // Send initial data after 15 seconds (sufficient time for interaction tracking)
-    // Only send ONCE to avoid duplicates in fast tests
-    setTimeout(() => {
-      try {
-        this.finalizeCurrentSection();
-        this.sendData();
-        this.cleanup(); // Stop further sends after first one
-      } catch (error) {
-        // Extension context might be invalid
-      }
-    }, 15000);
+    this.startVisit();
+  }
+
+  private createVisitId(): string {
+    return `visit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private startVisit() {
+    this.requestCaptureMode();
+
+    this.visitTimers.push(
+      window.setTimeout(() => {
+        // Excluded pages never get a snapshot, so nothing is ever sent
+        if (this.captureMode === "ignore") return;
+
+        this.snapshot = this.takeSnapshot();
+        if (this.captureMode === "full") {
+          this.setupSectionTracking();
+        }
+      }, SNAPSHOT_DELAY_MS),
+      window.setTimeout(() => {
+        try {
+          this.checkpointCurrentSection();
+          this.sendData();
+        } catch (error) {
+          // Extension context might be invalid
+        }
+      }, INITIAL_REPORT_MS)
+    );
+  }
+
+  /**
+   * Ask the service worker how much of this URL may be captured. Until it
+   * answers the tracker assumes "full" - the service worker applies the same
+   * rules to everything it receives.
+   */
+  private requestCaptureMode() {
+    const visitId = this.visitId;
+    this.captureMode = "full";
+
+    try {
+      chrome.runtime.sendMessage(
+        { type: "GET_CAPTURE_MODE", url: this.url },
+        (response) => {
+          try {
+            if (chrome.runtime.lastError || visitId !== this.visitId) return;
+            if (response?.mode) this.captureMode = response.mode;
+          } catch (error) {
+            // Context invalidated - the next report will clean up
+          }
+        }
+      );
+    } catch (error) {
+      // Extension context might be invalid
+    }
+  }
+
+  /**
+   * Close the current virtual page with a final report. Visits that ended
+   * before a snapshot was taken (bounced in under 3s) are dropped.
+   */
+  private endVisit() {
+    this.visitTimers.forEach((id) => clearTimeout(id));
+    this.visitTimers = [];
+    this.finalizeCurrentSection();
+
+    if (this.snapshot) {
+      this.sendData();
+    }
+  }
+
+  private checkRouteChange() {
+    if (!this.contextValid) return;
+
+    const url = window.location.href;
+    if (this.getRouteKey(url) === this.getRouteKey(this.url)) return;
+
+    this.endVisit();
+
+    // Start a new virtual page for the new route
+    this.referrer = this.url;
+    this.url = url;
+    this.visitId = this.createVisitId();
+    this.startTime = Date.now();
+    this.activitySince = this.startTime;
+    this.dwell = { active: 0, background: 0, idle: 0 };
+    this.visitActiveTime = 0;
+    this.snapshot = null;
+    this.maxScrollY = 0;
+    this.totalScrollDistance = 0;
+    this.lastScrollY = window.scrollY;
+    this.textSelections = [];
+    this.selectionCount = 0;
+    this.focusedSections.clear();
+    this.reportedSections.clear();
+    this.currentSection = null;
+    this.sectionStartTime = 0;
+    this.intersectionObserver?.disconnect();
+    this.intersectionObserver = null;
+
+    this.startVisit();
+  }
+
+  /**
+   * Plain anchors (#section) stay on the same virtual page; hash routes
+   * (#/path, #inbox/123) don't
+   */
+  private getRouteKey(href: string): string {
+    try {
+      const url = new URL(href);
+      const hash = url.hash.replace(/^#!?/, "");
+      const isHashRoute = hash.includes("/");
+      return `${url.origin}${url.pathname}${url.search}${
+        isHashRoute ? url.hash : ""
+      }`;
+    } catch {
+      return href;
+    }
   }
 
   private setupSectionTracking() {
@@ -112,6 +292,7 @@ class PageTracker {
 
     this.currentSection = heading;
     this.sectionStartTime = Date.now();
+    this.sectionStartActive = this.getVisitActiveTime();
 
     if (!this.focusedSections.has(heading)) {
       this.focusedSections.set(heading, {
@@ -129,7 +310,7 @@ class PageTracker {
 
     const section = this.focusedSections.get(heading);
     if (section) {
-      section.timeSpent += Date.now() - this.sectionStartTime;
+      section.timeSpent += this.getVisitActiveTime() - this.sectionStartActive;
       section.scrollEnd = this.getScrollPercentage();
     }
 
@@ -137,6 +318,19 @@ class PageTracker {
     this.sectionStartTime = 0;
   }
 
+  // Bank time in the current section without leaving it (mid-visit reports)
+  private checkpointCurrentSection() {
+    if (!this.currentSection || !this.sectionStartTime) return;
+
+    const section = this.focusedSections.get(this.currentSection);
+    if (section) {
+      const activeTime = this.getVisitActiveTime();
+      section.timeSpent += activeTime - this.sectionStartActive;
+      section.scrollEnd = this.getScrollPercentage();
+      this.sectionStartActive = activeTime;
+    }
+  }
+
   private finalizeCurrentSection() {
     if (this.currentSection) {
       this.leaveSection(this.currentSection);
@@ -148,10 +342,74 @@ class PageTracker {
       clearInterval(this.intervalId);
       this.intervalId = null;
     }
+    this.visitTimers.forEach((id) => clearTimeout(id));
+    this.visitTimers = [];
+    this.intersectionObserver?.disconnect();
     this.contextValid = false;
   }
 
+  private handleInput() {
+    this.lastInputAt = Date.now();
+    if (this.activityState === "idle") {
+      this.updateActivityState();
+    }
+  }
+
+  private detectActivityState(now: number): ActivityState {
+    if (document.visibilityState !== "visible" || !document.hasFocus()) {
+      return "background";
+    }
+    if (now - this.lastInputAt > IDLE_THRESHOLD_MS && !this.isMediaPlaying()) {
+      return "idle";
+    }
+    return "active";
+  }
+
+  // Watching a video or listening to audio is attention without input
+  private isMediaPlaying(): boolean {
+    return Array.from(
+      document.querySelectorAll<HTMLMediaElement>("video, audio")
+    ).some((media) => !media.paused && !media.ended && media.readyState > 2);
+  }
+
+  /**
+   * Bank elapsed time into the current state, then switch if needed
+   */
+  private updateActivityState() {
+    const now = Date.now();
+    const next = this.detectActivityState(now);
+
+    if (this.activityState === "active" && next === "idle") {
+      // Idle began when the threshold passed, not when the tick noticed
+      const idleSince = Math.max(
+        this.activitySince,
+        Math.min(now, this.lastInputAt + IDLE_THRESHOLD_MS)
+      );
+      this.bankActivity(idleSince);
+    } else {
+      this.bankActivity(now);
+    }
+
+    this.activityState = next;
+  }
+
+  private bankActivity(until: number) {
+    const elapsed = Math.max(0, until - this.activitySince);
+    this.dwell[this.activityState] += elapsed;
+    if (this.activityState === "active") {
+      this.visitActiveTime += elapsed;
+    }
+    this.activitySince = until;
+  }
+
+  private getVisitActiveTime(): number {
+    return this.activityState === "active"
+      ? this.visitActiveTime + (Date.now() - this.activitySince)
+      : this.visitActiveTime;
+  }
+
   private handleScroll() {
+    this.handleInput();
     const scrollY = window.scrollY;
     this.maxScrollY = Math.max(this.maxScrollY, scrollY);
     this.totalScrollDistance += Math.abs(scrollY - this.lastScrollY);
@@ -193,6 +451,7 @@ class PageTracker {
       }
     }
 
+    this.selectionCount++;
     this.textSelections.push({
       text: text.substring(0, 200), // Limit length
       length: text.length,
@@ -211,9 +470,9 @@ class PageTracker {
   }
 
   private calculateEngagementScore(): number {
-    const dwellTime = Date.now() - this.startTime;
+    const dwellTime = this.getVisitActiveTime();
     const scrollDepth = this.getScrollPercentage();
-    const selections = this.textSelections.length;
+    const selections = this.selectionCount;
 
     // Scoring components
     const dwellScore = Math.min(dwellTime / 60000, 1); // Max at 1 minute
@@ -227,13 +486,97 @@ class PageTracker {
     return Math.min(Math.max(engagement, 0), 1);
   }
 
+  private takeSnapshot(): PageSnapshot {
+    // Collect rich metadata for AI
+    const bodyText = document.body?.textContent?.trim() || "";
+    const title = document.title.toLowerCase();
+    const extracted =
+      this.captureMode === "full" ? this.extractContent() : null;
+
+    return {
+      url: this.url,
+      title: document.title,
+      content: extracted?.content ?? null,
+      contentSections: extracted?.sections,
+      structuredData:
+        this.captureMode === "full"
+          ? extractStructuredData(document)
+          : undefined,
+      contentSize:
+        this.captureMode === "full"
+          ? document.documentElement.innerHTML.length
+          : 0,
+      metadata: {
+        domain: window.location.hostname,
+        lang: document.documentElement.lang || "en",
+        referrer: this.referrer,
+
+        // Rich metadata for AI inference
+        canonical:
+          document
+            .querySelector('link[rel="canonical"]')
+            ?.getAttribute("href") || undefined,
+        description:
+          document
+            .querySelector('meta[name="description"]')
+            ?.getAttribute("content") || undefined,
+        keywords:
+          document
+            .querySelector('meta[name="keywords"]')
+            ?.getAttribute("content") || undefined,
+        ogTitle:
+          document
+            .querySelector('meta[property="og:title"]')
+            ?.getAttribute("content") || undefined,
+        ogDescription:
+          document
+            .querySelector('meta[property="og:description"]')
+            ?.getAttribute("content") || undefined,
+        ogType:
+          document
+            .querySelector('meta[property="og:type"]')
+            ?.getAttribute("content") || undefined,
+
+        // Page characteristics (observations for AI)
+        titleContains404: title.includes("404") || title.includes("not found"),
+        titleContainsError: title.includes("error"),
+        bodyTextLength: bodyText.length,
+        hasNavigation: !!document.querySelector("nav"),
+        headingCount: document.querySelectorAll("h1,h2,h3,h4,h5,h6").length,
+        linkCount: document.querySelectorAll("a").length,
+        contentExtraction: extracted?.extraction,
+      },
+    };
+  }
+
+  /**
+   * Section time and selections not yet reported, for sections that have
+   * reached 5+ seconds over the whole virtual page
+   */
+  private getUnreportedSections(): FocusedSection[] {
+    return Array.from(this.focusedSections.values())
+      .filter((s) => s.timeSpent > 5000)
+      .map((s) => {
+        const reported = this.reportedSections.get(s.heading);
+        return {
+          ...s,
+          timeSpent: s.timeSpent - (reported?.timeSpent || 0),
+          textSelections: s.textSelections - (reported?.textSelections || 0),
+        };
+      })
+      .filter((s) => s.timeSpent > 0 || s.textSelections > 0)
+      .sort((a, b) => b.timeSpent - a.timeSpent); // Sort by time spent
+  }
+
   private sendData() {
     // Quick check if we've already detected invalid context
-    if (!this.contextValid) {
+    if (!this.contextValid || !this.snapshot) {
       return;
     }
 
-    // NO FILTERING - Track ALL pages and let AI decide their value
+    // Capture rules decide what leaves the page: excluded pages have no
+    // snapshot, metadata-only pages send no text (selections, headings)
+    const textAllowed = this.captureMode === "full";
 
     // Wrap entire function to catch context invalidation errors
     try {
@@ -244,72 +587,26 @@ class PageTracker {
         return;
       }
 
-      const dwellTime = Date.now() - this.startTime;
-      const scrollDepth = this.getScrollPercentage();
+      this.updateActivityState();
 
+      // Deltas since the last report, except scroll depth/position and
+      // engagement which describe the virtual page as a whole
+      const sentSections = textAllowed ? this.getUnreportedSections() : [];
       const interactions: PageInteractions = {
-        dwellTime,
-        scrollDepth,
+        dwellTime: this.dwell.active,
+        dwellBreakdown: { ...this.dwell },
+        scrollDepth: this.getScrollPercentage(),
         scrollPosition: window.scrollY,
         totalScrollDistance: this.totalScrollDistance,
-        textSelections: this.textSelections,
+        textSelections: textAllowed ? this.textSelections : [],
         engagementScore: this.calculateEngagementScore(),
-        focusedSections: Array.from(this.focusedSections.values())
-          .filter((s) => s.timeSpent > 5000) // Only sections with 5+ seconds
-          .sort((a, b) => b.timeSpent - a.timeSpent) // Sort by time spent
-          .slice(0, 5), // Top 5 sections
+        focusedSections: sentSections,
       };
 
-      // Collect rich metadata for AI
-      const bodyText = document.body?.textContent?.trim() || "";
-      const title = document.title.toLowerCase();
-
       const pageData: Partial<PageData> = {
-        url: window.location.href,
-        title: document.title,
+        ...this.snapshot,
         timestamp: this.startTime,
-        content: this.extractContent(),
-        contentSize: document.documentElement.innerHTML.length,
-        metadata: {
-          domain: window.location.hostname,
-          lang: document.documentElement.lang || "en",
-          referrer: document.referrer,
-
-          // Rich metadata for AI inference
-          canonical:
-            document
-              .querySelector('link[rel="canonical"]')
-              ?.getAttribute("href") || undefined,
-          description:
-            document
-              .querySelector('meta[name="description"]')
-              ?.getAttribute("content") || undefined,
-          keywords:
-            document
-              .querySelector('meta[name="keywords"]')
-              ?.getAttribute("content") || undefined,
-          ogTitle:
-            document
-              .querySelector('meta[property="og:title"]')
-              ?.getAttribute("content") || undefined,
-          ogDescription:
-            document
-              .querySelector('meta[property="og:description"]')
-              ?.getAttribute("content") || undefined,
-          ogType:
-            document
-              .querySelector('meta[property="og:type"]')
-              ?.getAttribute("content") || undefined,
-
-          // Page characteristics (observations for AI)
-          titleContains404:
-            title.includes("404") || title.includes("not found"),
-          titleContainsError: title.includes("error"),
-          bodyTextLength: bodyText.length,
-          hasNavigation: !!document.querySelector("nav"),
-          headingCount: document.querySelectorAll("h1,h2,h3,h4,h5,h6").length,
-          linkCount: document.querySelectorAll("a").length,
-        },
+        visitIds: [this.visitId],
         interactions,
       };
 
@@ -334,6 +631,16 @@ class PageTracker {
           }
         }
       );
+
+      // Next report only carries what happens from here on
+      this.dwell = { active: 0, background: 0, idle: 0 };
+      this.totalScrollDistance = 0;
+      this.textSelections = [];
+      // Only sections that were sent; those still under 5s keep their time
+      sentSections.forEach((sent) => {
+        const section = this.focusedSections.get(sent.heading);
+        if (section) this.reportedSections.set(sent.heading, { ...section });
+      });
     } catch (error) {
       // Extension context invalidated or other error
       if (error instanceof Error) {
@@ -347,7 +654,30 @@ class PageTracker {
     }
   }
 
-  private extractContent(): string {
+  private extractContent(): {
+    content: string;
+    sections?: ContentSection[];
+    extraction: ContentExtraction;
+  } {
+    const main = extractMainContent(document);
+    if (main) return main;
+
+    const content = this.extractBodyText();
+    return {
+      content,
+      extraction: {
+        method: "fallback",
+        mainTextLength: content.length,
+        boilerplateTextLength: 0,
+      },
+    };
+  }
+
+  /**
+   * Fallback for pages the main-content extractor finds too little on (apps,
+   * landing pages): whole body text, enriched with metadata when sparse
+   */
+  private extractBodyText(): string {
     // Extract main content, stripping scripts and styles
     const clone = document.body.cloneNode(true) as HTMLElement;
     clone
@@ -0,0 +1,331 @@
+import type { StructuredDataItem } from "@/types/page";
+
+/**
+ * schema.org structured data (JSON-LD and microdata)
+ *
+ * Both formats are read into plain JSON-LD-like nodes first, then normalized
+ * into the typed items Bryn understands. Types outside the supported kinds
+ * (WebSite, BreadcrumbList, Organization on its own...) are skipped.
+ */
+
+type Node = Record<string, unknown>;
+
+const MAX_ITEMS = 10;
+const MAX_INGREDIENTS = 30;
+const MAX_TEXT = 500;
+
+const KIND_BY_TYPE: Record<string, StructuredDataItem["kind"]> = {
+  Product: "product",
+  ProductGroup: "product",
+  IndividualProduct: "product",
+  ProductModel: "product",
+  Article: "article",
+  NewsArticle: "article",
+  BlogPosting: "article",
+  TechArticle: "article",
+  ScholarlyArticle: "article",
+  Report: "article",
+  AnalysisNewsArticle: "article",
+  Recipe: "recipe",
+  Course: "course",
+  SoftwareApplication: "software",
+  MobileApplication: "software",
+  WebApplication: "software",
+  VideoGame: "software",
+};
+
+export function extractStructuredData(doc: Document): StructuredDataItem[] {
+  const nodes: { node: Node; source: StructuredDataItem["source"] }[] = [
+    ...readJsonLd(doc).map((node) => ({ node, source: "json-ld" as const })),
+    ...readMicrodata(doc).map((node) => ({
+      node,
+      source: "microdata" as const,
+    })),
+  ];
+
+  const items: StructuredDataItem[] = [];
+  const seen = new Set<string>();
+
+  for (const { node, source } of nodes) {
+    const item = normalize(node, source);
+    if (!item) continue;
+
+    // Pages often ship the same entity in both formats
+    const key = `${item.kind}:${(item.name || "").toLowerCase()}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    items.push(item);
+    if (items.length >= MAX_ITEMS) break;
+  }
+
+  return items;
+}
+
+function readJsonLd(doc: Document): Node[] {
+  const nodes: Node[] = [];
+
+  doc
+    .querySelectorAll('script[type="application/ld+json"]')
+    .forEach((script) => {
+      try {
+        collectNodes(JSON.parse(script.textContent || ""), nodes);
+      } catch {
+        // Malformed JSON-LD is common - skip the block
+      }
+    });
+
+  return nodes;
+}
+
+function collectNodes(value: unknown, into: Node[]) {
+  if (Array.isArray(value)) {
+    value.forEach((v) => collectNodes(v, into));
+  } else if (isNode(value)) {
+    if (Array.isArray(value["@graph"])) {
+      collectNodes(value["@graph"], into);
+    }
+    if (value["@type"]) into.push(value);
+    // WebPage.mainEntity often holds the Product/Article itself
+    if (isNode(value.mainEntity)) collectNodes(value.mainEntity, into);
+  }
+}
+
+/**
+ * Top-level itemscopes as JSON-LD-shaped nodes
+ */
+function readMicrodata(doc: Document): Node[] {
+  return Array.from(doc.querySelectorAll<HTMLElement>("[itemscope][itemtype]"))
+    .filter((el) => !el.parentElement?.closest("[itemscope]"))
+    .map((el) => readItem(el, 0));
+}
+
+function readItem(scope: HTMLElement, depth: number): Node {
+  const node: Node = {
+    "@type": (scope.getAttribute("itemtype") || "")
+      .split(/\s+/)[0]
+      .split("/")
+      .pop(),
+  };
+
+  scope.querySelectorAll<HTMLElement>("[itemprop]").forEach((el) => {
+    // Only direct properties, not those of nested items
+    const owner = el.parentElement?.closest("[itemscope]");
+    if (owner !== scope) return;
+
+    const value =
+      el.hasAttribute("itemscope") && depth < 3
+        ? readItem(el, depth + 1)
+        : readPropertyValue(el);
+
+    for (const prop of (el.getAttribute("itemprop") || "").split(/\s+/)) {
+      if (!prop) continue;
+      const existing = node[prop];
+      node[prop] =
+        existing === undefined
+          ? value
+          : Array.isArray(existing)
+            ? [...existing, value]
+            : [existing, value];
+    }
+  });
+
+  return node;
+}
+
+function readPropertyValue(el: HTMLElement): string {
+  const attr =
+    el.getAttribute("content") ??
+    (el.matches("a, link") ? el.getAttribute("href") : null) ??
+    (el.matches("img, audio, video, source") ? el.getAttribute("src") : null) ??
+    (el.matches("time") ? el.getAttribute("datetime") : null) ??
+    (el.matches("data, meter") ? el.getAttribute("value") : null);
+
+  return (attr ?? el.textContent ?? "").replace(/\s+/g, " ").trim();
+}
+
+function normalize(
+  node: Node,
+  source: StructuredDataItem["source"]
+): StructuredDataItem | null {
+  const types = toArray(node["@type"]).map(typeName);
+  const schemaType = types.find((t) => getKind(t)) || "";
+  const kind = getKind(schemaType);
+  if (!kind) return null;
+
+  const base = {
+    schemaType,
+    source,
+    name: text(node.name) || text(node.headline),
+    description: text(node.description),
+    url: text(node.url),
+  };
+
+  const rating = number(field(node.aggregateRating, "ratingValue"));
+
+  switch (kind) {
+    case "product": {
+      const offer = firstOffer(node.offers);
+      return {
+        ...base,
+        kind,
+        brand: text(node.brand) || text(node.manufacturer),
+        sku: text(node.sku) || text(node.gtin13) || text(node.mpn),
+        price: offer.price,
+        priceCurrency: offer.currency,
+        availability: offer.availability,
+        rating,
+        reviewCount:
+          number(field(node.aggregateRating, "reviewCount")) ??
+          number(field(node.aggregateRating, "ratingCount")),
+      };
+    }
+    case "article":
+      return {
+        ...base,
+        kind,
+        authors: names(node.author),
+        publisher: text(node.publisher),
+        datePublished: text(node.datePublished),
+        dateModified: text(node.dateModified),
+        section: text(node.articleSection),
+      };
+    case "recipe":
+      return {
+        ...base,
+        kind,
+        authors: names(node.author),
+        ingredients: toArray(node.recipeIngredient ?? node.ingredients)
+          .map((i) => text(i))
+          .filter((i): i is string => Boolean(i))
+          .slice(0, MAX_INGREDIENTS),
+        cuisine: text(node.recipeCuisine),
+        totalTime: text(node.totalTime),
+        rating,
+      };
+    case "course":
+      return {
+        ...base,
+        kind,
+        provider: text(node.provider),
+      };
+    case "event":
+      return {
+        ...base,
+        kind,
+        startDate: text(node.startDate),
+        endDate: text(node.endDate),
+        location: describeLocation(node.location),
+        organizer: text(node.organizer),
+      };
+    case "software": {
+      const offer = firstOffer(node.offers);
+      return {
+        ...base,
+        kind,
+        category: text(node.applicationCategory),
+        operatingSystem: text(node.operatingSystem),
+        publisher: text(node.publisher) || text(node.author),
+        price: offer.price,
+        priceCurrency: offer.currency,
+        rating,
+      };
+    }
+  }
+}
+
+/**
+ * Schema.org type without its IRI ("http://schema.org/Product" -> "Product"),
+ * as readItem does for microdata
+ */
+function typeName(value: unknown): string {
+  return String(value).split("/").pop() || "";
+}
+
+function getKind(type: string): StructuredDataItem["kind"] | undefined {
+  if (KIND_BY_TYPE[type]) return KIND_BY_TYPE[type];
+  // MusicEvent, BusinessEvent, EducationEvent...
+  if (type.endsWith("Event")) return "event";
+  return undefined;
+}
+
+function firstOffer(value: unknown): {
+  price?: number;
+  currency?: string;
+  availability?: string;
+} {
+  const offer = toArray(value).find(isNode);
+  if (!offer) return {};
+
+  return {
+    // AggregateOffer only has a range
+    price: number(offer.price) ?? number(offer.lowPrice),
+    currency: text(offer.priceCurrency),
+    availability: text(offer.availability)?.split("/").pop(),
+  };
+}
+
+function describeLocation(value: unknown): string | undefined {
+  const location = toArray(value)[0];
+  if (!isNode(location)) return text(location);
+  if (typeName(location["@type"]) === "VirtualLocation") return "Online";
+
+  const address = location.address;
+  const locality = isNode(address)
+    ? [text(address.addressLocality), text(address.addressCountry)]
+        .filter(Boolean)
+        .join(", ")
+    : text(address);
+
+  return (
+    [text(location.name), locality].filter(Boolean).join(" - ") || undefined
+  );
+}
+
+/**
+ * Plain text of a value: strings as-is, things by their name
+ */
+function text(value: unknown): string | undefined {
+  const first = toArray(value)[0];
+  if (typeof first === "string" || typeof first === "number") {
+    const str = String(first).replace(/\s+/g, " ").trim();
+    return str ? str.substring(0, MAX_TEXT) : undefined;
+  }
+  if (isNode(first)) {
+    return text(first.name) ?? text(first["@value"]);
+  }
+  return undefined;
+}
+
+function names(value: unknown): string[] {
+  return toArray(value)
+    .map((v) => text(v))
+    .filter((v): v is string => Boolean(v));
+}
+
+function number(value: unknown): number | undefined {
+  const str = text(value);
+  if (!str) return undefined;
+  // "1,299.00" and "1,299" -> thousands separator, "12,99" -> decimal comma
+  const cleaned = str.replace(/[^0-9.,-]/g, "");
+  const parsed = parseFloat(
+    cleaned.includes(".") || /,\d{3}(?!\d)/.test(cleaned)
+      ? cleaned.replace(/,/g, "")
+      : cleaned.replace(",", ".")
+  );
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function field(value: unknown, key: string): unknown {
+  const node = toArray(value)[0];
+  return isNode(node) ? node[key] : undefined;
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function isNode(value: unknown): value is Node {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
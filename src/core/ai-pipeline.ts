@@ -1,9 +1,16 @@
 import type {
+  ContentSection,
   PageData,
+  PageInteractions,
   SemanticFeatures,
   BehavioralClassification,
   UserBehavior,
 } from "@/types/page";
+import {
+  describeStructuredData,
+  getStructuredEntities,
+  mergeEntities,
+} from "./structured-data";
 
 /**
  * Clean AI response to extract JSON
@@ -28,6 +35,34 @@ function cleanJSONResponse(response: string): string {
   return cleaned.trim();
 }
 
+/**
+ * Fit page sections into a character budget, giving every section a share
+ * (a plain prefix would only ever show the first few). Labelled output tags
+ * sections [S1], [S2]... so the model can point at them.
+ */
+function formatSectionsForPrompt(
+  sections: ContentSection[],
+  budget: number,
+  labelled: boolean
+): string {
+  const perSection = Math.max(Math.floor(budget / sections.length), 150);
+  const parts: string[] = [];
+  let used = 0;
+
+  sections.forEach((section, idx) => {
+    if (used >= budget) return;
+    const label = labelled ? `[S${idx + 1}] ` : "";
+    const heading = section.heading
+      ? `${"#".repeat(section.level)} ${section.heading}\n`
+      : "";
+    const part = `${label}${heading}${section.text.substring(0, perSection)}`;
+    parts.push(part);
+    used += part.length;
+  });
+
+  return parts.join("\n\n").substring(0, budget);
+}
+
 // Following official Chrome extension examples - using LanguageModel directly as global
 class AIPipeline {
   // Session instances (reused for performance)
@@ -295,8 +330,26 @@ class AIPipeline {
     const session = await this.getSession();
 
     try {
-      const content = pageData.contentSummary || pageData.content || "";
-      const truncated = content.substring(0, 2000);
+      const sections = pageData.contentSections || [];
+      const content = pageData.contentSummary
+        ? pageData.contentSummary.substring(0, 2000)
+        : sections.length > 0
+          ? formatSectionsForPrompt(sections, 2000, true)
+          : (pageData.content || "").substring(0, 2000);
+      // After summarization only the outline is left to point at
+      const outline =
+        pageData.contentSummary && sections.length > 0
+          ? `\nSECTIONS: ${sections
+              .map((s, idx) => `[S${idx + 1}] ${s.heading || "(intro)"}`)
+              .join(" | ")}`
+          : "";
+      const structuredLines = describeStructuredData(pageData.structuredData);
+      const structured =
+        structuredLines.length > 0
+          ? `\nSTRUCTURED DATA (exact values declared by the page - copy names as-is, don't re-guess them):\n${structuredLines.join(
+              "\n"
+            )}\n`
+          : "";
 
       const prompt = `Analyze this web page and extract semantic features.
 
@@ -317,7 +370,7 @@ IS_ERROR_PAGE: ${
           : "no"
       }
 CONTENT_LENGTH: ${pageData.metadata.bodyTextLength} characters
-CONTENT: ${truncated}
+CONTENT: ${content}${outline}
 
 METADATA:
 - Description: ${pageData.metadata.description || "none"}
@@ -325,11 +378,11 @@ METADATA:
 - OG Title: ${pageData.metadata.ogTitle || "none"}
 - Headings: ${pageData.metadata.headingCount}
 - Links: ${pageData.metadata.linkCount}
-
+${structured}
 USER ENGAGEMENT:
 - Engagement Score: ${Math.round(pageData.interactions.engagementScore * 100)}%
 - Scroll Depth: ${pageData.interactions.scrollDepth}%
-- Dwell Time: ${Math.round(pageData.interactions.dwellTime / 1000)}s
+- Dwell Time: ${this.describeDwell(pageData.interactions)}
 - Text Selections: ${pageData.interactions.textSelections.length}
 
 ANALYSIS INSTRUCTIONS:
@@ -338,6 +391,8 @@ ANALYSIS INSTRUCTIONS:
 3. Be specific in concepts (actual keywords from content/metadata)
 4. Explain your reasoning in evidence array
 5. If error page: Note it but identify what user was trying to find
+6. If sections are tagged [S1], [S2]...: cite them in evidence and list the
+   sections carrying the page's main point in keySections (numbers only)
 
 Extract and return ONLY valid JSON:
 {
@@ -360,7 +415,8 @@ Extract and return ONLY valid JSON:
     "goal": "specific user goal inferred from all signals"
   },
   "contentType": "article|search|product|video|documentation|error|redirect",
-  "sentiment": "informational|transactional|navigational"
+  "sentiment": "informational|transactional|navigational",
+  "keySections": [1, 3]
 }`;
 
       const response = await session.prompt(prompt);
@@ -371,13 +427,11 @@ Extract and return ONLY valid JSON:
 
       const features = {
         concepts: parsed.concepts || [],
-        entities: parsed.entities || {
-          people: [],
-          places: [],
-          organizations: [],
-          products: [],
-          topics: [],
-        },
+        // Page-declared entities win over the model's reading of the text
+        entities: mergeEntities(
+          getStructuredEntities(pageData.structuredData),
+          parsed.entities
+        ),
         intentSignals: parsed.intentSignals || {
           primaryAction: "browsing",
           confidence: 0.5,
@@ -386,6 +440,7 @@ Extract and return ONLY valid JSON:
         },
         contentType: parsed.contentType || "article",
         sentiment: parsed.sentiment || "informational",
+        keySections: this.parseKeySections(parsed.keySections, sections),
       };
 
       return {
@@ -522,7 +577,10 @@ Return ONLY valid JSON:
   /**
    * Summarize page content with debug info
    */
-  async summarizePageWithDebug(content: string): Promise<{
+  async summarizePageWithDebug(
+    content: string,
+    sections?: ContentSection[]
+  ): Promise<{
     summary: string;
     debug: { inputLength: number; outputLength: number };
   }> {
@@ -531,8 +589,11 @@ Return ONLY valid JSON:
     const summarizer = await this.getSummarizer();
 
     try {
-      // Truncate to max context size (~4000 chars)
-      const truncated = content.substring(0, 4000);
+      // Truncate to max context size (~4000 chars), sampling every section
+      const truncated =
+        sections && sections.length > 0
+          ? formatSectionsForPrompt(sections, 4000, false)
+          : content.substring(0, 4000);
       const summary = await summarizer.summarize(truncated);
 
       return {
@@ -556,6 +617,36 @@ Return ONLY valid JSON:
     return result.summary;
   }
 
+  /**
+   * [S#] numbers from the model -> valid 0-based section indices
+   */
+  private parseKeySections(
+    value: unknown,
+    sections: ContentSection[]
+  ): number[] | undefined {
+    if (!Array.isArray(value) || sections.length === 0) return undefined;
+
+    const indices = value
+      .map((n) => Number(String(n).replace(/^S/i, "")) - 1)
+      .filter(
+        (idx) => Number.isInteger(idx) && idx >= 0 && idx < sections.length
+      );
+    return indices.length > 0 ? [...new Set(indices)] : undefined;
+  }
+
+  /**
+   * Active dwell, plus time the page sat in the background or idle
+   */
+  private describeDwell(interactions: PageInteractions): string {
+    const active = `${Math.round(interactions.dwellTime / 1000)}s`;
+    const breakdown = interactions.dwellBreakdown;
+    if (!breakdown) return active;
+
+    return `${active} active (${Math.round(
+      breakdown.background / 1000
+    )}s in background, ${Math.round(breakdown.idle / 1000)}s idle)`;
+  }
+
   /**
    * Classify user behavior on page based on interaction patterns
    */
@@ -572,7 +663,7 @@ PAGE INFO:
 - Content Type: ${page.semanticFeatures?.contentType || "unknown"}
 
 INTERACTION SIGNALS:
-- Dwell Time: ${Math.round(page.interactions.dwellTime / 1000)}s
+- Dwell Time: ${this.describeDwell(page.interactions)}
 - Scroll Depth: ${page.interactions.scrollDepth}%
 - Total Scroll Distance: ${page.interactions.totalScrollDistance}px
 - Text Selections: ${page.interactions.textSelections.length}
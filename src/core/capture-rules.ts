@@ -0,0 +1,441 @@
+/**
+ * Capture Rules - Privacy exclusions for what Bryn stores
+ *
+ * Every URL resolves to a capture mode before anything is saved:
+ * - "ignore": nothing is stored (page tracker stays silent, service worker drops it)
+ * - "metadata_only": URL, title and timings are kept, page text is not
+ * - "full": normal capture
+ *
+ * Rules come from the user's list plus built-in sensitive categories (on by
+ * default). When several rules match, "ignore" wins over "metadata_only".
+ */
+
+import { storage } from "./storage-manager";
+import { processingQueue } from "./processing-queue";
+import type { PageData } from "@/types/page";
+import type {
+  CaptureMode,
+  CaptureRule,
+  SensitiveCategory,
+  UserSettings,
+} from "@/types/settings";
+
+export type CaptureRuleInput = Pick<CaptureRule, "type" | "pattern" | "mode">;
+
+export interface PurgeResult {
+  pagesDeleted: number;
+  pagesStripped: number;
+  tasksRemoved: number;
+  intentsDeleted: number;
+}
+
+const domainRules = (
+  domains: string[],
+  mode: CaptureRule["mode"] = "ignore"
+): CaptureRuleInput[] =>
+  domains.map((pattern) => ({ type: "domain", pattern, mode }));
+
+export const SENSITIVE_CATEGORIES: Record<
+  SensitiveCategory,
+  { label: string; description: string; rules: CaptureRuleInput[] }
+> = {
+  banking: {
+    label: "Banking & finance",
+    description: "Banks, credit unions, brokerages, payment apps",
+    rules: [
+      {
+        type: "regex",
+        pattern: "^https?://[^/]*(bank|banking|creditunion|credit-union)[^/]*/",
+        mode: "ignore",
+      },
+      ...domainRules([
+        "paypal.com",
+        "venmo.com",
+        "wise.com",
+        "revolut.com",
+        "monzo.com",
+        "chase.com",
+        "wellsfargo.com",
+        "citi.com",
+        "capitalone.com",
+        "americanexpress.com",
+        "discover.com",
+        "schwab.com",
+        "fidelity.com",
+        "vanguard.com",
+        "robinhood.com",
+        "hsbc.com",
+        "barclays.co.uk",
+      ]),
+    ],
+  },
+  health: {
+    label: "Health portals",
+    description: "Patient portals and medical records",
+    rules: [
+      {
+        type: "regex",
+        pattern: "^https?://[^/]*(mychart|patient|healthportal|health-portal)",
+        mode: "ignore",
+      },
+      ...domainRules([
+        "followmyhealth.com",
+        "healow.com",
+        "kp.org",
+        "onemedical.com",
+        "zocdoc.com",
+      ]),
+    ],
+  },
+  webmail: {
+    label: "Webmail",
+    description: "Inboxes and messages",
+    rules: [
+      ...domainRules([
+        "mail.google.com",
+        "outlook.live.com",
+        "outlook.office.com",
+        "outlook.office365.com",
+        "mail.yahoo.com",
+        "mail.proton.me",
+        "mail.aol.com",
+        "mail.zoho.com",
+        "fastmail.com",
+      ]),
+      { type: "glob", pattern: "https://www.icloud.com/mail*", mode: "ignore" },
+    ],
+  },
+  auth_payment: {
+    label: "Sign-in & payment pages",
+    description: "Login, password reset, checkout and billing flows",
+    rules: [
+      {
+        type: "regex",
+        pattern:
+          "^https?://[^?#]*/(log-?in|sign-?in|sign-?up|oauth2?|sso|password|reset-password|2fa|mfa)([/?#.]|$)",
+        mode: "ignore",
+      },
+      {
+        type: "regex",
+        pattern:
+          "^https?://[^?#]*/(checkout|payment|payments|billing|wallet)([/?#.]|$)",
+        mode: "ignore",
+      },
+      ...domainRules([
+        "accounts.google.com",
+        "login.microsoftonline.com",
+        "login.live.com",
+        "appleid.apple.com",
+        "checkout.stripe.com",
+      ]),
+    ],
+  },
+  internal: {
+    label: "Internal & local tools",
+    description: "localhost, private network addresses, .internal/.corp hosts",
+    rules: [
+      {
+        type: "regex",
+        pattern:
+          "^https?://(localhost|127\\.|10\\.|192\\.168\\.|172\\.(1[6-9]|2\\d|3[01])\\.)",
+        mode: "ignore",
+      },
+      {
+        type: "regex",
+        pattern:
+          "^https?://[^/?#]+\\.(internal|corp|local|lan|intranet)(:\\d+)?([/?#]|$)",
+        mode: "ignore",
+      },
+    ],
+  },
+};
+
+/**
+ * Whether a single rule matches a URL
+ *
+ * domain: the host or any subdomain of it
+ * glob:   `*` / `?` wildcards against the full URL
+ * regex:  case-insensitive against the full URL
+ */
+export function ruleMatchesUrl(rule: CaptureRuleInput, url: string): boolean {
+  const pattern = rule.pattern.trim();
+  if (!pattern) return false;
+
+  try {
+    switch (rule.type) {
+      case "domain": {
+        const host = new URL(url).hostname.toLowerCase();
+        const domain = pattern.toLowerCase().replace(/^\*?\./, "");
+        return host === domain || host.endsWith(`.${domain}`);
+      }
+      case "glob":
+        return globToRegExp(pattern).test(url);
+      case "regex":
+        return new RegExp(pattern, "i").test(url);
+    }
+  } catch {
+    // Unparseable URL or pattern never matches
+    return false;
+  }
+}
+
+/**
+ * Reason a rule can't be saved, or null if it's valid
+ */
+export function validateCaptureRule(rule: CaptureRuleInput): string | null {
+  const pattern = rule.pattern.trim();
+  if (!pattern) return "Pattern is required";
+
+  if (rule.type === "domain" && /[/:\s]/.test(pattern)) {
+    return "Enter a bare domain like example.com";
+  }
+  if (rule.type === "regex") {
+    try {
+      new RegExp(pattern, "i");
+    } catch (error) {
+      return `Invalid regular expression: ${(error as Error).message}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Drop everything that carries page text (including the concepts, entities
+ * and embedding derived from it), keep URL/title/timings
+ */
+export function stripToMetadata(page: PageData): PageData {
+  return {
+    ...page,
+    content: null,
+    contentSummary: null,
+    contentSize: 0,
+    contentSections: undefined,
+    structuredData: undefined,
+    semanticFeatures: undefined,
+    embedding: undefined,
+    metadata: {
+      ...page.metadata,
+      description: undefined,
+      ogDescription: undefined,
+    },
+    interactions: {
+      ...page.interactions,
+      textSelections: [],
+      focusedSections: [],
+    },
+  };
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function resolveMode(url: string, rules: CaptureRuleInput[]): CaptureMode {
+  let mode: CaptureMode = "full";
+  for (const rule of rules) {
+    if (!ruleMatchesUrl(rule, url)) continue;
+    if (rule.mode === "ignore") return "ignore";
+    mode = "metadata_only";
+  }
+  return mode;
+}
+
+class CaptureRuleManager {
+  /**
+   * Capture mode for one URL
+   */
+  async getMode(url: string): Promise<CaptureMode> {
+    const resolve = await this.createResolver();
+    return resolve(url);
+  }
+
+  /**
+   * Resolver bound to the current settings - for checking many URLs at once
+   */
+  async createResolver(): Promise<(url: string) => CaptureMode> {
+    const rules = this.getActiveRules(await storage.getSettings());
+    return (url: string) => resolveMode(url, rules);
+  }
+
+  /**
+   * Add a user rule, optionally purging pages it would have excluded
+   */
+  async addRule(
+    input: CaptureRuleInput,
+    purge: boolean
+  ): Promise<{ rule: CaptureRule; purged?: PurgeResult }> {
+    const error = validateCaptureRule(input);
+    if (error) throw new Error(error);
+
+    const rule: CaptureRule = {
+      id: `rule-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type: input.type,
+      pattern: input.pattern.trim(),
+      mode: input.mode,
+      createdAt: Date.now(),
+    };
+
+    const settings = await storage.getSettings();
+    await storage.saveSettings({
+      ...settings,
+      captureRules: [...settings.captureRules, rule],
+    });
+
+    console.log(`CaptureRules: ✓ Added ${rule.type} rule (${rule.mode})`);
+
+    return { rule, purged: purge ? await this.purge([rule]) : undefined };
+  }
+
+  async removeRule(ruleId: string): Promise<void> {
+    const settings = await storage.getSettings();
+    await storage.saveSettings({
+      ...settings,
+      captureRules: settings.captureRules.filter((r) => r.id !== ruleId),
+    });
+  }
+
+  /**
+   * Toggle a built-in category; enabling can purge what it now covers
+   */
+  async setCategory(
+    category: SensitiveCategory,
+    enabled: boolean,
+    purge: boolean
+  ): Promise<PurgeResult | undefined> {
+    const settings = await storage.getSettings();
+    await storage.saveSettings({
+      ...settings,
+      sensitiveCategories: {
+        ...settings.sensitiveCategories,
+        [category]: enabled,
+      },
+    });
+
+    if (enabled && purge) {
+      return this.purge(SENSITIVE_CATEGORIES[category].rules);
+    }
+    return undefined;
+  }
+
+  /**
+   * Apply rules retroactively to stored pages
+   *
+   * "ignore" matches are deleted with their task records and removed from
+   * intents (intents left without pages are deleted). "metadata_only" matches
+   * lose their text and the task records that quoted it.
+   */
+  async purge(rules: CaptureRuleInput[]): Promise<PurgeResult> {
+    const result: PurgeResult = {
+      pagesDeleted: 0,
+      pagesStripped: 0,
+      tasksRemoved: 0,
+      intentsDeleted: 0,
+    };
+
+    const deleted = new Set<string>();
+    const stripped = new Set<string>();
+    const strippedPages: PageData[] = [];
+
+    for (const page of await storage.getAllPages()) {
+      const mode = resolveMode(page.url, rules);
+      if (mode === "ignore") {
+        await storage.deletePage(page.id);
+        deleted.add(page.id);
+      } else if (mode === "metadata_only") {
+        strippedPages.push(stripToMetadata(page));
+        stripped.add(page.id);
+      }
+    }
+
+    // Written as given (savePage would keep the stored semantic features),
+    // and re-indexed for search without the page's text
+    if (strippedPages.length > 0) {
+      await storage.replacePages(strippedPages);
+    }
+
+    result.pagesDeleted = deleted.size;
+    result.pagesStripped = stripped.size;
+    result.tasksRemoved =
+      (await processingQueue.removeTasksForPages(deleted)) +
+      (await processingQueue.removeTasksForPages(stripped, {
+        finishedOnly: true,
+      }));
+
+    if (deleted.size > 0) {
+      result.intentsDeleted = await this.detachPages(deleted);
+    }
+
+    console.log(
+      `CaptureRules: ✓ Purged ${result.pagesDeleted} pages, stripped ${result.pagesStripped}, removed ${result.tasksRemoved} tasks and ${result.intentsDeleted} empty intents`
+    );
+
+    return result;
+  }
+
+  private getActiveRules(settings: UserSettings): CaptureRuleInput[] {
+    const builtIn = (Object.keys(SENSITIVE_CATEGORIES) as SensitiveCategory[])
+      .filter((category) => settings.sensitiveCategories[category])
+      .flatMap((category) => SENSITIVE_CATEGORIES[category].rules);
+
+    return [...settings.captureRules, ...builtIn];
+  }
+
+  /**
+   * Remove deleted pages from their intents; returns empty intents deleted
+   */
+  private async detachPages(pageIds: Set<string>): Promise<number> {
+    const emptied: string[] = [];
+
+    for (const intent of await storage.getAllIntents()) {
+      if (!intent.pageIds.some((id) => pageIds.has(id))) continue;
+
+      intent.pageIds = intent.pageIds.filter((id) => !pageIds.has(id));
+      intent.pageCount = intent.pageIds.length;
+      // Timeline entries quote page titles
+      intent.timeline = intent.timeline.filter(
+        (event) => !event.pageId || !pageIds.has(event.pageId)
+      );
+
+      if (intent.pageCount === 0) {
+        emptied.push(intent.id);
+      } else {
+        await storage.saveIntent(intent);
+      }
+    }
+
+    if (emptied.length === 0) return 0;
+
+    const emptiedIds = new Set(emptied);
+    for (const nudge of await storage.getAllNudges()) {
+      if (emptiedIds.has(nudge.intentId)) {
+        await storage.deleteNudge(nudge.id);
+      }
+    }
+
+    for (const intentId of emptied) {
+      for (const relationship of await storage.getRelationshipsForIntent(
+        intentId
+      )) {
+        await storage.deleteRelationship(relationship.id);
+      }
+      await storage.deleteIntent(intentId);
+    }
+
+    for (const intent of await storage.getAllIntents()) {
+      if (!intent.relatedIntents.some((id) => emptiedIds.has(id))) continue;
+      intent.relatedIntents = intent.relatedIntents.filter(
+        (id) => !emptiedIds.has(id)
+      );
+      await storage.saveIntent(intent);
+    }
+
+    return emptied.length;
+  }
+}
+
+// Global singleton
+export const captureRules = new CaptureRuleManager();
@@ -1,5 +1,6 @@
 import type { Intent } from "@/types/intent";
 import type { PageData } from "@/types/page";
+import { DEFAULT_SETTINGS, type LifecycleSettings } from "@/types/settings";
 
 export interface CompletionResult {
   completed: boolean;
@@ -56,21 +57,9 @@ export async function detectIntentCompletion(
   }
 
   // Check 3: Extended dormancy after high-engagement
-  const daysSinceUpdate =
-    (Date.now() - intent.lastUpdated) / (24 * 60 * 60 * 1000);
-  const avgEngagement = intent.aggregatedSignals.patterns.avgEngagement;
-
-  if (daysSinceUpdate > 14 && avgEngagement > 0.7) {
-    return {
-      completed: true,
-      reason: "Extended dormancy after focused research",
-      confidence: 0.7,
-      evidence: [
-        `No activity for ${Math.round(daysSinceUpdate)} days`,
-        `High average engagement (${Math.round(avgEngagement * 100)}%)`,
-        "Likely research goal achieved",
-      ],
-    };
+  const dormancy = detectDormancyCompletion(intent);
+  if (dormancy.completed) {
+    return dormancy;
   }
 
   // Check 4: Completion keywords in recent pages
@@ -107,3 +96,39 @@ export async function detectIntentCompletion(
     evidence: [],
   };
 }
+
+/**
+ * Page-independent completion: focused research that has been left alone
+ * for `completeAfterDays`. Also run by the intent lifecycle service.
+ */
+export function detectDormancyCompletion(
+  intent: Intent,
+  thresholds: LifecycleSettings = DEFAULT_SETTINGS.lifecycle
+): CompletionResult {
+  const daysSinceUpdate =
+    (Date.now() - intent.lastUpdated) / (24 * 60 * 60 * 1000);
+  const avgEngagement = intent.aggregatedSignals.patterns.avgEngagement;
+
+  if (
+    daysSinceUpdate > thresholds.completeAfterDays &&
+    avgEngagement > thresholds.completeMinEngagement
+  ) {
+    return {
+      completed: true,
+      reason: "Extended dormancy after focused research",
+      confidence: 0.7,
+      evidence: [
+        `No activity for ${Math.round(daysSinceUpdate)} days`,
+        `High average engagement (${Math.round(avgEngagement * 100)}%)`,
+        "Likely research goal achieved",
+      ],
+    };
+  }
+
+  return {
+    completed: false,
+    reason: "Intent still active",
+    confidence: 1.0,
+    evidence: [],
+  };
+}
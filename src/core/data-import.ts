@@ -0,0 +1,659 @@
+/**
+ * Data Import - Restore from an EXPORT_ALL_DATA backup bundle
+ *
+ * 1. Parse and migrate: older bundle formats are upgraded one version at a
+ *    time to EXPORT_BUNDLE_VERSION, then records written at an older
+ *    schemaVersion go through the same steps as the database (db-migrations);
+ *    bundles from a newer Bryn are rejected
+ * 2. Validate: records missing the fields Bryn relies on are skipped (with a
+ *    warning), missing optional structures get defaults
+ * 3. Plan: "replace" restores the bundle as-is; "merge" skips pages already
+ *    stored, remaps colliding IDs and folds intents into stored intents with
+ *    the same label
+ * 4. Commit: one bulk write, then embeddings, intent signals and the
+ *    knowledge graph are rebuilt and unprocessed pages are queued
+ *
+ * preview() stops after step 3 so the UI can show counts before committing.
+ */
+
+import { storage } from "./storage-manager";
+import { processingQueue, IMPORT_LANE_PRIORITIES } from "./processing-queue";
+import { intentEngine } from "./intent-engine";
+import { knowledgeGraph } from "./knowledge-graph";
+import { createEmbedding } from "./semantic-similarity";
+import { emptyEntities } from "./structured-data";
+import { DB_VERSION, MIGRATED_STORES, upgradeRecords } from "./db-migrations";
+import type { Intent } from "@/types/intent";
+import type { Nudge } from "@/types/nudge";
+import type { PageData } from "@/types/page";
+import type { UserSettings } from "@/types/settings";
+import {
+  EXPORT_BUNDLE_VERSION,
+  type ExportBundle,
+  type ImportMode,
+  type ImportSummary,
+  type IntentRelationship,
+} from "@/types/storage";
+
+type RawBundle = Record<string, any>;
+
+interface ImportPlan {
+  summary: ImportSummary;
+  pages: PageData[];
+  intents: Intent[];
+  nudges: Nudge[];
+  relationships: IntentRelationship[];
+  settings: UserSettings | null;
+}
+
+/**
+ * BUNDLE_MIGRATIONS[n] turns a version-n bundle into version n + 1
+ */
+const BUNDLE_MIGRATIONS: Record<number, (bundle: RawBundle) => RawBundle> = {
+  // Unversioned files: an Intent Detail export ({ intent, pages }) or bare
+  // { pages, intents, ... } collections
+  0: (bundle) => ({
+    version: 1,
+    exportedAt:
+      typeof bundle.exportedAt === "string"
+        ? Date.parse(bundle.exportedAt) || 0
+        : bundle.exportedAt || 0,
+    exportedBy: "Bryn AI",
+    data: {
+      pages: bundle.pages,
+      intents: bundle.intent ? [bundle.intent] : bundle.intents,
+      nudges: bundle.nudges || [],
+      queueTasks: [],
+      settings: bundle.settings || null,
+      knowledgeGraph: null,
+      relationships: bundle.relationships || [],
+    },
+  }),
+  // Version 1 bundles were written before the migration registry, at DB v4
+  1: (bundle) => ({ ...bundle, version: 2, schemaVersion: 4 }),
+};
+
+const ACTIVE_NUDGE_STATUSES = new Set(["pending", "shown", "snoozed"]);
+
+function isRecord(value: unknown): value is RawBundle {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === "string" && value.length > 0;
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return "";
+  }
+}
+
+function normalizePage(value: unknown): PageData | null {
+  if (
+    !isRecord(value) ||
+    !isString(value.id) ||
+    !isString(value.url) ||
+    typeof value.timestamp !== "number"
+  ) {
+    return null;
+  }
+
+  return {
+    ...value,
+    title: isString(value.title) ? value.title : value.url,
+    content: value.content ?? null,
+    contentSummary: value.contentSummary ?? null,
+    contentSize: value.contentSize ?? 0,
+    metadata: {
+      domain: hostnameOf(value.url),
+      lang: "",
+      titleContains404: false,
+      titleContainsError: false,
+      bodyTextLength: 0,
+      hasNavigation: false,
+      headingCount: 0,
+      linkCount: 0,
+      ...value.metadata,
+    },
+    interactions: {
+      dwellTime: 0,
+      scrollDepth: 0,
+      scrollPosition: 0,
+      totalScrollDistance: 0,
+      textSelections: [],
+      engagementScore: 0,
+      ...value.interactions,
+    },
+    intentAssignments: {
+      primary: value.intentAssignments?.primary ?? null,
+      secondary: value.intentAssignments?.secondary ?? [],
+    },
+  } as PageData;
+}
+
+function normalizeIntent(value: unknown): Intent | null {
+  if (
+    !isRecord(value) ||
+    !isString(value.id) ||
+    !isString(value.label) ||
+    !isString(value.status) ||
+    typeof value.firstSeen !== "number"
+  ) {
+    return null;
+  }
+
+  const pageIds: string[] = Array.isArray(value.pageIds)
+    ? value.pageIds.filter(isString)
+    : [];
+
+  return {
+    labelConfidence: 0.5,
+    labelUpdatedAt: value.firstSeen,
+    confidence: 50, // 0-100
+    lastUpdated: value.firstSeen,
+    relatedIntents: [],
+    timeline: [],
+    ...value,
+    id: value.id,
+    label: value.label,
+    status: value.status,
+    firstSeen: value.firstSeen,
+    pageIds,
+    pageCount: pageIds.length,
+    userFeedback: { discarded: false, ...value.userFeedback },
+    aggregatedSignals: value.aggregatedSignals ?? {
+      keywords: {},
+      entities: emptyEntities(),
+      domains: [],
+      patterns: {
+        avgEngagement: 0.5,
+        avgDwellTime: 0,
+        avgScrollDepth: 0,
+        browsingStyle: "exploratory",
+      },
+      cachedForPageCount: 0,
+    },
+  } as Intent;
+}
+
+function normalizeNudge(value: unknown): Nudge | null {
+  if (!isRecord(value) || !isString(value.id) || !isString(value.intentId)) {
+    return null;
+  }
+  return value as Nudge;
+}
+
+function normalizeRelationship(value: unknown): IntentRelationship | null {
+  if (
+    !isRecord(value) ||
+    !isString(value.id) ||
+    !isString(value.fromIntentId) ||
+    !isString(value.toIntentId)
+  ) {
+    return null;
+  }
+  return value as IntentRelationship;
+}
+
+function validRecords<T>(
+  values: unknown,
+  normalize: (value: unknown) => T | null,
+  label: string,
+  warnings: string[]
+): T[] {
+  const list = Array.isArray(values) ? values : [];
+  const records = list
+    .map(normalize)
+    .filter((record): record is T => record !== null);
+
+  const skipped = list.length - records.length;
+  if (skipped > 0) {
+    warnings.push(`Skipped ${skipped} invalid ${label}`);
+  }
+  return records;
+}
+
+// Same URL visited at the same moment = the same page
+const visitKey = (page: PageData) => `${page.url}|${page.timestamp}`;
+
+const labelKey = (label: string) => label.trim().toLowerCase();
+
+const canCombine = (intent: Intent) =>
+  intent.status !== "merged" && intent.status !== "discarded";
+
+class DataImporter {
+  /**
+   * What an import would do, without writing anything
+   */
+  async preview(json: string, mode: ImportMode): Promise<ImportSummary> {
+    return (await this.plan(json, mode)).summary;
+  }
+
+  async importData(json: string, mode: ImportMode): Promise<ImportSummary> {
+    const plan = await this.plan(json, mode);
+
+    if (mode === "replace") {
+      processingQueue.clearAll();
+      await storage.clearAllData();
+
+      if (plan.settings) {
+        await storage.saveSettings(plan.settings);
+        await processingQueue.updateSettings(await storage.getSettings());
+      }
+    }
+
+    // Embeddings follow the current algorithm, not the one that wrote the file
+    for (const page of plan.pages) {
+      if (page.semanticFeatures) {
+        page.embedding = createEmbedding(page);
+      }
+    }
+
+    await storage.importRecords(plan);
+
+    // Intents whose page list changed recalculate their signals
+    for (const intent of plan.intents) {
+      await intentEngine.getAggregatedSignals(intent);
+    }
+
+    // Pages exported mid-processing finish in the import lane
+    const unprocessed = plan.pages.filter(
+      (page) => !page.intentAssignments.primary
+    );
+    const needsFeatures = unprocessed.filter((page) => !page.semanticFeatures);
+    if (needsFeatures.length > 0) {
+      await processingQueue.addImportTasks(needsFeatures);
+    }
+    for (const page of unprocessed) {
+      if (!page.semanticFeatures) continue;
+      await processingQueue.addTask(
+        "intent_matching",
+        page.id,
+        IMPORT_LANE_PRIORITIES.matching,
+        page.title,
+        page.url
+      );
+    }
+
+    await knowledgeGraph.rebuild(
+      await storage.getAllPages(),
+      await storage.getAllIntents()
+    );
+
+    const { summary } = plan;
+    console.log(
+      `DataImporter: ✓ ${mode === "replace" ? "Restored" : "Merged"} ${summary.pages.added} pages, ${summary.intents.added} intents (${summary.intents.combined} combined, ${summary.pages.duplicates} duplicate pages skipped)`
+    );
+
+    return summary;
+  }
+
+  private async plan(json: string, mode: ImportMode): Promise<ImportPlan> {
+    const { bundle, bundleVersion } = this.parseBundle(json);
+    const warnings: string[] = [];
+
+    const pages = validRecords(
+      bundle.data.pages,
+      normalizePage,
+      "pages",
+      warnings
+    );
+    const intents = validRecords(
+      bundle.data.intents,
+      normalizeIntent,
+      "intents",
+      warnings
+    );
+    const nudges = validRecords(
+      bundle.data.nudges,
+      normalizeNudge,
+      "suggestions",
+      warnings
+    );
+    const relationships = validRecords(
+      bundle.data.relationships,
+      normalizeRelationship,
+      "relationships",
+      warnings
+    );
+
+    const summary: ImportSummary = {
+      mode,
+      bundleVersion,
+      exportedAt: bundle.exportedAt || null,
+      pages: { added: 0, duplicates: 0, remapped: 0 },
+      intents: { added: 0, combined: 0, remapped: 0 },
+      nudges: 0,
+      relationships: 0,
+      removed: { pages: 0, intents: 0 },
+      warnings,
+    };
+
+    if (mode === "replace") {
+      summary.removed = {
+        pages: (await storage.getAllPages()).length,
+        intents: (await storage.getAllIntents()).length,
+      };
+      summary.pages.added = pages.length;
+      summary.intents.added = intents.length;
+      summary.nudges = nudges.length;
+      summary.relationships = relationships.length;
+
+      return {
+        summary,
+        pages,
+        intents,
+        nudges,
+        relationships,
+        settings: isRecord(bundle.data.settings) ? bundle.data.settings : null,
+      };
+    }
+
+    return this.planMerge(summary, pages, intents, nudges, relationships);
+  }
+
+  private parseBundle(json: string): {
+    bundle: ExportBundle;
+    bundleVersion: number;
+  } {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(json);
+    } catch {
+      throw new Error("File is not valid JSON");
+    }
+    if (!isRecord(raw)) {
+      throw new Error("File is not a Bryn backup");
+    }
+
+    const bundleVersion = typeof raw.version === "number" ? raw.version : 0;
+    if (bundleVersion > EXPORT_BUNDLE_VERSION) {
+      throw new Error(
+        `Backup format v${bundleVersion} is newer than this version of Bryn supports (v${EXPORT_BUNDLE_VERSION})`
+      );
+    }
+
+    let bundle: RawBundle = raw;
+    for (
+      let version = bundleVersion;
+      version < EXPORT_BUNDLE_VERSION;
+      version++
+    ) {
+      const migrate = BUNDLE_MIGRATIONS[version];
+      if (!migrate) {
+        throw new Error(`Backup format v${version} is not supported`);
+      }
+      bundle = migrate(bundle);
+    }
+
+    if (
+      !isRecord(bundle.data) ||
+      !Array.isArray(bundle.data.pages) ||
+      !Array.isArray(bundle.data.intents)
+    ) {
+      throw new Error("File is not a Bryn backup");
+    }
+
+    if (typeof bundle.schemaVersion !== "number") {
+      throw new Error("File is not a Bryn backup");
+    }
+    if (bundle.schemaVersion > DB_VERSION) {
+      throw new Error(
+        `Backup was written by a newer version of Bryn (schema v${bundle.schemaVersion}, this version supports v${DB_VERSION})`
+      );
+    }
+    for (const store of MIGRATED_STORES) {
+      const records = bundle.data[store];
+      if (Array.isArray(records)) {
+        upgradeRecords(store, records, bundle.schemaVersion);
+      }
+    }
+
+    return { bundle: bundle as ExportBundle, bundleVersion };
+  }
+
+  /**
+   * Merge into existing data:
+   * - pages already stored (same URL and visit time) are skipped
+   * - colliding page/intent/nudge/relationship IDs get new IDs
+   * - intents with the label of a stored intent are folded into it
+   * - every reference (assignments, pageIds, related intents, search chains,
+   *   nudges, relationships) follows the remapping
+   */
+  private async planMerge(
+    summary: ImportSummary,
+    pages: PageData[],
+    intents: Intent[],
+    nudges: Nudge[],
+    relationships: IntentRelationship[]
+  ): Promise<ImportPlan> {
+    const storedPages = await storage.getAllPages();
+    const storedIntents = await storage.getAllIntents();
+    const storedNudges = await storage.getAllNudges();
+    const storedRelationships = await storage.getAllRelationships();
+
+    // Pages
+    const pageIdMap = new Map<string, string>();
+    const usedPageIds = new Set(storedPages.map((p) => p.id));
+    const pagesByVisit = new Map(storedPages.map((p) => [visitKey(p), p]));
+    const newPages: PageData[] = [];
+
+    for (const page of pages) {
+      const duplicate = pagesByVisit.get(visitKey(page));
+      if (duplicate) {
+        pageIdMap.set(page.id, duplicate.id);
+        summary.pages.duplicates++;
+        continue;
+      }
+
+      let id = page.id;
+      if (usedPageIds.has(id)) {
+        id = generateId("page");
+        summary.pages.remapped++;
+      }
+      usedPageIds.add(id);
+      pageIdMap.set(page.id, id);
+
+      const copy = { ...page, id };
+      pagesByVisit.set(visitKey(copy), copy);
+      newPages.push(copy);
+      summary.pages.added++;
+    }
+
+    // Intents
+    const intentIdMap = new Map<string, string>();
+    const usedIntentIds = new Set(storedIntents.map((i) => i.id));
+    const intentsByLabel = new Map(
+      storedIntents.filter(canCombine).map((i) => [labelKey(i.label), i])
+    );
+    const toWrite = new Map<string, Intent>();
+    const combined: [incoming: Intent, targetId: string][] = [];
+
+    for (const intent of intents) {
+      const target = canCombine(intent)
+        ? intentsByLabel.get(labelKey(intent.label))
+        : undefined;
+      if (target) {
+        intentIdMap.set(intent.id, target.id);
+        combined.push([intent, target.id]);
+        summary.intents.combined++;
+        continue;
+      }
+
+      let id = intent.id;
+      if (usedIntentIds.has(id)) {
+        id = generateId("intent");
+        summary.intents.remapped++;
+      }
+      usedIntentIds.add(id);
+      intentIdMap.set(intent.id, id);
+
+      const copy = { ...intent, id };
+      if (canCombine(copy)) intentsByLabel.set(labelKey(copy.label), copy);
+      toWrite.set(id, copy);
+      summary.intents.added++;
+    }
+
+    // Page references
+    for (const page of newPages) {
+      const { primary, secondary } = page.intentAssignments;
+      const primaryId = primary && intentIdMap.get(primary.intentId);
+      page.intentAssignments = {
+        primary:
+          primary && primaryId ? { ...primary, intentId: primaryId } : null,
+        secondary: secondary
+          .filter((a) => intentIdMap.has(a.intentId))
+          .map((a) => ({ ...a, intentId: intentIdMap.get(a.intentId)! })),
+      };
+
+      if (page.searchQuery) {
+        page.searchQuery = {
+          ...page.searchQuery,
+          chainId: page.searchQuery.chainId
+            ? pageIdMap.get(page.searchQuery.chainId) || page.id
+            : undefined,
+          previousPageId: page.searchQuery.previousPageId
+            ? pageIdMap.get(page.searchQuery.previousPageId)
+            : undefined,
+        };
+      }
+    }
+
+    // A page belongs to the intent its primary assignment names
+    const pageOwner = new Map<string, string | undefined>();
+    for (const page of [...storedPages, ...newPages]) {
+      pageOwner.set(page.id, page.intentAssignments.primary?.intentId);
+    }
+    const ownedPageIds = (intent: Intent, targetId: string) =>
+      intent.pageIds
+        .map((id) => pageIdMap.get(id))
+        .filter(
+          (id): id is string =>
+            !!id &&
+            // Merged intents keep their historical page list
+            (intent.status === "merged" || pageOwner.get(id) === targetId)
+        );
+    const mapIntentIds = (ids: string[] | undefined, selfId: string) =>
+      (ids || [])
+        .map((id) => intentIdMap.get(id))
+        .filter((id): id is string => !!id && id !== selfId);
+
+    // Intent references
+    for (const intent of toWrite.values()) {
+      intent.pageIds = Array.from(new Set(ownedPageIds(intent, intent.id)));
+      intent.pageCount = intent.pageIds.length;
+      intent.relatedIntents = mapIntentIds(intent.relatedIntents, intent.id);
+      intent.timeline = intent.timeline.map((event) =>
+        event.pageId ? { ...event, pageId: pageIdMap.get(event.pageId) } : event
+      );
+      if (intent.metadata) {
+        intent.metadata = {
+          ...intent.metadata,
+          mergedInto: intent.metadata.mergedInto
+            ? intentIdMap.get(intent.metadata.mergedInto)
+            : undefined,
+          mergedFrom: intent.metadata.mergedFrom
+            ? mapIntentIds(intent.metadata.mergedFrom, intent.id)
+            : undefined,
+        };
+      }
+    }
+
+    // Fold combined intents into their target
+    const storedById = new Map(storedIntents.map((i) => [i.id, i]));
+    for (const [incoming, targetId] of combined) {
+      let target = toWrite.get(targetId);
+      if (!target) {
+        const stored = storedById.get(targetId)!;
+        target = {
+          ...stored,
+          pageIds: [...stored.pageIds],
+          timeline: [...stored.timeline],
+        };
+        toWrite.set(targetId, target);
+      }
+
+      target.pageIds = Array.from(
+        new Set([...target.pageIds, ...ownedPageIds(incoming, targetId)])
+      );
+      target.pageCount = target.pageIds.length;
+      target.firstSeen = Math.min(target.firstSeen, incoming.firstSeen);
+      target.lastUpdated = Math.max(target.lastUpdated, incoming.lastUpdated);
+      target.relatedIntents = Array.from(
+        new Set([
+          ...target.relatedIntents,
+          ...mapIntentIds(incoming.relatedIntents, targetId),
+        ])
+      );
+      target.timeline.push({
+        date: new Date().toISOString().split("T")[0],
+        event: "imported",
+        details: `Combined with imported intent "${incoming.label}" (${incoming.pageCount} pages)`,
+      });
+    }
+
+    // Nudges
+    const usedNudgeIds = new Set(storedNudges.map((n) => n.id));
+    const activeNudgeKeys = new Set(
+      storedNudges
+        .filter((n) => ACTIVE_NUDGE_STATUSES.has(n.status))
+        .map((n) => `${n.intentId}:${n.type}`)
+    );
+    const newNudges: Nudge[] = [];
+
+    for (const nudge of nudges) {
+      const intentId = intentIdMap.get(nudge.intentId);
+      if (!intentId) continue;
+
+      if (ACTIVE_NUDGE_STATUSES.has(nudge.status)) {
+        const key = `${intentId}:${nudge.type}`;
+        if (activeNudgeKeys.has(key)) continue;
+        activeNudgeKeys.add(key);
+      }
+
+      const id = usedNudgeIds.has(nudge.id) ? generateId("nudge") : nudge.id;
+      usedNudgeIds.add(id);
+      newNudges.push({ ...nudge, id, intentId });
+    }
+
+    // Relationships (one per direction, keyed by the intent pair)
+    const relationshipIds = new Set(storedRelationships.map((r) => r.id));
+    const newRelationships: IntentRelationship[] = [];
+
+    for (const relationship of relationships) {
+      const fromIntentId = intentIdMap.get(relationship.fromIntentId);
+      const toIntentId = intentIdMap.get(relationship.toIntentId);
+      if (!fromIntentId || !toIntentId || fromIntentId === toIntentId) {
+        continue;
+      }
+
+      const id = `rel-${fromIntentId}-${toIntentId}`;
+      if (relationshipIds.has(id)) continue;
+      relationshipIds.add(id);
+
+      newRelationships.push({ ...relationship, id, fromIntentId, toIntentId });
+    }
+
+    summary.nudges = newNudges.length;
+    summary.relationships = newRelationships.length;
+
+    return {
+      summary,
+      pages: newPages,
+      intents: Array.from(toWrite.values()),
+      nudges: newNudges,
+      relationships: newRelationships,
+      settings: null,
+    };
+  }
+}
+
+// Global singleton
+export const dataImporter = new DataImporter();
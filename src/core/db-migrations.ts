@@ -0,0 +1,450 @@
+/**
+ * DB Migrations - Ordered IndexedDB schema and record upgrades
+ *
+ * Opening the database at a newer DB_VERSION runs every pending step inside
+ * the versionchange transaction:
+ * 1. schema(): create stores and indexes, oldest step first
+ * 2. records: one cursor pass per store, applying each pending step's
+ *    upgrade to every record in order
+ *
+ * An upgrade that throws aborts the transaction, so the database stays at
+ * its old version with its old records. Migrations never delete records;
+ * anything that still doesn't match the current types is reported by
+ * validateRecord() / dryRunRecords().
+ *
+ * Record upgrades are plain functions, so export bundles written at an older
+ * schema go through the same steps on import (upgradeRecords).
+ */
+
+import type { IntentStatus } from "@/types/intent";
+import type { NudgeStatus } from "@/types/nudge";
+import type {
+  MigratedStore,
+  MigrationReport,
+  StoreValidation,
+} from "@/types/storage";
+import { extractSearchQuery } from "./search-queries";
+
+type StoredRecord = Record<string, any>;
+
+/**
+ * Rewrites one record in place; returns true if anything changed
+ */
+type RecordUpgrade = (record: StoredRecord) => boolean;
+
+export interface DbMigration {
+  version: number;
+  description: string;
+  schema?: (db: IDBDatabase, tx: IDBTransaction) => void;
+  records?: Partial<Record<MigratedStore, RecordUpgrade>>;
+}
+
+export const MIGRATED_STORES: MigratedStore[] = [
+  "pages",
+  "intents",
+  "nudges",
+  "relationships",
+];
+
+function ensureIndex(
+  store: IDBObjectStore,
+  name: string,
+  keyPath: string
+): void {
+  if (!store.indexNames.contains(name)) {
+    store.createIndex(name, keyPath, { unique: false });
+  }
+}
+
+function ensureStore(
+  db: IDBDatabase,
+  tx: IDBTransaction,
+  name: string,
+  keyPath: string
+): IDBObjectStore {
+  return db.objectStoreNames.contains(name)
+    ? tx.objectStore(name)
+    : db.createObjectStore(name, { keyPath });
+}
+
+function setDefault(
+  record: StoredRecord,
+  field: string,
+  fallback: () => unknown
+): boolean {
+  if (record[field] !== undefined && record[field] !== null) return false;
+  record[field] = fallback();
+  return true;
+}
+
+/**
+ * Registry, oldest first. Versions 1-4 predate the registry and were
+ * released with "create if missing" checks, so their steps stay idempotent.
+ * Never edit a released step; add a new version instead.
+ */
+export const DB_MIGRATIONS: DbMigration[] = [
+  {
+    version: 1,
+    description: "Pages, intents, nudges and relationships stores",
+    schema: (db, tx) => {
+      const pageStore = ensureStore(db, tx, "pages", "id");
+      ensureIndex(pageStore, "url", "url");
+      ensureIndex(pageStore, "timestamp", "timestamp");
+      ensureIndex(
+        pageStore,
+        "primaryIntent",
+        "intentAssignments.primary.intentId"
+      );
+
+      const intentStore = ensureStore(db, tx, "intents", "id");
+      ensureIndex(intentStore, "status", "status");
+      ensureIndex(intentStore, "lastUpdated", "lastUpdated");
+      ensureIndex(intentStore, "firstSeen", "firstSeen");
+
+      const nudgeStore = ensureStore(db, tx, "nudges", "id");
+      ensureIndex(nudgeStore, "intentId", "intentId");
+      ensureIndex(nudgeStore, "status", "status");
+      ensureIndex(nudgeStore, "priority", "priority");
+
+      const relStore = ensureStore(db, tx, "relationships", "id");
+      ensureIndex(relStore, "fromIntent", "fromIntentId");
+      ensureIndex(relStore, "toIntent", "toIntentId");
+    },
+  },
+  {
+    version: 2,
+    description: "Processing queue store (persists across restarts)",
+    schema: (db, tx) => {
+      const queueStore = ensureStore(db, tx, "processingQueue", "id");
+      ensureIndex(queueStore, "status", "status");
+      ensureIndex(queueStore, "priority", "priority");
+      ensureIndex(queueStore, "createdAt", "createdAt");
+    },
+  },
+  {
+    version: 3,
+    description: "Settings and knowledge graph stores",
+    schema: (db, tx) => {
+      ensureStore(db, tx, "settings", "key");
+      ensureStore(db, tx, "knowledgeGraph", "version");
+    },
+  },
+  {
+    version: 4,
+    description: "Activity summaries store",
+    schema: (db, tx) => {
+      const summaryStore = ensureStore(db, tx, "activitySummaries", "id");
+      ensureIndex(summaryStore, "generatedAt", "generatedAt");
+    },
+  },
+  {
+    version: 5,
+    description:
+      "Search queries for pages captured before query extraction; default intent and nudge lists",
+    records: {
+      pages: (page) => {
+        if (page.searchQuery || typeof page.url !== "string") return false;
+        const searchQuery = extractSearchQuery(page.url);
+        if (!searchQuery) return false;
+        // Neighbouring queries aren't known here, so each starts its own chain
+        page.searchQuery = { ...searchQuery, chainId: page.id };
+        return true;
+      },
+      intents: (intent) => {
+        const results = [
+          setDefault(intent, "pageIds", () => []),
+          setDefault(intent, "relatedIntents", () => []),
+          setDefault(intent, "timeline", () => []),
+          setDefault(intent, "userFeedback", () => ({ discarded: false })),
+        ];
+        return results.includes(true);
+      },
+      nudges: (nudge) => setDefault(nudge, "suggestedActions", () => []),
+    },
+  },
+  {
+    version: 6,
+    description:
+      "Full-text search index stores (filled by SearchEngine on startup)",
+    schema: (db, tx) => {
+      const docStore = ensureStore(db, tx, "searchDocs", "id");
+      ensureIndex(docStore, "kind", "kind");
+      ensureStore(db, tx, "searchTerms", "term");
+    },
+  },
+  {
+    version: 7,
+    description: "Intent matching corrections (training data for weights)",
+    schema: (db, tx) => {
+      const correctionStore = ensureStore(db, tx, "matchCorrections", "id");
+      ensureIndex(correctionStore, "createdAt", "createdAt");
+    },
+  },
+  {
+    version: 8,
+    description: "Merge proposals (review inbox and rejected pairs)",
+    schema: (db, tx) => {
+      const proposalStore = ensureStore(db, tx, "mergeProposals", "id");
+      ensureIndex(proposalStore, "status", "status");
+      ensureIndex(proposalStore, "pairKey", "pairKey");
+    },
+  },
+];
+
+export const DB_VERSION = DB_MIGRATIONS[DB_MIGRATIONS.length - 1].version;
+
+function pendingUpgrades(
+  store: MigratedStore,
+  fromVersion: number
+): RecordUpgrade[] {
+  return DB_MIGRATIONS.filter((m) => m.version > fromVersion)
+    .map((m) => m.records?.[store])
+    .filter((upgrade): upgrade is RecordUpgrade => !!upgrade);
+}
+
+function applyUpgrades(
+  record: StoredRecord,
+  upgrades: RecordUpgrade[]
+): boolean {
+  let changed = false;
+  for (const upgrade of upgrades) {
+    if (upgrade(record)) changed = true;
+  }
+  return changed;
+}
+
+/**
+ * Run from onupgradeneeded. Record counts fill in as the cursors advance,
+ * so the report is complete once the open request succeeds.
+ */
+export function runMigrations(
+  db: IDBDatabase,
+  tx: IDBTransaction,
+  oldVersion: number
+): MigrationReport {
+  const startedAt = Date.now();
+  const pending = DB_MIGRATIONS.filter((m) => m.version > oldVersion);
+  const report: MigrationReport = {
+    fromVersion: oldVersion,
+    toVersion: DB_VERSION,
+    ranAt: startedAt,
+    durationMs: 0,
+    steps: pending.map(({ version, description }) => ({
+      version,
+      description,
+    })),
+    records: {},
+  };
+
+  for (const migration of pending) {
+    migration.schema?.(db, tx);
+  }
+
+  // A new database has no records to rewrite
+  if (oldVersion > 0) {
+    for (const store of MIGRATED_STORES) {
+      const upgrades = pendingUpgrades(store, oldVersion);
+      if (upgrades.length === 0) continue;
+
+      const counts = { scanned: 0, updated: 0 };
+      report.records[store] = counts;
+
+      const request = tx.objectStore(store).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+
+        counts.scanned++;
+        const record = cursor.value;
+        if (applyUpgrades(record, upgrades)) {
+          cursor.update(record);
+          counts.updated++;
+        }
+        cursor.continue();
+      };
+    }
+  }
+
+  tx.addEventListener("complete", () => {
+    report.durationMs = Date.now() - startedAt;
+  });
+
+  return report;
+}
+
+/**
+ * Bring records written at `fromVersion` (e.g. from an export bundle) up to
+ * DB_VERSION, in place. Returns how many changed.
+ */
+export function upgradeRecords(
+  store: MigratedStore,
+  records: unknown[],
+  fromVersion: number
+): number {
+  const upgrades = pendingUpgrades(store, fromVersion);
+  if (upgrades.length === 0) return 0;
+
+  let updated = 0;
+  for (const record of records) {
+    if (isRecord(record) && applyUpgrades(record, upgrades)) updated++;
+  }
+  return updated;
+}
+
+// Validation against the current types in src/types
+
+type FieldRule = "string" | "number" | "object" | "array" | readonly string[];
+
+// Record<Status, true> fails to compile when a status is added to the type
+const INTENT_STATUSES: Record<IntentStatus, true> = {
+  emerging: true,
+  active: true,
+  dormant: true,
+  completed: true,
+  merged: true,
+  discarded: true,
+  expired: true,
+};
+
+const NUDGE_STATUSES: Record<NudgeStatus, true> = {
+  pending: true,
+  shown: true,
+  snoozed: true,
+  acted: true,
+  discarded: true,
+};
+
+const RECORD_SHAPES: Record<MigratedStore, Record<string, FieldRule>> = {
+  pages: {
+    id: "string",
+    url: "string",
+    title: "string",
+    timestamp: "number",
+    metadata: "object",
+    interactions: "object",
+    intentAssignments: "object",
+    "intentAssignments.secondary": "array",
+  },
+  intents: {
+    id: "string",
+    label: "string",
+    status: Object.keys(INTENT_STATUSES),
+    firstSeen: "number",
+    lastUpdated: "number",
+    pageCount: "number",
+    pageIds: "array",
+    aggregatedSignals: "object",
+    relatedIntents: "array",
+    userFeedback: "object",
+    timeline: "array",
+  },
+  nudges: {
+    id: "string",
+    intentId: "string",
+    type: "string",
+    status: Object.keys(NUDGE_STATUSES),
+    message: "object",
+    suggestedActions: "array",
+    timing: "object",
+    "timing.createdAt": "number",
+  },
+  relationships: {
+    id: "string",
+    fromIntentId: "string",
+    toIntentId: "string",
+    type: "string",
+    confidence: "number",
+    createdAt: "number",
+  },
+};
+
+const MAX_REPORTED_ISSUES = 20;
+
+function isRecord(value: unknown): value is StoredRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readPath(record: StoredRecord, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) => (isRecord(value) ? value[key] : undefined),
+      record
+    );
+}
+
+function matchesRule(value: unknown, rule: FieldRule): boolean {
+  if (Array.isArray(rule)) return rule.includes(value as string);
+  switch (rule) {
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isRecord(value);
+    case "number":
+      return typeof value === "number" && !Number.isNaN(value);
+    default:
+      return typeof value === rule;
+  }
+}
+
+/**
+ * Problems with one record, e.g. "status should be one of ...";
+ * empty when it matches the current types
+ */
+export function validateRecord(
+  store: MigratedStore,
+  record: unknown
+): string[] {
+  if (!isRecord(record)) return ["not an object"];
+
+  const issues: string[] = [];
+  for (const [path, rule] of Object.entries(RECORD_SHAPES[store])) {
+    const value = readPath(record, path);
+    if (matchesRule(value, rule)) continue;
+    issues.push(
+      value === undefined
+        ? `${path} is missing`
+        : `${path} should be ${
+            Array.isArray(rule) ? `one of ${rule.join("/")}` : `a ${rule}`
+          }`
+    );
+  }
+  return issues;
+}
+
+/**
+ * Dry run: what migrating `records` from `fromVersion` would change and what
+ * would still be invalid afterwards. Works on copies; nothing is written.
+ */
+export function dryRunRecords(
+  store: MigratedStore,
+  records: unknown[],
+  fromVersion: number
+): StoreValidation {
+  const upgrades = pendingUpgrades(store, fromVersion);
+  const result: StoreValidation = {
+    checked: 0,
+    invalid: 0,
+    pendingUpgrades: 0,
+    issues: [],
+  };
+
+  for (const original of records) {
+    result.checked++;
+    const record = isRecord(original) ? structuredClone(original) : original;
+    if (isRecord(record) && applyUpgrades(record, upgrades)) {
+      result.pendingUpgrades++;
+    }
+
+    const issues = validateRecord(store, record);
+    if (issues.length === 0) continue;
+
+    result.invalid++;
+    if (result.issues.length < MAX_REPORTED_ISSUES) {
+      const id = isRecord(record) ? record.id : undefined;
+      result.issues.push(`${id ?? "(no id)"}: ${issues.join(", ")}`);
+    }
+  }
+
+  return result;
+}
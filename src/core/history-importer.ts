@@ -0,0 +1,282 @@
+/**
+ * History Importer - Bootstrap intents from existing Chrome history
+ *
+ * Opt-in, user-started from Backstage:
+ * 1. Scan: read the last N days of chrome.history into lightweight pages
+ *    (title, URL, visit times - no content, no interactions)
+ * 2. Import: IntentEngine saves them and queues the import lane, which only
+ *    runs when no live page is waiting
+ * 3. Progress is derived from what is still pending in the import lane
+ */
+
+import { storage } from "./storage-manager";
+import { aiPipeline } from "./ai-pipeline";
+import { intentEngine } from "./intent-engine";
+import { processingQueue } from "./processing-queue";
+import { captureRules } from "./capture-rules";
+import { extractSearchQuery } from "./search-queries";
+import type { PageData } from "@/types/page";
+import type { HistoryImportState } from "@/types/storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const IDLE_STATE: HistoryImportState = {
+  status: "idle",
+  days: 0,
+  found: 0,
+  imported: 0,
+  skipped: 0,
+  processed: 0,
+};
+
+class HistoryImporter {
+  // Intent matching only considers intents updated in the last 30 days
+  private readonly MAX_DAYS = 30;
+  private readonly MAX_PAGES = 500;
+  private readonly MAX_HISTORY_RESULTS = 5000;
+  private readonly MAX_VISITS_PER_PAGE = 20;
+
+  private running = false;
+  private cancelRequested = false;
+
+  /**
+   * Start an import of the last `days` days (no-op if one is in progress)
+   */
+  async start(days: number): Promise<HistoryImportState> {
+    const current = await this.getStatus();
+    if (this.running || current.status === "importing") {
+      return current;
+    }
+
+    if (!aiPipeline.isAvailable()) {
+      throw new Error("Chrome AI not available - cannot cluster history");
+    }
+
+    const state: HistoryImportState = {
+      ...IDLE_STATE,
+      status: "scanning",
+      days: Math.min(Math.max(Math.round(days) || 1, 1), this.MAX_DAYS),
+      startedAt: Date.now(),
+    };
+    await storage.saveHistoryImportState(state);
+
+    this.running = true;
+    this.cancelRequested = false;
+
+    // Scan in the background - callers poll getStatus()
+    this.run(state).finally(() => {
+      this.running = false;
+    });
+
+    return state;
+  }
+
+  /**
+   * Current import state, with progress refreshed from the import lane
+   */
+  async getStatus(): Promise<HistoryImportState> {
+    const state = (await storage.getHistoryImportState()) || IDLE_STATE;
+
+    if (state.status === "scanning" && !this.running) {
+      // Service worker restarted mid-scan; nothing was queued yet
+      return this.finish(state, "failed", "Import interrupted - start again");
+    }
+
+    if (state.status !== "importing") return state;
+
+    const pending = processingQueue.getImportLanePageIds().size;
+    state.processed = Math.max(0, state.imported - pending);
+
+    if (pending === 0) {
+      return this.finish(state, "completed");
+    }
+
+    return state;
+  }
+
+  /**
+   * Stop scanning, drop queued import work and the stub pages it was for
+   */
+  async cancel(): Promise<HistoryImportState> {
+    this.cancelRequested = true;
+
+    const state = await this.getStatus();
+    if (this.running) {
+      // run() sees the flag and finishes the cancellation itself
+      return state;
+    }
+    if (state.status !== "importing") return state;
+
+    return this.discardPending(state);
+  }
+
+  private async run(state: HistoryImportState): Promise<void> {
+    try {
+      const startTime = Date.now() - state.days * DAY_MS;
+      const items = await chrome.history.search({
+        text: "",
+        startTime,
+        maxResults: this.MAX_HISTORY_RESULTS,
+      });
+
+      const knownUrls = new Set(
+        (await storage.getAllPages()).map((page) => page.url)
+      );
+      const getCaptureMode = await captureRules.createResolver();
+
+      // Keep the most recent pages when capped, then import oldest first so
+      // clustering sees them in the order they were browsed
+      const selected = items
+        .filter(
+          (item) =>
+            item.url &&
+            this.isImportable(item.url) &&
+            !knownUrls.has(item.url) &&
+            getCaptureMode(item.url) !== "ignore"
+        )
+        .sort((a, b) => (b.lastVisitTime || 0) - (a.lastVisitTime || 0))
+        .slice(0, this.MAX_PAGES)
+        .reverse();
+
+      state.found = items.length;
+      state.skipped = items.length - selected.length;
+
+      const pages: PageData[] = [];
+      for (const item of selected) {
+        if (this.cancelRequested) break;
+        pages.push(await this.buildPage(item, startTime));
+      }
+
+      if (this.cancelRequested) {
+        await this.finish(state, "cancelled");
+        return;
+      }
+
+      state.imported = await intentEngine.processImportedPages(pages);
+
+      console.log(
+        `HistoryImporter: ✓ Imported ${state.imported} pages from the last ${state.days} days (${state.skipped} skipped)`
+      );
+
+      if (this.cancelRequested) {
+        await this.discardPending(state);
+      } else if (state.imported === 0) {
+        await this.finish(state, "completed");
+      } else {
+        state.status = "importing";
+        await storage.saveHistoryImportState(state);
+      }
+    } catch (error) {
+      console.error("HistoryImporter: ✗ Import failed", error);
+      await this.finish(state, "failed", String(error));
+    }
+  }
+
+  private async buildPage(
+    item: chrome.history.HistoryItem,
+    startTime: number
+  ): Promise<PageData> {
+    const url = item.url!;
+    const title = item.title || url;
+    const lowerTitle = title.toLowerCase();
+
+    const visits = await chrome.history.getVisits({ url });
+    const visitTimes = visits
+      .map((visit) => visit.visitTime || 0)
+      .filter((time) => time >= startTime)
+      .sort((a, b) => a - b)
+      .slice(-this.MAX_VISITS_PER_PAGE);
+
+    return {
+      id: `page-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      url,
+      title,
+      timestamp:
+        item.lastVisitTime || visitTimes[visitTimes.length - 1] || startTime,
+      content: null,
+      contentSummary: null,
+      contentSize: 0,
+      searchQuery: extractSearchQuery(url) || undefined,
+      metadata: {
+        domain: new URL(url).hostname,
+        lang: "",
+        titleContains404:
+          lowerTitle.includes("404") || lowerTitle.includes("not found"),
+        titleContainsError: lowerTitle.includes("error"),
+        bodyTextLength: 0,
+        hasNavigation: false,
+        headingCount: 0,
+        linkCount: 0,
+      },
+      interactions: {
+        dwellTime: 0,
+        scrollDepth: 0,
+        scrollPosition: 0,
+        totalScrollDistance: 0,
+        textSelections: [],
+        engagementScore: this.estimateEngagement(item),
+      },
+      intentAssignments: {
+        primary: null,
+        secondary: [],
+      },
+      source: "history_import",
+      visitTimes,
+    };
+  }
+
+  /**
+   * Repeat and typed visits are the only engagement signal history offers
+   */
+  private estimateEngagement(item: chrome.history.HistoryItem): number {
+    const repeatVisits = Math.max((item.visitCount || 1) - 1, 0);
+    const typed = (item.typedCount || 0) > 0 ? 0.1 : 0;
+    return Math.min(0.2 + repeatVisits * 0.05 + typed, 0.6);
+  }
+
+  private isImportable(url: string): boolean {
+    return /^https?:\/\//i.test(url) && !/\/warmup\.html$/i.test(url);
+  }
+
+  private async discardPending(
+    state: HistoryImportState
+  ): Promise<HistoryImportState> {
+    const pageIds = await processingQueue.cancelImportLane();
+
+    let removed = 0;
+    for (const pageId of pageIds) {
+      const page = await storage.getPage(pageId);
+      // Pages that already reached an intent stay
+      if (page && !page.intentAssignments.primary) {
+        await storage.deletePage(pageId);
+        removed++;
+      }
+    }
+
+    state.imported = Math.max(0, state.imported - removed);
+    state.processed = state.imported;
+
+    console.log(
+      `HistoryImporter: ✓ Cancelled import (${removed} pending pages removed)`
+    );
+
+    return this.finish(state, "cancelled");
+  }
+
+  private async finish(
+    state: HistoryImportState,
+    status: "completed" | "cancelled" | "failed",
+    error?: string
+  ): Promise<HistoryImportState> {
+    state.status = status;
+    state.finishedAt = Date.now();
+    if (error) state.error = error;
+    if (status === "completed") state.processed = state.imported;
+
+    await storage.saveHistoryImportState(state);
+    return state;
+  }
+}
+
+// Global singleton
+export const historyImporter = new HistoryImporter();
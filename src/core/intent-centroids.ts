@@ -0,0 +1,314 @@
+/**
+ * Intent Centroids - Incremental intent representations for matching
+ *
+ * 1. Centroids: each intent keeps running sums over its pages (engagement
+ *    weighted embedding, entity/domain/query counts). Adding or removing a
+ *    page adjusts the sums; merging intents adds them. Matching reads the
+ *    centroid instead of loading every page of every intent.
+ * 2. Candidate index: intents keyed by the concepts, entities, domains and
+ *    query terms they hold, so only intents that can reach the match
+ *    threshold are scored.
+ *
+ * Page engagement changes after assignment (later visits add dwell time), so
+ * removals can leave small errors; IntentEngine.rebuildCentroids() recomputes
+ * every live intent from its pages during maintenance.
+ */
+
+import type { Intent, IntentCentroid, KeywordStats } from "@/types/intent";
+import type { MatchWeights } from "@/types/matching";
+import type { PageData } from "@/types/page";
+import { getStructuredEntities, mergeEntities } from "./structured-data";
+import { queryTerms } from "./search-queries";
+import { cosineSimilarity } from "./semantic-similarity";
+
+const EMBEDDING_SIZE = 256;
+
+export function emptyCentroid(now: number = Date.now()): IntentCentroid {
+  return {
+    embedding: new Array(EMBEDDING_SIZE).fill(0),
+    weight: 0,
+    pageCount: 0,
+    entities: {},
+    domains: {},
+    queryTerms: {},
+    queryChains: {},
+    updatedAt: now,
+    rebuiltAt: now,
+  };
+}
+
+/**
+ * Lowercased entity names, structured values included (as in
+ * IntentEngine.aggregateEntities)
+ */
+export function pageEntityNames(page: PageData): string[] {
+  const entities = mergeEntities(
+    getStructuredEntities(page.structuredData),
+    page.semanticFeatures?.entities
+  );
+  return Array.from(
+    new Set(
+      Object.values(entities)
+        .flat()
+        .map((name) => name.toLowerCase())
+    )
+  );
+}
+
+function unitEmbedding(embedding?: number[]): number[] | null {
+  if (!embedding || embedding.length !== EMBEDDING_SIZE) return null;
+  const magnitude = Math.sqrt(embedding.reduce((sum, v) => sum + v * v, 0));
+  return magnitude > 0 ? embedding.map((v) => v / magnitude) : embedding;
+}
+
+function adjustCount(
+  counts: Record<string, number>,
+  key: string,
+  delta: number
+): void {
+  const next = (counts[key] || 0) + delta;
+  if (next > 0) counts[key] = next;
+  else delete counts[key];
+}
+
+function applyPage(
+  centroid: IntentCentroid,
+  page: PageData,
+  sign: 1 | -1
+): void {
+  const embedding = unitEmbedding(page.embedding);
+  if (embedding) {
+    const weight = page.interactions.engagementScore;
+    embedding.forEach((value, i) => {
+      centroid.embedding[i] += sign * value * weight;
+    });
+    centroid.weight = Math.max(0, centroid.weight + sign * weight);
+  }
+
+  centroid.pageCount = Math.max(0, centroid.pageCount + sign);
+  pageEntityNames(page).forEach((name) =>
+    adjustCount(centroid.entities, name, sign)
+  );
+  adjustCount(centroid.domains, page.metadata.domain, sign);
+  if (page.searchQuery) {
+    new Set(queryTerms(page.searchQuery.query)).forEach((term) =>
+      adjustCount(centroid.queryTerms, term, sign)
+    );
+  }
+  if (page.searchQuery?.chainId) {
+    adjustCount(centroid.queryChains, page.searchQuery.chainId, sign);
+  }
+  centroid.updatedAt = Date.now();
+}
+
+export function addPageToCentroid(
+  centroid: IntentCentroid,
+  page: PageData
+): void {
+  applyPage(centroid, page, 1);
+}
+
+export function removePageFromCentroid(
+  centroid: IntentCentroid,
+  page: PageData
+): void {
+  applyPage(centroid, page, -1);
+}
+
+export function buildCentroid(pages: PageData[]): IntentCentroid {
+  const centroid = emptyCentroid();
+  pages.forEach((page) => applyPage(centroid, page, 1));
+  return centroid;
+}
+
+export function mergeCentroids(
+  target: IntentCentroid,
+  source: IntentCentroid
+): IntentCentroid {
+  const sumCounts = (a: Record<string, number>, b: Record<string, number>) => {
+    const merged = { ...a };
+    Object.entries(b).forEach(([key, count]) =>
+      adjustCount(merged, key, count)
+    );
+    return merged;
+  };
+
+  return {
+    embedding: target.embedding.map((v, i) => v + (source.embedding[i] || 0)),
+    weight: target.weight + source.weight,
+    pageCount: target.pageCount + source.pageCount,
+    entities: sumCounts(target.entities, source.entities),
+    domains: sumCounts(target.domains, source.domains),
+    queryTerms: sumCounts(target.queryTerms, source.queryTerms),
+    queryChains: sumCounts(target.queryChains, source.queryChains),
+    updatedAt: Date.now(),
+    rebuiltAt: Math.min(target.rebuiltAt, source.rebuiltAt),
+  };
+}
+
+/**
+ * Engagement-weighted average cosine similarity between the page and the
+ * intent's pages (the dot product with the sum of unit vectors)
+ */
+export function centroidSimilarity(
+  centroid: IntentCentroid,
+  embedding?: number[]
+): number {
+  if (!embedding || centroid.weight <= 0) return 0;
+  const magnitude = Math.sqrt(
+    centroid.embedding.reduce((sum, v) => sum + v * v, 0)
+  );
+  // cosine(a, sum) × |sum| / weight = Σ wᵢ·cosine(a, eᵢ) / Σ wᵢ
+  return (
+    (cosineSimilarity(embedding, centroid.embedding) * magnitude) /
+    centroid.weight
+  );
+}
+
+/**
+ * Centroid similarity an intent sharing no key with the page needs to reach
+ * `threshold`: only the semantic, temporal and behavioral signals can score
+ * (with the default weights, (0.495 - 0.25) / 0.3 ≈ 0.82)
+ */
+export function minCandidateSimilarity(
+  weights: MatchWeights,
+  threshold: number
+): number {
+  // Confidence is rounded to whole percents
+  const needed = threshold - 0.005 - weights.temporal - weights.behavioral;
+  if (needed <= 0) return 0;
+  return weights.semantic > 0 ? needed / weights.semantic : Infinity;
+}
+
+/**
+ * Take one page's concepts out of the intent's keyword stats
+ */
+export function removeKeywordStats(
+  keywords: Record<string, KeywordStats>,
+  page: PageData
+): void {
+  for (const concept of page.semanticFeatures?.concepts || []) {
+    const stats = keywords[concept];
+    if (!stats) continue;
+    stats.count--;
+    stats.totalEngagement = Math.max(
+      0,
+      stats.totalEngagement - page.interactions.engagementScore
+    );
+    if (stats.count <= 0) {
+      delete keywords[concept];
+    } else {
+      stats.avgEngagement = stats.totalEngagement / stats.count;
+    }
+  }
+}
+
+/**
+ * Index keys a page can share with an intent: one per matching signal that
+ * needs an exact overlap (keywords, entities, domain, query terms, chain)
+ */
+function pageKeys(page: PageData): string[] {
+  const features = page.semanticFeatures;
+  const concepts = features?.concepts || [];
+  const entities = features ? Object.values(features.entities).flat() : [];
+
+  return [
+    ...concepts.map((c) => `k:${c.toLowerCase()}`),
+    ...entities.map((e) => `e:${e.toLowerCase()}`),
+    `d:${page.metadata.domain}`,
+    ...[
+      ...(page.searchQuery ? queryTerms(page.searchQuery.query) : []),
+      ...queryTerms(page.title),
+      ...concepts.flatMap(queryTerms),
+    ].map((t) => `q:${t}`),
+    ...(page.searchQuery?.chainId ? [`c:${page.searchQuery.chainId}`] : []),
+  ];
+}
+
+function intentKeys(intent: Intent): string[] {
+  const signals = intent.aggregatedSignals;
+  const concepts = Object.keys(signals?.keywords || {});
+  const entities = signals?.entities ? Object.values(signals.entities) : [];
+  const centroid = signals?.centroid;
+
+  return [
+    ...concepts.map((c) => `k:${c.toLowerCase()}`),
+    ...entities.flat().map((e) => `e:${e.toLowerCase()}`),
+    ...(signals?.domains || []).map((d) => `d:${d}`),
+    ...[
+      ...Object.keys(centroid?.queryTerms || {}),
+      ...concepts.flatMap(queryTerms),
+    ].map((t) => `q:${t}`),
+    ...Object.keys(centroid?.queryChains || {}).map((id) => `c:${id}`),
+  ];
+}
+
+function revision(intent: Intent): string {
+  const centroid = intent.aggregatedSignals?.centroid;
+  return `${intent.lastUpdated}:${intent.pageCount}:${centroid?.updatedAt}`;
+}
+
+/**
+ * In-memory inverted index from signal keys to intent IDs. Rebuilt lazily
+ * (the service worker can restart at any time) and kept in sync with the
+ * intents passed to candidates().
+ */
+class IntentCandidateIndex {
+  private postings = new Map<string, Set<string>>();
+  private indexed = new Map<string, { revision: string; keys: string[] }>();
+
+  /**
+   * Intents that could reach the match threshold for this page
+   * (`minSimilarity` from minCandidateSimilarity)
+   */
+  candidates(
+    page: PageData,
+    intents: Intent[],
+    minSimilarity: number
+  ): Intent[] {
+    this.sync(intents);
+
+    const ids = new Set<string>();
+    for (const key of pageKeys(page)) {
+      this.postings.get(key)?.forEach((id) => ids.add(id));
+    }
+
+    return intents.filter(
+      (intent) =>
+        ids.has(intent.id) ||
+        (!!intent.aggregatedSignals?.centroid &&
+          centroidSimilarity(
+            intent.aggregatedSignals.centroid,
+            page.embedding
+          ) >= minSimilarity)
+    );
+  }
+
+  private sync(intents: Intent[]): void {
+    for (const intent of intents) {
+      const current = revision(intent);
+      const entry = this.indexed.get(intent.id);
+      if (entry?.revision === current) continue;
+
+      if (entry) this.unindex(intent.id, entry.keys);
+      const keys = Array.from(new Set(intentKeys(intent)));
+      keys.forEach((key) => {
+        if (!this.postings.has(key)) this.postings.set(key, new Set());
+        this.postings.get(key)!.add(intent.id);
+      });
+      this.indexed.set(intent.id, { revision: current, keys });
+    }
+  }
+
+  private unindex(intentId: string, keys: string[]): void {
+    for (const key of keys) {
+      const ids = this.postings.get(key);
+      ids?.delete(intentId);
+      if (ids?.size === 0) this.postings.delete(key);
+    }
+    this.indexed.delete(intentId);
+  }
+}
+
+// Global singleton
+export const intentCandidateIndex = new IntentCandidateIndex();
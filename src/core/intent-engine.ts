@@ -1,31 +1,112 @@
-import type { PageData } from "@/types/page";
-import type { Intent } from "@/types/intent";
+import type { IntentAssignment, PageData } from "@/types/page";
+import type {
+  Intent,
+  MergedSource,
+  SplitGroup,
+  SplitProposal,
+} from "@/types/intent";
+import type {
+  AssignmentCandidate,
+  AssignmentVerification,
+  CorrectionKind,
+  CorrectionSource,
+  MatchExample,
+  MatchingModel,
+  MatchSignals,
+} from "@/types/matching";
+import type { RetentionSettings } from "@/types/settings";
 import { aiPipeline } from "./ai-pipeline";
 import { storage } from "./storage-manager";
-import { processingQueue } from "./processing-queue";
+import { processingQueue, IMPORT_LANE_PRIORITIES } from "./processing-queue";
 import { mergeCoordinator } from "./merge-coordinator";
-import { transitionStatus } from "./intent-state";
+import {
+  isTerminal,
+  restoreMergedIntent,
+  transitionStatus,
+} from "./intent-state";
 import { knowledgeGraph } from "./knowledge-graph";
 import { detectIntentCompletion } from "./completion-detector";
+import {
+  emptyEntities,
+  getStructuredEntities,
+  mergeEntities,
+  type EntityLists,
+} from "./structured-data";
+import { linkQueryChain, queryTerms, termOverlap } from "./search-queries";
 import {
   createEmbedding,
-  cosineSimilarity,
   keywordSimilarity,
   entitySimilarity,
 } from "./semantic-similarity";
+import {
+  addPageToCentroid,
+  buildCentroid,
+  centroidSimilarity,
+  intentCandidateIndex,
+  mergeCentroids,
+  minCandidateSimilarity,
+  removeKeywordStats,
+  removePageFromCentroid,
+} from "./intent-centroids";
+import { baseMatchScore, matchLearner } from "./match-learning";
+import {
+  distributeInsights,
+  distributeKnowledgeGaps,
+  proposeSplitGroups,
+} from "./intent-split";
 
 interface IntentMatch {
   intent: Intent;
   score: number;
   confidence: number;
+  signals: MatchSignals;
 }
 
 class IntentEngine {
   private totalIntentsCreated = 0; // Counter for batch merge checks
+  private visitQueue: Promise<void> = Promise.resolve(); // Serializes tracker reports
+  private readonly MAX_ENTITIES_PER_TYPE = 20;
+  private readonly QUERY_CHAIN_LOOKBACK = 50; // Recent pages checked for a query to reformulate
+  private readonly QUERY_CHAIN_MATCH_SCORE = 0.75; // Floor for an intent holding the page's query chain
+  private readonly MAX_RUNNERS_UP = 3; // Next-best intents kept per assignment
+  private readonly DAY_MS = 24 * 60 * 60 * 1000;
+
   /**
    * Fast path: Save page immediately, queue AI processing
+   *
+   * The tracker reports each visit more than once (first report, then on
+   * route change/unload); reports are serialized so a visit's follow-ups
+   * always find the page its first report created.
    */
   async processNewPage(pageData: PageData): Promise<void> {
+    const run = this.visitQueue.then(() => this.processPageReport(pageData));
+    this.visitQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async processPageReport(pageData: PageData): Promise<void> {
+    const visitId = pageData.visitIds?.[0];
+    const existing = visitId
+      ? await storage.findPageByVisit(pageData.url, visitId)
+      : null;
+
+    if (existing) {
+      // Follow-up report: add the interaction deltas, AI work is already queued
+      await storage.mergePageVisit(existing, pageData);
+      console.log(
+        `IntentEngine: Visit update merged into ${existing.title} (${existing.id})`
+      );
+      return;
+    }
+
+    // Reformulations of a recent query join its chain
+    if (pageData.searchQuery) {
+      pageData.searchQuery = linkQueryChain(
+        pageData,
+        await storage.getAllPages(this.QUERY_CHAIN_LOOKBACK)
+      );
+    }
+
     // IMMEDIATE: Save page with raw data (no AI, ~10ms)
     const finalPage = await storage.savePage(pageData);
     console.log(
@@ -73,6 +154,31 @@ class IntentEngine {
     console.log(`IntentEngine: Queued AI tasks for ${finalPage.id}`);
   }
 
+  /**
+   * Import path: history pages have no content or interactions, so they skip
+   * behavior classification and summarization and wait in the import lane.
+   * Clustering happens in intent_matching, same as live pages.
+   */
+  async processImportedPages(pages: PageData[]): Promise<number> {
+    // Queries in the batch chain among themselves, in visit order
+    const searches = pages
+      .filter((page) => page.searchQuery)
+      .sort((a, b) => a.timestamp - b.timestamp);
+    for (const page of searches) {
+      page.searchQuery = linkQueryChain(page, searches);
+    }
+
+    const saved: PageData[] = [];
+    for (const page of pages) {
+      saved.push(await storage.savePage(page));
+    }
+
+    await processingQueue.addImportTasks(saved);
+
+    console.log(`IntentEngine: Queued ${saved.length} imported pages`);
+    return saved.length;
+  }
+
   /**
    * Process queued intent matching task
    */
@@ -104,11 +210,12 @@ class IntentEngine {
     pageData.embedding = createEmbedding(pageData);
     pageData.processedAt = Date.now();
 
-    // Find matching intents
-    const matches = await this.findMatchingIntents(pageData);
+    // Find matching intents (weights learned from corrections, if any)
+    const model = await matchLearner.getModel();
+    const matches = await this.findMatchingIntents(pageData, model);
 
     // Assign to intent or create new
-    await this.assignPageToIntent(pageData, matches);
+    await this.assignPageToIntent(pageData, matches, model);
 
     // Save with intent assignment
     await storage.savePage(pageData);
@@ -116,54 +223,76 @@ class IntentEngine {
     console.log(`IntentEngine: ✓ Matched page to intent`);
   }
 
-  private async findMatchingIntents(page: PageData): Promise<IntentMatch[]> {
-    const recentIntents = await storage.getRecentIntents(30);
+  /**
+   * Every candidate intent scored, best first (including those below the
+   * match threshold, kept as runner-ups)
+   */
+  private async findMatchingIntents(
+    page: PageData,
+    model: MatchingModel
+  ): Promise<IntentMatch[]> {
+    // Archived intents (completed, merged, expired, discarded) never take
+    // new pages; the lifecycle scheduler archives them daily
+    const recentIntents = (await storage.getRecentIntents(30)).filter(
+      (intent) => !isTerminal(intent.status)
+    );
     const matches: IntentMatch[] = [];
 
+    // Intents saved before centroids existed get one from their pages, once
     for (const intent of recentIntents) {
-      const score = await this.calculateIntentMatch(page, intent);
+      if (!intent.aggregatedSignals.centroid && intent.pageCount > 0) {
+        this.invalidateCache(intent);
+        await this.getAggregatedSignals(intent);
+      }
+    }
+
+    const candidates = intentCandidateIndex.candidates(
+      page,
+      recentIntents,
+      minCandidateSimilarity(model.weights, model.matchThreshold)
+    );
+
+    for (const intent of candidates) {
+      const signals = this.calculateMatchSignals(page, intent);
+      if (!signals) continue;
+
+      const score = this.calculateIntentMatch(
+        page,
+        intent,
+        signals,
+        model.weights
+      );
       const confidence = Math.round(score * 100);
 
-      if (confidence >= 50) {
-        matches.push({ intent, score, confidence });
-      }
+      matches.push({ intent, score, confidence, signals });
     }
 
     return matches.sort((a, b) => b.score - a.score);
   }
 
-  private async calculateIntentMatch(
+  /**
+   * Each signal scored 0-1. Reads only the intent record: page-level signals
+   * come from its centroid. Null when the intent has no pages to compare.
+   */
+  private calculateMatchSignals(
     page: PageData,
     intent: Intent
-  ): Promise<number> {
-    const intentPages = await storage.getPagesByIntent(intent.id);
-    if (intentPages.length === 0) return 0;
-
-    // Signal 1: Semantic Similarity (30% weight)
-    let semanticScore = 0;
-    let totalWeight = 0;
-
-    for (const intentPage of intentPages) {
-      if (intentPage.embedding && page.embedding) {
-        const similarity = cosineSimilarity(
-          page.embedding,
-          intentPage.embedding
-        );
-        const weight = intentPage.interactions.engagementScore;
-        semanticScore += similarity * weight;
-        totalWeight += weight;
-      }
-    }
-    semanticScore = totalWeight > 0 ? semanticScore / totalWeight : 0;
+  ): MatchSignals | null {
+    const centroid = intent.aggregatedSignals.centroid;
+    if (!centroid || centroid.pageCount === 0) return null;
+
+    // Signal 1: Semantic Similarity (default weight 30%)
+    // Engagement-weighted average similarity to the intent's pages
+    const semanticScore = centroidSimilarity(centroid, page.embedding);
 
-    // Signal 2: Keyword Overlap (20% weight)
+    // Signal 2: Keyword Overlap (default 20%)
     const pageConcepts = page.semanticFeatures?.concepts || [];
     const intentConcepts = Array.from(
       Object.keys(intent.aggregatedSignals?.keywords || {})
     );
     const keywordScore = keywordSimilarity(pageConcepts, intentConcepts);
 
-    // Signal 3: Entity Continuity (15% weight)
+    // Signal 3: Entity Continuity (default 15%)
     const pageEntities = page.semanticFeatures?.entities || {
       people: [],
       places: [],
@@ -180,40 +309,120 @@ class IntentEngine {
     };
     const entityScore = entitySimilarity(pageEntities, intentEntities);
 
-    // Signal 4: Temporal Proximity (15% weight)
+    // Signal 4: Temporal Proximity (default 15%)
     const daysSinceUpdate =
       (Date.now() - intent.lastUpdated) / (24 * 60 * 60 * 1000);
     const temporalScore = Math.exp(-daysSinceUpdate / 30);
 
-    // Signal 5: Domain Continuity (10% weight)
+    // Signal 5: Domain Continuity (default 10%)
     const pageDomain = page.metadata.domain;
     const intentDomains = intent.aggregatedSignals?.domains || [];
     const domainScore = intentDomains.includes(pageDomain) ? 1.0 : 0.0;
 
-    // Signal 6: Behavioral Pattern Match (10% weight)
+    // Signal 6: Behavioral Pattern Match (default 10%)
     const pageEngagement = page.interactions.engagementScore;
     const intentAvgEngagement =
       intent.aggregatedSignals?.patterns?.avgEngagement || 0.5;
     const behavioralScore =
       1.0 - Math.abs(pageEngagement - intentAvgEngagement);
 
-    // Weighted sum
+    // Signal 7: Search Query Match (null when neither side has queries)
+    const queryScore = this.calculateQueryMatch(
+      page,
+      Object.keys(centroid.queryTerms),
+      intentConcepts
+    );
+
+    return {
+      semantic: semanticScore,
+      keyword: keywordScore,
+      entity: entityScore,
+      temporal: temporalScore,
+      domain: domainScore,
+      behavioral: behavioralScore,
+      query: queryScore,
+    };
+  }
+
+  /**
+   * Weighted sum of signals 1-6; search queries take a fixed 20% when
+   * either side has any
+   */
+  private calculateIntentMatch(
+    page: PageData,
+    intent: Intent,
+    signals: MatchSignals,
+    weights: MatchingModel["weights"]
+  ): number {
+    const baseScore = baseMatchScore(signals, weights);
     const finalScore =
-      semanticScore * 0.3 +
-      keywordScore * 0.2 +
-      entityScore * 0.15 +
-      temporalScore * 0.15 +
-      domainScore * 0.1 +
-      behavioralScore * 0.1;
+      signals.query === null
+        ? baseScore
+        : baseScore * 0.8 + signals.query * 0.2;
+
+    // A reformulation belongs with the query it reformulates
+    const chainId = page.searchQuery?.chainId;
+    if (chainId && intent.aggregatedSignals.centroid?.queryChains[chainId]) {
+      return Math.max(finalScore, this.QUERY_CHAIN_MATCH_SCORE);
+    }
 
     return finalScore;
   }
 
+  /**
+   * Query terms against the intent's own queries (or its keywords when it has
+   * none); a non-search page is checked against the intent's queries.
+   * Null when neither side has a query.
+   */
+  private calculateQueryMatch(
+    page: PageData,
+    intentQueryTerms: string[],
+    intentConcepts: string[]
+  ): number | null {
+    if (page.searchQuery) {
+      const terms = queryTerms(page.searchQuery.query);
+      return intentQueryTerms.length > 0
+        ? termOverlap(terms, intentQueryTerms)
+        : termOverlap(terms, intentConcepts.flatMap(queryTerms));
+    }
+
+    if (intentQueryTerms.length === 0) return null;
+
+    const pageTerms = [
+      ...queryTerms(page.title),
+      ...(page.semanticFeatures?.concepts || []).flatMap(queryTerms),
+    ];
+    return termOverlap(pageTerms, intentQueryTerms);
+  }
+
+  /**
+   * Up to MAX_RUNNERS_UP scored intents other than the one assigned, kept on
+   * the assignment to explain it
+   */
+  private toRunnersUp(
+    matches: IntentMatch[],
+    assignedIntentId?: string
+  ): AssignmentCandidate[] {
+    return matches
+      .filter((match) => match.intent.id !== assignedIntentId)
+      .slice(0, this.MAX_RUNNERS_UP)
+      .map((match) => ({
+        intentId: match.intent.id,
+        label: match.intent.userFeedback?.customLabel || match.intent.label,
+        confidence: match.confidence,
+        signals: match.signals,
+      }));
+  }
+
   private async assignPageToIntent(
     page: PageData,
-    matches: IntentMatch[]
+    scored: IntentMatch[],
+    model: MatchingModel
   ): Promise<void> {
-    if (matches.length === 0 || matches[0].confidence < 55) {
+    const matchAt = Math.round(model.matchThreshold * 100);
+    const assignAt = Math.round(model.assignThreshold * 100);
+    const matches = scored.filter((match) => match.confidence >= matchAt);
+    if (matches.length === 0 || matches[0].confidence < assignAt) {
       // Check if this is an error page (404/error) - don't create intent
       if (page.metadata.titleContains404 || page.metadata.titleContainsError) {
         console.log(
@@ -229,10 +438,17 @@ class IntentEngine {
       }
 
       // Not an error page, proceed with intent creation
-      await this.createNewIntent(page);
+      await this.createNewIntent(page, {
+        weights: model.weights,
+        runnersUp: this.toRunnersUp(scored),
+      });
 
       // Queue AI verification in background (priority 15)
-      await processingQueue.addTask("ai_verify_intent_matching", page.id, 15);
+      await processingQueue.addTask(
+        "ai_verify_intent_matching",
+        page.id,
+        this.getVerificationPriority(page)
+      );
     } else {
       const bestMatch = matches[0];
 
@@ -245,6 +461,9 @@ class IntentEngine {
           assignedAt: Date.now(),
           autoAssigned: bestMatch.confidence >= 70,
           needsConfirmation: bestMatch.confidence < 70,
+          signals: bestMatch.signals,
+          weights: model.weights,
+          runnersUp: this.toRunnersUp(scored, bestMatch.intent.id),
         },
         secondary: [],
       };
@@ -292,11 +511,24 @@ class IntentEngine {
       await this.updateIntent(bestMatch.intent, page);
 
       // ALWAYS queue AI verification in background (catches merge opportunities)
-      await processingQueue.addTask("ai_verify_intent_matching", page.id, 15);
+      await processingQueue.addTask(
+        "ai_verify_intent_matching",
+        page.id,
+        this.getVerificationPriority(page)
+      );
     }
   }
 
-  private async createNewIntent(page: PageData): Promise<void> {
+  private getVerificationPriority(page: PageData): number {
+    return page.source === "history_import"
+      ? IMPORT_LANE_PRIORITIES.verification
+      : 15;
+  }
+
+  private async createNewIntent(
+    page: PageData,
+    explanation: Pick<IntentAssignment, "weights" | "runnersUp"> = {}
+  ): Promise<void> {
     const intentId = `intent-${Date.now()}-${Math.random()
       .toString(36)
       .substr(2, 9)}`;
@@ -309,18 +541,15 @@ class IntentEngine {
       confidence: 60,
       status: "emerging",
       firstSeen: page.timestamp,
-      lastUpdated: page.timestamp,
+      // An imported visit is old; the intent is new as of now
+      lastUpdated:
+        page.source === "history_import" ? Date.now() : page.timestamp,
+      lastVisited: page.timestamp,
       pageCount: 1,
       pageIds: [page.id],
       aggregatedSignals: {
         keywords: this.initializeKeywordsFromPage(page),
-        entities: page.semanticFeatures?.entities || {
-          people: [],
-          places: [],
-          organizations: [],
-          products: [],
-          topics: [],
-        },
+        entities: this.aggregateEntities([page]),
         domains: [page.metadata.domain],
         patterns: {
           avgEngagement: page.interactions.engagementScore,
@@ -329,9 +558,13 @@ class IntentEngine {
           browsingStyle: "exploratory",
         },
         cachedForPageCount: 1,
+        centroid: buildCentroid([page]),
       },
       relatedIntents: [],
       userFeedback: { discarded: false },
+      ...(page.source === "history_import" && {
+        metadata: { importedOnly: true },
+      }),
       timeline: [
         {
           date: new Date(page.timestamp).toISOString().split("T")[0],
@@ -349,6 +582,7 @@ class IntentEngine {
         role: "primary",
         assignedAt: Date.now(),
         autoAssigned: true,
+        ...explanation,
       },
       secondary: [],
     };
@@ -416,23 +650,40 @@ class IntentEngine {
   }
 
   private async updateIntent(intent: Intent, newPage: PageData): Promise<void> {
-    // Add page to intent
-    intent.pageIds.push(newPage.id);
-    intent.pageCount = intent.pageIds.length;
-    intent.lastUpdated = newPage.timestamp;
+    const alreadyAssigned = intent.pageIds.includes(newPage.id);
+
+    // Add page to intent (re-processing an assigned page adds nothing)
+    if (!alreadyAssigned) {
+      intent.pageIds.push(newPage.id);
+      intent.pageCount = intent.pageIds.length;
+    }
+
+    // Imported visits can be older than the intent's latest activity
+    intent.lastUpdated = Math.max(intent.lastUpdated, newPage.timestamp);
+    intent.lastVisited = Math.max(intent.lastVisited || 0, newPage.timestamp);
+    if (newPage.source !== "history_import" && intent.metadata?.importedOnly) {
+      delete intent.metadata.importedOnly;
+    }
 
     // Add timeline event for page addition
-    intent.timeline.push({
-      date: new Date().toISOString().split("T")[0],
-      event: "page_added",
-      details: `Added: ${newPage.title.substring(0, 50)}`,
-      pageId: newPage.id,
-      pageTitle: newPage.title,
-      newPageCount: intent.pageCount,
-    });
+    if (!alreadyAssigned) {
+      intent.timeline.push({
+        date: new Date().toISOString().split("T")[0],
+        event: "page_added",
+        details: `Added: ${newPage.title.substring(0, 50)}`,
+        pageId: newPage.id,
+        pageTitle: newPage.title,
+        newPageCount: intent.pageCount,
+      });
+    }
 
     // Update status (using state machine)
-    if (intent.pageCount >= 3 && intent.status === "emerging") {
+    if (intent.status === "dormant") {
+      transitionStatus(intent, "active", "Reactivated: New page added", {
+        triggeredBy: "page_added",
+      });
+      intent.reactivatedAt = Date.now();
+    } else if (intent.pageCount >= 3 && intent.status === "emerging") {
       transitionStatus(intent, "active", "Auto-transitioned: Reached 3 pages", {
         triggeredBy: "page_count",
         threshold: 3,
@@ -442,6 +693,19 @@ class IntentEngine {
     // Recompute aggregated signals
     const allPages = await storage.getPagesByIntent(intent.id);
 
+    // Centroid: add the page to the running sums (the query above can miss
+    // the page that was just saved)
+    const centroid = intent.aggregatedSignals.centroid;
+    if (centroid) {
+      if (!alreadyAssigned) addPageToCentroid(centroid, newPage);
+    } else {
+      intent.aggregatedSignals.centroid = buildCentroid(
+        allPages.some((p) => p.id === newPage.id)
+          ? allPages
+          : [...allPages, newPage]
+      );
+    }
+
     // Update keywords
     const keywordMap = new Map<
       string,
@@ -473,6 +737,9 @@ class IntentEngine {
       ])
     );
 
+    // Update entities
+    intent.aggregatedSignals.entities = this.aggregateEntities(allPages);
+
     // Update domains
     const domains = new Set(allPages.map((p) => p.metadata.domain));
     intent.aggregatedSignals.domains = Array.from(domains);
@@ -849,6 +1116,17 @@ Return ONLY valid JSON:
     sourceIntent: Intent,
     targetIntent: Intent
   ): Promise<{ valid: boolean; reason?: string }> {
+    // Check 0: Intents the user split or unmerged stay apart
+    const keptApart = (a: Intent, b: Intent) =>
+      a.metadata?.splitFrom === b.id ||
+      !!a.metadata?.unmergedFrom?.includes(b.id);
+    if (
+      keptApart(sourceIntent, targetIntent) ||
+      keptApart(targetIntent, sourceIntent)
+    ) {
+      return { valid: false, reason: "Separated by the user" };
+    }
+
     // Check 1: Domain overlap (at least 1 shared domain or similar domain patterns)
     const sourceDomains = new Set(sourceIntent.aggregatedSignals.domains);
     const targetDomains = new Set(targetIntent.aggregatedSignals.domains);
@@ -1186,6 +1464,14 @@ Return ONLY valid JSON:
     ]);
     targetIntent.aggregatedSignals.domains = Array.from(allDomains);
 
+    // Merge centroids (rebuilt from the pages below if either is missing)
+    const sourceCentroid = sourceIntent.aggregatedSignals.centroid;
+    const targetCentroid = targetIntent.aggregatedSignals.centroid;
+    targetIntent.aggregatedSignals.centroid =
+      sourceCentroid && targetCentroid
+        ? mergeCentroids(targetCentroid, sourceCentroid)
+        : undefined;
+
     await storage.saveIntent(targetIntent);
 
     // CRITICAL FIX: Get pages from MEMORY (known page IDs) not storage query
@@ -1230,6 +1516,11 @@ Return ONLY valid JSON:
         totalEngagement / allPages.length > 0.7 ? "focused" : "exploratory",
     };
 
+    targetIntent.aggregatedSignals.entities = this.aggregateEntities(allPages);
+    if (!targetIntent.aggregatedSignals.centroid) {
+      targetIntent.aggregatedSignals.centroid = buildCentroid(allPages);
+    }
+
     targetIntent.aggregatedSignals.cachedForPageCount = allPages.length;
 
     // Save updated intent with recalculated patterns
@@ -1332,11 +1623,187 @@ Return ONLY valid JSON:
     );
   }
 
+  /**
+   * Intents merged into this one, with whether each merge can be undone
+   */
+  async getMergedSources(intentId: string): Promise<MergedSource[]> {
+    const target = await storage.getIntent(intentId);
+    if (!target) throw new Error("Intent not found");
+
+    const { retention } = await storage.getSettings();
+    const sources: MergedSource[] = [];
+    for (const sourceId of target.metadata?.mergedFrom || []) {
+      const source = await storage.getIntent(sourceId);
+      if (!source) continue;
+
+      const pages = await this.pagesMergedFrom(target, sourceId);
+      sources.push({
+        intentId: sourceId,
+        label: source.userFeedback?.customLabel || source.label,
+        mergedAt: source.metadata?.mergedAt,
+        pageCount: pages.length,
+        blockedReason:
+          this.unmergeBlockedReason(source, target, retention) ?? undefined,
+      });
+    }
+    return sources;
+  }
+
+  /**
+   * Undo a merge: the source intent returns to its pre-merge status and the
+   * pages it brought move back. Pages moved since (by the user or AI
+   * verification) stay where they are.
+   */
+  async unmergeIntent(sourceIntentId: string): Promise<void> {
+    const source = await storage.getIntent(sourceIntentId);
+    const targetId = source?.metadata?.mergedInto;
+    const target = targetId ? await storage.getIntent(targetId) : null;
+    if (!source || !target) {
+      throw new Error("Merge not found for unmerge");
+    }
+
+    const { retention } = await storage.getSettings();
+    const blocked = this.unmergeBlockedReason(source, target, retention);
+    if (blocked) throw new Error(`Cannot unmerge: ${blocked}`);
+
+    const movedPages = await this.pagesMergedFrom(target, sourceIntentId);
+    const movedIds = new Set(movedPages.map((page) => page.id));
+    const keptPages = (await this.loadIntentPages(target)).filter(
+      (page) => !movedIds.has(page.id)
+    );
+    if (movedPages.length === 0 || keptPages.length === 0) {
+      throw new Error("Cannot unmerge: no pages to separate");
+    }
+
+    console.log(
+      `IntentEngine: Unmerging ${sourceIntentId.slice(-8)} from ${target.id.slice(-8)} (${movedPages.length} pages)`
+    );
+
+    // Pages first, so they always point to a live intent
+    const now = Date.now();
+    restoreMergedIntent(source, `Unmerged from: ${target.label}`, {
+      triggeredBy: "unmerge",
+      sourceIntentId: target.id,
+    });
+    source.pageIds = movedPages.map((page) => page.id);
+    source.pageCount = movedPages.length;
+    source.aggregatedSignals = this.signalsFromPages(movedPages);
+    source.metadata = {
+      ...source.metadata,
+      mergedInto: undefined,
+      mergedAt: undefined,
+      unmergedFrom: [...(source.metadata?.unmergedFrom || []), target.id],
+    };
+    source.timeline.push({
+      date: new Date(now).toISOString().split("T")[0],
+      event: "unmerged",
+      details: `Separated from: ${target.label}`,
+      sourceIntentId: target.id,
+      newPageCount: source.pageCount,
+      source: "user",
+    });
+    await storage.saveIntent(source);
+
+    for (const page of movedPages) {
+      const { mergedFrom: _mergedFrom, ...assignment } =
+        page.intentAssignments.primary!;
+      page.intentAssignments.primary = {
+        ...assignment,
+        intentId: source.id,
+        assignedAt: now,
+        autoAssigned: false,
+        needsConfirmation: false,
+      };
+      await storage.savePage(page);
+    }
+
+    target.pageIds = keptPages.map((page) => page.id);
+    target.pageCount = keptPages.length;
+    target.aggregatedSignals = this.signalsFromPages(keptPages);
+    target.lastUpdated = now;
+    target.metadata = {
+      ...target.metadata,
+      mergedFrom: target.metadata?.mergedFrom?.filter(
+        (id) => id !== sourceIntentId
+      ),
+      unmergedFrom: [...(target.metadata?.unmergedFrom || []), source.id],
+    };
+    target.timeline.push({
+      date: new Date(now).toISOString().split("T")[0],
+      event: "unmerged",
+      details: `Separated: ${source.label}`,
+      sourceIntentId: source.id,
+      pagesMerged: -movedPages.length,
+      newPageCount: target.pageCount,
+      source: "user",
+    });
+    await storage.saveIntent(target);
+
+    // The target's label and summary covered both
+    await processingQueue.addTask("generate_intent_label", target.id, 5);
+    await processingQueue.addTask("generate_intent_goal", target.id, 6);
+    await processingQueue.addTask("generate_intent_summary", target.id, 20);
+    await knowledgeGraph.updateFromIntent(source);
+
+    console.log(`IntentEngine: ✓ Unmerged ${sourceIntentId.slice(-8)}`);
+  }
+
+  /**
+   * Why a merge can't be undone, or null. Merges stay reversible until the
+   * source intent is compacted (retention's archiveIntentsAfterDays).
+   */
+  private unmergeBlockedReason(
+    source: Intent,
+    target: Intent,
+    retention: RetentionSettings
+  ): string | null {
+    if (
+      source.status !== "merged" ||
+      source.metadata?.mergedInto !== target.id
+    ) {
+      return "not merged into this intent";
+    }
+    if (target.status === "merged") {
+      return "this intent was itself merged; unmerge that first";
+    }
+    if (source.metadata?.compactedAt) {
+      return "merged intent has been archived";
+    }
+    const mergedAt = source.metadata?.mergedAt || 0;
+    if (
+      retention.enabled &&
+      Date.now() - mergedAt >= retention.archiveIntentsAfterDays * this.DAY_MS
+    ) {
+      return "merged too long ago";
+    }
+    return null;
+  }
+
+  /**
+   * Pages in the target that came from a merge of the source and haven't
+   * been moved since
+   */
+  private async pagesMergedFrom(
+    target: Intent,
+    sourceIntentId: string
+  ): Promise<PageData[]> {
+    return (await this.loadIntentPages(target)).filter(
+      (page) =>
+        page.intentAssignments.primary?.intentId === target.id &&
+        page.intentAssignments.primary.mergedFrom === sourceIntentId
+    );
+  }
+
   /**
    * Reassign a page to a different intent
-   * Called by AI verification when it detects wrong assignment
+   * Called by AI verification when it detects wrong assignment, or by the
+   * user. Logged as a matching correction.
    */
-  async reassignPage(pageId: string, newIntentId: string): Promise<void> {
+  async reassignPage(
+    pageId: string,
+    newIntentId: string,
+    source: CorrectionSource = "ai_verification"
+  ): Promise<void> {
     console.log(`IntentEngine: Reassigning page ${pageId} to ${newIntentId}`);
 
     const page = await storage.getPage(pageId);
@@ -1347,6 +1814,10 @@ Return ONLY valid JSON:
     }
 
     const oldIntentId = page.intentAssignments.primary?.intentId;
+    const rejectedSignals = page.intentAssignments.primary?.signals;
+    // Before the page joins it
+    const acceptedSignals = this.calculateMatchSignals(page, newIntent);
+    let oldIntent: Intent | null = null;
 
     // Update page assignment
     page.intentAssignments.primary = {
@@ -1365,10 +1836,11 @@ Return ONLY valid JSON:
 
     // Clean up old intent if it has no more pages
     if (oldIntentId) {
-      const oldIntent = await storage.getIntent(oldIntentId);
+      oldIntent = await storage.getIntent(oldIntentId);
       if (oldIntent) {
         oldIntent.pageIds = oldIntent.pageIds.filter((id) => id !== pageId);
         oldIntent.pageCount = oldIntent.pageIds.length;
+        this.removePageSignals(oldIntent, page);
 
         if (oldIntent.pageCount === 0) {
           // Use discarded instead of abandoned (abandoned doesn't exist in new model)
@@ -1384,14 +1856,24 @@ Return ONLY valid JSON:
       }
     }
 
+    await this.logCorrection(page, "reassign", source, oldIntent, {
+      rejectedSignals,
+      acceptedIntentId: newIntentId,
+      acceptedSignals,
+    });
+
     console.log(`IntentEngine: ✓ Reassigned page successfully`);
   }
 
   /**
    * Create a new intent from an existing page (split from current intent)
-   * Called by AI verification when it detects intent is too broad
+   * Called by AI verification when it detects intent is too broad, or by
+   * the user. Logged as a matching correction.
    */
-  async createNewIntentFromPage(pageId: string): Promise<void> {
+  async createNewIntentFromPage(
+    pageId: string,
+    source: CorrectionSource = "ai_verification"
+  ): Promise<void> {
     console.log(`IntentEngine: Creating new intent from page ${pageId}`);
 
     const page = await storage.getPage(pageId);
@@ -1400,13 +1882,16 @@ Return ONLY valid JSON:
     }
 
     const oldIntentId = page.intentAssignments.primary?.intentId;
+    const rejectedSignals = page.intentAssignments.primary?.signals;
+    let oldIntent: Intent | null = null;
 
     // Remove from old intent first
     if (oldIntentId) {
-      const oldIntent = await storage.getIntent(oldIntentId);
+      oldIntent = await storage.getIntent(oldIntentId);
       if (oldIntent) {
         oldIntent.pageIds = oldIntent.pageIds.filter((id) => id !== pageId);
         oldIntent.pageCount = oldIntent.pageIds.length;
+        this.removePageSignals(oldIntent, page);
         await storage.saveIntent(oldIntent);
       }
     }
@@ -1414,9 +1899,337 @@ Return ONLY valid JSON:
     // Create new intent with this page
     await this.createNewIntent(page);
 
+    await this.logCorrection(page, "split", source, oldIntent, {
+      rejectedSignals,
+      acceptedIntentId: page.intentAssignments.primary?.intentId || null,
+    });
+
     console.log(`IntentEngine: ✓ Created new intent from page split`);
   }
 
+  /**
+   * Suggest how to divide an intent's pages (see intent-split.ts); the user
+   * can move pages between groups before calling splitIntent
+   */
+  async proposeSplit(
+    intentId: string,
+    groupCount?: number
+  ): Promise<SplitProposal> {
+    const intent = await storage.getIntent(intentId);
+    if (!intent) throw new Error("Intent not found for split");
+
+    const pages = await this.loadIntentPages(intent);
+    const proposal = proposeSplitGroups(pages, groupCount);
+    if (!proposal) {
+      throw new Error("An intent needs at least 2 pages to split");
+    }
+
+    return { intentId, ...proposal };
+  }
+
+  /**
+   * Split an intent: the first group's pages (and any page not listed) stay,
+   * every other group becomes a new intent. Pages, signals, insights and
+   * knowledge gaps move with their group. Returns the new intent IDs.
+   */
+  async splitIntent(
+    intentId: string,
+    groups: Pick<SplitGroup, "pageIds" | "label">[]
+  ): Promise<string[]> {
+    const source = await storage.getIntent(intentId);
+    if (!source) throw new Error("Intent not found for split");
+    if (isTerminal(source.status)) {
+      throw new Error(`Cannot split a ${source.status} intent`);
+    }
+
+    const pages = await this.loadIntentPages(source);
+    const pagesById = new Map(pages.map((page) => [page.id, page]));
+    const claimed = new Set<string>();
+    const newGroups = groups
+      .slice(1)
+      .map((group) => ({
+        label: group.label?.trim(),
+        pages: group.pageIds
+          .filter((id) => pagesById.has(id) && !claimed.has(id))
+          .map((id) => {
+            claimed.add(id);
+            return pagesById.get(id)!;
+          }),
+      }))
+      .filter((group) => group.pages.length > 0);
+    const keptPages = pages.filter((page) => !claimed.has(page.id));
+
+    if (newGroups.length === 0 || keptPages.length === 0) {
+      throw new Error("A split needs pages both kept and moved");
+    }
+
+    console.log(
+      `IntentEngine: Splitting ${intentId.slice(-8)} into ${newGroups.length + 1} intents`
+    );
+
+    const now = Date.now();
+    const today = new Date(now).toISOString().split("T")[0];
+    const byGroup = [keptPages, ...newGroups.map((group) => group.pages)];
+    const insightGroups = distributeInsights(source.insights || [], byGroup);
+    const gapGroups = distributeKnowledgeGaps(
+      source.knowledgeGaps || [],
+      byGroup
+    );
+
+    const created: Intent[] = [];
+    for (const [index, group] of newGroups.entries()) {
+      const timestamps = group.pages.map((page) => page.timestamp);
+      const intent: Intent = {
+        id: `intent-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        label: group.label || "Analyzing browsing pattern...",
+        labelConfidence: group.label ? 1 : 0.1,
+        labelUpdatedAt: now,
+        confidence: 60,
+        status: group.pages.length >= 3 ? "active" : "emerging",
+        firstSeen: Math.min(...timestamps),
+        lastUpdated: Math.max(...timestamps),
+        pageCount: group.pages.length,
+        pageIds: group.pages.map((page) => page.id),
+        aggregatedSignals: this.signalsFromPages(group.pages),
+        relatedIntents: [intentId],
+        userFeedback: {
+          discarded: false,
+          ...(group.label && { customLabel: group.label }),
+        },
+        timeline: [
+          {
+            date: today,
+            event: "split",
+            details: `Split from: ${source.userFeedback?.customLabel || source.label}`,
+            sourceIntentId: intentId,
+            newPageCount: group.pages.length,
+            source: "user",
+          },
+        ],
+        metadata: { splitFrom: intentId },
+        insights: (source.insights || []).filter(
+          (_, i) => insightGroups[i] === index + 1
+        ),
+        knowledgeGaps: (source.knowledgeGaps || []).filter(
+          (_, i) => gapGroups[i] === index + 1
+        ),
+      };
+
+      // Pages first, so they always point to a saved intent
+      await storage.saveIntent(intent);
+      for (const page of group.pages) {
+        page.intentAssignments.primary = {
+          intentId: intent.id,
+          confidence: 0.75,
+          role: "primary",
+          assignedAt: now,
+          autoAssigned: false,
+          needsConfirmation: false,
+          splitFrom: intentId,
+        };
+        await storage.savePage(page);
+      }
+      created.push(intent);
+    }
+
+    // What stays with the source intent
+    const createdIds = created.map((intent) => intent.id);
+    source.pageIds = keptPages.map((page) => page.id);
+    source.pageCount = keptPages.length;
+    source.aggregatedSignals = this.signalsFromPages(keptPages);
+    source.insights = source.insights?.filter((_, i) => insightGroups[i] === 0);
+    source.knowledgeGaps = source.knowledgeGaps?.filter(
+      (_, i) => gapGroups[i] === 0
+    );
+    source.relatedIntents = Array.from(
+      new Set([...source.relatedIntents, ...createdIds])
+    );
+    source.metadata = {
+      ...source.metadata,
+      splitInto: [...(source.metadata?.splitInto || []), ...createdIds],
+    };
+    source.lastUpdated = now;
+    for (const intent of created) {
+      source.timeline.push({
+        date: today,
+        event: "split",
+        details: `Split off ${intent.pageCount} pages${
+          intent.userFeedback.customLabel
+            ? `: ${intent.userFeedback.customLabel}`
+            : ""
+        }`,
+        to: intent.id,
+        newPageCount: source.pageCount,
+        source: "user",
+      });
+    }
+    await storage.saveIntent(source);
+
+    // Regenerate labels and goals for every side of the split (labels the
+    // user typed are kept)
+    for (const intent of created) {
+      if (!intent.userFeedback.customLabel) {
+        await processingQueue.addTask("generate_intent_label", intent.id, 5);
+      }
+      await processingQueue.addTask("generate_intent_goal", intent.id, 6);
+      await processingQueue.addTask("generate_intent_summary", intent.id, 20);
+      await processingQueue.addTask(
+        "generate_intent_next_steps",
+        intent.id,
+        22
+      );
+      await knowledgeGraph.updateFromIntent(intent);
+    }
+    await processingQueue.addTask("generate_intent_label", intentId, 5);
+    await processingQueue.addTask("generate_intent_goal", intentId, 6);
+    await processingQueue.addTask("generate_intent_summary", intentId, 20);
+
+    this.totalIntentsCreated += created.length;
+    console.log(
+      `IntentEngine: ✓ Split ${intentId.slice(-8)}: kept ${keptPages.length} pages, created ${created.length} intents`
+    );
+    return createdIds;
+  }
+
+  /**
+   * An intent's pages, fetched one by one when the intent index misses some
+   */
+  private async loadIntentPages(intent: Intent): Promise<PageData[]> {
+    const pages = await storage.getPagesByIntent(intent.id);
+    if (pages.length >= intent.pageIds.length) return pages;
+
+    const found = new Set(pages.map((page) => page.id));
+    for (const pageId of intent.pageIds) {
+      if (found.has(pageId)) continue;
+      const page = await storage.getPage(pageId);
+      if (page) pages.push(page);
+    }
+    return pages;
+  }
+
+  /**
+   * Keep AI verification's verdict on the page's current assignment
+   */
+  async recordVerification(
+    pageId: string,
+    verification: AssignmentVerification
+  ): Promise<void> {
+    const page = await storage.getPage(pageId);
+    const primary = page?.intentAssignments.primary;
+    if (!page || !primary) return;
+
+    await storage.updatePageIntentAssignment(pageId, {
+      ...page.intentAssignments,
+      primary: { ...primary, verification },
+    });
+  }
+
+  /**
+   * Take a page out of an intent's keyword stats, entities, domains and
+   * centroid (patterns are recomputed once the cache is found stale)
+   */
+  private removePageSignals(intent: Intent, page: PageData): void {
+    const signals = intent.aggregatedSignals;
+    removeKeywordStats(signals.keywords, page);
+
+    const centroid = signals.centroid;
+    if (!centroid) return;
+    removePageFromCentroid(centroid, page);
+
+    signals.domains = signals.domains.filter((d) => centroid.domains[d]);
+    for (const key of Object.keys(signals.entities) as (keyof EntityLists)[]) {
+      signals.entities[key] = signals.entities[key].filter(
+        (name) => centroid.entities[name.toLowerCase()]
+      );
+    }
+  }
+
+  /**
+   * Log a reassignment or split as training data for the matching weights:
+   * the page didn't belong to its old intent (signals from when it was
+   * matched, or recomputed without it) and, for a reassignment, did belong
+   * to the new one. Only the user's own corrections are logged; AI
+   * verification verdicts would teach the weights the verifier's judgement.
+   * Never fails the correction itself.
+   */
+  private async logCorrection(
+    page: PageData,
+    kind: CorrectionKind,
+    source: CorrectionSource,
+    oldIntent: Intent | null,
+    outcome: {
+      rejectedSignals?: MatchSignals;
+      acceptedIntentId: string | null;
+      acceptedSignals?: MatchSignals | null;
+    }
+  ): Promise<void> {
+    if (source !== "user") return;
+
+    try {
+      const examples: MatchExample[] = [];
+      const rejectedSignals =
+        outcome.rejectedSignals ||
+        (oldIntent && this.calculateMatchSignals(page, oldIntent));
+      if (oldIntent && rejectedSignals) {
+        examples.push({
+          intentId: oldIntent.id,
+          belongs: false,
+          signals: rejectedSignals,
+        });
+      }
+      if (outcome.acceptedIntentId && outcome.acceptedSignals) {
+        examples.push({
+          intentId: outcome.acceptedIntentId,
+          belongs: true,
+          signals: outcome.acceptedSignals,
+        });
+      }
+
+      await matchLearner.recordCorrection({
+        pageId: page.id,
+        kind,
+        source,
+        fromIntentId: oldIntent?.id || null,
+        toIntentId: outcome.acceptedIntentId,
+        examples,
+      });
+    } catch (error) {
+      console.error("IntentEngine: Failed to log matching correction", error);
+    }
+  }
+
+  /**
+   * Recompute signals and centroids of live intents from their pages.
+   * Run during maintenance to correct drift from incremental updates.
+   */
+  async rebuildCentroids(): Promise<{ rebuilt: number; drifted: number }> {
+    const intents = (await storage.getAllIntents()).filter(
+      (intent) => !isTerminal(intent.status) && intent.pageCount > 0
+    );
+
+    let drifted = 0;
+    for (const intent of intents) {
+      const before = intent.aggregatedSignals.centroid;
+      this.invalidateCache(intent);
+      await this.getAggregatedSignals(intent);
+
+      const after = intent.aggregatedSignals.centroid!;
+      if (
+        !before ||
+        before.pageCount !== after.pageCount ||
+        Math.abs(before.weight - after.weight) >
+          0.01 * Math.max(after.weight, 1)
+      ) {
+        drifted++;
+      }
+    }
+
+    console.log(
+      `IntentEngine: ✓ Rebuilt centroids for ${intents.length} intents (${drifted} had drifted)`
+    );
+    return { rebuilt: intents.length, drifted };
+  }
+
   private initializeKeywordsFromPage(page: PageData): Record<string, any> {
     const keywords: Record<string, any> = {};
 
@@ -1451,76 +2264,126 @@ Return ONLY valid JSON:
 
       // Recalculate aggregated signals
       const allPages = await storage.getPagesByIntent(intent.id);
+      intent.aggregatedSignals = this.signalsFromPages(allPages);
 
-      // Update keywords
-      const keywordMap = new Map<
-        string,
-        { count: number; totalEngagement: number }
-      >();
-      allPages.forEach((p) => {
-        (p.semanticFeatures?.concepts || []).forEach((concept) => {
-          const current = keywordMap.get(concept) || {
-            count: 0,
-            totalEngagement: 0,
-          };
-          keywordMap.set(concept, {
-            count: current.count + 1,
-            totalEngagement:
-              current.totalEngagement + p.interactions.engagementScore,
-          });
+      // Save recalculated intent
+      await storage.saveIntent(intent);
+
+      console.log(
+        `IntentEngine: ✓ Recalculated aggregated signals for ${intent.id}`
+      );
+    }
+
+    return intent.aggregatedSignals;
+  }
+
+  /**
+   * Aggregated signals computed from scratch from an intent's pages
+   */
+  private signalsFromPages(pages: PageData[]): Intent["aggregatedSignals"] {
+    // Update keywords
+    const keywordMap = new Map<
+      string,
+      { count: number; totalEngagement: number }
+    >();
+    pages.forEach((p) => {
+      (p.semanticFeatures?.concepts || []).forEach((concept) => {
+        const current = keywordMap.get(concept) || {
+          count: 0,
+          totalEngagement: 0,
+        };
+        keywordMap.set(concept, {
+          count: current.count + 1,
+          totalEngagement:
+            current.totalEngagement + p.interactions.engagementScore,
         });
       });
+    });
 
-      intent.aggregatedSignals.keywords = Object.fromEntries(
-        Array.from(keywordMap.entries()).map(([word, stats]) => [
-          word,
-          {
-            count: stats.count,
-            avgEngagement: stats.totalEngagement / stats.count,
-            totalEngagement: stats.totalEngagement,
-            recency: 1.0,
-          },
-        ])
-      );
+    const keywords = Object.fromEntries(
+      Array.from(keywordMap.entries()).map(([word, stats]) => [
+        word,
+        {
+          count: stats.count,
+          avgEngagement: stats.totalEngagement / stats.count,
+          totalEngagement: stats.totalEngagement,
+          recency: 1.0,
+        },
+      ])
+    );
 
-      // Update domains
-      const domains = new Set(allPages.map((p) => p.metadata.domain));
-      intent.aggregatedSignals.domains = Array.from(domains);
+    // Update entities
+    const entities = this.aggregateEntities(pages);
 
-      // Update patterns
-      const totalEngagement = allPages.reduce(
-        (sum, p) => sum + p.interactions.engagementScore,
-        0
-      );
-      const totalDwell = allPages.reduce(
-        (sum, p) => sum + p.interactions.dwellTime,
-        0
-      );
-      const totalScroll = allPages.reduce(
-        (sum, p) => sum + p.interactions.scrollDepth,
-        0
-      );
+    // Update domains
+    const domains = new Set(pages.map((p) => p.metadata.domain));
 
-      intent.aggregatedSignals.patterns = {
-        avgEngagement: totalEngagement / allPages.length,
-        avgDwellTime: totalDwell / allPages.length,
-        avgScrollDepth: totalScroll / allPages.length,
-        browsingStyle:
-          totalEngagement / allPages.length > 0.7 ? "focused" : "exploratory",
-      };
+    // Update patterns
+    const totalEngagement = pages.reduce(
+      (sum, p) => sum + p.interactions.engagementScore,
+      0
+    );
+    const totalDwell = pages.reduce(
+      (sum, p) => sum + p.interactions.dwellTime,
+      0
+    );
+    const totalScroll = pages.reduce(
+      (sum, p) => sum + p.interactions.scrollDepth,
+      0
+    );
 
-      // Update cache marker
-      intent.aggregatedSignals.cachedForPageCount = allPages.length;
+    const patterns: Intent["aggregatedSignals"]["patterns"] = {
+      avgEngagement: totalEngagement / pages.length,
+      avgDwellTime: totalDwell / pages.length,
+      avgScrollDepth: totalScroll / pages.length,
+      browsingStyle:
+        totalEngagement / pages.length > 0.7 ? "focused" : "exploratory",
+    };
 
-      // Save recalculated intent
-      await storage.saveIntent(intent);
+    return {
+      keywords,
+      entities,
+      domains: Array.from(domains),
+      patterns,
+      cachedForPageCount: pages.length,
+      centroid: buildCentroid(pages),
+    };
+  }
 
-      console.log(
-        `IntentEngine: ✓ Recalculated aggregated signals for ${intent.id}`
-      );
+  /**
+   * Entities across pages, most frequent first. Structured data (JSON-LD,
+   * microdata) counts before AI-extracted names, so exact brand/author
+   * spellings win over the model's variants.
+   */
+  private aggregateEntities(pages: PageData[]): EntityLists {
+    const aggregated = emptyEntities();
+
+    for (const key of Object.keys(aggregated) as (keyof EntityLists)[]) {
+      const counts = new Map<string, { name: string; count: number }>();
+
+      for (const page of pages) {
+        const structured = getStructuredEntities(page.structuredData);
+        const entities = mergeEntities(
+          structured,
+          page.semanticFeatures?.entities
+        );
+        for (const name of entities[key]) {
+          const normalized = name.toLowerCase();
+          const current = counts.get(normalized);
+          counts.set(normalized, {
+            name: structured[key].includes(name) ? name : current?.name || name,
+            count: (current?.count || 0) + 1,
+          });
+        }
+      }
+
+      aggregated[key] = Array.from(counts.values())
+        .sort((a, b) => b.count - a.count)
+        .slice(0, this.MAX_ENTITIES_PER_TYPE)
+        .map((entry) => entry.name);
     }
 
-    return intent.aggregatedSignals;
+    return aggregated;
   }
 
   /**
@@ -0,0 +1,317 @@
+/**
+ * Intent Relationships - How research threads connect over time
+ *
+ * Relationships live in the `relationships` store and are always directed
+ * from the earlier intent (by firstSeen) to the later one:
+ * 1. Detection: cheap overlap pre-filter, then one AI call per scanned intent
+ * 2. Queries: direct relationships, multi-hop traversal, evolution chain
+ */
+
+import { storage } from "./storage-manager";
+import { keywordSimilarity, entitySimilarity } from "./semantic-similarity";
+import type { Intent } from "@/types/intent";
+import type {
+  IntentEvolutionStep,
+  IntentRelationship,
+  RelatedIntent,
+  RelationshipTraversalNode,
+  RelationType,
+} from "@/types/storage";
+
+export interface RelationshipDetectionResult {
+  relationships: IntentRelationship[];
+  removed: number;
+  candidatesEvaluated: number;
+  prompt?: string;
+  response?: string;
+}
+
+// Edge types that describe one thread turning into another
+const LINEAGE_TYPES: RelationType[] = [
+  "continuation",
+  "evolution",
+  "consequence",
+];
+
+class IntentRelationshipManager {
+  private readonly MAX_CANDIDATES = 5;
+  private readonly MIN_OVERLAP_SCORE = 0.1;
+  private readonly MIN_CONFIDENCE = 0.6;
+
+  /**
+   * Detect relationships between an intent and the rest of the library
+   */
+  async detectRelationships(
+    intentId: string
+  ): Promise<RelationshipDetectionResult> {
+    const intent = await storage.getIntent(intentId);
+    if (!intent) throw new Error(`Intent ${intentId} not found`);
+
+    const allIntents = await storage.getAllIntents();
+    const candidates = this.selectCandidates(intent, allIntents);
+
+    if (candidates.length === 0) {
+      return { relationships: [], removed: 0, candidatesEvaluated: 0 };
+    }
+
+    // Dynamic import to avoid circular dependency
+    const { classifyIntentRelationships } = await import(
+      "../services/ai-generator"
+    );
+    const { classifications, prompt, response } =
+      await classifyIntentRelationships(intent, candidates);
+
+    const candidateMap = new Map(candidates.map((c) => [c.id, c]));
+    const existingIds = new Set(
+      (await storage.getRelationshipsForIntent(intent.id)).map((r) => r.id)
+    );
+    const saved: IntentRelationship[] = [];
+    let removed = 0;
+
+    for (const classification of classifications) {
+      const other = candidateMap.get(classification.candidateId);
+      if (!other) continue;
+
+      const [from, to] =
+        intent.firstSeen <= other.firstSeen ? [intent, other] : [other, intent];
+      const id = this.buildRelationshipId(from.id, to.id);
+
+      if (
+        classification.type === "unrelated" ||
+        classification.confidence < this.MIN_CONFIDENCE
+      ) {
+        // Drop a previously detected edge the AI no longer stands behind
+        if (existingIds.has(id)) {
+          await storage.deleteRelationship(id);
+          removed++;
+        }
+        continue;
+      }
+
+      const relationship: IntentRelationship = {
+        id,
+        fromIntentId: from.id,
+        toIntentId: to.id,
+        type: classification.type,
+        confidence: classification.confidence,
+        reasoning: classification.reasoning,
+        createdAt: Date.now(),
+      };
+
+      await storage.saveRelationship(relationship);
+      saved.push(relationship);
+    }
+
+    // Keep Intent.relatedIntents in sync for every intent we touched
+    const touched = new Set([intent.id, ...candidates.map((c) => c.id)]);
+    for (const touchedId of touched) {
+      await this.syncRelatedIntents(touchedId);
+    }
+
+    console.log(
+      `IntentRelationships: ✓ ${saved.length} relationships for ${intent.id} (${candidates.length} candidates, ${removed} removed)`
+    );
+
+    return {
+      relationships: saved,
+      removed,
+      candidatesEvaluated: candidates.length,
+      prompt,
+      response,
+    };
+  }
+
+  /**
+   * Direct relationships for an intent, strongest first
+   */
+  async getRelationships(intentId: string): Promise<RelatedIntent[]> {
+    const relationships = await storage.getRelationshipsForIntent(intentId);
+    const related: RelatedIntent[] = [];
+
+    for (const relationship of relationships) {
+      const outgoing = relationship.fromIntentId === intentId;
+      const otherId = outgoing
+        ? relationship.toIntentId
+        : relationship.fromIntentId;
+      const intent = await storage.getIntent(otherId);
+      if (!intent) continue;
+
+      related.push({
+        relationship,
+        intent,
+        direction: outgoing ? "outgoing" : "incoming",
+      });
+    }
+
+    return related.sort(
+      (a, b) => b.relationship.confidence - a.relationship.confidence
+    );
+  }
+
+  /**
+   * Breadth-first walk of the relationship graph (both directions)
+   */
+  async traverse(
+    intentId: string,
+    options: { maxDepth?: number; types?: RelationType[] } = {}
+  ): Promise<RelationshipTraversalNode[]> {
+    const maxDepth = options.maxDepth ?? 3;
+    const visited = new Set<string>([intentId]);
+    const nodes: RelationshipTraversalNode[] = [];
+    let frontier = [intentId];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+
+      for (const currentId of frontier) {
+        const related = await this.getRelationships(currentId);
+        for (const { relationship, intent } of related) {
+          if (visited.has(intent.id)) continue;
+          if (options.types && !options.types.includes(relationship.type)) {
+            continue;
+          }
+
+          visited.add(intent.id);
+          nodes.push({ intent, depth, via: relationship });
+          next.push(intent.id);
+        }
+      }
+
+      frontier = next;
+    }
+
+    return nodes;
+  }
+
+  /**
+   * "How did this evolve": the lineage chain through this intent, oldest first
+   *
+   * Walks continuation/evolution/consequence edges backwards to the root and
+   * forwards to the latest descendant, picking the strongest edge at each step.
+   */
+  async getEvolution(intentId: string): Promise<IntentEvolutionStep[]> {
+    const intent = await storage.getIntent(intentId);
+    if (!intent) return [];
+
+    const seen = new Set<string>([intentId]);
+
+    const ancestors: IntentEvolutionStep[] = [];
+    let cursor: IntentEvolutionStep = { intent };
+    while (true) {
+      const parent = await this.strongestLineageEdge(
+        cursor.intent.id,
+        "incoming",
+        seen
+      );
+      if (!parent) break;
+
+      cursor.relationship = parent.relationship;
+      ancestors.unshift(cursor);
+      cursor = { intent: parent.intent };
+      seen.add(parent.intent.id);
+    }
+    ancestors.unshift(cursor);
+
+    const descendants: IntentEvolutionStep[] = [];
+    let current = intent;
+    while (true) {
+      const child = await this.strongestLineageEdge(
+        current.id,
+        "outgoing",
+        seen
+      );
+      if (!child) break;
+
+      descendants.push({
+        intent: child.intent,
+        relationship: child.relationship,
+      });
+      current = child.intent;
+      seen.add(child.intent.id);
+    }
+
+    return [...ancestors, ...descendants];
+  }
+
+  private async strongestLineageEdge(
+    intentId: string,
+    direction: RelatedIntent["direction"],
+    seen: Set<string>
+  ): Promise<RelatedIntent | null> {
+    const related = await this.getRelationships(intentId);
+    return (
+      related.find(
+        (r) =>
+          r.direction === direction &&
+          LINEAGE_TYPES.includes(r.relationship.type) &&
+          !seen.has(r.intent.id)
+      ) || null
+    );
+  }
+
+  /**
+   * Cheap overlap pre-filter (no AI) - keeps the top few candidates
+   */
+  private selectCandidates(intent: Intent, allIntents: Intent[]): Intent[] {
+    const keywords = Object.keys(intent.aggregatedSignals.keywords);
+    const domains = new Set(intent.aggregatedSignals.domains);
+
+    return allIntents
+      .filter(
+        (other) =>
+          other.id !== intent.id &&
+          other.status !== "merged" &&
+          other.status !== "discarded" &&
+          !other.userFeedback.discarded &&
+          other.pageCount > 0
+      )
+      .map((other) => {
+        const keywordScore = keywordSimilarity(
+          keywords,
+          Object.keys(other.aggregatedSignals.keywords)
+        );
+        const entityScore = entitySimilarity(
+          intent.aggregatedSignals.entities,
+          other.aggregatedSignals.entities
+        );
+        const sharedDomains = other.aggregatedSignals.domains.filter((d) =>
+          domains.has(d)
+        ).length;
+        const domainScore =
+          sharedDomains /
+          Math.max(domains.size, 1, other.aggregatedSignals.domains.length);
+
+        return {
+          other,
+          score: keywordScore * 0.5 + entityScore * 0.3 + domainScore * 0.2,
+        };
+      })
+      .filter(({ score }) => score >= this.MIN_OVERLAP_SCORE)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.MAX_CANDIDATES)
+      .map(({ other }) => other);
+  }
+
+  private async syncRelatedIntents(intentId: string): Promise<void> {
+    const intent = await storage.getIntent(intentId);
+    if (!intent) return;
+
+    const relationships = await storage.getRelationshipsForIntent(intentId);
+    const relatedIds = relationships.map((r) =>
+      r.fromIntentId === intentId ? r.toIntentId : r.fromIntentId
+    );
+
+    const current = [...(intent.relatedIntents || [])].sort().join(",");
+    if (current === [...relatedIds].sort().join(",")) return;
+
+    intent.relatedIntents = relatedIds;
+    await storage.saveIntent(intent);
+  }
+
+  private buildRelationshipId(fromId: string, toId: string): string {
+    return `rel-${fromId}-${toId}`;
+  }
+}
+
+// Global singleton
+export const intentRelationships = new IntentRelationshipManager();
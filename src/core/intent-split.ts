@@ -0,0 +1,271 @@
+/**
+ * Intent Split - Proposes narrower intents from one intent's pages
+ *
+ * 1. Pairwise page similarity: cosine of the page embeddings blended with
+ *    the overlap of their AI-extracted concepts
+ * 2. k-medoids clustering, seeded with the most central page and then the
+ *    pages farthest from the seeds chosen so far (deterministic)
+ * 3. Without a requested group count, 2 to MAX_SPLIT_GROUPS groups are tried
+ *    and the one with the best mean silhouette wins
+ *
+ * The largest group comes first and stays with the original intent; the
+ * rest become new intents (IntentEngine.splitIntent).
+ */
+
+import type { IntentInsight, KnowledgeGap, SplitGroup } from "@/types/intent";
+import type { PageData } from "@/types/page";
+import { queryTerms, termOverlap } from "./search-queries";
+import { cosineSimilarity } from "./semantic-similarity";
+
+export const MAX_SPLIT_GROUPS = 4;
+const EMBEDDING_SHARE = 0.7; // Rest is concept overlap
+const MAX_ITERATIONS = 20;
+const CONCEPTS_PER_GROUP = 5;
+
+function pageConcepts(page: PageData): Set<string> {
+  return new Set(
+    (page.semanticFeatures?.concepts || []).map((c) => c.toLowerCase())
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((item) => {
+    if (b.has(item)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+function distanceMatrix(pages: PageData[]): number[][] {
+  const concepts = pages.map(pageConcepts);
+  return pages.map((a, i) =>
+    pages.map((b, j) => {
+      if (i === j) return 0;
+      const embedding =
+        a.embedding && b.embedding
+          ? Math.max(0, cosineSimilarity(a.embedding, b.embedding))
+          : 0;
+      const similarity =
+        EMBEDDING_SHARE * embedding +
+        (1 - EMBEDDING_SHARE) * jaccard(concepts[i], concepts[j]);
+      return 1 - similarity;
+    })
+  );
+}
+
+/**
+ * Cluster index per page
+ */
+function kMedoids(distances: number[][], k: number): number[] {
+  const n = distances.length;
+  const total = (i: number, members: number[]) =>
+    members.reduce((sum, j) => sum + distances[i][j], 0);
+  const everyone = distances.map((_, i) => i);
+
+  // Seeds: the most central page, then farthest-first
+  const medoids = [
+    everyone.reduce((best, i) =>
+      total(i, everyone) < total(best, everyone) ? i : best
+    ),
+  ];
+  while (medoids.length < k) {
+    const next = everyone
+      .filter((i) => !medoids.includes(i))
+      .reduce((best, i) =>
+        Math.min(...medoids.map((m) => distances[i][m])) >
+        Math.min(...medoids.map((m) => distances[best][m]))
+          ? i
+          : best
+      );
+    medoids.push(next);
+  }
+
+  let assignment = new Array(n).fill(0);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    assignment = everyone.map((i) =>
+      medoids.reduce(
+        (best, m, c) =>
+          distances[i][m] < distances[i][medoids[best]] ? c : best,
+        0
+      )
+    );
+
+    let changed = false;
+    medoids.forEach((medoid, c) => {
+      const members = everyone.filter((i) => assignment[i] === c);
+      if (members.length === 0) return;
+      const best = members.reduce((a, b) =>
+        total(b, members) < total(a, members) ? b : a
+      );
+      if (best !== medoid) {
+        medoids[c] = best;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+
+  return assignment;
+}
+
+/**
+ * Mean silhouette: how much closer pages are to their own group than to the
+ * nearest other group (pages alone in a group count 0)
+ */
+function silhouette(distances: number[][], assignment: number[]): number {
+  const n = distances.length;
+  const clusters = Array.from(new Set(assignment));
+  if (clusters.length < 2) return -1;
+
+  let sum = 0;
+  for (let i = 0; i < n; i++) {
+    const meanTo = (c: number) => {
+      const members = assignment
+        .map((cluster, j) => (cluster === c && j !== i ? j : -1))
+        .filter((j) => j >= 0);
+      return members.length === 0
+        ? null
+        : members.reduce((s, j) => s + distances[i][j], 0) / members.length;
+    };
+
+    const own = meanTo(assignment[i]);
+    if (own === null) continue;
+    const nearest = Math.min(
+      ...clusters
+        .filter((c) => c !== assignment[i])
+        .map((c) => meanTo(c) ?? Infinity)
+    );
+    sum += (nearest - own) / Math.max(own, nearest, 1e-9);
+  }
+  return sum / n;
+}
+
+/**
+ * Concepts common in the group and rare in the rest of the intent
+ */
+function distinctiveConcepts(group: PageData[], others: PageData[]): string[] {
+  const frequency = (pages: PageData[]) => {
+    const counts = new Map<string, number>();
+    pages.forEach((page) =>
+      pageConcepts(page).forEach((concept) =>
+        counts.set(concept, (counts.get(concept) || 0) + 1)
+      )
+    );
+    return counts;
+  };
+  const inGroup = frequency(group);
+  const outside = frequency(others);
+
+  return Array.from(inGroup.entries())
+    .map(([concept, count]) => ({
+      concept,
+      score:
+        count / group.length -
+        (outside.get(concept) || 0) / Math.max(others.length, 1),
+    }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, CONCEPTS_PER_GROUP)
+    .map((entry) => entry.concept);
+}
+
+/**
+ * Split pages into groups, largest first. `groupCount` is clamped to
+ * 2..min(MAX_SPLIT_GROUPS, pages); null when there are fewer than 2 pages.
+ */
+export function proposeSplitGroups(
+  pages: PageData[],
+  groupCount?: number
+): { groups: SplitGroup[]; separation: number } | null {
+  if (pages.length < 2) return null;
+
+  const distances = distanceMatrix(pages);
+  const maxGroups = Math.min(MAX_SPLIT_GROUPS, pages.length);
+  const counts = groupCount
+    ? [Math.max(2, Math.min(groupCount, maxGroups))]
+    : Array.from({ length: maxGroups - 1 }, (_, i) => i + 2);
+
+  let best: { assignment: number[]; separation: number } | null = null;
+  for (const k of counts) {
+    const assignment = kMedoids(distances, k);
+    const separation = silhouette(distances, assignment);
+    if (!best || separation > best.separation) {
+      best = { assignment, separation };
+    }
+  }
+
+  const { assignment, separation } = best!;
+  const clusters = Array.from(new Set(assignment)).map((c) =>
+    pages.filter((_, i) => assignment[i] === c)
+  );
+  clusters.sort(
+    (a, b) =>
+      b.length - a.length ||
+      Math.min(...a.map((p) => p.timestamp)) -
+        Math.min(...b.map((p) => p.timestamp))
+  );
+
+  return {
+    groups: clusters.map((group) => ({
+      pageIds: group.map((page) => page.id),
+      concepts: distinctiveConcepts(
+        group,
+        pages.filter((page) => !group.includes(page))
+      ),
+    })),
+    separation,
+  };
+}
+
+/**
+ * Group index for each insight: the group whose pages' concepts its text
+ * overlaps most. Ties and insights matching nothing stay in group 0.
+ */
+export function distributeInsights(
+  insights: IntentInsight[],
+  groups: PageData[][]
+): number[] {
+  const groupTerms = groups.map((pages) =>
+    Array.from(
+      new Set(
+        pages.flatMap((page) =>
+          (page.semanticFeatures?.concepts || []).flatMap(queryTerms)
+        )
+      )
+    )
+  );
+
+  return insights.map((insight) => {
+    const terms = queryTerms(insight.text);
+    const scores = groupTerms.map((candidates) =>
+      termOverlap(terms, candidates)
+    );
+    const best = scores.indexOf(Math.max(...scores));
+    return scores[best] > scores[0] ? best : 0;
+  });
+}
+
+/**
+ * Group index for each knowledge gap: the group holding most of its
+ * evidence pages (ties stay in group 0)
+ */
+export function distributeKnowledgeGaps(
+  gaps: KnowledgeGap[],
+  groups: PageData[][]
+): number[] {
+  const groupOf = new Map<string, number>();
+  groups.forEach((pages, index) =>
+    pages.forEach((page) => groupOf.set(page.id, index))
+  );
+
+  return gaps.map((gap) => {
+    const counts = groups.map(() => 0);
+    gap.evidencePageIds.forEach((pageId) => {
+      const index = groupOf.get(pageId);
+      if (index !== undefined) counts[index]++;
+    });
+    const best = counts.indexOf(Math.max(...counts));
+    return counts[best] > counts[0] ? best : 0;
+  });
+}
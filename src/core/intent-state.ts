@@ -3,6 +3,7 @@
  */
 
 import type { Intent, IntentStatus } from "@/types/intent";
+import { DEFAULT_SETTINGS, type LifecycleSettings } from "@/types/settings";
 
 // State transition rules
 const STATE_TRANSITIONS: Record<IntentStatus, IntentStatus[]> = {
@@ -71,6 +72,43 @@ export function transitionStatus(
   });
 }
 
+/**
+ * Undo a merge: the only way out of a terminal state. The intent returns to
+ * the status it had when it was merged.
+ */
+export function restoreMergedIntent(
+  intent: Intent,
+  reason: string,
+  metadata?: any
+): void {
+  if (intent.status !== "merged") {
+    throw new Error(`Cannot restore a ${intent.status} intent`);
+  }
+
+  const mergedEvent = [...intent.timeline]
+    .reverse()
+    .find((event) => event.event === "status_changed" && event.to === "merged");
+  const previous = mergedEvent?.from as IntentStatus | undefined;
+  const restored: IntentStatus =
+    previous && !isTerminal(previous) ? previous : "dormant";
+
+  intent.status = restored;
+  intent.completedAt = undefined;
+  if (intent.metadata) {
+    intent.metadata.archivedAt = undefined;
+    intent.metadata.completedReason = undefined;
+  }
+
+  intent.timeline.push({
+    date: new Date().toISOString().split("T")[0],
+    event: "status_changed",
+    details: reason,
+    from: "merged",
+    to: restored,
+    ...metadata,
+  });
+}
+
 /**
  * Check if intent is in active state (visible in UI)
  */
@@ -134,60 +172,88 @@ export async function getFinalIntent(
   return chain[chain.length - 1] || null;
 }
 
+/**
+ * Check if the user snoozed this intent (no automatic changes until then)
+ */
+export function isSnoozed(intent: Intent): boolean {
+  return (intent.userFeedback.snoozeUntil || 0) > Date.now();
+}
+
 /**
  * Check if intent should auto-transition to dormant
- * (no activity for 30 minutes)
+ * (no activity for `dormantAfterMinutes`)
  */
-export function shouldTransitionToDormant(intent: Intent): boolean {
+export function shouldTransitionToDormant(
+  intent: Intent,
+  thresholds: LifecycleSettings = DEFAULT_SETTINGS.lifecycle
+): boolean {
   if (intent.status !== "active" && intent.status !== "emerging") {
     return false;
   }
 
   const inactiveMs = Date.now() - intent.lastUpdated;
-  const DORMANT_THRESHOLD = 30 * 60 * 1000; // 30 minutes
-
-  return inactiveMs > DORMANT_THRESHOLD;
+  return inactiveMs > thresholds.dormantAfterMinutes * 60 * 1000;
 }
 
 /**
  * Check if dormant intent should auto-transition to expired
- * (dormant for 7 days)
+ * (dormant for `expireAfterDays`)
+ *
+ * Confirmed intents never expire, and neither do intents built from a
+ * history import until they get a live page (imported pages are old and
+ * lightly engaged, so they would all expire). Focused research (engagement
+ * above `completeMinEngagement`) is left for the dormancy completion check.
  */
-export function shouldTransitionToExpired(intent: Intent): boolean {
-  if (intent.status !== "dormant") {
+export function shouldTransitionToExpired(
+  intent: Intent,
+  thresholds: LifecycleSettings = DEFAULT_SETTINGS.lifecycle
+): boolean {
+  if (
+    intent.status !== "dormant" ||
+    intent.userFeedback.confirmed ||
+    intent.metadata?.importedOnly
+  ) {
     return false;
   }
 
-  const dormantMs = Date.now() - intent.lastUpdated;
-  const EXPIRED_THRESHOLD = 7 * 24 * 60 * 60 * 1000; // 7 days
+  const avgEngagement = intent.aggregatedSignals.patterns.avgEngagement;
+  if (avgEngagement > thresholds.completeMinEngagement) {
+    return false;
+  }
 
-  return dormantMs > EXPIRED_THRESHOLD;
+  const dormantMs = Date.now() - intent.lastUpdated;
+  return dormantMs > thresholds.expireAfterDays * 24 * 60 * 60 * 1000;
 }
 
 /**
  * Auto-transition intent based on activity patterns
- * Called periodically by background service
+ * Called periodically by the intent lifecycle service
  */
-export function autoTransitionIntent(intent: Intent): boolean {
+export function autoTransitionIntent(
+  intent: Intent,
+  thresholds: LifecycleSettings = DEFAULT_SETTINGS.lifecycle
+): boolean {
+  if (isSnoozed(intent)) {
+    return false;
+  }
+
   let transitioned = false;
 
-  if (shouldTransitionToDormant(intent)) {
+  if (shouldTransitionToDormant(intent, thresholds)) {
     transitionStatus(
       intent,
       "dormant",
-      "Auto-transitioned: No activity for 30 minutes"
+      `Auto-transitioned: No activity for ${thresholds.dormantAfterMinutes} minutes`
     );
     transitioned = true;
-  } else if (shouldTransitionToExpired(intent)) {
+  } else if (shouldTransitionToExpired(intent, thresholds)) {
     transitionStatus(
       intent,
       "expired",
-      "Auto-transitioned: Dormant for 7 days"
+      `Auto-transitioned: Dormant for ${thresholds.expireAfterDays} days`
     );
     transitioned = true;
   }
 
   return transitioned;
 }
-
-
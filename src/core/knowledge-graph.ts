@@ -11,6 +11,7 @@ import { storage } from "./storage-manager";
 class KnowledgeGraphManager {
   private graph: UserKnowledgeGraph | null = null;
   private initializationError: Error | null = null;
+  private isRebuilding = false; // Save once at the end instead of per update
 
   async initialize(): Promise<void> {
     try {
@@ -350,6 +351,31 @@ class KnowledgeGraphManager {
     return [];
   }
 
+  /**
+   * Knowledge levels relevant to an intent: its own label, its top keywords,
+   * or any assessment backed by one of its pages
+   */
+  getKnowledgeLevelsForIntent(intent: Intent): KnowledgeLevel[] {
+    if (!this.graph) return [];
+
+    const topics = new Set([
+      intent.label.toLowerCase(),
+      ...Object.keys(intent.aggregatedSignals.keywords)
+        .slice(0, 10)
+        .map((k) => k.toLowerCase()),
+    ]);
+    const pageIds = new Set(intent.pageIds);
+
+    return Object.entries(this.graph.knowledge)
+      .filter(
+        ([key, level]) =>
+          topics.has(key) || level.evidence.some((id) => pageIds.has(id))
+      )
+      .map(([, level]) => level)
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, 8);
+  }
+
   getMasteredTopics(): KnowledgeLevel[] {
     if (!this.graph) return [];
 
@@ -383,8 +409,35 @@ class KnowledgeGraphManager {
       .sort((a, b) => b.frequency - a.frequency);
   }
 
+  /**
+   * Rebuild from scratch (after a backup import): pages, then intents,
+   * oldest first
+   */
+  async rebuild(pages: PageData[], intents: Intent[]): Promise<void> {
+    this.graph = this.createEmptyGraph();
+    this.initializationError = null;
+    this.isRebuilding = true;
+
+    try {
+      for (const page of [...pages].sort((a, b) => a.timestamp - b.timestamp)) {
+        if (page.semanticFeatures) await this.updateFromPage(page);
+      }
+      for (const intent of [...intents].sort(
+        (a, b) => a.firstSeen - b.firstSeen
+      )) {
+        if (intent.status !== "merged" && intent.status !== "discarded") {
+          await this.updateFromIntent(intent);
+        }
+      }
+    } finally {
+      this.isRebuilding = false;
+    }
+
+    await this.save();
+  }
+
   private async save(): Promise<void> {
-    if (!this.graph) return;
+    if (!this.graph || this.isRebuilding) return;
 
     this.graph.lastUpdated = Date.now();
     await storage.saveKnowledgeGraph(this.graph);
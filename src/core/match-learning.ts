@@ -0,0 +1,223 @@
+/**
+ * Match Learning - Per-user matching weights from logged corrections
+ *
+ * Every reassignment or split of a page by the user is a labeled correction
+ * (AI verification verdicts are not learned from): the page did not belong
+ * to the intent it was matched to (and, for a reassignment, did belong to
+ * the other one). The signal breakdown of each side is logged
+ * and a logistic regression over the six base signals is refit:
+ *
+ *   P(belongs) = sigmoid(bias + Σ wᵢ · signalᵢ)
+ *
+ * The fit starts from and is pulled toward the default weights (L2 prior),
+ * so a handful of corrections nudges the weights instead of replacing them.
+ * The weights are rescaled to sum to 1 and the decision boundary becomes
+ * the assignment threshold, keeping scores comparable with the defaults.
+ * The search query blend and query chain floor are not learned.
+ */
+
+import type {
+  CorrectionKind,
+  CorrectionSource,
+  MatchCorrection,
+  MatchExample,
+  MatchingModel,
+  MatchingModelState,
+  MatchSignals,
+  MatchWeights,
+} from "@/types/matching";
+import {
+  ASSIGN_THRESHOLD_MARGIN,
+  DEFAULT_MATCH_THRESHOLD,
+  DEFAULT_MATCH_WEIGHTS,
+  MATCH_SIGNALS,
+} from "@/types/matching";
+import { storage } from "./storage-manager";
+
+export const MIN_TRAINING_EXAMPLES = 6;
+const MAX_TRAINING_EXAMPLES = 500; // Newest examples used in a fit
+const MAX_HISTORY = 30;
+
+const PRIOR_SCALE = 10; // Logit change per unit of weighted score
+const PRIOR_STRENGTH = 5; // Weight of the prior, in examples
+const LEARNING_RATE = 0.5;
+const ITERATIONS = 500;
+const MIN_ASSIGN_THRESHOLD = 0.3;
+const MAX_ASSIGN_THRESHOLD = 0.8;
+
+export function defaultMatchingModel(): MatchingModel {
+  return {
+    weights: { ...DEFAULT_MATCH_WEIGHTS },
+    matchThreshold: DEFAULT_MATCH_THRESHOLD,
+    assignThreshold: DEFAULT_MATCH_THRESHOLD + ASSIGN_THRESHOLD_MARGIN,
+    trainedOn: 0,
+    fittedAt: 0,
+    event: "reset",
+  };
+}
+
+/**
+ * Weighted base score (before the search query blend)
+ */
+export function baseMatchScore(
+  signals: MatchSignals,
+  weights: MatchWeights
+): number {
+  return MATCH_SIGNALS.reduce(
+    (sum, signal) => sum + signals[signal] * weights[signal],
+    0
+  );
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+/**
+ * Gradient descent on the L2-regularized log loss; weights stay >= 0 so no
+ * signal counts against a match
+ */
+function fitLogistic(examples: MatchExample[]): MatchingModel | null {
+  const defaults = defaultMatchingModel();
+  const priorWeights = MATCH_SIGNALS.map(
+    (signal) => PRIOR_SCALE * defaults.weights[signal]
+  );
+  const priorBias = -PRIOR_SCALE * defaults.assignThreshold;
+
+  const weights = [...priorWeights];
+  let bias = priorBias;
+  const n = examples.length;
+  const rows = examples.map((example) => ({
+    x: MATCH_SIGNALS.map((signal) => example.signals[signal]),
+    y: example.belongs ? 1 : 0,
+  }));
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const gradWeights = weights.map(
+      (w, i) => (PRIOR_STRENGTH * (w - priorWeights[i])) / n
+    );
+    let gradBias = (PRIOR_STRENGTH * (bias - priorBias)) / n;
+
+    for (const { x, y } of rows) {
+      const error =
+        sigmoid(bias + x.reduce((z, xi, i) => z + xi * weights[i], 0)) - y;
+      x.forEach((xi, i) => {
+        gradWeights[i] += (error * xi) / n;
+      });
+      gradBias += error / n;
+    }
+
+    weights.forEach((w, i) => {
+      weights[i] = Math.max(0, w - LEARNING_RATE * gradWeights[i]);
+    });
+    bias -= LEARNING_RATE * gradBias;
+  }
+
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return null;
+
+  const assignThreshold = Math.min(
+    MAX_ASSIGN_THRESHOLD,
+    Math.max(MIN_ASSIGN_THRESHOLD, -bias / total)
+  );
+  return {
+    weights: Object.fromEntries(
+      MATCH_SIGNALS.map((signal, i) => [signal, weights[i] / total])
+    ) as MatchWeights,
+    matchThreshold: assignThreshold - ASSIGN_THRESHOLD_MARGIN,
+    assignThreshold,
+    trainedOn: n,
+    fittedAt: Date.now(),
+    event: "fit",
+  };
+}
+
+class MatchLearner {
+  private state: MatchingModelState | null = null;
+
+  /**
+   * Weights and thresholds to match with (defaults until enough corrections)
+   */
+  async getModel(): Promise<MatchingModel> {
+    return (await this.getState()).current || defaultMatchingModel();
+  }
+
+  async getState(): Promise<MatchingModelState> {
+    if (!this.state) {
+      this.state = (await storage.getMatchingModel()) || {
+        current: null,
+        history: [],
+      };
+    }
+    return this.state;
+  }
+
+  async recordCorrection(correction: {
+    pageId: string;
+    kind: CorrectionKind;
+    source: CorrectionSource;
+    fromIntentId: string | null;
+    toIntentId: string | null;
+    examples: MatchExample[];
+  }): Promise<void> {
+    if (correction.examples.length === 0) return;
+
+    await storage.addMatchCorrection({
+      ...correction,
+      id: `correction-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: Date.now(),
+    });
+    console.log(
+      `MatchLearner: ✓ Logged ${correction.kind} of page ${correction.pageId.slice(-8)} (${correction.source})`
+    );
+
+    await this.fit();
+  }
+
+  /**
+   * Refit from the logged corrections; null while there are too few
+   */
+  async fit(): Promise<MatchingModel | null> {
+    const corrections: MatchCorrection[] = await storage.getMatchCorrections();
+    // Corrections logged from AI verification before only the user's were
+    const examples = corrections
+      .filter((correction) => correction.source === "user")
+      .flatMap((correction) => correction.examples)
+      .slice(-MAX_TRAINING_EXAMPLES);
+    if (examples.length < MIN_TRAINING_EXAMPLES) return null;
+
+    const model = fitLogistic(examples);
+    if (!model) return null;
+
+    const state = await this.getState();
+    state.current = model;
+    state.history = [...state.history, model].slice(-MAX_HISTORY);
+    await storage.saveMatchingModel(state);
+
+    console.log(
+      `MatchLearner: ✓ Fitted weights on ${model.trainedOn} examples (assign at ${Math.round(model.assignThreshold * 100)}%)`
+    );
+    return model;
+  }
+
+  /**
+   * Back to the default weights; logged corrections are discarded
+   */
+  async reset(): Promise<MatchingModelState> {
+    await storage.clearMatchCorrections();
+
+    const state = await this.getState();
+    state.current = null;
+    state.history = [
+      ...state.history,
+      { ...defaultMatchingModel(), fittedAt: Date.now() },
+    ].slice(-MAX_HISTORY);
+    await storage.saveMatchingModel(state);
+
+    console.log("MatchLearner: ✓ Reset to default weights");
+    return state;
+  }
+}
+
+// Global singleton
+export const matchLearner = new MatchLearner();
@@ -6,11 +6,14 @@
  * 2. Rate limiting: Don't scan more than once every 10s
  * 3. Pre-filtering: Cheap heuristics eliminate 90% of pairs before AI
  * 4. Batching: Single AI call evaluates all candidates
+ * 5. Suppression: Pairs the user rejected (MergeProposals) are never rescanned
  */
 
 import { storage } from "./storage-manager";
 import { processingQueue } from "./processing-queue";
+import { mergeProposals } from "./merge-proposals";
 import type { Intent } from "@/types/intent";
+import { mergePairKey } from "@/types/merge";
 
 class MergeCoordinator {
   private pendingIntents: Set<string> = new Set();
@@ -90,7 +93,12 @@ class MergeCoordinator {
       );
 
       // Pre-filter: O(n²) but fast (no AI)
-      const candidates = this.prefilterCandidates(intentsToScan, activeIntents);
+      const suppressed = await mergeProposals.getSuppressedPairs();
+      const candidates = this.prefilterCandidates(
+        intentsToScan,
+        activeIntents,
+        suppressed
+      );
 
       console.log(
         `MergeCoordinator: Pre-filter found ${candidates.length} candidates for AI evaluation`
@@ -103,11 +111,12 @@ class MergeCoordinator {
       }
 
       // Queue AI evaluation task (single task for all candidates)
-      // The scan_intent_merge_opportunities task will handle AI evaluation
-      // We pass 'batch' as intentId to indicate global scan
-      await processingQueue.addTask(
-        "scan_intent_merge_opportunities",
-        "batch",
+      // The scan_intent_merge_opportunities task evaluates only these pairs
+      await processingQueue.addMergeScanTask(
+        candidates.map(({ intentA, intentB }) => ({
+          intentA: intentA.id,
+          intentB: intentB.id,
+        })),
         17 // Background priority
       );
 
@@ -136,14 +145,24 @@ class MergeCoordinator {
    */
   private prefilterCandidates(
     changedIntents: Intent[],
-    allIntents: Intent[]
+    allIntents: Intent[],
+    suppressedPairs: Set<string>
   ): Array<{ intentA: Intent; intentB: Intent }> {
     const candidates: Array<{ intentA: Intent; intentB: Intent }> = [];
+    const seen = new Set<string>();
 
     for (const intentA of changedIntents) {
       for (const intentB of allIntents) {
         if (intentA.id === intentB.id) continue;
 
+        // Each pair once, even when both intents changed
+        const pairKey = mergePairKey(intentA.id, intentB.id);
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        // Rejected by the user
+        if (suppressedPairs.has(pairKey)) continue;
+
         // Quick rejection rules
         if (this.shouldReject(intentA, intentB)) continue;
 
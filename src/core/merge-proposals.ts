@@ -0,0 +1,342 @@
+/**
+ * Merge Proposals - Review queue for AI-suggested merges
+ *
+ * Merge scans and page verification propose merges here instead of queueing
+ * merge_intents themselves:
+ * 1. Each proposal keeps the AI's confidence and reasoning, and a preview of
+ *    the merged intent (pages moving over, domains/concepts/entities added)
+ * 2. At or above settings.merging.autoApplyThreshold the merge is queued
+ *    right away; below it the proposal waits in the side panel inbox
+ * 3. A rejected pair is never proposed again, in either direction, and the
+ *    MergeCoordinator leaves it out of scans
+ *
+ * The merge_intents task reports back (recordOutcome), so a proposal ends
+ * as applied or failed.
+ */
+
+import type { Intent } from "@/types/intent";
+import type {
+  MergePreview,
+  MergeProposal,
+  MergeProposalOrigin,
+} from "@/types/merge";
+import { mergePairKey } from "@/types/merge";
+import { storage } from "./storage-manager";
+import { processingQueue } from "./processing-queue";
+import { isActive } from "./intent-state";
+
+const PREVIEW_PAGES = 8;
+const PREVIEW_TERMS = 10;
+const MERGE_PRIORITY = 25;
+
+function displayLabel(intent: Intent): string {
+  return intent.userFeedback?.customLabel || intent.label;
+}
+
+function topConcepts(intent: Intent): string[] {
+  return Object.entries(intent.aggregatedSignals.keywords)
+    .sort(([, a], [, b]) => b.count - a.count)
+    .map(([concept]) => concept);
+}
+
+function entityNames(intent: Intent): string[] {
+  return Object.values(intent.aggregatedSignals.entities || {}).flat();
+}
+
+class MergeProposals {
+  /**
+   * Record an AI merge suggestion (source merges into target). Returns null
+   * when the pair was rejected before, is already being merged, or either
+   * intent is no longer live.
+   */
+  async propose(merge: {
+    sourceIntentId: string;
+    targetIntentId: string;
+    confidence: number;
+    reasoning: string;
+    origin: MergeProposalOrigin;
+  }): Promise<MergeProposal | null> {
+    const { sourceIntentId, targetIntentId } = merge;
+    if (sourceIntentId === targetIntentId) return null;
+
+    const pairKey = mergePairKey(sourceIntentId, targetIntentId);
+    const existing = await storage.getMergeProposalsForPair(pairKey);
+    if (existing.some((p) => p.status === "rejected")) {
+      console.log(`MergeProposals: Pair ${pairKey} was rejected, skipping`);
+      return null;
+    }
+    if (existing.some((p) => p.status === "accepted")) {
+      return null; // Merge task already queued
+    }
+
+    const [source, target] = await Promise.all([
+      storage.getIntent(sourceIntentId),
+      storage.getIntent(targetIntentId),
+    ]);
+    if (!source || !target || !isActive(source) || !isActive(target)) {
+      return null;
+    }
+
+    const proposal = await this.buildProposal(
+      source,
+      target,
+      merge,
+      existing.find((p) => p.status === "pending")
+    );
+
+    if (merge.confidence >= proposal.autoApplyThreshold) {
+      await this.approve(proposal, "auto");
+      console.log(
+        `MergeProposals: ✓ Auto-applying "${proposal.sourceLabel}" → "${
+          proposal.targetLabel
+        }" (${Math.round(merge.confidence * 100)}%)`
+      );
+    } else {
+      await storage.saveMergeProposal(proposal);
+      console.log(
+        `MergeProposals: ✓ Queued "${proposal.sourceLabel}" → "${
+          proposal.targetLabel
+        }" for review (${Math.round(merge.confidence * 100)}%)`
+      );
+    }
+
+    return proposal;
+  }
+
+  /**
+   * A merge the user asked for outside the inbox (a nudge's merge action):
+   * recorded as a proposal and approved at once, even for a pair rejected
+   * before
+   */
+  async requestMerge(
+    sourceIntentId: string,
+    targetIntentId: string,
+    reasoning: string
+  ): Promise<MergeProposal> {
+    const [source, target] = await Promise.all([
+      storage.getIntent(sourceIntentId),
+      storage.getIntent(targetIntentId),
+    ]);
+    if (!source || !target || !isActive(source) || !isActive(target)) {
+      throw new Error("Both intents must still be open to merge them");
+    }
+    if (source.id === target.id) {
+      throw new Error("Cannot merge an intent into itself");
+    }
+
+    const existing = await storage.getMergeProposalsForPair(
+      mergePairKey(source.id, target.id)
+    );
+    if (existing.some((p) => p.status === "accepted")) {
+      throw new Error("These intents are already being merged");
+    }
+
+    const proposal = await this.buildProposal(
+      source,
+      target,
+      { confidence: 1, reasoning, origin: "nudge" },
+      existing.find((p) => p.status === "pending")
+    );
+    await this.approve(proposal, "user");
+    console.log(`MergeProposals: ✓ Merge requested for ${proposal.pairKey}`);
+    return proposal;
+  }
+
+  /**
+   * Proposals waiting for review, most confident first. Proposals whose
+   * intents were merged or removed meanwhile are marked stale; the rest
+   * are returned with current labels and previews.
+   */
+  async listPending(): Promise<MergeProposal[]> {
+    const pending = await storage.getMergeProposalsByStatus("pending");
+    const live: MergeProposal[] = [];
+
+    for (const proposal of pending) {
+      const [source, target] = await Promise.all([
+        storage.getIntent(proposal.sourceIntentId),
+        storage.getIntent(proposal.targetIntentId),
+      ]);
+
+      if (!source || !target || !isActive(source) || !isActive(target)) {
+        await this.resolve(proposal, "stale");
+        continue;
+      }
+
+      proposal.sourceLabel = displayLabel(source);
+      proposal.targetLabel = displayLabel(target);
+      proposal.preview = await this.buildPreview(source, target);
+      live.push(proposal);
+    }
+
+    return live.sort((a, b) => b.confidence - a.confidence);
+  }
+
+  async accept(proposalId: string): Promise<void> {
+    const proposal = await this.getPending(proposalId);
+
+    const [source, target] = await Promise.all([
+      storage.getIntent(proposal.sourceIntentId),
+      storage.getIntent(proposal.targetIntentId),
+    ]);
+    if (!source || !target || !isActive(source) || !isActive(target)) {
+      await this.resolve(proposal, "stale");
+      throw new Error("One of these intents was merged or removed meanwhile");
+    }
+
+    await this.approve(proposal, "user");
+    console.log(`MergeProposals: ✓ Accepted ${proposal.pairKey}`);
+  }
+
+  /**
+   * Decline the merge; the pair is left out of future scans
+   */
+  async reject(proposalId: string): Promise<void> {
+    const proposal = await this.getPending(proposalId);
+    await this.resolve(proposal, "rejected", "user");
+    console.log(`MergeProposals: ✓ Rejected ${proposal.pairKey}`);
+  }
+
+  /**
+   * Pair keys (mergePairKey) the user rejected
+   */
+  async getSuppressedPairs(): Promise<Set<string>> {
+    const rejected = await storage.getMergeProposalsByStatus("rejected");
+    return new Set(rejected.map((p) => p.pairKey));
+  }
+
+  /**
+   * Called by the merge_intents task when it finishes or fails
+   */
+  async recordOutcome(proposalId: string, error?: string): Promise<void> {
+    const proposal = await storage.getMergeProposal(proposalId);
+    if (!proposal) return;
+
+    proposal.status = error ? "failed" : "applied";
+    proposal.error = error;
+    proposal.updatedAt = Date.now();
+    await storage.saveMergeProposal(proposal);
+  }
+
+  private async getPending(proposalId: string): Promise<MergeProposal> {
+    const proposal = await storage.getMergeProposal(proposalId);
+    if (!proposal) {
+      throw new Error(`Merge proposal ${proposalId} not found`);
+    }
+    if (proposal.status !== "pending") {
+      throw new Error(`Merge proposal is already ${proposal.status}`);
+    }
+    return proposal;
+  }
+
+  private async approve(
+    proposal: MergeProposal,
+    by: "auto" | "user"
+  ): Promise<void> {
+    await this.resolve(proposal, "accepted", by);
+    await processingQueue.addMergeTask(
+      proposal.sourceIntentId,
+      proposal.targetIntentId,
+      MERGE_PRIORITY,
+      proposal.id
+    );
+  }
+
+  /**
+   * New pending proposal, or a fresh version of `pending` for the same pair
+   */
+  private async buildProposal(
+    source: Intent,
+    target: Intent,
+    merge: {
+      confidence: number;
+      reasoning: string;
+      origin: MergeProposalOrigin;
+    },
+    pending?: MergeProposal
+  ): Promise<MergeProposal> {
+    const settings = await storage.getSettings();
+    const now = Date.now();
+
+    return {
+      id:
+        pending?.id ||
+        `merge-${now}-${Math.random().toString(36).substr(2, 9)}`,
+      pairKey: mergePairKey(source.id, target.id),
+      sourceIntentId: source.id,
+      targetIntentId: target.id,
+      sourceLabel: displayLabel(source),
+      targetLabel: displayLabel(target),
+      confidence: merge.confidence,
+      reasoning: merge.reasoning,
+      origin: merge.origin,
+      autoApplyThreshold: settings.merging.autoApplyThreshold,
+      preview: await this.buildPreview(source, target),
+      status: "pending",
+      createdAt: pending?.createdAt || now,
+      updatedAt: now,
+    };
+  }
+
+  private async resolve(
+    proposal: MergeProposal,
+    status: MergeProposal["status"],
+    by?: "auto" | "user"
+  ): Promise<void> {
+    const now = Date.now();
+    proposal.status = status;
+    proposal.updatedAt = now;
+    proposal.resolvedAt = now;
+    proposal.resolvedBy = by;
+    await storage.saveMergeProposal(proposal);
+  }
+
+  private async buildPreview(
+    source: Intent,
+    target: Intent
+  ): Promise<MergePreview> {
+    const sourcePages = await storage.getPagesByIntent(source.id);
+
+    const targetDomains = new Set(target.aggregatedSignals.domains);
+    const targetConcepts = new Set(
+      Object.keys(target.aggregatedSignals.keywords).map((c) => c.toLowerCase())
+    );
+    const targetEntities = new Set(
+      entityNames(target).map((e) => e.toLowerCase())
+    );
+    const sourceConcepts = topConcepts(source);
+
+    return {
+      label: displayLabel(target),
+      pageCount: source.pageCount + target.pageCount,
+      sourcePages: sourcePages
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, PREVIEW_PAGES)
+        .map((page) => ({
+          id: page.id,
+          title: page.title,
+          domain: page.metadata.domain,
+        })),
+      domainsAdded: source.aggregatedSignals.domains.filter(
+        (d) => !targetDomains.has(d)
+      ),
+      sharedConcepts: sourceConcepts
+        .filter((c) => targetConcepts.has(c.toLowerCase()))
+        .slice(0, PREVIEW_TERMS),
+      conceptsAdded: sourceConcepts
+        .filter((c) => !targetConcepts.has(c.toLowerCase()))
+        .slice(0, PREVIEW_TERMS),
+      entitiesAdded: Array.from(
+        new Set(
+          entityNames(source).filter(
+            (e) => !targetEntities.has(e.toLowerCase())
+          )
+        )
+      ).slice(0, PREVIEW_TERMS),
+      firstSeen: Math.min(source.firstSeen, target.firstSeen),
+      lastUpdated: Math.max(source.lastUpdated, target.lastUpdated),
+    };
+  }
+}
+
+// Global singleton
+export const mergeProposals = new MergeProposals();
@@ -39,9 +39,17 @@ const DEDUPE_ELIGIBLE_TASKS = new Set<string>([
   "ai_verify_intent_matching",
   "ai_analyze_knowledge_gaps",
   "ai_predict_milestone",
+  "detect_intent_relationships",
   "scan_intent_merge_opportunities",
 ]);
 
+// History import lane - runs only when nothing live is waiting
+export const IMPORT_LANE_PRIORITIES = {
+  extraction: 40,
+  matching: 41,
+  verification: 42,
+};
+
 function toTitleCase(word: string): string {
   if (!word) return "";
   return word.charAt(0).toUpperCase() + word.slice(1);
@@ -295,10 +303,16 @@ export interface QueuedTask {
     | "merge_intents"
     | "ai_analyze_knowledge_gaps"
     | "ai_predict_milestone"
+    | "detect_intent_relationships"
     | "generate_activity_summary";
   pageId?: string; // Optional for intent-level tasks
   intentId?: string; // For intent-level tasks
-  mergeData?: { sourceIntentId: string; targetIntentId: string }; // For merge tasks
+  mergeData?: {
+    sourceIntentId: string;
+    targetIntentId: string;
+    proposalId?: string; // MergeProposal the merge was approved from
+  }; // For merge tasks
+  mergeCandidates?: Array<{ intentA: string; intentB: string }>; // For batch merge scans
   pageTitle?: string;
   pageUrl?: string;
   priority: number;
@@ -379,12 +393,14 @@ class ProcessingQueue {
     critical: { priorities: [1, 2, 3], maxConcurrent: 1 }, // Page tasks - serialize
     important: { priorities: [5, 6, 15, 17], maxConcurrent: 2 }, // Label, goal, verify, scan
     background: { priorities: [20, 21, 22, 25, 30], maxConcurrent: 1 }, // Features, merges
+    import: { priorities: [40, 41, 42], maxConcurrent: 1 }, // History import
   };
 
   private activePriorityTasks = {
     critical: 0,
     important: 0,
     background: 0,
+    import: 0,
   };
 
   // Historical averages for ETA prediction
@@ -403,6 +419,7 @@ class ProcessingQueue {
     merge_intents: { total: 0, count: 0, avg: 2000 }, // Default 2s
     ai_analyze_knowledge_gaps: { total: 0, count: 0, avg: 15000 }, // Default 15s
     ai_predict_milestone: { total: 0, count: 0, avg: 15000 }, // Default 15s
+    detect_intent_relationships: { total: 0, count: 0, avg: 12000 }, // Default 12s
     generate_activity_summary: { total: 0, count: 0, avg: 10000 }, // Default 10s
   };
 
@@ -502,6 +519,7 @@ class ProcessingQueue {
       merge_intents: "Merge Intents",
       ai_analyze_knowledge_gaps: "Analyze Knowledge Gaps",
       ai_predict_milestone: "Predict Intent Milestone",
+      detect_intent_relationships: "Detect Intent Relationships",
       generate_activity_summary: "Generate Activity Summary",
     };
 
@@ -645,9 +663,7 @@ Return ONLY valid JSON:
   private async persistQueue(): Promise<void> {
     try {
       // Save all tasks in queue
-      for (const task of this.queue) {
-        await storage.saveQueueTask(task);
-      }
+      await storage.saveQueueTasks(this.queue);
     } catch (error) {
       console.error("ProcessingQueue: Failed to persist queue", error);
     }
@@ -659,7 +675,8 @@ Return ONLY valid JSON:
   async addMergeTask(
     sourceIntentId: string,
     targetIntentId: string,
-    priority: number = 25
+    priority: number = 25,
+    proposalId?: string
   ): Promise<void> {
     // Ensure initialized
     if (!this.initialized) {
@@ -694,6 +711,7 @@ Return ONLY valid JSON:
       mergeData: {
         sourceIntentId,
         targetIntentId,
+        proposalId,
       },
       friendlyName: this.getFriendlyTaskName("merge_intents"),
     };
@@ -713,6 +731,68 @@ Return ONLY valid JSON:
     }
   }
 
+  /**
+   * Queue a batch merge scan over the MergeCoordinator's candidate pairs.
+   * Pairs join a scan that hasn't started yet instead of queueing another.
+   */
+  async addMergeScanTask(
+    candidates: Array<{ intentA: string; intentB: string }>,
+    priority: number = 17
+  ): Promise<void> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    const pending = this.queue.find(
+      (t) =>
+        t.type === "scan_intent_merge_opportunities" &&
+        t.intentId === "batch" &&
+        t.status === "queued"
+    );
+
+    if (pending) {
+      const known = new Set(
+        (pending.mergeCandidates || []).map((c) => `${c.intentA}|${c.intentB}`)
+      );
+      pending.mergeCandidates = [
+        ...(pending.mergeCandidates || []),
+        ...candidates.filter((c) => !known.has(`${c.intentA}|${c.intentB}`)),
+      ];
+      await this.persistQueue();
+      console.log(
+        `✓ Added ${candidates.length} candidates to queued merge scan (${pending.mergeCandidates.length} total)`
+      );
+      return;
+    }
+
+    const task: QueuedTask = {
+      id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type: "scan_intent_merge_opportunities",
+      intentId: "batch",
+      mergeCandidates: candidates,
+      priority,
+      createdAt: Date.now(),
+      status: "queued",
+      retryCount: 0,
+      dependencies: [],
+      attempts: [],
+      friendlyName: this.getFriendlyTaskName("scan_intent_merge_opportunities"),
+    };
+
+    this.queue.push(task);
+    this.taskMap.set(task.id, task);
+
+    await this.persistQueue();
+
+    this.notifyListeners();
+
+    console.log(`✓ Queued batch merge scan (${candidates.length} candidates)`);
+
+    if (!this.isProcessing) {
+      this.processNext();
+    }
+  }
+
   /**
    * Add task to queue and start processing
    */
@@ -732,14 +812,15 @@ Return ONLY valid JSON:
 
     // Determine if this is a page, intent, or system task
     // PAGE TASKS (need pageId): semantic_extraction, summarization, intent_matching, ai_verify_intent_matching, classify_behavior
-    // INTENT TASKS (need intentId): generate_intent_*, scan_intent_merge_opportunities, merge_intents, ai_analyze_knowledge_gaps, ai_predict_milestone
+    // INTENT TASKS (need intentId): generate_intent_*, scan_intent_merge_opportunities, merge_intents, ai_analyze_knowledge_gaps, ai_predict_milestone, detect_intent_relationships
     // SYSTEM TASKS (no pageId/intentId): generate_activity_summary
     const isIntentTask =
       type.startsWith("generate_intent_") ||
       type === "scan_intent_merge_opportunities" ||
       type === "merge_intents" ||
       type === "ai_analyze_knowledge_gaps" ||
-      type === "ai_predict_milestone";
+      type === "ai_predict_milestone" ||
+      type === "detect_intent_relationships";
 
     const isSystemTask = type === "generate_activity_summary";
 
@@ -802,6 +883,164 @@ Return ONLY valid JSON:
     return task.id; // Return task ID for dependency tracking
   }
 
+  /**
+   * Queue semantic extraction for imported history pages in one batch
+   *
+   * Bypasses dedupe and persists once - addTask would rewrite the whole
+   * queue for every page.
+   */
+  async addImportTasks(pages: PageData[]): Promise<number> {
+    if (!this.initialized) {
+      await this.initialize();
+    }
+
+    for (const page of pages) {
+      const task: QueuedTask = {
+        id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        type: "semantic_extraction",
+        pageId: page.id,
+        pageTitle: page.title,
+        pageUrl: page.url,
+        priority: IMPORT_LANE_PRIORITIES.extraction,
+        createdAt: Date.now(),
+        status: "queued",
+        retryCount: 0,
+        dependencies: [],
+        attempts: [],
+        friendlyName: this.getFriendlyTaskName("semantic_extraction"),
+      };
+
+      this.queue.push(task);
+      this.taskMap.set(task.id, task);
+    }
+
+    this.buildDependencyGraph();
+    await this.persistQueue();
+    this.notifyListeners();
+
+    if (!this.isProcessing) {
+      this.processNext();
+    }
+
+    return pages.length;
+  }
+
+  /**
+   * Pages that still have queued or running work in the import lane
+   */
+  getImportLanePageIds(): Set<string> {
+    const pageIds = new Set<string>();
+    for (const task of this.queue) {
+      if (
+        task.pageId &&
+        this.getPriorityCategory(task.priority) === "import" &&
+        (task.status === "queued" || task.status === "processing")
+      ) {
+        pageIds.add(task.pageId);
+      }
+    }
+    return pageIds;
+  }
+
+  /**
+   * Drop queued import-lane tasks (a running task is left to finish)
+   *
+   * Returns the page IDs whose pending work was removed.
+   */
+  async cancelImportLane(): Promise<string[]> {
+    const cancelled = this.queue.filter(
+      (t) =>
+        t.status === "queued" &&
+        this.getPriorityCategory(t.priority) === "import"
+    );
+    if (cancelled.length === 0) return [];
+
+    const cancelledIds = new Set(cancelled.map((t) => t.id));
+    this.queue = this.queue.filter((t) => !cancelledIds.has(t.id));
+
+    for (const task of cancelled) {
+      this.taskMap.delete(task.id);
+      await storage.deleteQueueTask(task.id);
+    }
+
+    this.buildDependencyGraph();
+    this.notifyListeners();
+
+    console.log(
+      `ProcessingQueue: ✓ Cancelled ${cancelled.length} import lane tasks`
+    );
+
+    return [
+      ...new Set(
+        cancelled.map((t) => t.pageId).filter((id): id is string => Boolean(id))
+      ),
+    ];
+  }
+
+  /**
+   * Drop task records for pages (privacy purge)
+   *
+   * Tasks already processing are left to finish. Stored records from earlier
+   * sessions are removed too - their prompts and responses quote page text.
+   * With `finishedOnly`, queued work stays and only history is dropped.
+   */
+  async removeTasksForPages(
+    pageIds: Set<string>,
+    options: { finishedOnly?: boolean } = {}
+  ): Promise<number> {
+    const removable = (task: QueuedTask) =>
+      Boolean(task.pageId && pageIds.has(task.pageId)) &&
+      task.status !== "processing" &&
+      (!options.finishedOnly || task.status !== "queued");
+
+    const removed = this.queue.filter(removable);
+    const removedIds = new Set(removed.map((t) => t.id));
+    this.queue = this.queue.filter((t) => !removedIds.has(t.id));
+    for (const task of removed) {
+      this.taskMap.delete(task.id);
+      this.recentTaskHistory.delete(
+        this.buildTaskSignature(task.type, task.pageId!)
+      );
+    }
+
+    for (const task of await storage.getAllQueueTasks()) {
+      if (removable(task)) {
+        await storage.deleteQueueTask(task.id);
+        removedIds.add(task.id);
+      }
+    }
+
+    if (removedIds.size > 0) {
+      this.buildDependencyGraph();
+      this.notifyListeners();
+    }
+
+    return removedIds.size;
+  }
+
+  /**
+   * Drop every in-memory task and the task history (replace import: page
+   * and intent tasks would run against records that no longer exist)
+   *
+   * Tasks already processing are left to finish. Stored records are cleared
+   * with the rest of the data.
+   */
+  clearAll(): number {
+    const removed = this.queue.filter((t) => t.status !== "processing");
+    this.queue = this.queue.filter((t) => t.status === "processing");
+    for (const task of removed) {
+      this.taskMap.delete(task.id);
+    }
+    this.completedTasks.clear();
+    this.recentTaskHistory.clear();
+
+    this.buildDependencyGraph();
+    this.notifyListeners();
+
+    console.log(`ProcessingQueue: ✓ Cleared ${removed.length} tasks`);
+    return removed.length;
+  }
+
   /**
    * Process next task in queue
    */
@@ -961,6 +1200,7 @@ Return ONLY valid JSON:
       type === "scan_intent_merge_opportunities" ||
       type === "ai_analyze_knowledge_gaps" ||
       type === "ai_predict_milestone" ||
+      type === "detect_intent_relationships" ||
       type === "generate_activity_summary"
     );
   }
@@ -970,11 +1210,13 @@ Return ONLY valid JSON:
    */
   private getPriorityCategory(
     priority: number
-  ): "critical" | "important" | "background" {
+  ): "critical" | "important" | "background" | "import" {
     if (this.PRIORITY_LIMITS.critical.priorities.includes(priority))
       return "critical";
     if (this.PRIORITY_LIMITS.important.priorities.includes(priority))
       return "important";
+    if (this.PRIORITY_LIMITS.import.priorities.includes(priority))
+      return "import";
     return "background";
   }
 
@@ -1283,11 +1525,13 @@ Return ONLY valid JSON:
             await knowledgeGraph.updateFromPage(updatedPage);
           }
 
-          // Queue dependent task with explicit dependency
+          // Queue dependent task with explicit dependency (imported pages stay in their lane)
           await this.addTask(
             "intent_matching",
             task.pageId,
-            2,
+            task.priority === IMPORT_LANE_PRIORITIES.extraction
+              ? IMPORT_LANE_PRIORITIES.matching
+              : 2,
             task.pageTitle,
             task.pageUrl,
             [task.id] // CRITICAL: intent_matching depends on semantic_extraction
@@ -1348,7 +1592,10 @@ Return ONLY valid JSON:
           };
 
           // Get summary with debug info
-          const result = await aiPipeline.summarizePageWithDebug(page.content);
+          const result = await aiPipeline.summarizePageWithDebug(
+            page.content,
+            page.contentSections
+          );
 
           // Capture AI execution details
           task.aiExecution = {
@@ -1749,20 +1996,15 @@ Return ONLY valid JSON:
           aiDecision.intentToMerge &&
           aiDecision.mergeInto
         ) {
-          // Queue merge task
-          await this.addTask("merge_intents", aiDecision.intentToMerge, 25);
-          // Store merge target in task for later use
-          const mergeTask = this.queue.find(
-            (t) =>
-              t.type === "merge_intents" &&
-              t.intentId === aiDecision.intentToMerge
-          );
-          if (mergeTask) {
-            mergeTask.mergeData = {
-              sourceIntentId: aiDecision.intentToMerge,
-              targetIntentId: aiDecision.mergeInto,
-            };
-          }
+          // Applied right away only above the auto-apply threshold
+          const { mergeProposals } = await import("./merge-proposals");
+          await mergeProposals.propose({
+            sourceIntentId: aiDecision.intentToMerge,
+            targetIntentId: aiDecision.mergeInto,
+            confidence: aiDecision.confidence,
+            reasoning: aiDecision.reasoning,
+            origin: "ai_verification",
+          });
         } else if (
           aiDecision.action === "reassign" &&
           aiDecision.suggestedIntentId
@@ -1776,6 +2018,19 @@ Return ONLY valid JSON:
         }
         // If "agree", no action needed
 
+        // Keep the verdict with the page's assignment (after a split or
+        // reassignment that's the new one, with the verdict that caused it)
+        await intentEngine.recordVerification(freshPage.id, {
+          action: aiDecision.action,
+          confidence: aiDecision.confidence,
+          reasoning: aiDecision.reasoning,
+          suggestedIntentId:
+            aiDecision.action === "merge"
+              ? aiDecision.mergeInto
+              : aiDecision.suggestedIntentId,
+          verifiedAt: Date.now(),
+        });
+
         break;
       }
 
@@ -1788,6 +2043,7 @@ Return ONLY valid JSON:
           totalActiveIntents: allIntents.filter(
             (i) => i.status === "active" || i.status === "emerging"
           ).length,
+          candidatePairs: task.mergeCandidates?.length,
         };
 
         // Import scan function
@@ -1795,9 +2051,13 @@ Return ONLY valid JSON:
           "../services/ai-generator"
         );
 
+        const { mergeProposals } = await import("./merge-proposals");
+
         const scanResult = await scanIntentMergeOpportunities(
           task.intentId || null,
-          allIntents
+          allIntents,
+          task.mergeCandidates,
+          await mergeProposals.getSuppressedPairs()
         );
 
         task.aiExecution = {
@@ -1816,32 +2076,22 @@ Return ONLY valid JSON:
           `Merge Scan: Found ${scanResult.merges.length} merge opportunities`
         );
 
-        // Queue merge tasks for high-confidence suggestions
-        // Threshold: 90% (raised from 85% due to AI over-confidence on bad merges)
+        // High-confidence merges apply right away (settings.merging), the
+        // rest wait for review in the side panel
+        const proposed: Array<{ proposalId: string; status: string }> = [];
         for (const merge of scanResult.merges) {
-          if (merge.confidence >= 0.9) {
-            console.log(
-              `Queueing merge: ${merge.intentA} → ${
-                merge.intentB
-              } (${Math.round(merge.confidence * 100)}%)`
-            );
-            // Use new addMergeTask method to prevent race conditions
-            await this.addMergeTask(merge.intentA, merge.intentB, 25);
-          } else if (merge.confidence >= 0.85) {
-            console.log(
-              `Merge suggestion 85-90% (below auto-merge threshold): ${
-                merge.intentA
-              } → ${merge.intentB} (${Math.round(merge.confidence * 100)}%)`
-            );
-            // TODO: Could create nudge for user confirmation at 85-90% range
-          } else {
-            console.log(
-              `Merge suggestion below threshold: ${merge.intentA} → ${
-                merge.intentB
-              } (${Math.round(merge.confidence * 100)}%)`
-            );
+          const proposal = await mergeProposals.propose({
+            sourceIntentId: merge.intentA,
+            targetIntentId: merge.intentB,
+            confidence: merge.confidence,
+            reasoning: merge.reasoning,
+            origin: "merge_scan",
+          });
+          if (proposal) {
+            proposed.push({ proposalId: proposal.id, status: proposal.status });
           }
         }
+        task.structuredOutput.proposals = proposed;
 
         break;
       }
@@ -1857,10 +2107,22 @@ Return ONLY valid JSON:
         };
 
         const { intentEngine } = await import("./intent-engine");
-        await intentEngine.mergeIntents(
-          task.mergeData.sourceIntentId,
-          task.mergeData.targetIntentId
-        );
+        const { mergeProposals } = await import("./merge-proposals");
+        const { proposalId } = task.mergeData;
+        try {
+          await intentEngine.mergeIntents(
+            task.mergeData.sourceIntentId,
+            task.mergeData.targetIntentId
+          );
+        } catch (error) {
+          if (proposalId) {
+            await mergeProposals.recordOutcome(proposalId, String(error));
+          }
+          throw error;
+        }
+        if (proposalId) {
+          await mergeProposals.recordOutcome(proposalId);
+        }
 
         task.structuredOutput = {
           merged: true,
@@ -1886,23 +2148,57 @@ Return ONLY valid JSON:
         const intent = await storage.getIntent(task.intentId);
         if (!intent) throw new Error(`Intent ${task.intentId} not found`);
 
+        const intentPages = await storage.getPagesByIntent(task.intentId);
+        if (intentPages.length === 0) {
+          throw new Error("No pages provided for knowledge gap analysis");
+        }
+
+        await knowledgeGraph.initialize();
+        const knowledgeLevels =
+          knowledgeGraph.getKnowledgeLevelsForIntent(intent);
+        const heuristicGaps = knowledgeGraph.getKnowledgeGaps(intent.label);
+
         task.structuredInput = {
           intentId: intent.id,
           intentLabel: intent.label,
+          goal: intent.goal,
           pageCount: intent.pageCount,
+          pagesProvided: intentPages.length,
+          insightCount: intent.insights?.length || 0,
+          knowledgeLevels: knowledgeLevels.map((k) => `${k.topic}: ${k.level}`),
+          heuristicGaps,
         };
 
-        await knowledgeGraph.initialize();
-        const gaps = knowledgeGraph.getKnowledgeGaps(intent.label);
+        // Dynamic import to avoid circular dependency
+        const { analyzeKnowledgeGaps } = await import(
+          "../services/ai-generator"
+        );
+        const analysis = await analyzeKnowledgeGaps(
+          intent,
+          intentPages,
+          knowledgeLevels,
+          heuristicGaps
+        );
+
+        // Re-read so we don't clobber fields updated while the AI was running
+        const latestIntent = (await storage.getIntent(intent.id)) || intent;
+        latestIntent.knowledgeGaps = analysis.gaps;
+        latestIntent.knowledgeGapsUpdatedAt = Date.now();
+        await storage.saveIntent(latestIntent);
 
-        task.structuredOutput = { gaps, count: gaps.length };
+        task.structuredOutput = {
+          gaps: analysis.gaps,
+          count: analysis.gaps.length,
+        };
         task.aiExecution = {
           api: "LanguageModel",
-          parameters: { model: "Knowledge Graph" },
+          prompt: analysis.prompt,
+          response: analysis.response,
+          parameters: { model: "Gemini Nano", temperature: 0.4, topK: 3 },
         };
 
         console.log(
-          `✓ Analyzed knowledge gaps for ${intent.id}: ${gaps.length} gaps found`
+          `✓ Analyzed knowledge gaps for ${intent.id}: ${analysis.gaps.length} gaps found`
         );
         break;
       }
@@ -1915,26 +2211,108 @@ Return ONLY valid JSON:
         const intent = await storage.getIntent(task.intentId);
         if (!intent) throw new Error(`Intent ${task.intentId} not found`);
 
+        const intentPages = await storage.getPagesByIntent(task.intentId);
+        if (intentPages.length === 0) {
+          throw new Error("No pages provided for milestone prediction");
+        }
+
         task.structuredInput = {
           intentId: intent.id,
           intentLabel: intent.label,
+          goal: intent.goal,
           pageCount: intent.pageCount,
+          pagesProvided: intentPages.length,
           browsingStyle: intent.aggregatedSignals.patterns.browsingStyle,
+          existingMilestones: intent.progress?.milestones.length || 0,
         };
 
-        // Store milestone info in intent progress field
-        // For now, we'll just log it - full implementation would update intent.progress
+        // Dynamic import to avoid circular dependency
+        const { predictIntentMilestones } = await import(
+          "../services/ai-generator"
+        );
+        const prediction = await predictIntentMilestones(intent, intentPages);
+
+        // Re-read so we don't clobber fields updated while the AI was running
+        const latestIntent = (await storage.getIntent(intent.id)) || intent;
+        const previousEstimate = latestIntent.progress?.completionEstimate;
+        latestIntent.progress = prediction.progress;
+
+        if (prediction.planGenerated) {
+          latestIntent.timeline.push({
+            date: new Date().toISOString().split("T")[0],
+            event: "milestones_planned",
+            details: `Planned ${prediction.progress.milestones.length} milestones`,
+            source: "ai",
+          });
+        }
+
+        await storage.saveIntent(latestIntent);
 
         task.structuredOutput = {
-          predicted: true,
-          // Milestone data would be stored in intent.progress
+          planGenerated: prediction.planGenerated,
+          milestones: prediction.progress.milestones,
+          completionEstimate: prediction.progress.completionEstimate,
+          previousEstimate,
         };
         task.aiExecution = {
           api: "LanguageModel",
-          parameters: { model: "Gemini Nano" },
+          prompt: prediction.prompt,
+          response: prediction.response,
+          parameters: { model: "Gemini Nano", temperature: 0.3, topK: 3 },
+        };
+
+        console.log(
+          `✓ Predicted milestones for ${intent.id}: ${prediction.progress.completionEstimate}% complete`
+        );
+        break;
+      }
+
+      case "detect_intent_relationships": {
+        if (!task.intentId) {
+          throw new Error("Intent ID required for relationship detection");
+        }
+
+        const intent = await storage.getIntent(task.intentId);
+        if (!intent) throw new Error(`Intent ${task.intentId} not found`);
+
+        task.structuredInput = {
+          intentId: intent.id,
+          intentLabel: intent.label,
+          firstSeen: intent.firstSeen,
+          existingRelated: intent.relatedIntents.length,
         };
 
-        console.log(`✓ Predicted milestone for ${intent.id}`);
+        // Dynamic import to avoid circular dependency
+        const { intentRelationships } = await import("./intent-relationships");
+        const detection = await intentRelationships.detectRelationships(
+          intent.id
+        );
+
+        task.structuredOutput = {
+          relationships: detection.relationships.map((r) => ({
+            from: r.fromIntentId,
+            to: r.toIntentId,
+            type: r.type,
+            confidence: r.confidence,
+            reasoning: r.reasoning,
+          })),
+          candidatesEvaluated: detection.candidatesEvaluated,
+          removed: detection.removed,
+        };
+        task.aiExecution = {
+          api: detection.prompt ? "LanguageModel" : "none",
+          prompt: detection.prompt,
+          response: detection.response,
+          parameters: {
+            model: detection.prompt ? "Gemini Nano" : "Overlap Pre-filter",
+            temperature: detection.prompt ? 0.2 : undefined,
+            topK: detection.prompt ? 3 : undefined,
+          },
+        };
+
+        console.log(
+          `✓ Detected ${detection.relationships.length} relationships for ${intent.id}`
+        );
         break;
       }
 
@@ -2243,6 +2621,8 @@ ${summary}`;
       ai_analyze_knowledge_gaps:
         this.taskAverages.ai_analyze_knowledge_gaps.avg,
       ai_predict_milestone: this.taskAverages.ai_predict_milestone.avg,
+      detect_intent_relationships:
+        this.taskAverages.detect_intent_relationships.avg,
       generate_activity_summary:
         this.taskAverages.generate_activity_summary.avg,
       sampleCounts: {
@@ -2266,6 +2646,8 @@ ${summary}`;
         ai_analyze_knowledge_gaps:
           this.taskAverages.ai_analyze_knowledge_gaps.count,
         ai_predict_milestone: this.taskAverages.ai_predict_milestone.count,
+        detect_intent_relationships:
+          this.taskAverages.detect_intent_relationships.count,
         generate_activity_summary:
           this.taskAverages.generate_activity_summary.count,
       },
@@ -0,0 +1,242 @@
+import type { Intent } from "@/types/intent";
+import type {
+  SearchDocKind,
+  SearchDocument,
+  SearchResponse,
+  SearchResult,
+} from "@/types/search";
+import { storage } from "./storage-manager";
+import {
+  PREFIX_MATCH_WEIGHT,
+  bm25,
+  buildSnippet,
+  intentDocId,
+  pageDocId,
+  parseSearchQuery,
+} from "./search-index";
+
+/**
+ * Search Engine - Answers SEARCH queries from the full-text index
+ *
+ * 1. Parse the query into terms and filters (search-index.ts)
+ * 2. Look up postings: exact terms at full weight, longer terms sharing the
+ *    prefix at PREFIX_MATCH_WEIGHT
+ * 3. Score with BM25, apply filters, then load the top pages/intents for
+ *    titles and snippets
+ *
+ * Queries with only filters list matching documents newest first.
+ */
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 200;
+const PREFIX_EXPANSIONS = 20; // Longer terms tried per query word
+const MIN_PREFIX_LENGTH = 2;
+
+interface SearchOptions {
+  limit?: number;
+  kind?: SearchDocKind;
+}
+
+class SearchEngine {
+  private rebuilding: Promise<void> | null = null;
+
+  /**
+   * Build the index if it has never been built (first start after the
+   * upgrade that added it)
+   */
+  async ensureIndex(): Promise<void> {
+    if (await storage.getSearchIndexStats()) return;
+    await this.rebuild();
+  }
+
+  async rebuild(): Promise<void> {
+    if (!this.rebuilding) {
+      this.rebuilding = storage
+        .rebuildSearchIndex()
+        .then((stats) => {
+          console.log(
+            `SearchEngine: ✓ Indexed ${stats.docCount} pages and intents`
+          );
+        })
+        .finally(() => {
+          this.rebuilding = null;
+        });
+    }
+    return this.rebuilding;
+  }
+
+  async search(
+    raw: string,
+    options: SearchOptions = {}
+  ): Promise<SearchResponse> {
+    const query = parseSearchQuery(raw);
+    const { terms, filters } = query;
+    const kind = options.kind || filters.kind;
+    const limit = Math.min(options.limit || DEFAULT_LIMIT, MAX_LIMIT);
+
+    if (terms.length === 0 && Object.keys(filters).length === 0) {
+      return { query, total: 0, results: [] };
+    }
+
+    const scored = terms.length > 0 ? await this.score(terms) : null;
+    let docs = scored ? scored.docs : await storage.getAllSearchDocuments(kind);
+
+    const intents = filters.intent ? await storage.getAllIntents() : [];
+    const allowedByIntent = filters.intent
+      ? this.intentScope(filters.intent, intents)
+      : null;
+
+    docs = docs.filter(
+      (doc) =>
+        (!kind || doc.kind === kind) &&
+        (!filters.domain ||
+          doc.domain === filters.domain ||
+          doc.domain?.endsWith(`.${filters.domain}`)) &&
+        (filters.after === undefined || doc.timestamp >= filters.after) &&
+        (filters.before === undefined || doc.timestamp < filters.before) &&
+        (!allowedByIntent || allowedByIntent.has(doc.id))
+    );
+
+    const ranked = docs
+      .map((doc) => ({
+        doc,
+        score: scored?.scores.get(doc.id)?.score || 0,
+        matchedTerms: scored?.scores.get(doc.id)?.matchedTerms || [],
+      }))
+      .sort((a, b) =>
+        scored
+          ? b.score - a.score || b.doc.timestamp - a.doc.timestamp
+          : b.doc.timestamp - a.doc.timestamp
+      );
+
+    const results: SearchResult[] = [];
+    for (const { doc, score, matchedTerms } of ranked.slice(0, limit)) {
+      const result = await this.toResult(doc, score, matchedTerms);
+      if (result) results.push(result);
+    }
+
+    return { query, total: ranked.length, results };
+  }
+
+  /**
+   * BM25 score per document ID, with the index terms that matched, and the
+   * matching documents
+   */
+  private async score(terms: string[]): Promise<{
+    scores: Map<string, { score: number; matchedTerms: string[] }>;
+    docs: SearchDocument[];
+  }> {
+    const stats = await storage.getSearchIndexStats();
+    const docCount = stats?.docCount || 0;
+    const avgLength = docCount > 0 ? stats!.totalLength / docCount : 1;
+
+    // Gather postings first: document lengths are needed for BM25
+    const matches: {
+      term: string;
+      weight: number;
+      postings: Record<string, number>;
+    }[] = [];
+    for (const term of terms) {
+      const entries = await storage.getSearchPostings(
+        term,
+        term.length >= MIN_PREFIX_LENGTH ? PREFIX_EXPANSIONS : 0
+      );
+      for (const entry of entries) {
+        matches.push({
+          term: entry.term,
+          weight: entry.term === term ? 1 : PREFIX_MATCH_WEIGHT,
+          postings: entry.postings,
+        });
+      }
+    }
+
+    const docIds = new Set(matches.flatMap((m) => Object.keys(m.postings)));
+    const docs = await storage.getSearchDocuments([...docIds]);
+    const lengths = new Map(docs.map((doc) => [doc.id, doc.length]));
+
+    const scores = new Map<string, { score: number; matchedTerms: string[] }>();
+    for (const { term, weight, postings } of matches) {
+      const docFrequency = Object.keys(postings).length;
+      for (const [docId, frequency] of Object.entries(postings)) {
+        const length = lengths.get(docId);
+        if (length === undefined) continue;
+
+        const entry = scores.get(docId) || { score: 0, matchedTerms: [] };
+        entry.score +=
+          weight *
+          bm25(
+            frequency,
+            length,
+            avgLength,
+            Math.max(docCount, 1),
+            docFrequency
+          );
+        entry.matchedTerms.push(term);
+        scores.set(docId, entry);
+      }
+    }
+
+    return { scores, docs };
+  }
+
+  /**
+   * Document IDs in scope for intent:<value> - intents whose label contains
+   * the value (or whose ID is the value) and their pages
+   */
+  private intentScope(value: string, intents: Intent[]): Set<string> {
+    const needle = value.toLowerCase();
+    const scope = new Set<string>();
+
+    for (const intent of intents) {
+      const label = (intent.userFeedback?.customLabel || intent.label)
+        .toLowerCase()
+        .trim();
+      if (intent.id !== value && !label.includes(needle)) continue;
+
+      scope.add(intentDocId(intent.id));
+      intent.pageIds.forEach((pageId) => scope.add(pageDocId(pageId)));
+    }
+
+    return scope;
+  }
+
+  private async toResult(
+    doc: SearchDocument,
+    score: number,
+    matchedTerms: string[]
+  ): Promise<SearchResult | null> {
+    const base = {
+      kind: doc.kind,
+      id: doc.refId,
+      timestamp: doc.timestamp,
+      score,
+      matchedTerms,
+    };
+
+    if (doc.kind === "page") {
+      const page = await storage.getPage(doc.refId);
+      if (!page) return null;
+      return {
+        ...base,
+        title: page.title,
+        url: page.url,
+        domain: page.metadata.domain,
+        snippet: buildSnippet(
+          page.contentSummary || page.metadata.description || page.content,
+          matchedTerms
+        ),
+      };
+    }
+
+    const intent = await storage.getIntent(doc.refId);
+    if (!intent) return null;
+    return {
+      ...base,
+      title: intent.userFeedback?.customLabel || intent.label,
+      snippet: buildSnippet(intent.goal || intent.aiSummary, matchedTerms),
+    };
+  }
+}
+
+// Global singleton
+export const searchEngine = new SearchEngine();
@@ -0,0 +1,285 @@
+/**
+ * Search Index - Documents, query parsing and ranking for full-text search
+ *
+ * 1. Documents: each page and intent becomes a bag of weighted terms (titles
+ *    count more than body text); StorageManager keeps the inverted index in
+ *    IndexedDB up to date as records are written
+ * 2. Queries: free text plus field filters (domain:, intent:, type:,
+ *    after:/before:/date:)
+ * 3. Ranking: BM25 over the weighted frequencies; query words also match
+ *    longer index terms as a prefix ("tok" → "tokio"), at a discount
+ *
+ * Pure functions only - SearchEngine (search-engine.ts) does the lookups.
+ */
+
+import type { Intent } from "@/types/intent";
+import type { PageData } from "@/types/page";
+import type {
+  ParsedSearchQuery,
+  SearchDocument,
+  SearchFilters,
+} from "@/types/search";
+import { tokenize } from "./search-queries";
+
+const FIELD_WEIGHTS = {
+  title: 3,
+  query: 2, // What the user typed into a search engine
+  concepts: 2,
+  entities: 2,
+  goal: 2,
+  summary: 1.5,
+  insights: 1.5,
+  content: 1,
+};
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+const MAX_CONTENT_CHARS = 20000; // Longer pages are indexed by their opening
+const MAX_TERM_LENGTH = 40; // Hashes, tokens, base64...
+const INTENT_KEYWORDS = 20;
+
+// Intents that were folded into another or dismissed aren't searchable
+const UNSEARCHABLE_INTENT_STATUSES = new Set(["merged", "discarded"]);
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+export const PREFIX_MATCH_WEIGHT = 0.7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const pageDocId = (pageId: string) => `page:${pageId}`;
+export const intentDocId = (intentId: string) => `intent:${intentId}`;
+
+function buildTerms(
+  fields: Partial<Record<SearchField, (string | null | undefined)[]>>
+): { terms: Record<string, number>; length: number } {
+  const terms: Record<string, number> = {};
+  let length = 0;
+
+  for (const [field, values] of Object.entries(fields)) {
+    const weight = FIELD_WEIGHTS[field as SearchField];
+    for (const value of values || []) {
+      if (!value) continue;
+      for (const term of tokenize(value)) {
+        if (term.length > MAX_TERM_LENGTH) continue;
+        terms[term] = (terms[term] || 0) + weight;
+        length += weight;
+      }
+    }
+  }
+
+  return { terms, length };
+}
+
+function entityNames(entities?: Record<string, string[]>): string[] {
+  return entities ? Object.values(entities).flat() : [];
+}
+
+export function pageDocument(page: PageData): SearchDocument {
+  const content =
+    page.content ||
+    page.contentSections?.map((section) => section.text).join("\n") ||
+    "";
+
+  const { terms, length } = buildTerms({
+    title: [page.title],
+    query: [page.searchQuery?.query],
+    summary: [page.contentSummary, page.metadata.description],
+    concepts: page.semanticFeatures?.concepts || [],
+    entities: entityNames(page.semanticFeatures?.entities),
+    content: [content.substring(0, MAX_CONTENT_CHARS)],
+  });
+
+  return {
+    id: pageDocId(page.id),
+    kind: "page",
+    refId: page.id,
+    domain: page.metadata.domain,
+    timestamp: page.timestamp,
+    length,
+    terms,
+  };
+}
+
+/**
+ * null = the intent should not be in the index
+ */
+export function intentDocument(intent: Intent): SearchDocument | null {
+  if (UNSEARCHABLE_INTENT_STATUSES.has(intent.status)) return null;
+
+  const keywords = Object.entries(intent.aggregatedSignals?.keywords || {})
+    .sort(([, a], [, b]) => b.count - a.count)
+    .slice(0, INTENT_KEYWORDS)
+    .map(([keyword]) => keyword);
+
+  const { terms, length } = buildTerms({
+    title: [intent.label, intent.userFeedback?.customLabel],
+    goal: [intent.goal],
+    summary: [intent.aiSummary],
+    insights: (intent.insights || []).map((insight) => insight.text),
+    concepts: keywords,
+    entities: entityNames(intent.aggregatedSignals?.entities),
+  });
+
+  return {
+    id: intentDocId(intent.id),
+    kind: "intent",
+    refId: intent.id,
+    timestamp: intent.lastUpdated,
+    length,
+    terms,
+  };
+}
+
+/**
+ * Same terms and filter fields = no index writes needed
+ */
+export function sameDocument(a: SearchDocument, b: SearchDocument): boolean {
+  if (
+    a.length !== b.length ||
+    a.timestamp !== b.timestamp ||
+    a.domain !== b.domain
+  ) {
+    return false;
+  }
+  const termsA = Object.keys(a.terms);
+  if (termsA.length !== Object.keys(b.terms).length) return false;
+  return termsA.every((term) => a.terms[term] === b.terms[term]);
+}
+
+function parseDate(value: string, now: number): number | null {
+  const relative = value.match(/^(\d+)([dw])$/);
+  if (relative) {
+    const days = Number(relative[1]) * (relative[2] === "w" ? 7 : 1);
+    return now - days * DAY_MS;
+  }
+  // Date-only strings are read as local midnight, not UTC
+  const parsed = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? new Date(`${value}T00:00:00`).getTime()
+    : Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function endOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime() + DAY_MS;
+}
+
+/**
+ * "rust async domain:docs.rs after:7d intent:\"learn rust\""
+ *
+ * Filters that don't parse are searched as text.
+ */
+export function parseSearchQuery(
+  raw: string,
+  now: number = Date.now()
+): ParsedSearchQuery {
+  const filters: SearchFilters = {};
+  const text: string[] = [];
+  const tokenPattern = /(\w+):("[^"]*"|\S+)|"([^"]*)"|(\S+)/g;
+
+  for (const match of raw.matchAll(tokenPattern)) {
+    const [whole, key, quotedOrValue, phrase, word] = match;
+    if (!key) {
+      text.push(phrase ?? word);
+      continue;
+    }
+
+    const value = quotedOrValue.replace(/^"|"$/g, "").trim();
+    if (!value) {
+      text.push(whole);
+      continue;
+    }
+
+    let understood = true;
+
+    switch (key.toLowerCase()) {
+      case "domain":
+      case "site":
+        filters.domain = value.toLowerCase().replace(/^www\./, "");
+        break;
+      case "intent":
+        filters.intent = value;
+        break;
+      case "type":
+      case "kind":
+        if (value === "page" || value === "intent") filters.kind = value;
+        else understood = false;
+        break;
+      case "after": {
+        const after = parseDate(value, now);
+        if (after !== null) filters.after = after;
+        else understood = false;
+        break;
+      }
+      case "before": {
+        const before = parseDate(value, now);
+        if (before !== null) filters.before = before;
+        else understood = false;
+        break;
+      }
+      case "date": {
+        // date:2024-05-01 (that day) or date:2024-05-01..2024-05-31
+        const [from, to = from] = value.split("..");
+        const start = from ? parseDate(from, now) : null;
+        const end = to ? parseDate(to, now) : null;
+        if (start !== null) filters.after = start;
+        if (end !== null) filters.before = endOfDay(end);
+        understood = start !== null || end !== null;
+        break;
+      }
+      default:
+        understood = false;
+    }
+
+    if (!understood) text.push(whole);
+  }
+
+  return {
+    terms: Array.from(new Set(tokenize(text.join(" ")))),
+    filters,
+  };
+}
+
+/**
+ * BM25 contribution of one term in one document
+ */
+export function bm25(
+  frequency: number,
+  docLength: number,
+  avgDocLength: number,
+  docCount: number,
+  docFrequency: number
+): number {
+  const idf = Math.log(
+    1 + (docCount - docFrequency + 0.5) / (docFrequency + 0.5)
+  );
+  const norm = 1 - BM25_B + BM25_B * (docLength / (avgDocLength || 1));
+  return (idf * frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * norm);
+}
+
+/**
+ * ~`length` characters around the first matched term, or the opening
+ */
+export function buildSnippet(
+  text: string | null | undefined,
+  terms: string[],
+  length: number = 160
+): string | undefined {
+  if (!text) return undefined;
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= length) return clean;
+
+  const lower = clean.toLowerCase();
+  const hit = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index >= 0)
+    .sort((a, b) => a - b)[0];
+
+  const start = Math.max(0, (hit ?? 0) - Math.floor(length / 3));
+  const snippet = clean.substring(start, start + length).trim();
+  return `${start > 0 ? "…" : ""}${snippet}${
+    start + length < clean.length ? "…" : ""
+  }`;
+}
@@ -0,0 +1,259 @@
+/**
+ * Search Queries - What the user typed, read from search result URLs
+ *
+ * 1. Extraction: known web search engines, then site searches (YouTube,
+ *    Amazon, Wikipedia, and generic /search?q= style pages)
+ * 2. Chains: a query that reformulates a recent one (shared terms, within
+ *    QUERY_CHAIN_WINDOW_MS) joins its chain, so both land in the same intent
+ * 3. Terms: normalized query words for matching pages against intents (and
+ *    for the full-text search index)
+ */
+
+import type { PageData, SearchQuery } from "@/types/page";
+
+interface SearchUrlRule {
+  engine?: string; // Missing = site search, named after the hostname
+  host: RegExp;
+  path: RegExp;
+  params: string[];
+}
+
+const WEB_SEARCH_ENGINES: SearchUrlRule[] = [
+  {
+    engine: "google",
+    host: /(^|\.)google\.[a-z.]+$/,
+    path: /^\/search/,
+    params: ["q"],
+  },
+  {
+    engine: "bing",
+    host: /(^|\.)bing\.com$/,
+    path: /^\/search/,
+    params: ["q"],
+  },
+  {
+    engine: "duckduckgo",
+    host: /(^|\.)duckduckgo\.com$/,
+    path: /^\/(html\/?|lite\/?)?$/,
+    params: ["q"],
+  },
+  {
+    engine: "yahoo",
+    host: /(^|\.)search\.yahoo\.com$/,
+    path: /^\/search/,
+    params: ["p"],
+  },
+  {
+    engine: "ecosia",
+    host: /(^|\.)ecosia\.org$/,
+    path: /^\/search/,
+    params: ["q"],
+  },
+  {
+    engine: "brave",
+    host: /^search\.brave\.com$/,
+    path: /^\/search/,
+    params: ["q"],
+  },
+  {
+    engine: "startpage",
+    host: /(^|\.)startpage\.com$/,
+    path: /^\/(do\/|sp\/)?search/,
+    params: ["query", "q"],
+  },
+  { engine: "kagi", host: /^kagi\.com$/, path: /^\/search/, params: ["q"] },
+  { engine: "baidu", host: /(^|\.)baidu\.com$/, path: /^\/s$/, params: ["wd"] },
+  {
+    engine: "yandex",
+    host: /(^|\.)yandex\.[a-z.]+$/,
+    path: /^\/search/,
+    params: ["text"],
+  },
+];
+
+const SITE_SEARCHES: SearchUrlRule[] = [
+  {
+    host: /(^|\.)youtube\.com$/,
+    path: /^\/results/,
+    params: ["search_query"],
+  },
+  { host: /(^|\.)amazon\.[a-z.]+$/, path: /^\/s\/?$/, params: ["k"] },
+  {
+    host: /(^|\.)wikipedia\.org$/,
+    path: /^\/w\/index\.php/,
+    params: ["search"],
+  },
+  // Most sites: /search?q=, /search/results?query=, /find?term=...
+  {
+    host: /./,
+    path: /(^|\/)(search|find|results)([/._-]|$)/i,
+    params: [
+      "q",
+      "query",
+      "search",
+      "keyword",
+      "keywords",
+      "term",
+      "text",
+      "k",
+    ],
+  },
+  // WordPress: /?s=
+  { host: /./, path: /^\/$/, params: ["s"] },
+];
+
+export const QUERY_CHAIN_WINDOW_MS = 30 * 60 * 1000;
+
+const MAX_QUERY_CHARS = 200;
+
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "best",
+  "by",
+  "can",
+  "do",
+  "does",
+  "for",
+  "from",
+  "how",
+  "in",
+  "is",
+  "it",
+  "near",
+  "of",
+  "on",
+  "or",
+  "the",
+  "to",
+  "vs",
+  "what",
+  "when",
+  "where",
+  "which",
+  "who",
+  "why",
+  "with",
+]);
+
+/**
+ * The search query in a URL, or null if it isn't a search results page
+ */
+export function extractSearchQuery(url: string): SearchQuery | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  if (!/^https?:$/.test(parsed.protocol)) return null;
+
+  const host = parsed.hostname.toLowerCase();
+
+  for (const rules of [WEB_SEARCH_ENGINES, SITE_SEARCHES]) {
+    for (const rule of rules) {
+      if (!rule.host.test(host) || !rule.path.test(parsed.pathname)) continue;
+
+      for (const param of rule.params) {
+        const query = (parsed.searchParams.get(param) || "")
+          .replace(/\s+/g, " ")
+          .trim()
+          .substring(0, MAX_QUERY_CHARS);
+        if (!query) continue;
+
+        return rule.engine
+          ? { query, engine: rule.engine, kind: "web" }
+          : { query, engine: host.replace(/^www\./, ""), kind: "site" };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Lowercase words without stopwords, repeats kept (for term frequencies)
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 1 && !STOPWORDS.has(term));
+}
+
+/**
+ * Lowercase query words without stopwords
+ */
+export function queryTerms(query: string): string[] {
+  return Array.from(new Set(tokenize(query)));
+}
+
+/**
+ * Shared terms over the smaller set (1 = one side contains the other)
+ */
+export function termOverlap(a: Iterable<string>, b: Iterable<string>): number {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 || setB.size === 0) return 0;
+
+  let shared = 0;
+  for (const term of setA) {
+    if (setB.has(term)) shared++;
+  }
+  return shared / Math.min(setA.size, setB.size);
+}
+
+/**
+ * "rust async" -> "rust async tokio tutorial" is a reformulation,
+ * "rust async" -> "flights to lisbon" is a new search
+ */
+export function isReformulation(previous: string, next: string): boolean {
+  return termOverlap(queryTerms(previous), queryTerms(next)) >= 0.5;
+}
+
+/**
+ * Attach a page's query to the chain of the latest recent query it
+ * reformulates; otherwise it starts a chain of its own
+ *
+ * `recentPages` can be in any order; pages at the same URL are skipped
+ * (they are the same results page, not a reformulation).
+ */
+export function linkQueryChain(
+  page: PageData,
+  recentPages: PageData[]
+): SearchQuery | undefined {
+  const searchQuery = page.searchQuery;
+  if (!searchQuery) return undefined;
+
+  const previous = recentPages
+    .filter(
+      (p) =>
+        p.id !== page.id &&
+        p.url !== page.url &&
+        p.searchQuery &&
+        p.timestamp <= page.timestamp &&
+        page.timestamp - p.timestamp <= QUERY_CHAIN_WINDOW_MS
+    )
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .find((p) => isReformulation(p.searchQuery!.query, searchQuery.query));
+
+  if (!previous) {
+    return { ...searchQuery, chainId: page.id };
+  }
+
+  const previousQuery = previous.searchQuery!;
+  const reformulated =
+    previousQuery.query.toLowerCase() !== searchQuery.query.toLowerCase();
+
+  return {
+    ...searchQuery,
+    chainId: previousQuery.chainId || previous.id,
+    previousQuery: reformulated ? previousQuery.query : undefined,
+    previousPageId: previous.id,
+  };
+}
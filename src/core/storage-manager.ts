@@ -1,13 +1,48 @@
-import type { IntentAssignments, PageData } from "@/types/page";
+import type {
+  DwellBreakdown,
+  FocusedSection,
+  IntentAssignments,
+  PageData,
+} from "@/types/page";
 import type { Intent } from "@/types/intent";
-import type { Nudge } from "@/types/nudge";
-import type { StorageStats, IntentRelationship } from "@/types/storage";
+import type { NotificationLog, Nudge, NudgeStatus } from "@/types/nudge";
+import type {
+  StorageStats,
+  IntentRelationship,
+  HistoryImportState,
+  MigrationReport,
+  RetentionReport,
+  ValidationReport,
+} from "@/types/storage";
 import type { UserSettings } from "@/types/settings";
+import type { MatchCorrection, MatchingModelState } from "@/types/matching";
+import type { MergeProposal, MergeProposalStatus } from "@/types/merge";
 import type { UserKnowledgeGraph } from "@/types/knowledge-graph";
+import type {
+  SearchDocKind,
+  SearchDocument,
+  SearchIndexStats,
+  SearchTermPostings,
+} from "@/types/search";
 import { DEFAULT_SETTINGS } from "@/types/settings";
+import { EXPORT_BUNDLE_VERSION } from "@/types/storage";
+import {
+  DB_VERSION,
+  MIGRATED_STORES,
+  dryRunRecords,
+  runMigrations,
+} from "./db-migrations";
+import {
+  intentDocId,
+  intentDocument,
+  pageDocId,
+  pageDocument,
+  sameDocument,
+} from "./search-index";
 
 const DB_NAME = "BrynAI_DB";
-const DB_VERSION = 4; // Incremented for activitySummaries store
+const SEARCH_INDEX_STORES = ["searchDocs", "searchTerms", "settings"];
+export const SECTION_EXCERPT_CHARS = 300; // Per section, once content is summarized
 
 class StorageManager {
   private db: IDBDatabase | null = null;
@@ -15,6 +50,8 @@ class StorageManager {
   async initialize(): Promise<void> {
     if (this.db) return;
 
+    let migration: MigrationReport | null = null;
+
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(DB_NAME, DB_VERSION);
 
@@ -22,82 +59,18 @@ class StorageManager {
       request.onsuccess = () => {
         this.db = request.result;
         console.log("StorageManager: Database initialized");
+        if (migration) {
+          this.recordMigration(migration);
+        }
         resolve();
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Pages store
-        if (!db.objectStoreNames.contains("pages")) {
-          const pageStore = db.createObjectStore("pages", { keyPath: "id" });
-          pageStore.createIndex("url", "url", { unique: false });
-          pageStore.createIndex("timestamp", "timestamp", { unique: false });
-          pageStore.createIndex(
-            "primaryIntent",
-            "intentAssignments.primary.intentId",
-            { unique: false }
-          );
-        }
-
-        // Intents store
-        if (!db.objectStoreNames.contains("intents")) {
-          const intentStore = db.createObjectStore("intents", {
-            keyPath: "id",
-          });
-          intentStore.createIndex("status", "status", { unique: false });
-          intentStore.createIndex("lastUpdated", "lastUpdated", {
-            unique: false,
-          });
-          intentStore.createIndex("firstSeen", "firstSeen", { unique: false });
-        }
-
-        // Nudges store
-        if (!db.objectStoreNames.contains("nudges")) {
-          const nudgeStore = db.createObjectStore("nudges", { keyPath: "id" });
-          nudgeStore.createIndex("intentId", "intentId", { unique: false });
-          nudgeStore.createIndex("status", "status", { unique: false });
-          nudgeStore.createIndex("priority", "priority", { unique: false });
-        }
-
-        // Relationships store
-        if (!db.objectStoreNames.contains("relationships")) {
-          const relStore = db.createObjectStore("relationships", {
-            keyPath: "id",
-          });
-          relStore.createIndex("fromIntent", "fromIntentId", { unique: false });
-          relStore.createIndex("toIntent", "toIntentId", { unique: false });
-        }
-
-        // Processing Queue store (for persistence across restarts)
-        if (!db.objectStoreNames.contains("processingQueue")) {
-          const queueStore = db.createObjectStore("processingQueue", {
-            keyPath: "id",
-          });
-          queueStore.createIndex("status", "status", { unique: false });
-          queueStore.createIndex("priority", "priority", { unique: false });
-          queueStore.createIndex("createdAt", "createdAt", { unique: false });
-        }
-
-        // Settings store (user preferences)
-        if (!db.objectStoreNames.contains("settings")) {
-          db.createObjectStore("settings", { keyPath: "key" });
-        }
-
-        // Knowledge Graph store (user interests, entities, knowledge levels)
-        if (!db.objectStoreNames.contains("knowledgeGraph")) {
-          db.createObjectStore("knowledgeGraph", { keyPath: "version" });
-        }
-
-        // Activity Summaries store (cached AI-generated activity summaries)
-        if (!db.objectStoreNames.contains("activitySummaries")) {
-          const summaryStore = db.createObjectStore("activitySummaries", {
-            keyPath: "id",
-          });
-          summaryStore.createIndex("generatedAt", "generatedAt", {
-            unique: false,
-          });
-        }
+        migration = runMigrations(
+          request.result,
+          request.transaction!,
+          event.oldVersion
+        );
       };
     });
   }
@@ -159,6 +132,42 @@ class StorageManager {
     });
   }
 
+  /**
+   * Page that already holds a tracker visit (repeated PAGE_DATA reports)
+   */
+  async findPageByVisit(
+    url: string,
+    visitId: string
+  ): Promise<PageData | null> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("pages", "readonly");
+      const request = tx.objectStore("pages").index("url").getAll(url);
+      request.onsuccess = () => {
+        const pages: PageData[] = request.result || [];
+        resolve(pages.find((p) => p.visitIds?.includes(visitId)) || null);
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Fold a follow-up visit report (interaction deltas) into its page.
+   * Intent assignments and AI results on the stored page are kept.
+   */
+  async mergePageVisit(
+    existing: PageData,
+    report: PageData
+  ): Promise<PageData> {
+    const merged = this.mergeDuplicatePage(existing, {
+      ...report,
+      intentAssignments: existing.intentAssignments,
+    });
+    await this.putPage(merged);
+    this.notifyPageUpdate(merged.id);
+    return merged;
+  }
+
   async getPage(id: string): Promise<PageData | null> {
     await this.initialize();
     return new Promise((resolve, reject) => {
@@ -169,6 +178,17 @@ class StorageManager {
     });
   }
 
+  async deletePage(id: string): Promise<void> {
+    await this.initialize();
+    await new Promise<void>((resolve, reject) => {
+      const tx = this.db!.transaction("pages", "readwrite");
+      tx.objectStore("pages").delete(id);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    await this.indexRecords({ removedIds: [pageDocId(id)] });
+  }
+
   // Atomic updates to prevent overwriting
   async updatePageSemanticFeatures(
     pageId: string,
@@ -195,6 +215,7 @@ class StorageManager {
         reject(tx.error);
       };
     });
+    await this.indexRecords({ pages: [page] });
 
     // Additional delay to ensure commit
     await new Promise((resolve) => setTimeout(resolve, 100));
@@ -207,6 +228,11 @@ class StorageManager {
 
     page.contentSummary = summary;
     page.content = null; // Free memory
+    // Keep the outline (headings + opening lines) for section references
+    page.contentSections = page.contentSections?.map((section) => ({
+      ...section,
+      text: section.text.substring(0, SECTION_EXCERPT_CHARS),
+    }));
     await this.savePage(page);
   }
 
@@ -305,14 +331,15 @@ class StorageManager {
       ...current.interactions,
       dwellTime:
         current.interactions.dwellTime + incoming.interactions.dwellTime,
+      dwellBreakdown: this.mergeDwellBreakdown(
+        current.interactions.dwellBreakdown,
+        incoming.interactions.dwellBreakdown
+      ),
       scrollDepth: Math.max(
         current.interactions.scrollDepth,
         incoming.interactions.scrollDepth
       ),
-      scrollPosition: Math.max(
-        current.interactions.scrollPosition,
-        incoming.interactions.scrollPosition
-      ),
+      scrollPosition: incoming.interactions.scrollPosition, // Where reading stopped
       totalScrollDistance:
         current.interactions.totalScrollDistance +
         incoming.interactions.totalScrollDistance,
@@ -325,13 +352,19 @@ class StorageManager {
         incoming.interactions.engagementScore
       ),
       focusedSections: incoming.interactions.focusedSections
-        ? [
-            ...(current.interactions.focusedSections || []),
-            ...incoming.interactions.focusedSections,
-          ]
+        ? this.mergeFocusedSections(
+            current.interactions.focusedSections || [],
+            incoming.interactions.focusedSections
+          )
         : current.interactions.focusedSections,
     };
 
+    if (incoming.visitIds) {
+      merged.visitIds = [
+        ...new Set([...(current.visitIds || []), ...incoming.visitIds]),
+      ];
+    }
+
     if (incoming.semanticFeatures) {
       merged.semanticFeatures = incoming.semanticFeatures;
     }
@@ -354,7 +387,16 @@ class StorageManager {
       merged.content = incoming.content;
     }
 
-    if (incoming.contentSummary !== undefined) {
+    if (incoming.contentSections) {
+      merged.contentSections = incoming.contentSections;
+    }
+
+    if (incoming.structuredData) {
+      merged.structuredData = incoming.structuredData;
+    }
+
+    // Tracker reports always send a null summary - don't drop the AI one
+    if (incoming.contentSummary) {
       merged.contentSummary = incoming.contentSummary;
     }
 
@@ -365,6 +407,46 @@ class StorageManager {
     return merged;
   }
 
+  private mergeDwellBreakdown(
+    current?: DwellBreakdown,
+    incoming?: DwellBreakdown
+  ): DwellBreakdown | undefined {
+    if (!current || !incoming) return current || incoming;
+    return {
+      active: current.active + incoming.active,
+      background: current.background + incoming.background,
+      idle: current.idle + incoming.idle,
+    };
+  }
+
+  // Same heading = same section: add up time and selections, keep top 5
+  private mergeFocusedSections(
+    current: FocusedSection[],
+    incoming: FocusedSection[]
+  ): FocusedSection[] {
+    const byHeading = new Map<string, FocusedSection>();
+
+    for (const section of [...current, ...incoming]) {
+      const existing = byHeading.get(section.heading);
+      if (!existing) {
+        byHeading.set(section.heading, { ...section });
+        continue;
+      }
+
+      existing.timeSpent += section.timeSpent;
+      existing.textSelections += section.textSelections;
+      existing.scrollStart = Math.min(
+        existing.scrollStart,
+        section.scrollStart
+      );
+      existing.scrollEnd = Math.max(existing.scrollEnd, section.scrollEnd);
+    }
+
+    return Array.from(byHeading.values())
+      .sort((a, b) => b.timeSpent - a.timeSpent)
+      .slice(0, 5);
+  }
+
   private mergeIntentAssignments(
     current: IntentAssignments,
     incoming: IntentAssignments
@@ -408,6 +490,7 @@ class StorageManager {
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
+    await this.indexRecords({ pages: [page] });
   }
 
   async getPagesByIntent(intentId: string): Promise<PageData[]> {
@@ -460,6 +543,7 @@ class StorageManager {
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
     });
+    await this.indexRecords({ intents: [intent] });
 
     // Notify UI
     if (isNew) {
@@ -489,6 +573,17 @@ class StorageManager {
     });
   }
 
+  async deleteIntent(id: string): Promise<void> {
+    await this.initialize();
+    await new Promise<void>((resolve, reject) => {
+      const tx = this.db!.transaction("intents", "readwrite");
+      tx.objectStore("intents").delete(id);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    await this.indexRecords({ removedIds: [intentDocId(id)] });
+  }
+
   async getRecentIntents(days: number = 30): Promise<Intent[]> {
     await this.initialize();
     const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
@@ -524,11 +619,15 @@ class StorageManager {
   }
 
   async getPendingNudges(): Promise<Nudge[]> {
+    return this.getNudgesByStatus("pending");
+  }
+
+  async getNudgesByStatus(status: NudgeStatus): Promise<Nudge[]> {
     await this.initialize();
     return new Promise((resolve, reject) => {
       const tx = this.db!.transaction("nudges", "readonly");
       const index = tx.objectStore("nudges").index("status");
-      const request = index.getAll("pending");
+      const request = index.getAll(status);
       request.onsuccess = () => resolve(request.result || []);
       request.onerror = () => reject(request.error);
     });
@@ -565,16 +664,69 @@ class StorageManager {
     });
   }
 
+  /**
+   * Get relationships where the intent is either side (from or to)
+   */
+  async getRelationshipsForIntent(
+    intentId: string
+  ): Promise<IntentRelationship[]> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("relationships", "readonly");
+      const store = tx.objectStore("relationships");
+      const results = new Map<string, IntentRelationship>();
+
+      const fromRequest = store.index("fromIntent").getAll(intentId);
+      fromRequest.onsuccess = () => {
+        fromRequest.result.forEach((r: IntentRelationship) =>
+          results.set(r.id, r)
+        );
+      };
+
+      const toRequest = store.index("toIntent").getAll(intentId);
+      toRequest.onsuccess = () => {
+        toRequest.result.forEach((r: IntentRelationship) =>
+          results.set(r.id, r)
+        );
+      };
+
+      tx.oncomplete = () => resolve(Array.from(results.values()));
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async getAllRelationships(): Promise<IntentRelationship[]> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("relationships", "readonly");
+      const request = tx.objectStore("relationships").getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteRelationship(id: string): Promise<void> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("relationships", "readwrite");
+      tx.objectStore("relationships").delete(id);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
   // Statistics
   async getStorageStats(): Promise<StorageStats> {
     await this.initialize();
 
-    const [pages, intents, nudges, activeIntents] = await Promise.all([
-      this.getAllPages(),
-      this.getAllIntents(),
-      this.getAllNudges(),
-      this.getActiveIntents(),
-    ]);
+    const [pages, intents, nudges, activeIntents, retention] =
+      await Promise.all([
+        this.getAllPages(),
+        this.getAllIntents(),
+        this.getAllNudges(),
+        this.getActiveIntents(),
+        this.getRetentionReport(),
+      ]);
 
     const pendingNudges = nudges.filter((n) => n.status === "pending");
 
@@ -597,6 +749,7 @@ class StorageManager {
       usageBytes,
       usageMB: usageBytes / (1024 * 1024),
       lastActivity,
+      retention,
     };
   }
 
@@ -611,6 +764,18 @@ class StorageManager {
     });
   }
 
+  // Single transaction for the whole batch (history import queues hundreds)
+  async saveQueueTasks(tasks: any[]): Promise<void> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("processingQueue", "readwrite");
+      const store = tx.objectStore("processingQueue");
+      tasks.forEach((task) => store.put(task));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
   async getQueueTask(id: string): Promise<any | null> {
     await this.initialize();
     return new Promise((resolve, reject) => {
@@ -669,7 +834,47 @@ class StorageManager {
       const request = tx.objectStore("settings").get("userSettings");
       request.onsuccess = () => {
         const saved = request.result;
-        resolve(saved ? saved.value : DEFAULT_SETTINGS);
+        if (!saved) {
+          resolve(DEFAULT_SETTINGS);
+          return;
+        }
+        // Settings saved by older versions lack newer fields
+        resolve({
+          ...DEFAULT_SETTINGS,
+          ...saved.value,
+          sensitiveCategories: {
+            ...DEFAULT_SETTINGS.sensitiveCategories,
+            ...saved.value.sensitiveCategories,
+          },
+          lifecycle: {
+            ...DEFAULT_SETTINGS.lifecycle,
+            ...saved.value.lifecycle,
+          },
+          retention: {
+            ...DEFAULT_SETTINGS.retention,
+            ...saved.value.retention,
+          },
+          merging: {
+            ...DEFAULT_SETTINGS.merging,
+            ...saved.value.merging,
+          },
+          search: {
+            ...DEFAULT_SETTINGS.search,
+            ...saved.value.search,
+          },
+          nudges: {
+            ...DEFAULT_SETTINGS.nudges,
+            ...saved.value.nudges,
+            types: {
+              ...DEFAULT_SETTINGS.nudges.types,
+              ...saved.value.nudges?.types,
+            },
+          },
+          notifications: {
+            ...DEFAULT_SETTINGS.notifications,
+            ...saved.value.notifications,
+          },
+        });
       };
       request.onerror = () => reject(request.error);
     });
@@ -685,6 +890,459 @@ class StorageManager {
     });
   }
 
+  async getHistoryImportState(): Promise<HistoryImportState | null> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("settings", "readonly");
+      const request = tx.objectStore("settings").get("historyImport");
+      request.onsuccess = () => resolve(request.result?.value || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveHistoryImportState(state: HistoryImportState): Promise<void> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("settings", "readwrite");
+      tx.objectStore("settings").put({ key: "historyImport", value: state });
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async getNotificationLog(): Promise<NotificationLog | null> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("settings", "readonly");
+      const request = tx.objectStore("settings").get("notificationLog");
+      request.onsuccess = () => resolve(request.result?.value || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveNotificationLog(log: NotificationLog): Promise<void> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("settings", "readwrite");
+      tx.objectStore("settings").put({ key: "notificationLog", value: log });
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  // Migration operations
+  private recordMigration(report: MigrationReport): void {
+    const rewritten = Object.entries(report.records)
+      .map(([store, counts]) => `${counts.updated}/${counts.scanned} ${store}`)
+      .join(", ");
+    console.log(
+      `StorageManager: ✓ Migrated v${report.fromVersion} → v${report.toVersion} (${report.steps.length} steps${rewritten ? `, rewrote ${rewritten}` : ""})`
+    );
+
+    const tx = this.db!.transaction("settings", "readwrite");
+    tx.objectStore("settings").put({ key: "migrationReport", value: report });
+  }
+
+  /**
+   * Last schema upgrade that ran on this device (null = none since the
+   * registry was introduced)
+   */
+  async getMigrationReport(): Promise<MigrationReport | null> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("settings", "readonly");
+      const request = tx.objectStore("settings").get("migrationReport");
+      request.onsuccess = () => resolve(request.result?.value || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Dry run over every stored record: type mismatches, plus records the
+   * migration steps would still rewrite (should be 0 after an upgrade).
+   * Read-only.
+   */
+  async validateDatabase(): Promise<ValidationReport> {
+    await this.initialize();
+    const stores = {} as ValidationReport["stores"];
+
+    for (const store of MIGRATED_STORES) {
+      const records = await new Promise<unknown[]>((resolve, reject) => {
+        const tx = this.db!.transaction(store, "readonly");
+        const request = tx.objectStore(store).getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+      });
+      stores[store] = dryRunRecords(store, records, 0);
+    }
+
+    return { dbVersion: DB_VERSION, checkedAt: Date.now(), stores };
+  }
+
+  async getRetentionReport(): Promise<RetentionReport | null> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("settings", "readonly");
+      const request = tx.objectStore("settings").get("retentionReport");
+      request.onsuccess = () => resolve(request.result?.value || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveRetentionReport(report: RetentionReport): Promise<void> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("settings", "readwrite");
+      tx.objectStore("settings").put({ key: "retentionReport", value: report });
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  // Matching corrections and learned weights (see match-learning.ts)
+
+  async addMatchCorrection(correction: MatchCorrection): Promise<void> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("matchCorrections", "readwrite");
+      tx.objectStore("matchCorrections").put(correction);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Oldest first
+   */
+  async getMatchCorrections(): Promise<MatchCorrection[]> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("matchCorrections", "readonly");
+      const request = tx
+        .objectStore("matchCorrections")
+        .index("createdAt")
+        .getAll();
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async clearMatchCorrections(): Promise<void> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("matchCorrections", "readwrite");
+      tx.objectStore("matchCorrections").clear();
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async getMatchingModel(): Promise<MatchingModelState | null> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("settings", "readonly");
+      const request = tx.objectStore("settings").get("matchingModel");
+      request.onsuccess = () => resolve(request.result?.value || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveMatchingModel(state: MatchingModelState): Promise<void> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("settings", "readwrite");
+      tx.objectStore("settings").put({ key: "matchingModel", value: state });
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  // Merge proposals (see merge-proposals.ts)
+
+  async saveMergeProposal(proposal: MergeProposal): Promise<void> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("mergeProposals", "readwrite");
+      tx.objectStore("mergeProposals").put(proposal);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async getMergeProposal(id: string): Promise<MergeProposal | null> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("mergeProposals", "readonly");
+      const request = tx.objectStore("mergeProposals").get(id);
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getMergeProposalsByStatus(
+    status: MergeProposalStatus
+  ): Promise<MergeProposal[]> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("mergeProposals", "readonly");
+      const index = tx.objectStore("mergeProposals").index("status");
+      const request = index.getAll(status);
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Every proposal for the pair, in either direction
+   */
+  async getMergeProposalsForPair(pairKey: string): Promise<MergeProposal[]> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("mergeProposals", "readonly");
+      const index = tx.objectStore("mergeProposals").index("pairKey");
+      const request = index.getAll(pairKey);
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Search index operations (documents are built in search-index.ts)
+
+  /**
+   * Keep the index in step with written records. Failures are logged, never
+   * thrown - a stale index must not fail the save that triggered it.
+   */
+  private async indexRecords(changes: {
+    pages?: PageData[];
+    intents?: Intent[];
+    removedIds?: string[];
+  }): Promise<void> {
+    const docs: SearchDocument[] = (changes.pages || []).map(pageDocument);
+    const removedIds = [...(changes.removedIds || [])];
+
+    for (const intent of changes.intents || []) {
+      const doc = intentDocument(intent);
+      if (doc) docs.push(doc);
+      else removedIds.push(intentDocId(intent.id));
+    }
+
+    try {
+      await this.updateSearchIndex(docs, removedIds);
+    } catch (error) {
+      console.error("StorageManager: ✗ Search index update failed", error);
+    }
+  }
+
+  /**
+   * One transaction: read the stored documents, then rewrite only the
+   * postings whose frequency changed. Unchanged documents cost one read.
+   */
+  private async updateSearchIndex(
+    docs: SearchDocument[],
+    removedIds: string[]
+  ): Promise<void> {
+    const incoming = new Map<string, SearchDocument | null>();
+    docs.forEach((doc) => incoming.set(doc.id, doc));
+    removedIds.forEach((id) => incoming.set(id, null));
+    if (incoming.size === 0) return;
+
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction(SEARCH_INDEX_STORES, "readwrite");
+      const docStore = tx.objectStore("searchDocs");
+      const termStore = tx.objectStore("searchTerms");
+      const settingsStore = tx.objectStore("settings");
+
+      const previous = new Map<string, SearchDocument>();
+      let pending = incoming.size;
+
+      const applyChanges = () => {
+        // term → document → new frequency (0 = drop the posting)
+        const changes = new Map<string, Map<string, number>>();
+        const setPosting = (term: string, docId: string, frequency: number) => {
+          if (!changes.has(term)) changes.set(term, new Map());
+          changes.get(term)!.set(docId, frequency);
+        };
+        let docCountChange = 0;
+        let lengthChange = 0;
+
+        for (const [id, doc] of incoming) {
+          const old = previous.get(id);
+          if (!doc && !old) continue;
+          if (doc && old && sameDocument(doc, old)) continue;
+
+          for (const term of Object.keys(old?.terms || {})) {
+            if (!doc || !(term in doc.terms)) setPosting(term, id, 0);
+          }
+          for (const [term, frequency] of Object.entries(doc?.terms || {})) {
+            if (old?.terms[term] !== frequency) {
+              setPosting(term, id, frequency);
+            }
+          }
+
+          docCountChange += (doc ? 1 : 0) - (old ? 1 : 0);
+          lengthChange += (doc?.length || 0) - (old?.length || 0);
+          if (doc) docStore.put(doc);
+          else docStore.delete(id);
+        }
+
+        for (const [term, postingChanges] of changes) {
+          const request = termStore.get(term);
+          request.onsuccess = () => {
+            const entry: SearchTermPostings = request.result || {
+              term,
+              postings: {},
+            };
+            for (const [docId, frequency] of postingChanges) {
+              if (frequency > 0) entry.postings[docId] = frequency;
+              else delete entry.postings[docId];
+            }
+            if (Object.keys(entry.postings).length > 0) {
+              termStore.put(entry);
+            } else {
+              termStore.delete(term);
+            }
+          };
+        }
+
+        if (docCountChange === 0 && lengthChange === 0) return;
+        const statsRequest = settingsStore.get("searchIndex");
+        statsRequest.onsuccess = () => {
+          const stats: SearchIndexStats = statsRequest.result?.value || {
+            docCount: 0,
+            totalLength: 0,
+            builtAt: 0,
+          };
+          settingsStore.put({
+            key: "searchIndex",
+            value: {
+              ...stats,
+              docCount: Math.max(0, stats.docCount + docCountChange),
+              totalLength: Math.max(0, stats.totalLength + lengthChange),
+            },
+          });
+        };
+      };
+
+      for (const id of incoming.keys()) {
+        const request = docStore.get(id);
+        request.onsuccess = () => {
+          if (request.result) previous.set(id, request.result);
+          if (--pending === 0) applyChanges();
+        };
+      }
+
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /**
+   * Index every page and intent from scratch (first run after the upgrade,
+   * or to repair a damaged index)
+   */
+  async rebuildSearchIndex(): Promise<SearchIndexStats> {
+    await this.initialize();
+
+    const docs: SearchDocument[] = (await this.getAllPages()).map(pageDocument);
+    for (const intent of await this.getAllIntents()) {
+      const doc = intentDocument(intent);
+      if (doc) docs.push(doc);
+    }
+
+    const postings = new Map<string, Record<string, number>>();
+    for (const doc of docs) {
+      for (const [term, frequency] of Object.entries(doc.terms)) {
+        if (!postings.has(term)) postings.set(term, {});
+        postings.get(term)![doc.id] = frequency;
+      }
+    }
+
+    const stats: SearchIndexStats = {
+      docCount: docs.length,
+      totalLength: docs.reduce((sum, doc) => sum + doc.length, 0),
+      builtAt: Date.now(),
+    };
+
+    await new Promise<void>((resolve, reject) => {
+      const tx = this.db!.transaction(SEARCH_INDEX_STORES, "readwrite");
+      const docStore = tx.objectStore("searchDocs");
+      const termStore = tx.objectStore("searchTerms");
+      docStore.clear();
+      termStore.clear();
+      docs.forEach((doc) => docStore.put(doc));
+      for (const [term, termPostings] of postings) {
+        termStore.put({ term, postings: termPostings });
+      }
+      tx.objectStore("settings").put({ key: "searchIndex", value: stats });
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+
+    return stats;
+  }
+
+  async getSearchIndexStats(): Promise<SearchIndexStats | null> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("settings", "readonly");
+      const request = tx.objectStore("settings").get("searchIndex");
+      request.onsuccess = () => resolve(request.result?.value || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Postings for `term`, plus (with `prefixLimit`) up to that many longer
+   * terms starting with it
+   */
+  async getSearchPostings(
+    term: string,
+    prefixLimit: number = 0
+  ): Promise<SearchTermPostings[]> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("searchTerms", "readonly");
+      const store = tx.objectStore("searchTerms");
+      const request =
+        prefixLimit > 0
+          ? store.getAll(
+              IDBKeyRange.bound(term, `${term}\uffff`),
+              prefixLimit + 1
+            )
+          : store.getAll(term);
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async getSearchDocuments(ids: string[]): Promise<SearchDocument[]> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("searchDocs", "readonly");
+      const store = tx.objectStore("searchDocs");
+      const docs: SearchDocument[] = [];
+      ids.forEach((id) => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          if (request.result) docs.push(request.result);
+        };
+      });
+      tx.oncomplete = () => resolve(docs);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async getAllSearchDocuments(kind?: SearchDocKind): Promise<SearchDocument[]> {
+    await this.initialize();
+    return new Promise((resolve, reject) => {
+      const tx = this.db!.transaction("searchDocs", "readonly");
+      const store = tx.objectStore("searchDocs");
+      const request = kind ? store.index("kind").getAll(kind) : store.getAll();
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   // Knowledge Graph operations
   async getKnowledgeGraph(): Promise<UserKnowledgeGraph | null> {
     await this.initialize();
@@ -789,10 +1447,12 @@ class StorageManager {
     const queueTasks = await this.getAllQueueTasks();
     const settings = await this.getSettings();
     const knowledgeGraph = await this.getKnowledgeGraph();
+    const relationships = await this.getAllRelationships();
 
     return JSON.stringify(
       {
-        version: 1,
+        version: EXPORT_BUNDLE_VERSION,
+        schemaVersion: DB_VERSION,
         exportedAt: Date.now(),
         exportedBy: "Bryn AI",
         data: {
@@ -802,6 +1462,7 @@ class StorageManager {
           queueTasks,
           settings,
           knowledgeGraph,
+          relationships,
         },
       },
       null,
@@ -809,12 +1470,82 @@ class StorageManager {
     );
   }
 
+  /**
+   * Bulk overwrite for retention compaction and capture rule purges -
+   * records are written as given (no merge with the stored page) and no UI
+   * notifications are sent
+   */
+  async replacePages(pages: PageData[]): Promise<void> {
+    await this.initialize();
+    await new Promise<void>((resolve, reject) => {
+      const tx = this.db!.transaction("pages", "readwrite");
+      const store = tx.objectStore("pages");
+      pages.forEach((page) => store.put(page));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    await this.indexRecords({ pages });
+  }
+
+  async deletePages(ids: string[]): Promise<void> {
+    await this.initialize();
+    await new Promise<void>((resolve, reject) => {
+      const tx = this.db!.transaction("pages", "readwrite");
+      const store = tx.objectStore("pages");
+      ids.forEach((id) => store.delete(id));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    await this.indexRecords({ removedIds: ids.map(pageDocId) });
+  }
+
+  /**
+   * Bulk write for backup import - one transaction, no duplicate-URL merging
+   * and no per-record UI notifications
+   */
+  async importRecords(records: {
+    pages: PageData[];
+    intents: Intent[];
+    nudges: Nudge[];
+    relationships: IntentRelationship[];
+  }): Promise<void> {
+    await this.initialize();
+    await new Promise<void>((resolve, reject) => {
+      const tx = this.db!.transaction(
+        ["pages", "intents", "nudges", "relationships"],
+        "readwrite"
+      );
+      const pageStore = tx.objectStore("pages");
+      const intentStore = tx.objectStore("intents");
+      const nudgeStore = tx.objectStore("nudges");
+      const relStore = tx.objectStore("relationships");
+      records.pages.forEach((page) => pageStore.put(page));
+      records.intents.forEach((intent) => intentStore.put(intent));
+      records.nudges.forEach((nudge) => nudgeStore.put(nudge));
+      records.relationships.forEach((rel) => relStore.put(rel));
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    await this.indexRecords(records);
+  }
+
   // Cleanup operations
   async clearAllData(): Promise<void> {
     await this.initialize();
     return new Promise((resolve, reject) => {
       const tx = this.db!.transaction(
-        ["pages", "intents", "nudges", "relationships", "processingQueue"],
+        [
+          "pages",
+          "intents",
+          "nudges",
+          "relationships",
+          "processingQueue",
+          "searchDocs",
+          "searchTerms",
+          "matchCorrections",
+          "mergeProposals",
+          "settings",
+        ],
         "readwrite"
       );
       tx.objectStore("pages").clear();
@@ -822,6 +1553,14 @@ class StorageManager {
       tx.objectStore("nudges").clear();
       tx.objectStore("relationships").clear();
       tx.objectStore("processingQueue").clear();
+      tx.objectStore("searchDocs").clear();
+      tx.objectStore("searchTerms").clear();
+      tx.objectStore("matchCorrections").clear();
+      tx.objectStore("mergeProposals").clear();
+      tx.objectStore("settings").put({
+        key: "searchIndex",
+        value: { docCount: 0, totalLength: 0, builtAt: Date.now() },
+      });
       // Don't clear settings - preserve user preferences
       tx.oncomplete = () => resolve();
       tx.onerror = () => reject(tx.error);
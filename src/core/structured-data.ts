@@ -0,0 +1,165 @@
+/**
+ * Structured Data - schema.org facts as intent signals
+ *
+ * Values come straight from the page's JSON-LD/microdata, so they are
+ * preferred over anything the model infers:
+ * 1. Entities: brands, authors, publishers, products, places
+ * 2. Prompt lines: exact prices, dates and names for AI prompts
+ */
+
+import type { AggregatedSignals } from "@/types/intent";
+import type { StructuredDataItem } from "@/types/page";
+
+export type EntityLists = AggregatedSignals["entities"];
+
+export function emptyEntities(): EntityLists {
+  return {
+    people: [],
+    places: [],
+    organizations: [],
+    products: [],
+    topics: [],
+  };
+}
+
+/**
+ * Entities declared by the page itself
+ */
+export function getStructuredEntities(
+  items: StructuredDataItem[] = []
+): EntityLists {
+  const entities = emptyEntities();
+  const add = (list: string[], value?: string) => {
+    if (value && !list.includes(value)) list.push(value);
+  };
+
+  for (const item of items) {
+    switch (item.kind) {
+      case "product":
+        add(entities.products, item.name);
+        add(entities.organizations, item.brand);
+        break;
+      case "article":
+        item.authors.forEach((author) => add(entities.people, author));
+        add(entities.organizations, item.publisher);
+        add(entities.topics, item.section);
+        break;
+      case "recipe":
+        item.authors.forEach((author) => add(entities.people, author));
+        add(entities.topics, item.name);
+        add(entities.topics, item.cuisine);
+        break;
+      case "course":
+        add(entities.topics, item.name);
+        add(entities.organizations, item.provider);
+        break;
+      case "event":
+        add(entities.topics, item.name);
+        add(entities.places, item.location);
+        add(entities.organizations, item.organizer);
+        break;
+      case "software":
+        add(entities.products, item.name);
+        add(entities.organizations, item.publisher);
+        break;
+    }
+  }
+
+  return entities;
+}
+
+/**
+ * Page entities with structured values first; AI-extracted names that only
+ * differ by case are dropped, and so are non-string values from the model's
+ * JSON
+ */
+export function mergeEntities(
+  structured: EntityLists,
+  extracted?: Partial<EntityLists>
+): EntityLists {
+  const merged = emptyEntities();
+
+  for (const key of Object.keys(merged) as (keyof EntityLists)[]) {
+    const seen = new Set<string>();
+    const values: unknown[] = extracted?.[key] || [];
+    const aiValues = Array.isArray(values)
+      ? values.filter((value): value is string => typeof value === "string")
+      : [];
+    for (const value of [...structured[key], ...aiValues]) {
+      const normalized = value.trim().toLowerCase();
+      if (!normalized || seen.has(normalized)) continue;
+      seen.add(normalized);
+      merged[key].push(value.trim());
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * One line per item with the exact values, for AI prompts
+ */
+export function describeStructuredData(
+  items: StructuredDataItem[] = []
+): string[] {
+  return items.map((item) => {
+    const fields: (string | false | undefined)[] = [
+      `name: ${item.name || "?"}`,
+    ];
+
+    switch (item.kind) {
+      case "product":
+        fields.push(
+          item.brand && `brand: ${item.brand}`,
+          item.price !== undefined &&
+            `price: ${item.price}${
+              item.priceCurrency ? ` ${item.priceCurrency}` : ""
+            }`,
+          item.availability && `availability: ${item.availability}`,
+          item.rating !== undefined &&
+            `rating: ${item.rating}${
+              item.reviewCount ? ` (${item.reviewCount} reviews)` : ""
+            }`
+        );
+        break;
+      case "article":
+        fields.push(
+          item.authors.length > 0 && `authors: ${item.authors.join(", ")}`,
+          item.publisher && `publisher: ${item.publisher}`,
+          item.datePublished && `published: ${item.datePublished}`,
+          item.section && `section: ${item.section}`
+        );
+        break;
+      case "recipe":
+        fields.push(
+          item.cuisine && `cuisine: ${item.cuisine}`,
+          item.totalTime && `total time: ${item.totalTime}`,
+          item.ingredients.length > 0 &&
+            `ingredients: ${item.ingredients.slice(0, 10).join(", ")}`
+        );
+        break;
+      case "course":
+        fields.push(item.provider && `provider: ${item.provider}`);
+        break;
+      case "event":
+        fields.push(
+          item.startDate && `starts: ${item.startDate}`,
+          item.location && `location: ${item.location}`,
+          item.organizer && `organizer: ${item.organizer}`
+        );
+        break;
+      case "software":
+        fields.push(
+          item.category && `category: ${item.category}`,
+          item.operatingSystem && `platform: ${item.operatingSystem}`,
+          item.price !== undefined &&
+            `price: ${item.price}${
+              item.priceCurrency ? ` ${item.priceCurrency}` : ""
+            }`
+        );
+        break;
+    }
+
+    return `- ${item.schemaType}: ${fields.filter(Boolean).join("; ")}`;
+  });
+}
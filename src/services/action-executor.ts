@@ -0,0 +1,401 @@
+import type { Intent, NextStep } from "@/types/intent";
+import type {
+  ActionResult,
+  Comparison,
+  ComparisonOption,
+  SuggestedAction,
+} from "@/types/nudge";
+import type { PageData, StructuredDataItem } from "@/types/page";
+import { SEARCH_ENGINES, type SearchSettings } from "@/types/settings";
+import { storage } from "@/core/storage-manager";
+import { mergeProposals } from "@/core/merge-proposals";
+
+/**
+ * Action Executor - Carries out suggested actions from nudges and next steps
+ *
+ * - search / explore_topic: one tab per query on the configured engine
+ * - open_url: the URL in a new tab
+ * - resume_session: the intent's key pages in a tab group, each at its
+ *   saved scroll position
+ * - continue_reading: the page reading stopped on, at its scroll position
+ * - compare_options: a comparison the side panel shows (no tabs)
+ * - merge_intents: a user-approved merge proposal (validated merge task)
+ *
+ * AI-rewritten nudges can carry loose payloads, so intent-level actions
+ * fall back to the nudge's own intent.
+ */
+
+const MAX_SESSION_TABS = 5;
+const MAX_TOPIC_TABS = 3;
+const MAX_COMPARISON_OPTIONS = 4;
+const FINISHED_SCROLL_DEPTH = 90; // Percent; deeper counts as read
+const TAB_LOAD_TIMEOUT_MS = 15000;
+
+function searchUrl(settings: SearchSettings, query: string): string {
+  const template =
+    settings.engine === "custom"
+      ? settings.customUrl
+      : SEARCH_ENGINES[settings.engine].url;
+  const resolved = template?.includes("%s")
+    ? template
+    : SEARCH_ENGINES.google.url;
+  return resolved.replace("%s", encodeURIComponent(query));
+}
+
+function isWebUrl(url: unknown): url is string {
+  return typeof url === "string" && /^https?:\/\//i.test(url);
+}
+
+function asStrings(value: unknown): string[] {
+  if (typeof value === "string") return [value];
+  return Array.isArray(value)
+    ? value.filter((v): v is string => typeof v === "string")
+    : [];
+}
+
+/**
+ * Wait until the tab has loaded (or give up after the timeout)
+ */
+function waitForTabLoad(tabId: number): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      chrome.tabs.onUpdated.removeListener(listener);
+      resolve();
+    };
+    const listener = (
+      updatedId: number,
+      changeInfo: chrome.tabs.TabChangeInfo
+    ) => {
+      if (updatedId === tabId && changeInfo.status === "complete") done();
+    };
+    const timer = setTimeout(done, TAB_LOAD_TIMEOUT_MS);
+    chrome.tabs.onUpdated.addListener(listener);
+  });
+}
+
+function offerFields(
+  item: StructuredDataItem
+): Pick<ComparisonOption, "brand" | "price" | "rating" | "availability"> {
+  if (item.kind !== "product" && item.kind !== "software") return {};
+  const price =
+    item.price !== undefined
+      ? `${item.price}${item.priceCurrency ? ` ${item.priceCurrency}` : ""}`
+      : undefined;
+
+  if (item.kind === "software") return { price };
+  return {
+    brand: item.brand,
+    price,
+    rating:
+      item.rating !== undefined
+        ? `${item.rating}${
+            item.reviewCount ? ` (${item.reviewCount} reviews)` : ""
+          }`
+        : undefined,
+    availability: item.availability,
+  };
+}
+
+function pageOption(page: PageData, name?: string): ComparisonOption {
+  const offer = page.structuredData?.find(
+    (item) => item.kind === "product" || item.kind === "software"
+  );
+  return {
+    name: name || offer?.name || page.title,
+    pageId: page.id,
+    url: page.url,
+    domain: page.metadata.domain,
+    summary: page.contentSummary || page.metadata.description,
+    engagement: page.interactions.engagementScore,
+    ...(offer ? offerFields(offer) : {}),
+  };
+}
+
+class ActionExecutor {
+  async execute(
+    action: SuggestedAction,
+    intentId?: string
+  ): Promise<ActionResult> {
+    const payload = action.payload || {};
+    const ownIntentId =
+      payload.intentId || payload.baseIntent || intentId || undefined;
+
+    console.log(`ActionExecutor: Running ${action.action}`);
+
+    switch (action.action) {
+      case "search": {
+        const query = asStrings(payload.query)[0] || action.label;
+        return this.openSearches([query]);
+      }
+
+      case "open_url": {
+        if (!isWebUrl(payload.url)) {
+          throw new Error("Action has no web address to open");
+        }
+        await chrome.tabs.create({ url: payload.url });
+        return { openedTabs: 1 };
+      }
+
+      case "explore_topic": {
+        const topics = [
+          ...asStrings(payload.suggestedTopics),
+          ...asStrings(payload.topics),
+          ...asStrings(payload.topic),
+          ...asStrings(payload.query),
+        ];
+        if (topics.length === 0) {
+          const intent = await this.requireIntent(ownIntentId);
+          topics.push(intent.label);
+        }
+        return this.openSearches(
+          Array.from(new Set(topics)).slice(0, MAX_TOPIC_TABS)
+        );
+      }
+
+      case "resume_session":
+        return this.resumeSession(await this.requireIntent(ownIntentId));
+
+      case "continue_reading":
+        return this.continueReading(payload, ownIntentId);
+
+      case "compare_options":
+        return {
+          openedTabs: 0,
+          comparison: await this.buildComparison(
+            await this.requireIntent(ownIntentId),
+            asStrings(payload.options)
+          ),
+        };
+
+      case "merge_intents": {
+        const sourceId = payload.fromId || payload.sourceIntentId;
+        const targetId = payload.toId || payload.targetIntentId;
+        if (!sourceId || !targetId) {
+          throw new Error("Merge action is missing the intents to merge");
+        }
+        const proposal = await mergeProposals.requestMerge(
+          sourceId,
+          targetId,
+          action.reasoning || "Requested from a suggestion"
+        );
+        return {
+          openedTabs: 0,
+          mergeProposalId: proposal.id,
+          message: `Merging "${proposal.sourceLabel}" into "${proposal.targetLabel}"`,
+        };
+      }
+
+      default:
+        throw new Error(`Unknown action: ${(action as any).action}`);
+    }
+  }
+
+  /**
+   * Run one of an intent's AI next steps
+   */
+  async executeNextStep(
+    intentId: string,
+    stepId: string
+  ): Promise<ActionResult> {
+    const intent = await this.requireIntent(intentId);
+    const step = intent.nextSteps?.find((s) => s.id === stepId);
+    if (!step) {
+      throw new Error(`Next step ${stepId} not found`);
+    }
+    return this.execute(this.nextStepAction(step), intentId);
+  }
+
+  private nextStepAction(step: NextStep): SuggestedAction {
+    const base = {
+      label: step.action,
+      confidence: 1,
+      reasoning: step.reasoning,
+    };
+    if (step.url && (step.type === "visit" || !step.query)) {
+      return { ...base, action: "open_url", payload: { url: step.url } };
+    }
+    const query = step.query || step.action;
+    return step.type === "explore"
+      ? { ...base, action: "explore_topic", payload: { query } }
+      : { ...base, action: "search", payload: { query } };
+  }
+
+  private async openSearches(queries: string[]): Promise<ActionResult> {
+    const { search } = await storage.getSettings();
+    for (const [index, query] of queries.entries()) {
+      await chrome.tabs.create({
+        url: searchUrl(search, query),
+        active: index === 0,
+      });
+    }
+    return { openedTabs: queries.length };
+  }
+
+  /**
+   * The most engaged pages, in the order they were first visited, grouped
+   * under the intent's label
+   */
+  private async resumeSession(intent: Intent): Promise<ActionResult> {
+    const pages = (await storage.getPagesByIntent(intent.id)).sort(
+      (a, b) => b.interactions.engagementScore - a.interactions.engagementScore
+    );
+    const byUrl = new Map<string, PageData>();
+    for (const page of pages) {
+      if (isWebUrl(page.url) && !byUrl.has(page.url)) byUrl.set(page.url, page);
+    }
+    const keyPages = Array.from(byUrl.values())
+      .slice(0, MAX_SESSION_TABS)
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    if (keyPages.length === 0) {
+      throw new Error("This intent has no pages to reopen");
+    }
+
+    const tabs = await Promise.all(
+      keyPages.map((page, index) =>
+        chrome.tabs.create({ url: page.url, active: index === 0 })
+      )
+    );
+    const tabIds = tabs
+      .map((tab) => tab.id)
+      .filter((id): id is number => id !== undefined);
+
+    if (tabIds.length > 0) {
+      const groupId = await chrome.tabs.group({ tabIds });
+      await chrome.tabGroups.update(groupId, {
+        title: (intent.userFeedback?.customLabel || intent.label).slice(0, 40),
+        collapsed: false,
+      });
+    }
+
+    // Restored in the background; the tabs are usable before they scroll
+    keyPages.forEach((page, index) => {
+      const tabId = tabs[index]?.id;
+      if (tabId !== undefined) {
+        this.restoreScroll(tabId, page.interactions.scrollPosition);
+      }
+    });
+
+    console.log(
+      `ActionExecutor: ✓ Resumed "${intent.label}" (${tabIds.length} tabs)`
+    );
+    return { openedTabs: tabIds.length };
+  }
+
+  private async continueReading(
+    payload: any,
+    intentId?: string
+  ): Promise<ActionResult> {
+    let page: PageData | null = payload.pageId
+      ? await storage.getPage(payload.pageId)
+      : null;
+
+    if (!page) {
+      const pages = (
+        await storage.getPagesByIntent((await this.requireIntent(intentId)).id)
+      )
+        .filter((p) => isWebUrl(p.url))
+        .sort((a, b) => b.timestamp - a.timestamp);
+      page =
+        pages.find(
+          (p) =>
+            p.interactions.scrollPosition > 0 &&
+            p.interactions.scrollDepth < FINISHED_SCROLL_DEPTH
+        ) ||
+        pages[0] ||
+        null;
+    }
+
+    const url = page?.url || payload.url;
+    if (!isWebUrl(url)) {
+      throw new Error("No page to continue reading");
+    }
+
+    const tab = await chrome.tabs.create({ url });
+    if (tab.id !== undefined && page) {
+      this.restoreScroll(tab.id, page.interactions.scrollPosition);
+    }
+    return { openedTabs: 1 };
+  }
+
+  private async restoreScroll(tabId: number, scrollY: number): Promise<void> {
+    if (!scrollY || scrollY <= 0) return;
+    try {
+      await waitForTabLoad(tabId);
+      await chrome.scripting.executeScript({
+        target: { tabId },
+        func: (top: number) => window.scrollTo({ top }),
+        args: [scrollY],
+      });
+    } catch (error) {
+      // Tab closed or a page scripts can't run on
+      console.warn("ActionExecutor: Could not restore scroll position", error);
+    }
+  }
+
+  /**
+   * Products (from structured data) across the intent's pages; without any,
+   * its most engaged pages. Named options come first when the AI gave some.
+   */
+  private async buildComparison(
+    intent: Intent,
+    names: string[]
+  ): Promise<Comparison> {
+    const pages = (await storage.getPagesByIntent(intent.id)).sort(
+      (a, b) => b.interactions.engagementScore - a.interactions.engagementScore
+    );
+
+    const named = names.map((name) => {
+      const needle = name.toLowerCase();
+      const page = pages.find(
+        (p) =>
+          p.title.toLowerCase().includes(needle) ||
+          !!p.structuredData?.some((item) =>
+            item.name?.toLowerCase().includes(needle)
+          )
+      );
+      return page ? pageOption(page, name) : { name };
+    });
+
+    const seen = new Set(named.map((option) => option.name.toLowerCase()));
+    const products = pages
+      .filter((page) =>
+        page.structuredData?.some(
+          (item) => item.kind === "product" || item.kind === "software"
+        )
+      )
+      .map((page) => pageOption(page));
+    const fallback =
+      products.length > 0 ? products : pages.map((p) => pageOption(p));
+
+    const options = [...named];
+    for (const option of fallback) {
+      if (options.length >= MAX_COMPARISON_OPTIONS) break;
+      if (seen.has(option.name.toLowerCase())) continue;
+      seen.add(option.name.toLowerCase());
+      options.push(option);
+    }
+
+    if (options.length < 2) {
+      throw new Error("Not enough options in this intent to compare yet");
+    }
+
+    return {
+      intentId: intent.id,
+      title: intent.userFeedback?.customLabel || intent.label,
+      options,
+    };
+  }
+
+  private async requireIntent(intentId?: string): Promise<Intent> {
+    const intent = intentId ? await storage.getIntent(intentId) : null;
+    if (!intent) {
+      throw new Error("Intent for this action not found");
+    }
+    return intent;
+  }
+}
+
+// Global singleton
+export const actionExecutor = new ActionExecutor();
@@ -1,6 +1,16 @@
 // AI-powered content generation for intents using Chrome built-in AI
-import type { Intent, IntentInsight, NextStep } from "@/types/intent";
+import type {
+  Intent,
+  IntentInsight,
+  IntentProgress,
+  KnowledgeGap,
+  Milestone,
+  NextStep,
+} from "@/types/intent";
 import type { PageData } from "@/types/page";
+import type { KnowledgeLevel } from "@/types/knowledge-graph";
+import type { RelationType } from "@/types/storage";
+import { mergePairKey } from "@/types/merge";
 
 /**
  * Clean AI response to extract JSON (handles markdown code blocks)
@@ -500,6 +510,523 @@ Return ONLY valid JSON (keep it concise!):
   }
 }
 
+/**
+ * Result of a milestone prediction run
+ */
+export interface MilestonePredictionResult {
+  progress: IntentProgress;
+  planGenerated: boolean; // True when the milestone steps were (re)planned
+  prompt: string;
+  response: string;
+}
+
+/**
+ * Predict milestone progress for an intent using Chrome's LanguageModel
+ *
+ * The milestone plan is only generated when the intent has none yet (or the
+ * goal it was planned for changed). Later runs keep the existing steps and
+ * only re-evaluate their status against page evidence, so the plan stays
+ * stable and completed milestones never regress.
+ */
+export async function predictIntentMilestones(
+  intent: Intent,
+  pages: PageData[]
+): Promise<MilestonePredictionResult> {
+  if (!("LanguageModel" in self)) {
+    throw new Error("LanguageModel not available");
+  }
+
+  const existing = intent.progress;
+  const needsPlan =
+    !existing ||
+    existing.milestones.length === 0 ||
+    (!!intent.goal && existing.plannedForGoal !== intent.goal);
+
+  // Most recent pages last, so the model reads the journey in order
+  const orderedPages = [...pages]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-20);
+
+  const pageList = orderedPages
+    .map((page, idx) => {
+      const summary = (
+        page.contentSummary ||
+        page.metadata.description ||
+        ""
+      ).substring(0, 120);
+      return `${idx + 1}. "${page.title}" (${page.metadata.domain})${
+        summary ? ` - ${summary}` : ""
+      }`;
+    })
+    .join("\n");
+
+  const topKeywords = Object.keys(intent.aggregatedSignals.keywords)
+    .slice(0, 10)
+    .join(", ");
+
+  const session = await LanguageModel.create({
+    temperature: 0.3,
+    topK: 3,
+  });
+
+  const prompts: string[] = [];
+  const responses: string[] = [];
+
+  try {
+    let steps: string[] = existing?.milestones.map((m) => m.step) || [];
+
+    if (needsPlan) {
+      const planPrompt = `Plan the milestones for this research journey:
+
+INTENT: "${intent.label}"
+GOAL: ${intent.goal || "(not inferred yet)"}
+KEYWORDS: ${topKeywords}
+DOMAINS: ${intent.aggregatedSignals.domains.join(", ")}
+
+COMMON RESEARCH PATTERNS:
+- Shopping: Research → Compare → Decide → Purchase
+- Learning: Overview → Tutorials → Practice → Advanced Topics
+- Planning: Explore → Compare Options → Detail Planning → Execution
+
+REQUIREMENTS:
+1. 3-5 milestones, in the order the user would reach them
+2. Each milestone: 2-6 words, verb first, specific to this intent
+3. The last milestone is reaching the goal itself
+
+Return ONLY valid JSON:
+{
+  "milestones": ["Compare standing desk models", "..."]
+}`;
+
+      prompts.push(planPrompt);
+      const planResponse = await session.prompt(planPrompt);
+      responses.push(planResponse);
+
+      const parsed = parseAIJSON(planResponse, { milestones: [] });
+      const planned: string[] = (parsed.milestones || [])
+        .map((step: any) => String(step).trim())
+        .filter((step: string) => step.length > 0)
+        .slice(0, 5);
+
+      if (planned.length === 0) {
+        throw new Error("AI returned no milestones");
+      }
+      steps = planned;
+    }
+
+    const assessPrompt = `Assess progress on each milestone using the pages the user visited.
+
+INTENT: "${intent.label}"
+GOAL: ${intent.goal || "(not inferred yet)"}
+
+MILESTONES:
+${steps.map((step, idx) => `${idx + 1}. ${step}`).join("\n")}
+
+PAGES (oldest first):
+${pageList}
+
+RULES:
+- "completed" only if specific pages clearly show the milestone was reached
+- "in_progress" if pages show work toward it
+- "not_started" otherwise
+- Cite evidence by page number
+
+Return ONLY valid JSON:
+{
+  "milestones": [
+    { "index": 1, "status": "completed", "evidencePages": [1, 3] }
+  ]
+}`;
+
+    prompts.push(assessPrompt);
+    const assessResponse = await session.prompt(assessPrompt);
+    responses.push(assessResponse);
+
+    const assessed = parseAIJSON(assessResponse, { milestones: [] });
+    const assessments = new Map<number, { status: string; pages: number[] }>();
+    for (const item of assessed.milestones || []) {
+      const index = Number(item?.index);
+      if (!Number.isInteger(index) || index < 1 || index > steps.length) {
+        continue;
+      }
+      assessments.set(index - 1, {
+        status: String(item.status || ""),
+        pages: Array.isArray(item.evidencePages)
+          ? item.evidencePages.map(Number)
+          : [],
+      });
+    }
+
+    const previousByStep = new Map(
+      (existing?.milestones || []).map((m) => [m.step, m])
+    );
+    const now = Date.now();
+
+    const milestones: Milestone[] = steps.map((step, idx) => {
+      const previous = previousByStep.get(step);
+      const assessment = assessments.get(idx);
+
+      const evidencePages = (assessment?.pages || [])
+        .filter(
+          (n) => Number.isInteger(n) && n >= 1 && n <= orderedPages.length
+        )
+        .map((n) => orderedPages[n - 1]);
+
+      const evidencePageIds = Array.from(
+        new Set([
+          ...(previous?.evidencePageIds || []),
+          ...evidencePages.map((p) => p.id),
+        ])
+      );
+      const evidence = Array.from(
+        new Set([
+          ...(previous?.evidence || []),
+          ...evidencePages.map((p) => p.title),
+        ])
+      ).slice(0, 5);
+
+      // A milestone can only be completed with page evidence behind it
+      let status: Milestone["status"] = "not_started";
+      if (assessment?.status === "completed" && evidencePageIds.length > 0) {
+        status = "completed";
+      } else if (
+        assessment?.status === "in_progress" ||
+        assessment?.status === "completed"
+      ) {
+        status = "in_progress";
+      }
+
+      // Never regress: completed stays completed, in_progress stays started
+      if (previous?.status === "completed") {
+        status = "completed";
+      } else if (
+        previous?.status === "in_progress" &&
+        status === "not_started"
+      ) {
+        status = "in_progress";
+      }
+
+      return {
+        step,
+        status,
+        completedAt:
+          status === "completed" ? previous?.completedAt || now : undefined,
+        evidence,
+        evidencePageIds,
+      };
+    });
+
+    const completionEstimate = Math.round(
+      (milestones.reduce(
+        (sum, m) =>
+          sum +
+          (m.status === "completed" ? 1 : m.status === "in_progress" ? 0.5 : 0),
+        0
+      ) /
+        milestones.length) *
+        100
+    );
+
+    return {
+      progress: {
+        milestones,
+        completionEstimate,
+        plannedAt: needsPlan ? now : existing?.plannedAt || now,
+        plannedForGoal: needsPlan ? intent.goal : existing?.plannedForGoal,
+        updatedAt: now,
+      },
+      planGenerated: needsPlan,
+      prompt: prompts.join("\n\n---\n\n"),
+      response: responses.join("\n\n---\n\n"),
+    };
+  } finally {
+    session.destroy();
+  }
+}
+
+/**
+ * Result of a knowledge gap analysis run
+ */
+export interface KnowledgeGapAnalysisResult {
+  gaps: KnowledgeGap[];
+  prompt: string;
+  response: string;
+}
+
+const KNOWLEDGE_GAP_TYPES: KnowledgeGap["type"][] = [
+  "missing_fundamental",
+  "unexplored_subtopic",
+  "shallow_coverage",
+  "next_level",
+];
+
+/**
+ * Analyze what the user still needs to learn to reach the intent's goal
+ *
+ * Compares visited pages, existing insights and knowledge graph assessments
+ * against the goal. Heuristic gaps from the knowledge graph are passed as
+ * hints only - the model decides which ones actually apply.
+ */
+export async function analyzeKnowledgeGaps(
+  intent: Intent,
+  pages: PageData[],
+  knowledgeLevels: KnowledgeLevel[],
+  heuristicGaps: string[] = []
+): Promise<KnowledgeGapAnalysisResult> {
+  if (!("LanguageModel" in self)) {
+    throw new Error("LanguageModel not available");
+  }
+
+  const orderedPages = [...pages]
+    .sort(
+      (a, b) => b.interactions.engagementScore - a.interactions.engagementScore
+    )
+    .slice(0, 15);
+
+  const pageList = orderedPages
+    .map((page, idx) => {
+      const concepts = page.semanticFeatures?.concepts.slice(0, 4).join(", ");
+      return `${idx + 1}. "${page.title}" - engagement ${Math.round(
+        page.interactions.engagementScore * 100
+      )}%, scroll ${page.interactions.scrollDepth}%${
+        concepts ? ` - concepts: ${concepts}` : ""
+      }`;
+    })
+    .join("\n");
+
+  const insightsContext =
+    intent.insights && intent.insights.length > 0
+      ? intent.insights.map((i) => `- ${i.text}`).join("\n")
+      : "(none yet)";
+
+  const levelsContext =
+    knowledgeLevels.length > 0
+      ? knowledgeLevels
+          .map(
+            (k) =>
+              `- ${k.topic}: ${k.level} (${Math.round(
+                k.confidence * 100
+              )}% confidence)`
+          )
+          .join("\n")
+      : "(no assessments yet)";
+
+  const prompt = `Identify knowledge gaps between what the user has read and their goal.
+
+INTENT: "${intent.label}"
+GOAL: ${intent.goal || `To understand ${intent.label}`}
+
+PAGES READ (most engaged first):
+${pageList}
+
+INSIGHTS SO FAR:
+${insightsContext}
+
+KNOWLEDGE LEVELS:
+${levelsContext}
+${
+  heuristicGaps.length > 0
+    ? `\nPOSSIBLE RELATED TOPICS (hints, may not apply): ${heuristicGaps.join(
+        ", "
+      )}\n`
+    : ""
+}
+GAP TYPES:
+- missing_fundamental: a prerequisite the pages skip over
+- unexplored_subtopic: part of the goal no page covers
+- shallow_coverage: a topic visited but only skimmed (low engagement/scroll)
+- next_level: the natural follow-up once the basics are covered
+
+REQUIREMENTS:
+1. 1-3 gaps, most important first, each tied to the GOAL
+2. Topic: 2-5 words
+3. Reason: 1 sentence, 15-25 words, cite what the pages show
+4. Cite evidence by page number (pages that reveal the gap)
+5. 1-2 specific search queries per gap
+
+Return ONLY valid JSON:
+{
+  "gaps": [
+    {
+      "topic": "React Context API",
+      "type": "unexplored_subtopic",
+      "reason": "Pages cover useState and props but never shared state, which the goal of building a dashboard needs",
+      "evidencePages": [1, 2],
+      "suggestedSearches": ["react context api tutorial"],
+      "confidence": 0.8
+    }
+  ]
+}`;
+
+  const session = await LanguageModel.create({
+    temperature: 0.4,
+    topK: 3,
+  });
+
+  try {
+    const response = await session.prompt(prompt);
+    const parsed = parseAIJSON(response, { gaps: [] });
+    const now = Date.now();
+
+    const gaps: KnowledgeGap[] = (parsed.gaps || [])
+      .filter((gap: any) => gap && typeof gap.topic === "string" && gap.topic)
+      .slice(0, 3)
+      .map((gap: any, idx: number) => {
+        const evidencePageIds: string[] = Array.from(
+          new Set<string>(
+            (Array.isArray(gap.evidencePages) ? gap.evidencePages : [])
+              .map(Number)
+              .filter(
+                (n: number) =>
+                  Number.isInteger(n) && n >= 1 && n <= orderedPages.length
+              )
+              .map((n: number) => orderedPages[n - 1].id)
+          )
+        );
+
+        const suggestedSearches: string[] = (
+          Array.isArray(gap.suggestedSearches) ? gap.suggestedSearches : []
+        )
+          .map((q: any) => String(q).trim())
+          .filter((q: string) => q.length > 0)
+          .slice(0, 2);
+
+        return {
+          id: `gap-${now}-${idx}`,
+          topic: gap.topic.trim(),
+          type: KNOWLEDGE_GAP_TYPES.includes(gap.type)
+            ? gap.type
+            : "unexplored_subtopic",
+          reason: gap.reason || `Not yet covered for ${intent.label}`,
+          evidencePageIds,
+          suggestedSearches:
+            suggestedSearches.length > 0
+              ? suggestedSearches
+              : [`${intent.label} ${gap.topic}`],
+          confidence:
+            typeof gap.confidence === "number"
+              ? Math.min(Math.max(gap.confidence, 0), 1)
+              : 0.6,
+          createdAt: now,
+        };
+      });
+
+    return { gaps, prompt, response };
+  } finally {
+    session.destroy();
+  }
+}
+
+/**
+ * AI classification of how a candidate intent relates to the scanned intent
+ */
+export interface IntentRelationshipClassification {
+  candidateId: string;
+  type: RelationType;
+  confidence: number;
+  reasoning: string;
+}
+
+const RELATION_TYPES: RelationType[] = [
+  "continuation",
+  "consequence",
+  "parallel",
+  "evolution",
+  "unrelated",
+];
+
+/**
+ * Classify relationships between an intent and pre-filtered candidates
+ *
+ * Direction is not asked of the model - callers order each pair by
+ * firstSeen, so "from" is always the earlier research thread.
+ */
+export async function classifyIntentRelationships(
+  intent: Intent,
+  candidates: Intent[]
+): Promise<{
+  classifications: IntentRelationshipClassification[];
+  prompt: string;
+  response: string;
+}> {
+  if (!("LanguageModel" in self)) {
+    throw new Error("LanguageModel not available");
+  }
+
+  const describe = (i: Intent) => {
+    const keywords = Object.keys(i.aggregatedSignals.keywords)
+      .slice(0, 8)
+      .join(", ");
+    const start = new Date(i.firstSeen).toISOString().split("T")[0];
+    const end = new Date(i.lastUpdated).toISOString().split("T")[0];
+    return `"${i.label}" (${start} → ${end}, ${i.pageCount} pages, ${
+      i.status
+    })${i.goal ? `\n   GOAL: ${i.goal}` : ""}\n   KEYWORDS: ${keywords}`;
+  };
+
+  const prompt = `Classify how each candidate research thread relates to the main one.
+
+MAIN INTENT: ${describe(intent)}
+
+CANDIDATES:
+${candidates.map((c, idx) => `${idx + 1}. ${describe(c)}`).join("\n")}
+
+RELATIONSHIP TYPES:
+- continuation: the same research picked up again after a break
+- consequence: one thread led to the other (e.g. bought a camera → researching lenses)
+- parallel: related topics researched around the same time, neither caused the other
+- evolution: the focus shifted or matured (e.g. "learn React" → "optimize Next.js builds")
+- unrelated: no meaningful connection
+
+REQUIREMENTS:
+1. One entry per candidate
+2. Reasoning: 1 sentence, 10-20 words, cite shared topics or timing
+3. Use "unrelated" when in doubt
+
+Return ONLY valid JSON:
+{
+  "relationships": [
+    {
+      "candidate": 1,
+      "type": "continuation|consequence|parallel|evolution|unrelated",
+      "confidence": 0.8,
+      "reasoning": "10-20 word explanation"
+    }
+  ]
+}`;
+
+  const session = await LanguageModel.create({
+    temperature: 0.2,
+    topK: 3,
+  });
+
+  try {
+    const response = await session.prompt(prompt);
+    const parsed = parseAIJSON(response, { relationships: [] });
+
+    const classifications: IntentRelationshipClassification[] = [];
+    for (const item of parsed.relationships || []) {
+      const index = Number(item?.candidate);
+      if (!Number.isInteger(index) || index < 1 || index > candidates.length) {
+        continue;
+      }
+      classifications.push({
+        candidateId: candidates[index - 1].id,
+        type: RELATION_TYPES.includes(item.type) ? item.type : "unrelated",
+        confidence:
+          typeof item.confidence === "number"
+            ? Math.min(Math.max(item.confidence, 0), 1)
+            : 0.5,
+        reasoning: item.reasoning || "Related research topics",
+      });
+    }
+
+    return { classifications, prompt, response };
+  } finally {
+    session.destroy();
+  }
+}
+
 /**
  * Compute similarity score between two intents
  * Returns structured similarity data for filtering
@@ -571,13 +1098,20 @@ function computeIntentSimilarity(
   };
 }
 
+const MAX_MERGE_SCAN_PAIRS = 45; // All pairs of the 10 most recent intents
+
 /**
  * Scan all intents for merge opportunities
  * Intent-centric (not page-centric) - catches cases page-level verification misses
+ * With `candidates` (from MergeCoordinator) only those pairs are evaluated;
+ * otherwise every pair of the 10 most recent active intents. Pairs in
+ * `suppressedPairs` (mergePairKey, rejected by the user) are skipped.
  */
 export async function scanIntentMergeOpportunities(
   _targetIntentId: string | null, // null = scan all (reserved for future use)
-  allIntents: Intent[]
+  allIntents: Intent[],
+  candidates?: Array<{ intentA: string; intentB: string }>,
+  suppressedPairs: Set<string> = new Set()
 ): Promise<{
   merges: Array<{
     intentA: string;
@@ -607,6 +1141,26 @@ export async function scanIntentMergeOpportunities(
     };
   }
 
+  const pairs: Array<[Intent, Intent]> = [];
+  if (candidates) {
+    const live = new Map(
+      allIntents
+        .filter((i) => i.status === "active" || i.status === "emerging")
+        .map((i) => [i.id, i])
+    );
+    for (const { intentA, intentB } of candidates) {
+      const a = live.get(intentA);
+      const b = live.get(intentB);
+      if (a && b) pairs.push([a, b]);
+    }
+  } else {
+    for (let i = 0; i < activeIntents.length; i++) {
+      for (let j = i + 1; j < activeIntents.length; j++) {
+        pairs.push([activeIntents[i], activeIntents[j]]);
+      }
+    }
+  }
+
   // PRE-FILTER: Compute similarity for all pairs, only send viable candidates to AI
   const candidatePairs: Array<{
     intentA: Intent;
@@ -614,35 +1168,30 @@ export async function scanIntentMergeOpportunities(
     similarity: ReturnType<typeof computeIntentSimilarity>;
   }> = [];
 
-  for (let i = 0; i < activeIntents.length; i++) {
-    for (let j = i + 1; j < activeIntents.length; j++) {
-      const similarity = computeIntentSimilarity(
-        activeIntents[i],
-        activeIntents[j]
+  const scanPairs = pairs
+    .filter(([a, b]) => !suppressedPairs.has(mergePairKey(a.id, b.id)))
+    .slice(0, MAX_MERGE_SCAN_PAIRS);
+
+  for (const [intentA, intentB] of scanPairs) {
+    const similarity = computeIntentSimilarity(intentA, intentB);
+
+    // Only consider if: has overlap AND no contradictions AND meets minimum floor
+    // Floor: Even with domain overlap, need at least 5% concept overlap (not completely divergent)
+    if (
+      !similarity.hasContradictions &&
+      similarity.conceptOverlap >= 0.05 && // Minimum 5% floor
+      (similarity.domainOverlap > 0 || similarity.conceptOverlap >= 0.3)
+    ) {
+      candidatePairs.push({ intentA, intentB, similarity });
+    } else {
+      console.log(
+        `Pre-filter: Skipping ${intentA.label} + ${intentB.label}`,
+        `(domain overlap: ${similarity.domainOverlap}, concept: ${Math.round(
+          similarity.conceptOverlap * 100
+        )}%, contradictions: ${similarity.hasContradictions}${
+          similarity.conceptOverlap < 0.05 ? ", below 5% floor" : ""
+        })`
       );
-
-      // Only consider if: has overlap AND no contradictions AND meets minimum floor
-      // Floor: Even with domain overlap, need at least 5% concept overlap (not completely divergent)
-      if (
-        !similarity.hasContradictions &&
-        similarity.conceptOverlap >= 0.05 && // Minimum 5% floor
-        (similarity.domainOverlap > 0 || similarity.conceptOverlap >= 0.3)
-      ) {
-        candidatePairs.push({
-          intentA: activeIntents[i],
-          intentB: activeIntents[j],
-          similarity,
-        });
-      } else {
-        console.log(
-          `Pre-filter: Skipping ${activeIntents[i].label} + ${activeIntents[j].label}`,
-          `(domain overlap: ${similarity.domainOverlap}, concept: ${Math.round(
-            similarity.conceptOverlap * 100
-          )}%, contradictions: ${similarity.hasContradictions}${
-            similarity.conceptOverlap < 0.05 ? ", below 5% floor" : ""
-          })`
-        );
-      }
     }
   }
 
@@ -657,7 +1206,7 @@ export async function scanIntentMergeOpportunities(
   }
 
   console.log(
-    `Pre-filter: ${candidatePairs.length} viable merge candidates (from ${activeIntents.length} intents)`
+    `Pre-filter: ${candidatePairs.length} viable merge candidates (from ${scanPairs.length} pairs)`
   );
 
   // Build STRUCTURED JSON context (not paragraph format - clearer for AI)
@@ -738,13 +1287,14 @@ DECISION RULES:
 - Same domain + viewed in sequence → HIGH confidence (0.90-0.95) even if low concept %
 - Same domain + same session → MEDIUM-HIGH confidence (0.85-0.90)
 - Different domains + high concept overlap (>30%) → MEDIUM confidence (0.85-0.89)
-- Different domains + low overlap (<20%) → LOW confidence (<0.85, will not merge)
+- Different domains + low overlap (<20%) → LOW confidence (<0.85, the user reviews it)
+- Different topics → REJECT: leave the pair out of "merges"
 
 SPECIAL CASE - Low Concept Overlap:
 If concept_overlap_percent < 20%, you MUST justify why it's still a merge:
 - "Both on same documentation site (react.dev), different sections of same learning topic"
 - "Viewed consecutively (15 seconds apart), clearly same research session"
-- If you cannot justify it, give confidence < 0.85
+- If you cannot justify it, REJECT the pair (leave it out of "merges")
 
 EXAMPLES:
 ✅ APPROVE 0.93: "React Quick Start" + "React Hooks Reference"
@@ -753,10 +1303,13 @@ EXAMPLES:
 ✅ APPROVE 0.90: "Tennis Google" + "Tennis Yelp"  
    → Different domains but 50% concept overlap, same_browsing_session: true, same topic
 
-❌ REJECT 0.75: "React Reference" + "React Basics" 
+❌ REJECT (not listed in "merges"): "React Reference" + "React Basics"
    → IF viewed 10 minutes apart AND only 5% overlap AND different page counts
    → Might be different sessions or too divergent
 
+"merges" lists ONLY the pairs you approve. Rejected pairs are left out entirely.
+Confidence below 0.85 means the user reviews the merge before it happens.
+
 Return ONLY valid JSON (evaluate each pair by pair_id):
 {
   "merges": [
@@ -779,8 +1332,13 @@ Return ONLY valid JSON (evaluate each pair by pair_id):
     const cleaned = cleanJSONResponse(response);
     const parsed = JSON.parse(cleaned);
 
+    // Every listed merge is proposed, so drop any the model marked rejected
+    const merges = (parsed.merges || []).filter(
+      (merge: { reasoning?: string }) => !/\bREJECT/.test(merge.reasoning || "")
+    );
+
     return {
-      merges: parsed.merges || [],
+      merges,
       prompt,
       response,
     };
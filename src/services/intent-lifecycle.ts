@@ -0,0 +1,106 @@
+import type { Intent } from "@/types/intent";
+import type { LifecycleSettings } from "@/types/settings";
+import { storage } from "@/core/storage-manager";
+import {
+  autoTransitionIntent,
+  isSnoozed,
+  isTerminal,
+  transitionStatus,
+} from "@/core/intent-state";
+import { detectDormancyCompletion } from "@/core/completion-detector";
+
+/**
+ * Intent Lifecycle - Moves idle intents along without waiting for a new page
+ *
+ * Runs on the "intent-lifecycle" alarm over every non-terminal intent:
+ * 1. Dormant focused research past `completeAfterDays` → completed
+ * 2. Emerging/active past `dormantAfterMinutes` → dormant
+ * 3. Dormant past `expireAfterDays` → expired
+ *
+ * Snoozed intents are skipped until the snooze ends. Confirmed intents, and
+ * intents built from a history import that have no live page yet, can go
+ * dormant but are never expired or completed automatically. Each save
+ * broadcasts INTENT_UPDATED to the side panel.
+ */
+
+export interface LifecycleResult {
+  checked: number;
+  dormant: number;
+  expired: number;
+  completed: number;
+}
+
+class IntentLifecycle {
+  private isRunning = false;
+
+  async runLifecycleCheck(): Promise<LifecycleResult> {
+    const result: LifecycleResult = {
+      checked: 0,
+      dormant: 0,
+      expired: 0,
+      completed: 0,
+    };
+
+    // Alarm can fire again while a slow pass is still saving
+    if (this.isRunning) return result;
+    this.isRunning = true;
+
+    try {
+      const { lifecycle } = await storage.getSettings();
+
+      for (const intent of await storage.getAllIntents()) {
+        if (isTerminal(intent.status) || isSnoozed(intent)) continue;
+        result.checked++;
+
+        if (this.completeIfDone(intent, lifecycle)) {
+          result.completed++;
+        } else if (autoTransitionIntent(intent, lifecycle)) {
+          if (intent.status === "dormant") result.dormant++;
+          else result.expired++;
+        } else {
+          continue;
+        }
+
+        await storage.saveIntent(intent);
+      }
+
+      console.log(
+        `IntentLifecycle: ✓ Checked ${result.checked} intents (${result.dormant} dormant, ${result.expired} expired, ${result.completed} completed)`
+      );
+    } finally {
+      this.isRunning = false;
+    }
+
+    return result;
+  }
+
+  private completeIfDone(
+    intent: Intent,
+    lifecycle: LifecycleSettings
+  ): boolean {
+    if (
+      intent.status !== "dormant" ||
+      intent.userFeedback.confirmed ||
+      intent.metadata?.importedOnly
+    ) {
+      return false;
+    }
+
+    const completion = detectDormancyCompletion(intent, lifecycle);
+    if (!completion.completed) return false;
+
+    transitionStatus(
+      intent,
+      "completed",
+      `Auto-completed: ${completion.reason}`,
+      {
+        confidence: completion.confidence,
+        evidence: completion.evidence,
+      }
+    );
+    return true;
+  }
+}
+
+// Global singleton
+export const intentLifecycle = new IntentLifecycle();
@@ -0,0 +1,277 @@
+import type { Intent } from "@/types/intent";
+import type { Nudge, NudgeStats, NudgeStatsBucket } from "@/types/nudge";
+import { storage } from "@/core/storage-manager";
+
+/**
+ * Nudge Feedback - Learns from how the user responds to nudges
+ *
+ * Every answered nudge (followed, snoozed, dismissed, or left pending until
+ * it expired) in the last 90 days counts toward acceptance rates per nudge
+ * type, trigger rule and intent category. The Nudge Generator uses them to:
+ * 1. Rank candidates: priority scaled by the nudge's acceptance rates
+ * 2. Suppress types the user keeps turning down (retried after two weeks
+ *    without a response, so a type can recover)
+ * 3. Tune the dormancy window of reminders: shorter when they are followed,
+ *    longer when they are not, and always before the intent would expire
+ *
+ * Rates are smoothed toward 50% so a handful of responses can't swing them.
+ */
+
+type Outcome = "followed" | "snoozed" | "dismissed" | "ignored";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WINDOW_DAYS = 90; // Responses older than this are forgotten
+const IGNORE_AFTER_DAYS = 3; // Pending this long without a response = ignored
+
+const PRIOR_RATE = 0.5;
+const PRIOR_WEIGHT = 3; // Responses' worth of the prior
+const SNOOZE_CREDIT = 0.3; // "Not now" is a weak yes
+
+const MIN_SUPPRESS_RESPONSES = 6;
+const SUPPRESS_BELOW = 0.2;
+const RETRY_AFTER_DAYS = 14;
+
+const BASE_DORMANT_DAYS = 7;
+const MIN_DORMANT_DAYS = 3;
+const MAX_DORMANT_DAYS = 21;
+
+const PRIORITY_WEIGHT: Record<Nudge["priority"], number> = {
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+// Intent labels start with one of these (see the label checks in ai-generator)
+const CATEGORY_VERBS = new Set([
+  "learning",
+  "exploring",
+  "finding",
+  "researching",
+  "shopping",
+  "comparing",
+  "investigating",
+  "understanding",
+  "discovering",
+  "planning",
+  "evaluating",
+  "studying",
+  "analyzing",
+]);
+
+/**
+ * What kind of research an intent is, from its label's leading verb
+ */
+export function intentCategory(intent: Intent): string {
+  const verb = intent.label.toLowerCase().split(/\s+/)[0];
+  return CATEGORY_VERBS.has(verb) ? verb : "other";
+}
+
+function outcomeOf(nudge: Nudge): Outcome | null {
+  switch (nudge.userResponse?.action) {
+    case "follow":
+    case "custom": // Opened from a notification
+      return "followed";
+    case "snooze":
+      return "snoozed";
+    case "discard":
+      return "dismissed";
+    case null:
+      return "ignored";
+    default:
+      // Answered before responses were recorded
+      if (nudge.status === "acted") return "followed";
+      if (nudge.status === "discarded") return "dismissed";
+      return null;
+  }
+}
+
+function respondedAt(nudge: Nudge): number {
+  return (
+    nudge.userResponse?.timestamp ||
+    nudge.timing.respondedAt ||
+    nudge.timing.createdAt
+  );
+}
+
+function emptyBucket(key: string): NudgeStatsBucket {
+  return {
+    key,
+    responded: 0,
+    followed: 0,
+    snoozed: 0,
+    dismissed: 0,
+    ignored: 0,
+    acceptanceRate: PRIOR_RATE,
+    suppressed: false,
+  };
+}
+
+class NudgeFeedback {
+  async getStats(): Promise<NudgeStats> {
+    const now = Date.now();
+    const since = now - WINDOW_DAYS * DAY_MS;
+
+    const overall = emptyBucket("all");
+    const byType = new Map<string, NudgeStatsBucket>();
+    const byRule = new Map<string, NudgeStatsBucket>();
+    const byCategory = new Map<string, NudgeStatsBucket>();
+
+    for (const nudge of await storage.getAllNudges()) {
+      const outcome = outcomeOf(nudge);
+      const at = respondedAt(nudge);
+      if (!outcome || at < since) continue;
+
+      const buckets = [
+        overall,
+        this.bucketFor(byType, nudge.type),
+        this.bucketFor(byRule, nudge.timing.triggerRule),
+        this.bucketFor(byCategory, nudge.category || "other"),
+      ];
+      for (const bucket of buckets) {
+        bucket.responded++;
+        bucket[outcome]++;
+        bucket.lastRespondedAt = Math.max(bucket.lastRespondedAt || 0, at);
+      }
+    }
+
+    const finish = (buckets: Map<string, NudgeStatsBucket>) =>
+      Array.from(buckets.values())
+        .map((bucket) => this.withRate(bucket))
+        .sort((a, b) => b.responded - a.responded);
+
+    const types = finish(byType).map((bucket) => ({
+      ...bucket,
+      suppressed:
+        bucket.responded >= MIN_SUPPRESS_RESPONSES &&
+        bucket.acceptanceRate < SUPPRESS_BELOW &&
+        (bucket.lastRespondedAt || 0) > now - RETRY_AFTER_DAYS * DAY_MS,
+    }));
+
+    const reminders = types.find((bucket) => bucket.key === "reminder");
+    const tunedDays = reminders
+      ? Math.min(
+          MAX_DORMANT_DAYS,
+          Math.max(
+            MIN_DORMANT_DAYS,
+            Math.round(
+              (BASE_DORMANT_DAYS * PRIOR_RATE) / reminders.acceptanceRate
+            )
+          )
+        )
+      : BASE_DORMANT_DAYS;
+
+    // A reminder after the lifecycle expired the intent would point at an
+    // archived intent, so remind at least a day before expiry
+    const { lifecycle } = await storage.getSettings();
+    const dormantAfterDays = Math.max(
+      1,
+      Math.min(tunedDays, lifecycle.expireAfterDays - 1)
+    );
+
+    return {
+      windowDays: WINDOW_DAYS,
+      overall: this.withRate(overall),
+      byType: types,
+      byRule: finish(byRule),
+      byCategory: finish(byCategory),
+      dormantAfterDays,
+      computedAt: now,
+    };
+  }
+
+  isSuppressed(type: Nudge["type"], stats: NudgeStats): boolean {
+    return !!stats.byType.find((bucket) => bucket.key === type)?.suppressed;
+  }
+
+  /**
+   * Ranking score: priority weight scaled by the average acceptance rate of
+   * the nudge's type, trigger rule and intent category (1x at 50%)
+   */
+  score(nudge: Nudge, stats: NudgeStats): number {
+    const rates = [
+      stats.byType.find((b) => b.key === nudge.type),
+      stats.byRule.find((b) => b.key === nudge.timing.triggerRule),
+      stats.byCategory.find((b) => b.key === (nudge.category || "other")),
+    ]
+      .filter((bucket): bucket is NudgeStatsBucket => !!bucket)
+      .map((bucket) => bucket.acceptanceRate);
+
+    const rate =
+      rates.length > 0
+        ? rates.reduce((sum, r) => sum + r, 0) / rates.length
+        : PRIOR_RATE;
+    return PRIORITY_WEIGHT[nudge.priority] * (rate / PRIOR_RATE);
+  }
+
+  /**
+   * Close nudges left pending too long; they count as ignored
+   */
+  async expireIgnored(): Promise<number> {
+    const cutoff = Date.now() - IGNORE_AFTER_DAYS * DAY_MS;
+    let expired = 0;
+
+    for (const nudge of await storage.getPendingNudges()) {
+      // Woken nudges get a full period from the end of their snooze
+      const since = Math.max(
+        nudge.timing.createdAt,
+        nudge.timing.snoozedUntil || 0
+      );
+      if (since > cutoff) continue;
+
+      nudge.status = "discarded";
+      nudge.userResponse = { action: null, timestamp: Date.now() };
+      await storage.saveNudge(nudge);
+      expired++;
+    }
+
+    if (expired > 0) {
+      console.log(`NudgeFeedback: Expired ${expired} ignored nudges`);
+    }
+    return expired;
+  }
+
+  /**
+   * Delete answered nudges that fell out of the feedback window
+   */
+  async pruneResolved(): Promise<number> {
+    const cutoff = Date.now() - WINDOW_DAYS * DAY_MS;
+    let pruned = 0;
+
+    for (const nudge of await storage.getAllNudges()) {
+      if (nudge.status !== "acted" && nudge.status !== "discarded") continue;
+      if (respondedAt(nudge) >= cutoff) continue;
+      await storage.deleteNudge(nudge.id);
+      pruned++;
+    }
+
+    if (pruned > 0) {
+      console.log(`NudgeFeedback: ✓ Pruned ${pruned} old nudges`);
+    }
+    return pruned;
+  }
+
+  private bucketFor(
+    buckets: Map<string, NudgeStatsBucket>,
+    key: string
+  ): NudgeStatsBucket {
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = emptyBucket(key);
+      buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private withRate(bucket: NudgeStatsBucket): NudgeStatsBucket {
+    const accepted = bucket.followed + SNOOZE_CREDIT * bucket.snoozed;
+    return {
+      ...bucket,
+      acceptanceRate:
+        (accepted + PRIOR_RATE * PRIOR_WEIGHT) /
+        (bucket.responded + PRIOR_WEIGHT),
+    };
+  }
+}
+
+// Global singleton
+export const nudgeFeedback = new NudgeFeedback();
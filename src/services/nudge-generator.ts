@@ -1,7 +1,11 @@
-import type { Intent } from "@/types/intent";
-import type { Nudge, SuggestedAction } from "@/types/nudge";
+import type { Intent, KnowledgeGap } from "@/types/intent";
+import type { Nudge, NudgeType, SuggestedAction } from "@/types/nudge";
+import type { PageData } from "@/types/page";
 import { storage } from "@/core/storage-manager";
+import { isTerminal } from "@/core/intent-state";
 import { aiPipeline } from "@/core/ai-pipeline";
+import { isQuietHour } from "./nudge-scheduler";
+import { intentCategory, nudgeFeedback } from "./nudge-feedback";
 
 function cleanAIJSON(response: string): string {
   const trimmed = response.trim();
@@ -13,93 +17,107 @@ function cleanAIJSON(response: string): string {
 }
 
 class NudgeGenerator {
-  private readonly MAX_NUDGES_PER_DAY = 3;
-
   async generateNudges(): Promise<Nudge[]> {
+    const { nudges: prefs, lifecycle } = await storage.getSettings();
     const intents = await storage.getAllIntents();
+
+    // Nudges nobody answered count as ignored and free their slot
+    await nudgeFeedback.expireIgnored();
     let existingNudges = await storage.getPendingNudges();
 
     await this.refreshExistingNudges(intents, existingNudges);
 
     existingNudges = await storage.getPendingNudges();
 
-    // Don't generate if already at limit
-    if (existingNudges.length >= this.MAX_NUDGES_PER_DAY) {
+    // Don't generate during quiet hours or if already at limit
+    const now = Date.now();
+    if (isQuietHour(prefs, now) || existingNudges.length >= prefs.maxPending) {
       return [];
     }
 
-    const newNudges: Nudge[] = [];
+    // Snoozed nudges come back later, so their rules don't fire again
+    const snoozedNudges = await storage.getNudgesByStatus("snoozed");
     const existingKeys = new Set(
-      existingNudges.map((nudge) =>
+      [...existingNudges, ...snoozedNudges].map((nudge) =>
         this.buildNudgeKey(nudge.intentId, nudge.type)
       )
     );
     const newKeys = new Set<string>();
+    const newNudges: Nudge[] = [];
+
+    // Acceptance rates from past responses (ranking, suppression, timing)
+    const stats = await nudgeFeedback.getStats();
+
+    // Per-type daily caps count every nudge created since midnight
+    const startOfDay = new Date(now).setHours(0, 0, 0, 0);
+    const createdToday = new Map<NudgeType, number>();
+    for (const nudge of await storage.getAllNudges()) {
+      if (nudge.timing.createdAt >= startOfDay) {
+        createdToday.set(nudge.type, (createdToday.get(nudge.type) || 0) + 1);
+      }
+    }
+
+    const allows = (type: NudgeType) =>
+      prefs.types[type].enabled &&
+      (createdToday.get(type) || 0) < prefs.types[type].maxPerDay &&
+      !nudgeFeedback.isSuppressed(type, stats);
+
+    const consider = (nudge: Nudge | null, intent: Intent) => {
+      if (!nudge || !allows(nudge.type)) return;
+      const key = this.buildNudgeKey(nudge.intentId, nudge.type);
+      if (existingKeys.has(key) || newKeys.has(key)) return;
+      nudge.category = intentCategory(intent);
+      newNudges.push(nudge);
+      newKeys.add(key);
+      createdToday.set(nudge.type, (createdToday.get(nudge.type) || 0) + 1);
+    };
 
     for (const intent of intents) {
-      // Skip discarded intents
-      if (intent.userFeedback.discarded) continue;
-
-      // Check each rule
-      const dormantNudge = await this.checkDormantIntent(intent);
-      if (dormantNudge) {
-        const key = this.buildNudgeKey(
-          dormantNudge.intentId,
-          dormantNudge.type
+      // Skip discarded and archived intents (completed, merged, expired)
+      if (intent.userFeedback.discarded || isTerminal(intent.status)) continue;
+
+      // Check each rule (disabled, capped or suppressed types skip their
+      // AI calls)
+      if (allows("reminder")) {
+        consider(
+          await this.checkDormantIntent(
+            intent,
+            stats.dormantAfterDays,
+            lifecycle.expireAfterDays
+          ),
+          intent
         );
-        if (!existingKeys.has(key) && !newKeys.has(key)) {
-          newNudges.push(dormantNudge);
-          newKeys.add(key);
-        }
       }
 
-      const mergeNudge = await this.checkMergeSuggestion(intent);
-      if (mergeNudge) {
-        const key = this.buildNudgeKey(mergeNudge.intentId, mergeNudge.type);
-        if (!existingKeys.has(key) && !newKeys.has(key)) {
-          newNudges.push(mergeNudge);
-          newKeys.add(key);
-        }
+      if (allows("merge_suggestion")) {
+        consider(await this.checkMergeSuggestion(intent), intent);
       }
 
       // NEW: Knowledge gap check (only for active intents with 3+ pages)
-      if (intent.status === "active" && intent.pageCount >= 3) {
-        const gapNudge = await this.checkKnowledgeGaps(intent);
-        if (gapNudge) {
-          const key = this.buildNudgeKey(gapNudge.intentId, gapNudge.type);
-          if (!existingKeys.has(key) && !newKeys.has(key)) {
-            newNudges.push(gapNudge);
-            newKeys.add(key);
-          }
-        }
+      if (
+        intent.status === "active" &&
+        intent.pageCount >= 3 &&
+        allows("knowledge_gap")
+      ) {
+        consider(await this.checkKnowledgeGaps(intent), intent);
       }
 
       // NEW: Milestone prediction (only for active intents with 5+ pages)
-      if (intent.status === "active" && intent.pageCount >= 5) {
-        const milestoneNudge = await this.checkMilestone(intent);
-        if (milestoneNudge) {
-          const key = this.buildNudgeKey(
-            milestoneNudge.intentId,
-            milestoneNudge.type
-          );
-          if (!existingKeys.has(key) && !newKeys.has(key)) {
-            newNudges.push(milestoneNudge);
-            newKeys.add(key);
-          }
-        }
+      if (
+        intent.status === "active" &&
+        intent.pageCount >= 5 &&
+        allows("milestone_next")
+      ) {
+        consider(await this.checkMilestone(intent), intent);
       }
     }
 
-    // Sort by priority and limit
-    const priorityOrder = { high: 3, medium: 2, low: 1 };
+    // Rank by priority and past acceptance, then limit
     newNudges.sort(
-      (a, b) => priorityOrder[b.priority] - priorityOrder[a.priority]
+      (a, b) => nudgeFeedback.score(b, stats) - nudgeFeedback.score(a, stats)
     );
 
-    const toSave = newNudges.slice(
-      0,
-      this.MAX_NUDGES_PER_DAY - existingNudges.length
-    );
+    const toSave = newNudges.slice(0, prefs.maxPending - existingNudges.length);
 
     for (const nudge of toSave) {
       await storage.saveNudge(nudge);
@@ -108,11 +126,19 @@ class NudgeGenerator {
     return toSave;
   }
 
-  private async checkDormantIntent(intent: Intent): Promise<Nudge | null> {
+  /**
+   * `dormantAfterDays` is tuned by how often reminders are followed (and
+   * kept below `expireAfterDays`); the last day before expiry is urgent
+   */
+  private async checkDormantIntent(
+    intent: Intent,
+    dormantAfterDays: number,
+    expireAfterDays: number
+  ): Promise<Nudge | null> {
     const daysSinceUpdate =
       (Date.now() - intent.lastUpdated) / (24 * 60 * 60 * 1000);
 
-    if (daysSinceUpdate < 7 || intent.status === "completed") {
+    if (daysSinceUpdate < dormantAfterDays || intent.status === "completed") {
       return null;
     }
 
@@ -134,7 +160,7 @@ class NudgeGenerator {
       id: `nudge-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       intentId: intent.id,
       type: "reminder",
-      priority: daysSinceUpdate > 14 ? "high" : "medium",
+      priority: daysSinceUpdate >= expireAfterDays - 1 ? "high" : "medium",
       status: "pending",
       message: {
         title: `Remember your ${intent.label}?`,
@@ -252,6 +278,11 @@ class NudgeGenerator {
   }
 
   private async checkKnowledgeGaps(intent: Intent): Promise<Nudge | null> {
+    // Prefer the AI analysis persisted by ai_analyze_knowledge_gaps
+    if (intent.knowledgeGaps && intent.knowledgeGaps.length > 0) {
+      return this.buildKnowledgeGapNudge(intent, intent.knowledgeGaps);
+    }
+
     try {
       // Import knowledge graph
       const { knowledgeGraph } = await import("../core/knowledge-graph");
@@ -316,92 +347,150 @@ class NudgeGenerator {
     }
   }
 
-  private async checkMilestone(intent: Intent): Promise<Nudge | null> {
-    try {
-      const pages = await storage.getPagesByIntent(intent.id);
+  private async buildKnowledgeGapNudge(
+    intent: Intent,
+    gaps: KnowledgeGap[]
+  ): Promise<Nudge | null> {
+    const topGap = [...gaps].sort((a, b) => b.confidence - a.confidence)[0];
+    if (topGap.confidence < 0.5) return null;
+
+    const evidencePages = (
+      await Promise.all(
+        topGap.evidencePageIds.slice(0, 2).map((id) => storage.getPage(id))
+      )
+    ).filter((page): page is PageData => page !== null);
 
-      await aiPipeline.initialize();
+    const evidence = [
+      topGap.reason,
+      ...evidencePages.map((page) => `Based on "${page.title}"`),
+    ];
 
-      const session = await aiPipeline.getSession();
+    const suggestedActions: SuggestedAction[] = topGap.suggestedSearches.map(
+      (query) => ({
+        label: `Search "${query}"`,
+        action: "search",
+        payload: { query },
+        confidence: topGap.confidence,
+        reasoning: topGap.reason,
+      })
+    );
 
-      const prompt = `Analyze this research journey and predict the next logical milestone.
+    if (gaps.length > 1) {
+      suggestedActions.push({
+        label: "Explore related topics",
+        action: "explore_topic",
+        payload: {
+          baseIntent: intent.id,
+          suggestedTopics: gaps.map((gap) => gap.topic),
+        },
+        confidence: 0.7,
+        reasoning: "Cover the remaining gaps together",
+      });
+    }
 
-INTENT: ${intent.label}
-PAGES VISITED: ${pages.length}
-DOMAINS: ${intent.aggregatedSignals.domains.join(", ")}
-TOP KEYWORDS: ${Object.keys(intent.aggregatedSignals.keywords)
-        .slice(0, 10)
-        .join(", ")}
-BROWSING STYLE: ${intent.aggregatedSignals.patterns.browsingStyle}
+    const nudge: Nudge = {
+      id: `nudge-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      intentId: intent.id,
+      type: "knowledge_gap",
+      priority: topGap.confidence >= 0.8 ? "high" : "medium",
+      status: "pending",
+      message: {
+        title: `Fill a gap in ${intent.label}`,
+        body: `${topGap.topic} looks like the missing piece. ${topGap.reason.replace(
+          /\.$/,
+          ""
+        )}.`,
+        context: {
+          reason: "Knowledge gap identified",
+          evidence,
+          confidence: topGap.confidence,
+        },
+      },
+      suggestedActions,
+      timing: {
+        createdAt: Date.now(),
+        triggerRule: "knowledge_gap_detection",
+      },
+    };
 
-COMMON RESEARCH PATTERNS:
-- Shopping: Research → Compare → Decide → Purchase
-- Learning: Overview → Tutorials → Practice → Advanced Topics
-- Planning: Explore → Compare Options → Detail Planning → Execution
+    return this.enhanceNudgeWithAI(intent, nudge, {
+      kind: "knowledge_gap",
+      topGap: topGap.topic,
+      gapType: topGap.type,
+      relatedTopics: gaps.map((gap) => gap.topic),
+    });
+  }
 
-Based on the pages and patterns, what is the likely NEXT STEP in this journey?
+  private async checkMilestone(intent: Intent): Promise<Nudge | null> {
+    // Progress is filled in by the ai_predict_milestone task
+    const progress = intent.progress;
+    if (!progress || progress.milestones.length === 0) return null;
 
-Return ONLY valid JSON:
-{
-  "nextMilestone": "Compare product options",
-  "confidence": 0.8,
-  "reasoning": "User has researched features, next typically compares specific products",
-  "suggestedAction": "Find comparison reviews or pricing"
-}`;
+    const milestones = progress.milestones;
+    const nextIndex = milestones.findIndex((m) => m.status !== "completed");
+    if (nextIndex === -1) return null; // Everything done - completion detector takes over
 
-      const response = await session.prompt(prompt);
+    const next = milestones[nextIndex];
+    const completed = milestones.filter((m) => m.status === "completed");
+    const lastCompleted = completed[completed.length - 1];
 
-      // Clean and parse response
-      const cleaned = response
-        .trim()
-        .replace(/^```(?:json)?\s*/i, "")
-        .replace(/\s*```\s*$/, "");
-      const jsonMatch = cleaned.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
-      const result = JSON.parse(jsonMatch ? jsonMatch[0] : cleaned);
+    // Only nudge once there is real progress behind the plan
+    if (completed.length === 0 && next.status === "not_started") return null;
 
-      if (result.confidence < 0.6) return null;
+    const confidence = Math.min(0.6 + completed.length * 0.1, 0.9);
 
-      const nudge: Nudge = {
-        id: `nudge-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        intentId: intent.id,
-        type: "milestone_next",
-        priority: result.confidence > 0.8 ? "high" : "medium",
-        status: "pending",
-        message: {
-          title: "Ready for the next step?",
-          body: `Looks like you're ${result.nextMilestone.toLowerCase()}. ${
-            result.suggestedAction
-          }?`,
-          context: {
-            reason: "Milestone prediction",
-            evidence: [result.reasoning],
-            confidence: result.confidence,
-          },
+    const evidence = [
+      `${completed.length} of ${milestones.length} milestones reached (${progress.completionEstimate}% complete)`,
+    ];
+    if (lastCompleted) {
+      evidence.push(
+        `Completed "${lastCompleted.step}"${
+          lastCompleted.evidence[0] ? ` via ${lastCompleted.evidence[0]}` : ""
+        }`
+      );
+    }
+    if (next.status === "in_progress" && next.evidence.length > 0) {
+      evidence.push(`Started "${next.step}" on ${next.evidence[0]}`);
+    }
+
+    const nudge: Nudge = {
+      id: `nudge-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      intentId: intent.id,
+      type: "milestone_next",
+      priority: progress.completionEstimate >= 50 ? "high" : "medium",
+      status: "pending",
+      message: {
+        title: "Ready for the next step?",
+        body: lastCompleted
+          ? `You've finished "${lastCompleted.step}". Next up: ${next.step}.`
+          : `You're working on "${next.step}" for ${intent.label}.`,
+        context: {
+          reason: "Milestone prediction",
+          evidence,
+          confidence,
         },
-        suggestedActions: [
-          {
-            label: result.suggestedAction,
-            action: "search",
-            payload: { query: `${intent.label} ${result.nextMilestone}` },
-            confidence: result.confidence,
-            reasoning: result.reasoning,
-          },
-        ],
-        timing: {
-          createdAt: Date.now(),
-          triggerRule: "milestone_prediction",
+      },
+      suggestedActions: [
+        {
+          label: next.step,
+          action: "search",
+          payload: { query: `${intent.label} ${next.step}` },
+          confidence,
+          reasoning: `Next milestone toward ${intent.goal || intent.label}`,
         },
-      };
-      return this.enhanceNudgeWithAI(intent, nudge, {
-        kind: "milestone_next",
-        prediction: result,
-        pageCount: pages.length,
-        domains: intent.aggregatedSignals.domains,
-      });
-    } catch (error) {
-      console.error("Failed to check milestone:", error);
-      return null;
-    }
+      ],
+      timing: {
+        createdAt: Date.now(),
+        triggerRule: "milestone_prediction",
+      },
+    };
+
+    return this.enhanceNudgeWithAI(intent, nudge, {
+      kind: "milestone_next",
+      nextMilestone: next.step,
+      completionEstimate: progress.completionEstimate,
+      milestones: milestones.map((m) => `${m.step} (${m.status})`),
+    });
   }
 
   private buildNudgeKey(intentId: string, type: Nudge["type"]): string {
@@ -429,6 +518,13 @@ Return ONLY valid JSON:
       const intent = intentMap.get(nudge.intentId);
       if (!intent) continue;
 
+      // Intent archived since; drop the nudge rather than let it expire as
+      // ignored and count against its type
+      if (isTerminal(intent.status)) {
+        await storage.deleteNudge(nudge.id);
+        continue;
+      }
+
       const titleContainsLabel = nudge.message.title.includes(intent.label);
       if (!titleContainsLabel) {
         const refreshed = await this.enhanceNudgeWithAI(intent, nudge, {
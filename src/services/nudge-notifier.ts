@@ -0,0 +1,293 @@
+import type {
+  Nudge,
+  NotificationLog,
+  SidePanelLink,
+  UserResponse,
+} from "@/types/nudge";
+import { storage } from "@/core/storage-manager";
+import { actionExecutor } from "./action-executor";
+import { isQuietHour, nudgeScheduler } from "./nudge-scheduler";
+
+/**
+ * Nudge Notifier - Desktop notifications for high-priority nudges
+ *
+ * Opt-in (settings.notifications). After each nudge generation run and
+ * snooze wake-up, pending
+ * high-priority nudges that were never shown (or were woken from snooze)
+ * are delivered, unless it is quiet hours or today's cap is reached (they
+ * wait for the next run).
+ *
+ * Chrome allows two buttons per notification:
+ * - the nudge's top suggested action (run through ActionExecutor), when it
+ *   has one
+ * - Snooze until later today
+ * Closing the notification dismisses the nudge; clicking its body opens the
+ * side panel on the nudge's intent. Every interaction is recorded in the
+ * nudge's userResponse.
+ *
+ * chrome.sidePanel.open only works while the click still counts as a user
+ * gesture, i.e. before anything is awaited. So the focused window is tracked
+ * ahead of time, and notifications whose action button shows the side panel
+ * (comparisons) say so in their ID instead of needing a storage read.
+ */
+
+// Suffix of notification IDs whose action button opens the side panel
+const OPENS_PANEL = "#panel";
+
+function notificationIdFor(nudge: Nudge): string {
+  return nudge.suggestedActions[0]?.action === "compare_options"
+    ? `${nudge.id}${OPENS_PANEL}`
+    : nudge.id;
+}
+
+function nudgeIdOf(notificationId: string): string {
+  return notificationId.endsWith(OPENS_PANEL)
+    ? notificationId.slice(0, -OPENS_PANEL.length)
+    : notificationId;
+}
+
+function localDay(time: number): string {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+class NudgeNotifier {
+  private pendingLink: SidePanelLink | null = null;
+  private focusedWindowId: number | null = null;
+
+  /**
+   * Listen for notification interactions. Called synchronously when the
+   * service worker starts, so a click can wake it.
+   */
+  listen(): void {
+    chrome.windows.onFocusChanged.addListener((windowId) => {
+      // Focus moves to no window while a notification is clicked
+      if (windowId !== chrome.windows.WINDOW_ID_NONE) {
+        this.focusedWindowId = windowId;
+      }
+    });
+    chrome.windows
+      .getLastFocused()
+      .then((window) => {
+        if (this.focusedWindowId === null && window.id !== undefined) {
+          this.focusedWindowId = window.id;
+        }
+      })
+      .catch(() => {
+        // No browser window open
+      });
+
+    chrome.notifications.onClicked.addListener((notificationId) => {
+      this.handleClick(notificationId);
+    });
+    chrome.notifications.onButtonClicked.addListener(
+      (notificationId, buttonIndex) => {
+        this.handleButton(notificationId, buttonIndex);
+      }
+    );
+    chrome.notifications.onClosed.addListener((notificationId, byUser) => {
+      if (byUser) this.handleClosed(notificationId);
+    });
+  }
+
+  /**
+   * Deliver pending high-priority nudges that were never shown
+   */
+  async deliver(): Promise<number> {
+    const { notifications: settings, nudges } = await storage.getSettings();
+    if (!settings.enabled) return 0;
+
+    const now = Date.now();
+    if (isQuietHour(nudges, now)) {
+      console.log("NudgeNotifier: Quiet hours, holding notifications");
+      return 0;
+    }
+
+    const today = localDay(now);
+    const log = await storage.getNotificationLog();
+    let delivered = log?.day === today ? log.delivered : 0;
+
+    const candidates = (await storage.getPendingNudges())
+      .filter(
+        (nudge) =>
+          nudge.priority === "high" &&
+          !nudge.timing.shownAt &&
+          (nudge.timing.snoozedUntil || 0) <= now
+      )
+      .sort((a, b) => a.timing.createdAt - b.timing.createdAt);
+
+    let sent = 0;
+    for (const nudge of candidates) {
+      if (delivered >= settings.maxPerDay) break;
+
+      try {
+        await this.show(nudge);
+      } catch (error) {
+        console.error("NudgeNotifier: Failed to show notification", error);
+        continue;
+      }
+
+      nudge.timing.shownAt = Date.now();
+      await storage.saveNudge(nudge);
+      delivered++;
+      sent++;
+    }
+
+    if (sent > 0) {
+      const updated: NotificationLog = { day: today, delivered };
+      await storage.saveNotificationLog(updated);
+      console.log(`NudgeNotifier: ✓ Delivered ${sent} notifications`);
+    }
+    return sent;
+  }
+
+  /**
+   * Hand the side panel the link of the last notification click (once)
+   */
+  takePendingLink(): SidePanelLink | null {
+    const link = this.pendingLink;
+    this.pendingLink = null;
+    return link;
+  }
+
+  private async show(nudge: Nudge): Promise<void> {
+    const intent = await storage.getIntent(nudge.intentId);
+    const topAction = nudge.suggestedActions[0];
+    const buttons = [
+      ...(topAction ? [{ title: topAction.label }] : []),
+      { title: "Snooze until later" },
+    ];
+
+    await chrome.notifications.create(notificationIdFor(nudge), {
+      type: "basic",
+      iconUrl: chrome.runtime.getURL("icons/icon128.png"),
+      title: nudge.message.title,
+      message: nudge.message.body,
+      contextMessage: intent
+        ? intent.userFeedback?.customLabel || intent.label
+        : undefined,
+      buttons,
+      priority: 2,
+    });
+  }
+
+  private async handleClick(notificationId: string): Promise<void> {
+    const opening = this.openSidePanel();
+    const nudge = await storage.getNudge(nudgeIdOf(notificationId));
+    chrome.notifications.clear(notificationId);
+    await opening;
+    if (!nudge) return;
+
+    this.linkSidePanel({ intentId: nudge.intentId });
+    await this.respond(nudge, {
+      action: "custom",
+      customAction: "opened_side_panel",
+      timestamp: Date.now(),
+    });
+  }
+
+  private async handleButton(
+    notificationId: string,
+    buttonIndex: number
+  ): Promise<void> {
+    // Shows the comparison
+    const opening =
+      buttonIndex === 0 && notificationId.endsWith(OPENS_PANEL)
+        ? this.openSidePanel()
+        : null;
+    const nudge = await storage.getNudge(nudgeIdOf(notificationId));
+    chrome.notifications.clear(notificationId);
+    if (!nudge) return;
+
+    const topAction = nudge.suggestedActions[0];
+    const isSnooze = !topAction || buttonIndex === 1;
+
+    if (isSnooze) {
+      await nudgeScheduler.snooze(nudge, "later_today");
+      this.broadcast(nudge.id);
+      return;
+    }
+
+    try {
+      const result = await actionExecutor.execute(topAction, nudge.intentId);
+      if (result.comparison) {
+        await opening;
+        this.linkSidePanel({
+          intentId: nudge.intentId,
+          comparison: result.comparison,
+        });
+      }
+    } catch (error) {
+      // Show the intent instead, the nudge stays pending there
+      console.error("NudgeNotifier: Action failed", error);
+      await (opening || this.openSidePanel());
+      this.linkSidePanel({ intentId: nudge.intentId });
+      return;
+    }
+
+    nudge.status = "acted";
+    await this.respond(nudge, { action: "follow", timestamp: Date.now() });
+  }
+
+  private async handleClosed(notificationId: string): Promise<void> {
+    const nudge = await storage.getNudge(nudgeIdOf(notificationId));
+    if (!nudge || nudge.status !== "pending") return;
+
+    nudge.status = "discarded";
+    await this.respond(nudge, { action: "discard", timestamp: Date.now() });
+  }
+
+  private async respond(nudge: Nudge, response: UserResponse): Promise<void> {
+    nudge.userResponse = response;
+    nudge.timing.respondedAt = response.timestamp;
+    await storage.saveNudge(nudge);
+    this.broadcast(nudge.id);
+  }
+
+  private broadcast(nudgeId: string): void {
+    try {
+      chrome.runtime.sendMessage({
+        type: "NUDGE_UPDATED",
+        nudgeId,
+        timestamp: Date.now(),
+      });
+    } catch (error) {
+      // Side panel closed
+    }
+  }
+
+  /**
+   * Open the side panel in the last focused window. Must be called before
+   * anything is awaited in a click handler, while the click still counts as
+   * a user gesture.
+   */
+  private async openSidePanel(): Promise<void> {
+    try {
+      if (this.focusedWindowId === null) {
+        throw new Error("No focused window");
+      }
+      await chrome.sidePanel.open({ windowId: this.focusedWindowId });
+    } catch (error) {
+      console.warn("NudgeNotifier: Could not open side panel", error);
+    }
+  }
+
+  /**
+   * Point the side panel at an intent. The panel takes the link with
+   * GET_SIDE_PANEL_LINK when it loads, or when told on SIDE_PANEL_LINK.
+   */
+  private linkSidePanel(link: SidePanelLink): void {
+    this.pendingLink = link;
+    try {
+      chrome.runtime.sendMessage({ type: "SIDE_PANEL_LINK" });
+    } catch (error) {
+      // Side panel still loading
+    }
+  }
+}
+
+// Global singleton
+export const nudgeNotifier = new NudgeNotifier();
@@ -0,0 +1,146 @@
+import type { Nudge } from "@/types/nudge";
+import type { NudgeSettings, SnoozePreset } from "@/types/settings";
+import { storage } from "@/core/storage-manager";
+
+/**
+ * Nudge Scheduler - Snoozes nudges and wakes them when the snooze ends
+ *
+ * Snooze presets resolve against the nudge preferences: "later today" is
+ * `laterTodayHours` from now, "tomorrow" and "next week" end at
+ * `morningHour`. The "wake-nudges" alarm is kept at the earliest
+ * `snoozedUntil`; when it fires, due nudges go back to pending (and may be
+ * notified again). Nudges that come due during quiet hours wait until the
+ * quiet hours end.
+ */
+
+export const WAKE_ALARM = "wake-nudges";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export function isQuietHour(settings: NudgeSettings, time: number): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = settings;
+  if (start === end) return false;
+
+  const hour = new Date(time).getHours();
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end; // Wraps past midnight
+}
+
+/**
+ * `time`, or the end of the quiet hours it falls in
+ */
+function outsideQuietHours(settings: NudgeSettings, time: number): number {
+  if (!isQuietHour(settings, time)) return time;
+
+  const end = new Date(time);
+  end.setHours(settings.quietHoursEnd, 0, 0, 0);
+  if (end.getTime() <= time) end.setDate(end.getDate() + 1);
+  return end.getTime();
+}
+
+function snoozeUntil(
+  preset: SnoozePreset,
+  settings: NudgeSettings,
+  now: number
+): number {
+  if (preset === "later_today") {
+    return now + settings.laterTodayHours * HOUR_MS;
+  }
+
+  const date = new Date(now);
+  date.setDate(date.getDate() + (preset === "tomorrow" ? 1 : 7));
+  date.setHours(settings.morningHour, 0, 0, 0);
+  return date.getTime();
+}
+
+class NudgeScheduler {
+  async snooze(nudge: Nudge, preset: SnoozePreset): Promise<Nudge> {
+    const { nudges: settings } = await storage.getSettings();
+    const now = Date.now();
+
+    nudge.status = "snoozed";
+    nudge.timing.snoozedUntil = snoozeUntil(preset, settings, now);
+    nudge.timing.respondedAt = now;
+    nudge.userResponse = {
+      action: "snooze",
+      customAction: preset,
+      timestamp: now,
+    };
+    await storage.saveNudge(nudge);
+    await this.scheduleWake();
+
+    console.log(
+      `NudgeScheduler: ✓ Snoozed ${nudge.id} until ${new Date(
+        nudge.timing.snoozedUntil
+      ).toLocaleString()}`
+    );
+    return nudge;
+  }
+
+  /**
+   * Move snoozed nudges whose snooze ended back to pending
+   */
+  async wakeDue(): Promise<number> {
+    const { nudges: settings } = await storage.getSettings();
+    const now = Date.now();
+    let woken = 0;
+
+    if (!isQuietHour(settings, now)) {
+      for (const nudge of await storage.getNudgesByStatus("snoozed")) {
+        if ((nudge.timing.snoozedUntil || 0) > now) continue;
+
+        // Intent deleted while the nudge was snoozed
+        if (!(await storage.getIntent(nudge.intentId))) {
+          await storage.deleteNudge(nudge.id);
+          continue;
+        }
+
+        nudge.status = "pending";
+        nudge.timing.shownAt = undefined; // Can be notified again
+        await storage.saveNudge(nudge);
+        woken++;
+      }
+    }
+
+    if (woken > 0) {
+      console.log(`NudgeScheduler: ✓ Woke ${woken} snoozed nudges`);
+      try {
+        chrome.runtime.sendMessage({
+          type: "NUDGE_UPDATED",
+          timestamp: Date.now(),
+        });
+      } catch (error) {
+        // Side panel closed
+      }
+    }
+
+    await this.scheduleWake();
+    return woken;
+  }
+
+  /**
+   * Set the wake alarm for the earliest snooze end (cleared when nothing
+   * is snoozed)
+   */
+  async scheduleWake(): Promise<void> {
+    const snoozed = await storage.getNudgesByStatus("snoozed");
+    if (snoozed.length === 0) {
+      await chrome.alarms.clear(WAKE_ALARM);
+      return;
+    }
+
+    const { nudges: settings } = await storage.getSettings();
+    const earliest = Math.min(
+      ...snoozed.map((nudge) => nudge.timing.snoozedUntil || 0)
+    );
+    const when = outsideQuietHours(
+      settings,
+      Math.max(earliest, Date.now() + 60 * 1000)
+    );
+    await chrome.alarms.create(WAKE_ALARM, { when });
+  }
+}
+
+// Global singleton
+export const nudgeScheduler = new NudgeScheduler();
@@ -0,0 +1,251 @@
+import type { Intent } from "@/types/intent";
+import type { PageData, RetentionTier } from "@/types/page";
+import type { RetentionSettings } from "@/types/settings";
+import type { RetentionReport } from "@/types/storage";
+import { storage, SECTION_EXCERPT_CHARS } from "@/core/storage-manager";
+import { processingQueue } from "@/core/processing-queue";
+import { stripToMetadata } from "@/core/capture-rules";
+import { isTerminal } from "@/core/intent-state";
+
+/**
+ * Retention - Keeps the pages store from growing without limit
+ *
+ * Runs in daily maintenance. Pages move down the tiers as they age
+ * (measured from the visit), never back up:
+ * 1. Full content → summary: text dropped once processed, AI summary,
+ *    features and a section outline kept
+ * 2. Summary → metadata: only URL, title, timings and intent assignments
+ * 3. Metadata → deleted
+ *
+ * Tiers also depend on the page's intent: pages of emerging/active/dormant
+ * intents stop at the summary tier, and pages of confirmed intents are never
+ * deleted. Finished intents are compacted to their archive form once they
+ * have been finished for `archiveIntentsAfterDays`.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FALLBACK_SUMMARY_CHARS = 500; // Pages that were never summarized
+const ARCHIVED_KEYWORDS = 20;
+
+const TIER_ORDER: (RetentionTier | "full" | "deleted")[] = [
+  "full",
+  "summary",
+  "metadata",
+  "deleted",
+];
+
+type TargetTier = (typeof TIER_ORDER)[number];
+
+function serializedSize(value: unknown): number {
+  return JSON.stringify(value).length;
+}
+
+/**
+ * Deepest tier a page may reach given its age and its intent
+ */
+function targetTier(
+  page: PageData,
+  intent: Intent | undefined,
+  settings: RetentionSettings,
+  now: number
+): TargetTier {
+  const ageDays = (now - page.timestamp) / DAY_MS;
+
+  let tier: TargetTier = "full";
+  if (ageDays >= settings.summaryAfterDays) tier = "summary";
+  if (ageDays >= settings.metadataAfterDays) tier = "metadata";
+  if (settings.deleteAfterDays > 0 && ageDays >= settings.deleteAfterDays) {
+    tier = "deleted";
+  }
+
+  // Research still in progress keeps what the AI tasks read
+  if (intent && !isTerminal(intent.status)) {
+    return tier === "full" ? "full" : "summary";
+  }
+  if (tier === "deleted" && intent?.userFeedback.confirmed) {
+    return "metadata";
+  }
+  return tier;
+}
+
+function toSummaryTier(page: PageData): PageData {
+  const fallback =
+    page.metadata.description ||
+    page.content?.substring(0, FALLBACK_SUMMARY_CHARS) ||
+    null;
+
+  return {
+    ...page,
+    content: null,
+    contentSummary: page.contentSummary || fallback,
+    contentSections: page.contentSections?.map((section) => ({
+      ...section,
+      text: section.text.substring(0, SECTION_EXCERPT_CHARS),
+    })),
+    retentionTier: "summary",
+  };
+}
+
+function toMetadataTier(page: PageData): PageData {
+  return {
+    ...stripToMetadata(page),
+    retentionTier: "metadata",
+  };
+}
+
+/**
+ * Archive form of a finished intent: label, goal, summary, insights and
+ * milestone outline stay; per-page history, the matching centroid and
+ * follow-up suggestions go
+ */
+function compactIntent(intent: Intent, now: number): Intent {
+  const keywords = Object.entries(intent.aggregatedSignals.keywords)
+    .sort(([, a], [, b]) => b.count - a.count)
+    .slice(0, ARCHIVED_KEYWORDS);
+
+  return {
+    ...intent,
+    aggregatedSignals: {
+      ...intent.aggregatedSignals,
+      keywords: Object.fromEntries(keywords),
+      centroid: undefined, // Finished intents aren't matched against
+    },
+    timeline: intent.timeline.filter((event) => event.event !== "page_added"),
+    progress: intent.progress && {
+      ...intent.progress,
+      milestones: intent.progress.milestones.map((milestone) => ({
+        ...milestone,
+        evidence: [],
+        evidencePageIds: undefined,
+      })),
+    },
+    nextSteps: undefined,
+    knowledgeGaps: undefined,
+    metadata: { ...intent.metadata, compactedAt: now },
+  };
+}
+
+class RetentionPolicy {
+  private isRunning = false;
+
+  async runRetention(): Promise<RetentionReport | null> {
+    const { retention } = await storage.getSettings();
+    if (!retention.enabled || this.isRunning) return null;
+    this.isRunning = true;
+
+    try {
+      const now = Date.now();
+      const previous = await storage.getRetentionReport();
+      const report: RetentionReport = {
+        ranAt: now,
+        pages: { summarized: 0, metadataOnly: 0, deleted: 0 },
+        intentsArchived: 0,
+        tasksRemoved: 0,
+        reclaimedBytes: 0,
+        totalReclaimedBytes: previous?.totalReclaimedBytes || 0,
+      };
+
+      const intents = await storage.getAllIntents();
+      const intentsById = new Map(intents.map((i) => [i.id, i]));
+
+      const compacted: PageData[] = [];
+      const stripped = new Set<string>();
+      const deleted = new Set<string>();
+
+      for (const page of await storage.getAllPages()) {
+        const owner = page.intentAssignments.primary?.intentId;
+        const target = targetTier(
+          page,
+          owner ? intentsById.get(owner) : undefined,
+          retention,
+          now
+        );
+        const current = page.retentionTier || "full";
+        if (TIER_ORDER.indexOf(target) <= TIER_ORDER.indexOf(current)) {
+          continue;
+        }
+
+        if (target === "deleted") {
+          deleted.add(page.id);
+          report.pages.deleted++;
+          report.reclaimedBytes += serializedSize(page);
+          continue;
+        }
+
+        let next: PageData;
+        if (target === "summary") {
+          // Unprocessed pages still need their text
+          if (!page.semanticFeatures) continue;
+          next = toSummaryTier(page);
+          report.pages.summarized++;
+        } else {
+          next = toMetadataTier(page);
+          stripped.add(page.id);
+          report.pages.metadataOnly++;
+        }
+
+        report.reclaimedBytes += serializedSize(page) - serializedSize(next);
+        compacted.push(next);
+      }
+
+      if (compacted.length > 0) {
+        await storage.replacePages(compacted);
+      }
+      if (deleted.size > 0) {
+        await storage.deletePages([...deleted]);
+      }
+
+      report.tasksRemoved =
+        (await processingQueue.removeTasksForPages(deleted)) +
+        (await processingQueue.removeTasksForPages(stripped, {
+          finishedOnly: true,
+        }));
+
+      for (const intent of intents) {
+        const touched = intent.pageIds.some((id) => deleted.has(id));
+        const archive = this.shouldArchive(intent, retention, now);
+        if (!touched && !archive) continue;
+
+        const before = serializedSize(intent);
+        let next = intent;
+        if (touched) {
+          next.pageIds = next.pageIds.filter((id) => !deleted.has(id));
+          next.pageCount = next.pageIds.length;
+        }
+        if (archive) {
+          next = compactIntent(next, now);
+          report.intentsArchived++;
+        }
+
+        report.reclaimedBytes += Math.max(0, before - serializedSize(next));
+        await storage.saveIntent(next);
+      }
+
+      report.totalReclaimedBytes += report.reclaimedBytes;
+      await storage.saveRetentionReport(report);
+
+      console.log(
+        `Retention: ✓ ${report.pages.summarized} pages summarized, ${report.pages.metadataOnly} reduced to metadata, ${report.pages.deleted} deleted, ${report.intentsArchived} intents archived (${(report.reclaimedBytes / 1024).toFixed(1)} KB reclaimed)`
+      );
+
+      return report;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  private shouldArchive(
+    intent: Intent,
+    retention: RetentionSettings,
+    now: number
+  ): boolean {
+    if (!isTerminal(intent.status)) return false;
+    if (intent.metadata?.compactedAt) return false;
+
+    const finishedAt = intent.metadata?.archivedAt || intent.lastUpdated;
+    return now - finishedAt >= retention.archiveIntentsAfterDays * DAY_MS;
+  }
+}
+
+// Global singleton
+export const retentionPolicy = new RetentionPolicy();
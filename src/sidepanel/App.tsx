@@ -3,6 +3,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import ReactMarkdown from "react-markdown";
 import { AppHeader } from "./components/app-header";
 import { NudgeCard } from "./components/nudge-card";
+import { MergeInbox } from "./components/merge-inbox";
 import { IntentCard } from "./components/intent-card";
 import { SettingsActions } from "./components/settings-actions";
 import { BackstageView } from "./views/backstage-view";
@@ -16,9 +17,11 @@ import { PageDetailView } from "./views/page-detail-view";
 import { TaskDetailView } from "./views/task-detail-view";
 import { IntentLibraryView } from "./views/intent-library-view";
 import { HistoryView } from "./views/history-view";
+import { ComparisonView } from "./views/comparison-view";
 import { useNudges } from "./hooks/use-nudges";
 import { useIntents } from "./hooks/use-intents";
 import type { Intent } from "@/types/intent";
+import type { Comparison, SidePanelLink, SuggestedAction } from "@/types/nudge";
 import type { QueuedTask } from "@/core/processing-queue";
 
 type View =
@@ -33,7 +36,8 @@ type View =
   | "developer-hub"
   | "scenario-runner"
   | "intent-library"
-  | "history";
+  | "history"
+  | "comparison";
 
 export default function App() {
   const [viewStack, setViewStack] = useState<View[]>(["main"]);
@@ -41,6 +45,7 @@ export default function App() {
   const [selectedIntent, setSelectedIntent] = useState<Intent | null>(null);
   const [selectedPageId, setSelectedPageId] = useState<string | null>(null);
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
   const [aiStatus, setAiStatus] = useState<{
     isAvailable: boolean;
     error: string | null;
@@ -48,7 +53,8 @@ export default function App() {
   const [queuedTasks, setQueuedTasks] = useState<QueuedTask[]>([]);
   const [activitySummary, setActivitySummary] = useState<string>("");
   const [loadingSummary, setLoadingSummary] = useState(false);
-  const { nudges, dismissNudge, snoozeNudge, followNudge } = useNudges();
+  const { nudges, notice, dismissNudge, snoozeNudge, followNudge } =
+    useNudges();
   const { intents } = useIntents();
 
   const cleanupAfterLeaving = (view: View) => {
@@ -62,6 +68,9 @@ export default function App() {
       case "task-detail":
         setSelectedTaskId(null);
         break;
+      case "comparison":
+        setComparison(null);
+        break;
       default:
         break;
     }
@@ -108,6 +117,31 @@ export default function App() {
     pushView("task-detail");
   };
 
+  const handleIntentClickFromId = async (intentId: string) => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_ALL_INTENTS",
+      });
+      const intent = response.intents?.find((i: Intent) => i.id === intentId);
+      if (intent) {
+        handleIntentClick(intent);
+      }
+    } catch (error) {
+      console.error("Failed to load intent:", error);
+    }
+  };
+
+  const handleFollowNudge = async (
+    nudgeId: string,
+    action: SuggestedAction | null
+  ) => {
+    const result = await followNudge(nudgeId, action);
+    if (result?.comparison) {
+      setComparison(result.comparison);
+      pushView("comparison");
+    }
+  };
+
   useEffect(() => {
     checkAIStatus();
     loadQueuedTasks();
@@ -117,6 +151,40 @@ export default function App() {
     return () => clearInterval(interval);
   }, []);
 
+  // Notification clicks: on load, and while the panel is already open
+  useEffect(() => {
+    openSidePanelLink();
+
+    const messageListener = (message: any) => {
+      if (message.type === "SIDE_PANEL_LINK") {
+        openSidePanelLink();
+      }
+    };
+    chrome.runtime.onMessage.addListener(messageListener);
+    return () => chrome.runtime.onMessage.removeListener(messageListener);
+  }, []);
+
+  const openSidePanelLink = async () => {
+    try {
+      if (!chrome.runtime?.id) return;
+
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_SIDE_PANEL_LINK",
+      });
+      const link: SidePanelLink | null = response?.link || null;
+      if (!link) return;
+
+      if (link.comparison) {
+        setComparison(link.comparison);
+        pushView("comparison");
+      } else {
+        await handleIntentClickFromId(link.intentId);
+      }
+    } catch (error) {
+      console.error("Failed to open side panel link:", error);
+    }
+  };
+
   useEffect(() => {
     if (currentView === "main") {
       loadActivitySummary();
@@ -269,20 +337,6 @@ export default function App() {
 
   // Render Task Queue View
   if (currentView === "task-queue") {
-    const handleIntentClickFromId = async (intentId: string) => {
-      try {
-        const response = await chrome.runtime.sendMessage({
-          type: "GET_ALL_INTENTS",
-        });
-        const intent = response.intents?.find((i: Intent) => i.id === intentId);
-        if (intent) {
-          handleIntentClick(intent);
-        }
-      } catch (error) {
-        console.error("Failed to load intent:", error);
-      }
-    };
-
     return (
       <TaskQueueView
         onBack={popView}
@@ -320,6 +374,11 @@ export default function App() {
     return <HistoryView onBack={popView} onPageClick={handlePageClick} />;
   }
 
+  // Render Comparison View
+  if (currentView === "comparison" && comparison) {
+    return <ComparisonView comparison={comparison} onBack={popView} />;
+  }
+
   // Render All Intents View (reuse intent list)
   if (currentView === "all-intents") {
     return (
@@ -358,9 +417,11 @@ export default function App() {
   if (currentView === "intent-detail" && selectedIntent) {
     return (
       <IntentDetailView
+        key={selectedIntent.id}
         intent={selectedIntent}
         onBack={popView}
         onPageClick={handlePageClick}
+        onIntentClick={setSelectedIntent}
       />
     );
   }
@@ -392,7 +453,12 @@ export default function App() {
             </div>
           </section>
 
+          <MergeInbox />
+
           <section>
+            {notice && (
+              <p className="mb-3 text-xs text-muted-foreground">{notice}</p>
+            )}
             {nudges.length > 0 ? (
               <div className="space-y-3">
                 {nudges.map((nudge) => (
@@ -400,8 +466,8 @@ export default function App() {
                     key={nudge.id}
                     nudge={nudge}
                     intentLabel={intentLabelById.get(nudge.intentId)}
-                    onFollow={(action) => followNudge(nudge.id, action)}
-                    onSnooze={() => snoozeNudge(nudge.id)}
+                    onFollow={(action) => handleFollowNudge(nudge.id, action)}
+                    onSnooze={(preset) => snoozeNudge(nudge.id, preset)}
                     onDismiss={() => dismissNudge(nudge.id)}
                   />
                 ))}
@@ -425,9 +491,23 @@ export default function App() {
                 ))}
               </div>
             ) : (
-              <p className="text-sm text-muted-foreground">
-                Nothing ready just yet—keep browsing and I’ll tee up the next moves.
-              </p>
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Nothing ready just yet—keep browsing and I’ll tee up the next moves.
+                </p>
+                <button
+                  type="button"
+                  className="w-full text-left rounded-xl border border-dashed border-muted-foreground/30 bg-background px-4 py-3 transition-colors hover:bg-muted"
+                  onClick={() => pushView("backstage")}
+                >
+                  <p className="text-sm font-semibold text-foreground">
+                    Start from your recent history
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Import the last few days of Chrome history from Backstage.
+                  </p>
+                </button>
+              </div>
             )}
           </section>
         </div>
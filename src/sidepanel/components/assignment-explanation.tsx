@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { MATCH_SIGNALS } from "@/types/matching";
+import type { AssignmentCandidate, MatchSignals } from "@/types/matching";
+import type { Intent } from "@/types/intent";
+import type { IntentAssignment } from "@/types/page";
+import { SIGNAL_LABELS } from "./matching-weights";
+
+const VERDICT_LABELS: Record<
+  NonNullable<IntentAssignment["verification"]>["action"],
+  string
+> = {
+  agree: "AI agreed",
+  merge: "AI suggested merging intents",
+  reassign: "AI moved it",
+  split: "AI split it into its own intent",
+};
+
+const percent = (value: number) => Math.round(value * 100);
+
+interface AssignmentExplanationProps {
+  assignment: IntentAssignment;
+  intents: Intent[];
+  onReassign: (intentId: string) => Promise<void>;
+}
+
+/**
+ * Why a page is in its intent: the signal breakdown it was matched on, the
+ * AI verification verdict and the next-best intents to move it to
+ */
+export function AssignmentExplanation({
+  assignment,
+  intents,
+  onReassign,
+}: AssignmentExplanationProps) {
+  const [movingTo, setMovingTo] = useState<string | null>(null);
+  const { signals, weights, runnersUp = [], verification } = assignment;
+
+  if (!signals && runnersUp.length === 0 && !verification) {
+    return null;
+  }
+
+  const intentsById = new Map(intents.map((intent) => [intent.id, intent]));
+  const labelOf = (candidate: AssignmentCandidate) => {
+    const intent = intentsById.get(candidate.intentId);
+    return intent
+      ? intent.userFeedback?.customLabel || intent.label
+      : candidate.label;
+  };
+  const canMoveTo = (intentId: string) => {
+    const intent = intentsById.get(intentId);
+    return (
+      !!intent && intent.status !== "merged" && intent.status !== "discarded"
+    );
+  };
+
+  const handleMove = async (intentId: string) => {
+    setMovingTo(intentId);
+    try {
+      await onReassign(intentId);
+    } finally {
+      setMovingTo(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3 pt-3 border-t">
+      <div className="text-xs font-medium text-muted-foreground">
+        Why this intent
+      </div>
+
+      {signals && <SignalBreakdown signals={signals} weights={weights} />}
+
+      {verification && (
+        <div className="text-xs space-y-1">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-xs">
+              {VERDICT_LABELS[verification.action]}
+            </Badge>
+            <span className="text-muted-foreground">
+              {percent(verification.confidence)}% ·{" "}
+              {new Date(verification.verifiedAt).toLocaleDateString()}
+            </span>
+          </div>
+          {verification.reasoning && (
+            <p className="text-muted-foreground">{verification.reasoning}</p>
+          )}
+        </div>
+      )}
+
+      {runnersUp.length > 0 && (
+        <div className="space-y-2">
+          <div className="text-xs text-muted-foreground">Also considered</div>
+          {runnersUp.map((candidate) => (
+            <div
+              key={candidate.intentId}
+              className="flex items-center justify-between gap-2 text-sm"
+            >
+              <span className="truncate">{labelOf(candidate)}</span>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="text-xs text-muted-foreground">
+                  {candidate.confidence}%
+                </span>
+                {canMoveTo(candidate.intentId) ? (
+                  <button
+                    className="px-2 py-1 text-xs border rounded hover:bg-muted transition-colors disabled:opacity-50"
+                    onClick={() => handleMove(candidate.intentId)}
+                    disabled={movingTo !== null}
+                  >
+                    {movingTo === candidate.intentId
+                      ? "Moving..."
+                      : "Move here"}
+                  </button>
+                ) : (
+                  <span className="text-xs text-muted-foreground">
+                    No longer active
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Each signal's score, with its share of the total when the weights are known
+ */
+function SignalBreakdown({
+  signals,
+  weights,
+}: {
+  signals: MatchSignals;
+  weights?: IntentAssignment["weights"];
+}) {
+  return (
+    <div className="space-y-1.5">
+      {MATCH_SIGNALS.map((signal) => (
+        <div key={signal} className="space-y-0.5">
+          <div className="flex justify-between text-xs">
+            <span>{SIGNAL_LABELS[signal]}</span>
+            <span className="text-muted-foreground">
+              {percent(signals[signal])}%
+              {weights &&
+                ` × ${percent(weights[signal])}% = ${percent(
+                  signals[signal] * weights[signal]
+                )}`}
+            </span>
+          </div>
+          <div className="h-1 rounded bg-muted">
+            <div
+              className="h-1 rounded bg-primary"
+              style={{ width: `${percent(signals[signal])}%` }}
+            />
+          </div>
+        </div>
+      ))}
+      {signals.query !== null && (
+        <div className="flex justify-between text-xs">
+          <span>Search query</span>
+          <span className="text-muted-foreground">
+            {percent(signals.query)}% (counts 20%)
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
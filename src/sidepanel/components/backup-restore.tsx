@@ -0,0 +1,218 @@
+import { useRef, useState } from "react";
+import { Upload } from "lucide-react";
+import {
+  EXPORT_BUNDLE_VERSION,
+  type ImportMode,
+  type ImportSummary,
+} from "@/types/storage";
+
+interface BackupRestoreProps {
+  onImported?: () => void;
+}
+
+const MODE_OPTIONS: { value: ImportMode; label: string; hint: string }[] = [
+  {
+    value: "merge",
+    label: "Merge",
+    hint: "Keep current data; skip pages you already have and combine intents with the same name",
+  },
+  {
+    value: "replace",
+    label: "Replace",
+    hint: "Delete current pages, intents and suggestions, then restore the backup",
+  },
+];
+
+function describeSummary(summary: ImportSummary): string[] {
+  const { pages, intents } = summary;
+  return [
+    `${pages.added} pages${
+      pages.duplicates > 0 ? ` (${pages.duplicates} already stored)` : ""
+    }`,
+    `${intents.added} new intents${
+      intents.combined > 0 ? `, ${intents.combined} combined with yours` : ""
+    }`,
+    `${summary.nudges} suggestions, ${summary.relationships} intent links`,
+    pages.remapped + intents.remapped > 0
+      ? `${pages.remapped + intents.remapped} conflicting IDs renamed`
+      : "",
+  ].filter(Boolean);
+}
+
+/**
+ * Restore an "Export All Data" file: pick, preview, then commit
+ */
+export function BackupRestore({ onImported }: BackupRestoreProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<{ name: string; data: string } | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [preview, setPreview] = useState<ImportSummary | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadPreview = async (data: string, importMode: ImportMode) => {
+    setIsWorking(true);
+    setMessage(null);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "PREVIEW_IMPORT",
+        data,
+        mode: importMode,
+      });
+      if (response.error) {
+        setPreview(null);
+        setMessage(response.error.replace(/^Error: /, ""));
+        return;
+      }
+      setPreview(response.preview);
+    } catch (error) {
+      console.error("Failed to preview import:", error);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = ""; // Allow picking the same file again
+    if (!picked) return;
+
+    const data = await picked.text();
+    setFile({ name: picked.name, data });
+    await loadPreview(data, mode);
+  };
+
+  const handleModeChange = async (importMode: ImportMode) => {
+    setMode(importMode);
+    if (file) await loadPreview(file.data, importMode);
+  };
+
+  const handleCancel = () => {
+    setFile(null);
+    setPreview(null);
+    setMessage(null);
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setIsWorking(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "IMPORT_DATA",
+        data: file.data,
+        mode,
+      });
+      if (response.error) {
+        setMessage(response.error.replace(/^Error: /, ""));
+        return;
+      }
+      setFile(null);
+      setPreview(null);
+      setMessage(`Imported: ${describeSummary(response.summary).join(" · ")}`);
+      onImported?.();
+    } catch (error) {
+      console.error("Failed to import data:", error);
+      setMessage("Import failed. Check console for details.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      {!file ? (
+        <button
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 border rounded hover:bg-muted transition-colors"
+          onClick={() => fileInput.current?.click()}
+          disabled={isWorking}
+        >
+          <Upload className="h-4 w-4" />
+          Import Backup
+        </button>
+      ) : (
+        <div className="space-y-3 rounded border p-3">
+          <p className="text-sm font-medium truncate">{file.name}</p>
+
+          <div className="grid grid-cols-2 gap-2">
+            {MODE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => handleModeChange(option.value)}
+                disabled={isWorking}
+                className={`text-xs px-2 py-1.5 rounded border transition-colors ${
+                  mode === option.value
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-background hover:bg-muted"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {MODE_OPTIONS.find((o) => o.value === mode)!.hint}
+          </p>
+
+          {preview && (
+            <div className="space-y-1 text-xs">
+              {preview.exportedAt && (
+                <p className="text-muted-foreground">
+                  Exported {new Date(preview.exportedAt).toLocaleString()}
+                  {preview.bundleVersion < EXPORT_BUNDLE_VERSION &&
+                    " · older format, will be upgraded"}
+                </p>
+              )}
+              {describeSummary(preview).map((line) => (
+                <p key={line}>{line}</p>
+              ))}
+              {preview.mode === "replace" && (
+                <p className="text-destructive">
+                  Deletes the {preview.removed.pages} pages and{" "}
+                  {preview.removed.intents} intents stored now
+                </p>
+              )}
+              {preview.warnings.map((warning) => (
+                <p key={warning} className="text-orange-600">
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              className="px-3 py-2 border rounded hover:bg-muted transition-colors"
+              onClick={handleCancel}
+              disabled={isWorking}
+            >
+              Cancel
+            </button>
+            <button
+              className={`px-3 py-2 border rounded transition-colors ${
+                mode === "replace"
+                  ? "bg-destructive text-destructive-foreground"
+                  : "hover:bg-muted"
+              }`}
+              onClick={handleImport}
+              disabled={isWorking || !preview}
+            >
+              {isWorking ? "Working..." : "Import"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className="text-xs text-muted-foreground text-center">{message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import type { SplitGroup, SplitProposal } from "@/types/intent";
+import type { PageData } from "@/types/page";
+
+const GROUP_COUNTS = [2, 3, 4];
+const LOW_SEPARATION = 0.1; // Below this the proposal is a weak guess
+
+interface IntentSplitPanelProps {
+  intentId: string;
+  pages: PageData[];
+  onSplit: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Proposed sub-groups of an intent's pages; pages can be moved between
+ * groups and new groups named before the split is made
+ */
+export function IntentSplitPanel({
+  intentId,
+  pages,
+  onSplit,
+  onCancel,
+}: IntentSplitPanelProps) {
+  const [groupCount, setGroupCount] = useState<number | undefined>();
+  const [separation, setSeparation] = useState<number | null>(null);
+  const [groups, setGroups] = useState<SplitGroup[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProposal = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "PROPOSE_INTENT_SPLIT",
+        intentId,
+        groupCount,
+      });
+      if (response.error) throw new Error(response.error);
+      const proposal: SplitProposal = response.proposal;
+      setGroups(proposal.groups);
+      setSeparation(proposal.separation);
+    } catch (error) {
+      console.error("Failed to propose split:", error);
+      setError(String(error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [intentId, groupCount]);
+
+  useEffect(() => {
+    loadProposal();
+  }, [loadProposal]);
+
+  const pagesById = new Map(pages.map((page) => [page.id, page]));
+  const movedCount = groups
+    .slice(1)
+    .filter((group) => group.pageIds.length > 0).length;
+  const canSplit =
+    movedCount > 0 && (groups[0]?.pageIds.length || 0) > 0 && !isSplitting;
+
+  const movePage = (pageId: string, to: number) => {
+    setGroups((current) =>
+      current.map((group, index) => ({
+        ...group,
+        pageIds:
+          index === to
+            ? [...group.pageIds.filter((id) => id !== pageId), pageId]
+            : group.pageIds.filter((id) => id !== pageId),
+      }))
+    );
+  };
+
+  const setLabel = (index: number, label: string) => {
+    setGroups((current) =>
+      current.map((group, i) => (i === index ? { ...group, label } : group))
+    );
+  };
+
+  const groupName = (group: SplitGroup, index: number) =>
+    index === 0
+      ? "Stays in this intent"
+      : group.label?.trim() || `New intent ${index}`;
+
+  const handleSplit = async () => {
+    setIsSplitting(true);
+    setError(null);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "SPLIT_INTENT",
+        intentId,
+        groups: groups.map(({ pageIds, label }) => ({ pageIds, label })),
+      });
+      if (response.error) throw new Error(response.error);
+      onSplit();
+    } catch (error) {
+      console.error("Failed to split intent:", error);
+      setError(String(error));
+    } finally {
+      setIsSplitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium">Split into narrower intents</h3>
+        <div className="flex gap-1">
+          {[undefined, ...GROUP_COUNTS]
+            .filter((count) => !count || count <= pages.length)
+            .map((count) => (
+              <button
+                key={count ?? "auto"}
+                className={`px-2 py-0.5 text-xs border rounded transition-colors ${
+                  groupCount === count ? "bg-muted" : "hover:bg-muted"
+                }`}
+                onClick={() => setGroupCount(count)}
+                disabled={isLoading}
+              >
+                {count ?? "Auto"}
+              </button>
+            ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Grouping pages...
+        </div>
+      ) : (
+        <>
+          {separation !== null && separation < LOW_SEPARATION && (
+            <p className="text-xs text-muted-foreground">
+              These pages don't separate cleanly. Check the groups before
+              splitting.
+            </p>
+          )}
+
+          {groups.map((group, index) => (
+            <div key={index} className="space-y-2">
+              {index === 0 ? (
+                <div className="text-xs font-medium text-muted-foreground">
+                  {groupName(group, 0)}
+                </div>
+              ) : (
+                <Input
+                  className="h-8 text-sm"
+                  placeholder={`New intent ${index} (AI names it if blank)`}
+                  value={group.label || ""}
+                  onChange={(e) => setLabel(index, e.target.value)}
+                />
+              )}
+              {group.concepts.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {group.concepts.map((concept) => (
+                    <Badge key={concept} variant="outline" className="text-xs">
+                      {concept}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {group.pageIds.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No pages</p>
+              ) : (
+                group.pageIds.map((pageId) => (
+                  <div
+                    key={pageId}
+                    className="flex items-center justify-between gap-2 text-sm"
+                  >
+                    <span className="truncate">
+                      {pagesById.get(pageId)?.title || pageId}
+                    </span>
+                    <select
+                      className="shrink-0 max-w-[40%] text-xs border rounded bg-background px-1 py-0.5"
+                      value={index}
+                      onChange={(e) => movePage(pageId, Number(e.target.value))}
+                    >
+                      {groups.map((option, i) => (
+                        <option key={i} value={i}>
+                          {groupName(option, i)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))
+              )}
+            </div>
+          ))}
+        </>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={handleSplit}
+          disabled={isLoading || !canSplit}
+        >
+          {isSplitting
+            ? "Splitting..."
+            : `Create ${movedCount} new intent${movedCount === 1 ? "" : "s"}`}
+        </Button>
+        <Button size="sm" variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
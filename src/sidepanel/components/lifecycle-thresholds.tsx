@@ -0,0 +1,171 @@
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import type { LifecycleSettings } from "@/types/settings";
+
+const FIELDS: {
+  key: keyof LifecycleSettings;
+  label: string;
+  hint: string;
+  unit: string;
+  min: number;
+  max: number;
+  scale?: number; // Stored value × scale = shown value
+}[] = [
+  {
+    key: "dormantAfterMinutes",
+    label: "Dormant after",
+    hint: "No new pages for this long",
+    unit: "min",
+    min: 5,
+    max: 1440,
+  },
+  {
+    key: "expireAfterDays",
+    label: "Expire after",
+    hint: "Dormant for this long",
+    unit: "days",
+    min: 1,
+    max: 365,
+  },
+  {
+    key: "completeAfterDays",
+    label: "Complete after",
+    hint: "Focused research left alone this long",
+    unit: "days",
+    min: 1,
+    max: 365,
+  },
+  {
+    key: "completeMinEngagement",
+    label: "Focused research",
+    hint: "Average engagement at or above",
+    unit: "%",
+    min: 10,
+    max: 100,
+    scale: 100,
+  },
+];
+
+/**
+ * Thresholds for automatic dormant/expired/completed transitions
+ */
+export function LifecycleThresholds() {
+  const [saved, setSaved] = useState<LifecycleSettings | null>(null);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_SETTINGS",
+      });
+      const lifecycle: LifecycleSettings = response.settings.lifecycle;
+      setSaved(lifecycle);
+      setDraft(
+        Object.fromEntries(
+          FIELDS.map((f) => [
+            f.key,
+            String(Math.round(lifecycle[f.key] * (f.scale || 1))),
+          ])
+        )
+      );
+    } catch (error) {
+      console.error("Failed to load lifecycle settings:", error);
+    }
+  };
+
+  if (!saved) {
+    return null;
+  }
+
+  const parsed = Object.fromEntries(
+    FIELDS.map((f) => {
+      const value = Number(draft[f.key]);
+      const valid = Number.isFinite(value) && value >= f.min && value <= f.max;
+      return [f.key, valid ? value / (f.scale || 1) : null];
+    })
+  ) as Record<keyof LifecycleSettings, number | null>;
+
+  const isValid = FIELDS.every((f) => parsed[f.key] !== null);
+  const isChanged = FIELDS.some((f) => parsed[f.key] !== saved[f.key]);
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setIsSaving(true);
+    try {
+      const lifecycle = parsed as LifecycleSettings;
+      await chrome.runtime.sendMessage({
+        type: "UPDATE_SETTINGS",
+        settings: { lifecycle },
+      });
+      setSaved(lifecycle);
+    } catch (error) {
+      console.error("Failed to save lifecycle settings:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Intent Lifecycle</CardTitle>
+        <CardDescription>
+          When idle intents go dormant, expire or count as completed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {FIELDS.map((field) => (
+          <div
+            key={field.key}
+            className="flex items-center justify-between gap-3"
+          >
+            <div>
+              <p className="text-sm">{field.label}</p>
+              <p className="text-xs text-muted-foreground">{field.hint}</p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Input
+                type="number"
+                className={`w-20 ${
+                  parsed[field.key] === null ? "border-destructive" : ""
+                }`}
+                min={field.min}
+                max={field.max}
+                value={draft[field.key]}
+                onChange={(e) =>
+                  setDraft({ ...draft, [field.key]: e.target.value })
+                }
+              />
+              <span className="w-8 text-xs text-muted-foreground">
+                {field.unit}
+              </span>
+            </div>
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          Snoozed intents are left alone; confirmed intents never expire or
+          complete on their own.
+        </p>
+        <button
+          className="w-full px-3 py-2 border rounded hover:bg-muted transition-colors disabled:opacity-50"
+          onClick={handleSave}
+          disabled={isSaving || !isValid || !isChanged}
+        >
+          {isSaving ? "Saving..." : "Save Thresholds"}
+        </button>
+      </CardContent>
+    </Card>
+  );
+}
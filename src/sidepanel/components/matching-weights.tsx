@@ -0,0 +1,190 @@
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { MATCH_SIGNALS } from "@/types/matching";
+import type {
+  MatchingModel,
+  MatchingModelState,
+  MatchSignal,
+} from "@/types/matching";
+
+export const SIGNAL_LABELS: Record<MatchSignal, string> = {
+  semantic: "Meaning",
+  keyword: "Keywords",
+  entity: "People & things",
+  temporal: "Recency",
+  domain: "Same site",
+  behavioral: "Engagement",
+};
+
+const HISTORY_SHOWN = 5;
+
+interface ModelInfo {
+  state: MatchingModelState;
+  defaults: MatchingModel;
+  corrections: number;
+  examples: number;
+  minExamples: number;
+}
+
+const percent = (value: number) => Math.round(value * 100);
+
+function formatDelta(value: number, baseline: number): string {
+  const delta = percent(value) - percent(baseline);
+  if (delta === 0) return "";
+  return delta > 0 ? `+${delta}` : `−${-delta}`;
+}
+
+function describeFit(model: MatchingModel): string {
+  const weights = MATCH_SIGNALS.map(
+    (signal) => `${SIGNAL_LABELS[signal]} ${percent(model.weights[signal])}%`
+  );
+  return `${model.trainedOn} examples · ${weights.join(", ")} · joins at ${percent(model.assignThreshold)}%`;
+}
+
+/**
+ * Weights for matching pages to intents, learned from corrections
+ */
+export function MatchingWeights() {
+  const [info, setInfo] = useState<ModelInfo | null>(null);
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const [isResetting, setIsResetting] = useState(false);
+
+  useEffect(() => {
+    loadModel();
+  }, []);
+
+  const loadModel = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_MATCHING_MODEL",
+      });
+      if (response.state) setInfo(response);
+    } catch (error) {
+      console.error("Failed to load matching weights:", error);
+    }
+  };
+
+  if (!info) {
+    return null;
+  }
+
+  const { state, defaults } = info;
+  const model = state.current || defaults;
+  const history = state.history.slice(-HISTORY_SHOWN).reverse();
+
+  const handleReset = async () => {
+    if (!showResetConfirm) {
+      setShowResetConfirm(true);
+      return;
+    }
+
+    setIsResetting(true);
+    try {
+      await chrome.runtime.sendMessage({ type: "RESET_MATCHING_MODEL" });
+      await loadModel();
+    } catch (error) {
+      console.error("Failed to reset matching weights:", error);
+    } finally {
+      setIsResetting(false);
+      setShowResetConfirm(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Matching Weights</CardTitle>
+        <CardDescription>
+          How much each signal counts when a page joins an intent
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-xs text-muted-foreground">
+          {state.current
+            ? `Learned from ${state.current.trainedOn} examples on ${new Date(
+                state.current.fittedAt
+              ).toLocaleDateString()}`
+            : `Using default weights · ${Math.min(info.examples, info.minExamples)} of ${info.minExamples} examples needed to learn`}
+          {info.corrections > 0 &&
+            ` · ${info.corrections} correction${
+              info.corrections === 1 ? "" : "s"
+            } logged`}
+        </p>
+
+        <div className="space-y-2">
+          {MATCH_SIGNALS.map((signal) => (
+            <div key={signal} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span>{SIGNAL_LABELS[signal]}</span>
+                <span className="text-muted-foreground">
+                  {percent(model.weights[signal])}%{" "}
+                  <span className="text-xs">
+                    {formatDelta(
+                      model.weights[signal],
+                      defaults.weights[signal]
+                    )}
+                  </span>
+                </span>
+              </div>
+              <div className="h-1.5 rounded bg-muted">
+                <div
+                  className="h-1.5 rounded bg-primary"
+                  style={{ width: `${percent(model.weights[signal])}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-between text-sm">
+          <span className="text-muted-foreground">Joins an intent at</span>
+          <span>
+            {percent(model.assignThreshold)}%{" "}
+            <span className="text-xs text-muted-foreground">
+              (default {percent(defaults.assignThreshold)}%)
+            </span>
+          </span>
+        </div>
+
+        {history.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">
+              Recent changes
+            </p>
+            {history.map((entry) => (
+              <div
+                key={`${entry.event}-${entry.fittedAt}`}
+                className="text-xs text-muted-foreground"
+              >
+                <span className="text-foreground">
+                  {new Date(entry.fittedAt).toLocaleDateString()}
+                </span>{" "}
+                {entry.event === "reset"
+                  ? "Reset to defaults"
+                  : describeFit(entry)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          className="w-full px-3 py-2 border rounded hover:bg-muted transition-colors disabled:opacity-50"
+          onClick={handleReset}
+          disabled={isResetting || (!state.current && info.corrections === 0)}
+        >
+          {isResetting
+            ? "Resetting..."
+            : showResetConfirm
+              ? "Confirm: forget corrections and use defaults"
+              : "Reset to Defaults"}
+        </button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { GitMerge } from "lucide-react";
+import type { MergeProposal } from "@/types/merge";
+import { useRealtimeUpdates } from "../hooks/use-realtime-updates";
+
+function TermList({ label, terms }: { label: string; terms: string[] }) {
+  if (terms.length === 0) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <div className="flex flex-wrap gap-1">
+        {terms.map((term) => (
+          <Badge key={term} variant="outline" className="text-xs">
+            {term}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ProposalCard({
+  proposal,
+  isBusy,
+  onAccept,
+  onReject,
+}: {
+  proposal: MergeProposal;
+  isBusy: boolean;
+  onAccept: () => void;
+  onReject: () => void;
+}) {
+  const [showPreview, setShowPreview] = useState(false);
+  const { preview } = proposal;
+
+  return (
+    <Card>
+      <CardHeader className="space-y-2">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Badge variant="secondary" className="uppercase tracking-wide">
+            merge
+          </Badge>
+          <span>{Math.round(proposal.confidence * 100)}% confident</span>
+        </div>
+        <CardTitle className="text-base">
+          Merge "{proposal.sourceLabel}" into "{proposal.targetLabel}"?
+        </CardTitle>
+        <CardDescription>{proposal.reasoning}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <button
+          className="text-xs text-muted-foreground underline"
+          onClick={() => setShowPreview(!showPreview)}
+        >
+          {showPreview ? "Hide preview" : "Preview the merged intent"}
+        </button>
+
+        {showPreview && (
+          <div className="space-y-3 rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">
+              "{preview.label}" with {preview.pageCount} pages,{" "}
+              {new Date(preview.firstSeen).toLocaleDateString()} to{" "}
+              {new Date(preview.lastUpdated).toLocaleDateString()}. The label
+              may be regenerated after merging.
+            </p>
+            {preview.sourcePages.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">
+                  Pages moving over
+                </p>
+                {preview.sourcePages.map((page) => (
+                  <p key={page.id} className="text-sm truncate">
+                    {page.title}{" "}
+                    <span className="text-xs text-muted-foreground">
+                      {page.domain}
+                    </span>
+                  </p>
+                ))}
+              </div>
+            )}
+            <TermList label="Shared concepts" terms={preview.sharedConcepts} />
+            <TermList label="New concepts" terms={preview.conceptsAdded} />
+            <TermList label="New domains" terms={preview.domainsAdded} />
+            <TermList label="New entities" terms={preview.entitiesAdded} />
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button size="sm" onClick={onAccept} disabled={isBusy}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            Merge
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onReject}
+            disabled={isBusy}
+          >
+            Keep separate
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * AI-proposed merges below the auto-apply threshold, waiting for a decision
+ */
+export function MergeInbox() {
+  const [proposals, setProposals] = useState<MergeProposal[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProposals = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_MERGE_PROPOSALS",
+      });
+      setProposals(response?.proposals || []);
+    } catch (error) {
+      console.error("Failed to load merge proposals:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProposals();
+  }, [loadProposals]);
+
+  useRealtimeUpdates(loadProposals);
+
+  const resolve = async (
+    proposalId: string,
+    type: "ACCEPT_MERGE_PROPOSAL" | "REJECT_MERGE_PROPOSAL"
+  ) => {
+    setBusyId(proposalId);
+    setError(null);
+    try {
+      const response = await chrome.runtime.sendMessage({ type, proposalId });
+      if (response.error) throw new Error(response.error);
+    } catch (error) {
+      console.error("Failed to resolve merge proposal:", error);
+      setError(String(error));
+    } finally {
+      setBusyId(null);
+      await loadProposals();
+    }
+  };
+
+  if (proposals.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-3">
+      <div>
+        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+          Merges to review ({proposals.length})
+        </p>
+        {proposals[0] && (
+          <p className="text-sm text-muted-foreground">
+            Merges at {Math.round(proposals[0].autoApplyThreshold * 100)}%
+            confidence or more are applied automatically.
+          </p>
+        )}
+      </div>
+      {proposals.map((proposal) => (
+        <ProposalCard
+          key={proposal.id}
+          proposal={proposal}
+          isBusy={busyId !== null}
+          onAccept={() => resolve(proposal.id, "ACCEPT_MERGE_PROPOSAL")}
+          onReject={() => resolve(proposal.id, "REJECT_MERGE_PROPOSAL")}
+        />
+      ))}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,110 @@
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import type { MergeSettings } from "@/types/settings";
+
+const MIN_PERCENT = 0; // Merge every suggestion without asking
+const MAX_PERCENT = 100; // Review every merge
+
+/**
+ * Confidence at which AI-proposed merges skip the review inbox
+ */
+export function MergeReviewSettings() {
+  const [saved, setSaved] = useState<MergeSettings | null>(null);
+  const [draft, setDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_SETTINGS",
+      });
+      const merging: MergeSettings = response.settings.merging;
+      setSaved(merging);
+      setDraft(String(Math.round(merging.autoApplyThreshold * 100)));
+    } catch (error) {
+      console.error("Failed to load merge settings:", error);
+    }
+  };
+
+  if (!saved) {
+    return null;
+  }
+
+  const percent = Number(draft);
+  const isValid =
+    Number.isFinite(percent) &&
+    percent >= MIN_PERCENT &&
+    percent <= MAX_PERCENT;
+  const isChanged = isValid && percent / 100 !== saved.autoApplyThreshold;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setIsSaving(true);
+    try {
+      const merging: MergeSettings = { autoApplyThreshold: percent / 100 };
+      await chrome.runtime.sendMessage({
+        type: "UPDATE_SETTINGS",
+        settings: { merging },
+      });
+      setSaved(merging);
+    } catch (error) {
+      console.error("Failed to save merge settings:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Merge Review</CardTitle>
+        <CardDescription>
+          When intents the AI finds related are merged without asking
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm">Merge automatically at</p>
+            <p className="text-xs text-muted-foreground">
+              AI confidence; below this, merges wait for review
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <Input
+              type="number"
+              className={`w-20 ${isValid ? "" : "border-destructive"}`}
+              min={MIN_PERCENT}
+              max={MAX_PERCENT}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+            />
+            <span className="w-8 text-xs text-muted-foreground">%</span>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Set 100% to review every merge. Pairs you keep separate are not
+          suggested again.
+        </p>
+        <button
+          className="w-full px-3 py-2 border rounded hover:bg-muted transition-colors disabled:opacity-50"
+          onClick={handleSave}
+          disabled={isSaving || !isChanged}
+        >
+          {isSaving ? "Saving..." : "Save Threshold"}
+        </button>
+      </CardContent>
+    </Card>
+  );
+}
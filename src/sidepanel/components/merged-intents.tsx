@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { GitMerge } from "lucide-react";
+import type { Intent, MergedSource } from "@/types/intent";
+
+interface MergedIntentsProps {
+  intent: Intent;
+  onUnmerged: () => void;
+}
+
+/**
+ * Intents merged into this one, each with an undo; a merged intent gets an
+ * undo for its own merge instead
+ */
+export function MergedIntents({ intent, onUnmerged }: MergedIntentsProps) {
+  const [sources, setSources] = useState<MergedSource[]>([]);
+  const [confirmId, setConfirmId] = useState<string | null>(null);
+  const [unmergingId, setUnmergingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isMerged = intent.status === "merged";
+  const mergedFromCount = intent.metadata?.mergedFrom?.length || 0;
+
+  const loadSources = useCallback(async () => {
+    if (isMerged || mergedFromCount === 0) {
+      setSources([]);
+      return;
+    }
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_MERGED_SOURCES",
+        intentId: intent.id,
+      });
+      setSources(response.sources || []);
+    } catch (error) {
+      console.error("Failed to load merged intents:", error);
+    }
+  }, [intent.id, isMerged, mergedFromCount]);
+
+  useEffect(() => {
+    loadSources();
+  }, [loadSources]);
+
+  const handleUnmerge = async (sourceId: string) => {
+    if (confirmId !== sourceId) {
+      setConfirmId(sourceId);
+      return;
+    }
+
+    setUnmergingId(sourceId);
+    setError(null);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "UNMERGE_INTENT",
+        intentId: sourceId,
+      });
+      if (response.error) throw new Error(response.error);
+      onUnmerged();
+      await loadSources();
+    } catch (error) {
+      console.error("Failed to unmerge intent:", error);
+      setError(String(error));
+    } finally {
+      setUnmergingId(null);
+      setConfirmId(null);
+    }
+  };
+
+  const unmergeLabel = (sourceId: string, idle: string) =>
+    unmergingId === sourceId
+      ? "Unmerging..."
+      : confirmId === sourceId
+        ? "Confirm: move its pages back"
+        : idle;
+
+  if (isMerged) {
+    return (
+      <section>
+        <h2 className="text-sm font-semibold mb-3">Merged</h2>
+        <p className="text-xs text-muted-foreground mb-2">
+          Merged{" "}
+          {intent.metadata?.mergedAt &&
+            `on ${new Date(intent.metadata.mergedAt).toLocaleDateString()} `}
+          into another intent. Undoing the merge restores this intent and moves
+          its pages back.
+        </p>
+        <Button
+          variant="outline"
+          className="w-full justify-start"
+          onClick={() => handleUnmerge(intent.id)}
+          disabled={unmergingId !== null}
+        >
+          <GitMerge className="h-4 w-4 mr-2" />
+          {unmergeLabel(intent.id, "Undo Merge")}
+        </Button>
+        {error && <p className="text-xs text-destructive mt-2">{error}</p>}
+      </section>
+    );
+  }
+
+  if (sources.length === 0) {
+    return null;
+  }
+
+  return (
+    <section>
+      <h2 className="text-sm font-semibold mb-3">
+        Merged Intents ({sources.length})
+      </h2>
+      <div className="space-y-2">
+        {sources.map((source) => (
+          <div
+            key={source.intentId}
+            className="flex items-center justify-between gap-2 rounded-lg border p-3"
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-medium truncate">{source.label}</div>
+              <div className="text-xs text-muted-foreground">
+                {source.pageCount} page{source.pageCount === 1 ? "" : "s"}
+                {source.mergedAt &&
+                  ` · merged ${new Date(source.mergedAt).toLocaleDateString()}`}
+                {source.blockedReason &&
+                  ` · can't unmerge: ${source.blockedReason}`}
+              </div>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              className="shrink-0"
+              onClick={() => handleUnmerge(source.intentId)}
+              disabled={
+                !!source.blockedReason ||
+                source.pageCount === 0 ||
+                unmergingId !== null
+              }
+            >
+              {unmergeLabel(source.intentId, "Unmerge")}
+            </Button>
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-xs text-destructive mt-2">{error}</p>}
+    </section>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import type { NotificationSettings as NotificationSettingsValue } from "@/types/settings";
+
+const MIN_PER_DAY = 1;
+const MAX_PER_DAY = 10;
+
+/**
+ * Opt-in desktop notifications for high-priority suggestions
+ */
+export function NotificationSettings() {
+  const [saved, setSaved] = useState<NotificationSettingsValue | null>(null);
+  const [draft, setDraft] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_SETTINGS",
+      });
+      const notifications: NotificationSettingsValue =
+        response.settings.notifications;
+      setSaved(notifications);
+      setDraft(String(notifications.maxPerDay));
+    } catch (error) {
+      console.error("Failed to load notification settings:", error);
+    }
+  };
+
+  if (!saved) {
+    return null;
+  }
+
+  const maxPerDay = Number(draft);
+  const isValid =
+    Number.isInteger(maxPerDay) &&
+    maxPerDay >= MIN_PER_DAY &&
+    maxPerDay <= MAX_PER_DAY;
+  const isChanged = isValid && maxPerDay !== saved.maxPerDay;
+
+  const saveNotifications = async (
+    notifications: NotificationSettingsValue
+  ) => {
+    setIsSaving(true);
+    try {
+      await chrome.runtime.sendMessage({
+        type: "UPDATE_SETTINGS",
+        settings: { notifications },
+      });
+      setSaved(notifications);
+    } catch (error) {
+      console.error("Failed to save notification settings:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Desktop Notifications</CardTitle>
+        <CardDescription>
+          High-priority suggestions, even when the side panel is closed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm">Notify me</p>
+            <p className="text-xs text-muted-foreground">
+              Act, snooze or dismiss right from the notification
+            </p>
+          </div>
+          <Switch
+            checked={saved.enabled}
+            disabled={isSaving}
+            onCheckedChange={(enabled) =>
+              saveNotifications({ ...saved, enabled })
+            }
+          />
+        </div>
+
+        {saved.enabled && (
+          <>
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-sm">At most</p>
+                <p className="text-xs text-muted-foreground">
+                  Notifications per day
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Input
+                  type="number"
+                  className={`w-20 ${isValid ? "" : "border-destructive"}`}
+                  min={MIN_PER_DAY}
+                  max={MAX_PER_DAY}
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                />
+                <span className="w-8 text-xs text-muted-foreground">/day</span>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Nothing is sent during quiet hours (set in Suggestion
+              Preferences). Held-back suggestions stay in the side panel.
+            </p>
+            <button
+              className="w-full px-3 py-2 border rounded hover:bg-muted transition-colors disabled:opacity-50"
+              onClick={() => saveNotifications({ ...saved, maxPerDay })}
+              disabled={isSaving || !isChanged}
+            >
+              {isSaving ? "Saving..." : "Save Limit"}
+            </button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
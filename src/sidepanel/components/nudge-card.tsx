@@ -10,11 +10,18 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Clock, Info, Lightbulb } from "lucide-react";
 import type { Nudge, SuggestedAction } from "@/types/nudge";
+import type { SnoozePreset } from "@/types/settings";
+
+const SNOOZE_PRESETS: { preset: SnoozePreset; label: string }[] = [
+  { preset: "later_today", label: "Later today" },
+  { preset: "tomorrow", label: "Tomorrow" },
+  { preset: "next_week", label: "Next week" },
+];
 
 interface NudgeCardProps {
   nudge: Nudge;
-  onFollow: (action: any) => void;
-  onSnooze: () => void;
+  onFollow: (action: SuggestedAction | null) => void;
+  onSnooze: (preset: SnoozePreset) => void;
   onDismiss: () => void;
   intentLabel?: string;
 }
@@ -27,6 +34,7 @@ export function NudgeCard({
   intentLabel,
 }: NudgeCardProps) {
   const [showDetails, setShowDetails] = useState(false);
+  const [showSnooze, setShowSnooze] = useState(false);
 
   const primaryAction = useMemo<SuggestedAction | null>(() => {
     if (nudge.suggestedActions && nudge.suggestedActions.length > 0) {
@@ -133,9 +141,14 @@ export function NudgeCard({
             <Info className="h-3 w-3 mr-1" />
             {showDetails ? "Hide why" : "Explain this"}
           </Button>
-          <Button variant="ghost" size="sm" className="px-2" onClick={onSnooze}>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="px-2"
+            onClick={() => setShowSnooze((prev) => !prev)}
+          >
             <Clock className="h-3 w-3 mr-1" />
-            Snooze 1h
+            Snooze
           </Button>
           <Button
             variant="ghost"
@@ -147,6 +160,22 @@ export function NudgeCard({
           </Button>
         </div>
 
+        {showSnooze && (
+          <div className="flex flex-wrap gap-2">
+            {SNOOZE_PRESETS.map(({ preset, label }) => (
+              <Button
+                key={preset}
+                variant="outline"
+                size="sm"
+                className="text-xs"
+                onClick={() => onSnooze(preset)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        )}
+
         {showDetails && (
           <div className="rounded-lg border bg-muted/40 p-3 space-y-2">
             <p className="text-xs font-medium text-foreground/80">
@@ -0,0 +1,259 @@
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { NUDGE_TYPE_LABELS, type NudgeType } from "@/types/nudge";
+import type { NudgeSettings, NudgeTypeSettings } from "@/types/settings";
+
+type FieldKey = Exclude<keyof NudgeSettings, "types">;
+
+const FIELDS: {
+  key: FieldKey;
+  label: string;
+  hint: string;
+  unit: string;
+  min: number;
+  max: number;
+}[] = [
+  {
+    key: "maxPending",
+    label: "Show at most",
+    hint: "Suggestions waiting at once",
+    unit: "",
+    min: 1,
+    max: 10,
+  },
+  {
+    key: "quietHoursStart",
+    label: "Quiet from",
+    hint: "Hour of the day (0-23)",
+    unit: "h",
+    min: 0,
+    max: 23,
+  },
+  {
+    key: "quietHoursEnd",
+    label: "Quiet until",
+    hint: "Same hour as above for no quiet hours",
+    unit: "h",
+    min: 0,
+    max: 23,
+  },
+  {
+    key: "laterTodayHours",
+    label: "Later today",
+    hint: "Snooze length",
+    unit: "h",
+    min: 1,
+    max: 12,
+  },
+  {
+    key: "morningHour",
+    label: "Mornings at",
+    hint: "When Tomorrow and Next week snoozes end",
+    unit: "h",
+    min: 0,
+    max: 23,
+  },
+];
+
+// Types the Nudge Generator creates
+const TYPES: NudgeType[] = [
+  "reminder",
+  "knowledge_gap",
+  "milestone_next",
+  "merge_suggestion",
+];
+
+const MAX_PER_TYPE = 10;
+
+/**
+ * Which suggestions Bryn makes, how many, and when
+ */
+export function NudgePreferences() {
+  const [saved, setSaved] = useState<NudgeSettings | null>(null);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [types, setTypes] = useState<Record<string, NudgeTypeSettings>>({});
+  const [typeCaps, setTypeCaps] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_SETTINGS",
+      });
+      const nudges: NudgeSettings = response.settings.nudges;
+      setSaved(nudges);
+      setDraft(
+        Object.fromEntries(FIELDS.map((f) => [f.key, String(nudges[f.key])]))
+      );
+      setTypes(nudges.types);
+      setTypeCaps(
+        Object.fromEntries(
+          TYPES.map((type) => [type, String(nudges.types[type].maxPerDay)])
+        )
+      );
+    } catch (error) {
+      console.error("Failed to load nudge preferences:", error);
+    }
+  };
+
+  if (!saved) {
+    return null;
+  }
+
+  const parsed = Object.fromEntries(
+    FIELDS.map((f) => {
+      const value = Number(draft[f.key]);
+      const valid = Number.isInteger(value) && value >= f.min && value <= f.max;
+      return [f.key, valid ? value : null];
+    })
+  ) as Record<FieldKey, number | null>;
+
+  const parsedCaps = Object.fromEntries(
+    TYPES.map((type) => {
+      const value = Number(typeCaps[type]);
+      const valid =
+        Number.isInteger(value) && value >= 1 && value <= MAX_PER_TYPE;
+      return [type, valid ? value : null];
+    })
+  ) as Record<string, number | null>;
+
+  const isValid =
+    FIELDS.every((f) => parsed[f.key] !== null) &&
+    TYPES.every((type) => parsedCaps[type] !== null);
+  const isChanged =
+    FIELDS.some((f) => parsed[f.key] !== saved[f.key]) ||
+    TYPES.some(
+      (type) =>
+        types[type].enabled !== saved.types[type].enabled ||
+        parsedCaps[type] !== saved.types[type].maxPerDay
+    );
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setIsSaving(true);
+    try {
+      const nudges: NudgeSettings = {
+        ...saved,
+        ...(parsed as Record<FieldKey, number>),
+        types: {
+          ...saved.types,
+          ...Object.fromEntries(
+            TYPES.map((type) => [
+              type,
+              { enabled: types[type].enabled, maxPerDay: parsedCaps[type]! },
+            ])
+          ),
+        },
+      };
+      await chrome.runtime.sendMessage({
+        type: "UPDATE_SETTINGS",
+        settings: { nudges },
+      });
+      setSaved(nudges);
+      setTypes(nudges.types);
+    } catch (error) {
+      console.error("Failed to save nudge preferences:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Suggestion Preferences</CardTitle>
+        <CardDescription>
+          Which suggestions appear, how many, and when
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {FIELDS.map((field) => (
+          <div
+            key={field.key}
+            className="flex items-center justify-between gap-3"
+          >
+            <div>
+              <p className="text-sm">{field.label}</p>
+              <p className="text-xs text-muted-foreground">{field.hint}</p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Input
+                type="number"
+                className={`w-20 ${
+                  parsed[field.key] === null ? "border-destructive" : ""
+                }`}
+                min={field.min}
+                max={field.max}
+                value={draft[field.key]}
+                onChange={(e) =>
+                  setDraft({ ...draft, [field.key]: e.target.value })
+                }
+              />
+              <span className="w-8 text-xs text-muted-foreground">
+                {field.unit}
+              </span>
+            </div>
+          </div>
+        ))}
+        <p className="text-xs text-muted-foreground">
+          No suggestions are made, woken from snooze or notified during quiet
+          hours.
+        </p>
+
+        <div className="space-y-2 border-t pt-3">
+          <p className="text-xs text-muted-foreground">Per day, by kind</p>
+          {TYPES.map((type) => (
+            <div key={type} className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={types[type].enabled}
+                  disabled={isSaving}
+                  onCheckedChange={(enabled) =>
+                    setTypes({ ...types, [type]: { ...types[type], enabled } })
+                  }
+                />
+                <p className="text-sm">{NUDGE_TYPE_LABELS[type]}</p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <Input
+                  type="number"
+                  className={`w-20 ${
+                    parsedCaps[type] === null ? "border-destructive" : ""
+                  }`}
+                  min={1}
+                  max={MAX_PER_TYPE}
+                  disabled={!types[type].enabled}
+                  value={typeCaps[type]}
+                  onChange={(e) =>
+                    setTypeCaps({ ...typeCaps, [type]: e.target.value })
+                  }
+                />
+                <span className="w-8 text-xs text-muted-foreground">/day</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <button
+          className="w-full px-3 py-2 border rounded hover:bg-muted transition-colors disabled:opacity-50"
+          onClick={handleSave}
+          disabled={isSaving || !isValid || !isChanged}
+        >
+          {isSaving ? "Saving..." : "Save Preferences"}
+        </button>
+      </CardContent>
+    </Card>
+  );
+}
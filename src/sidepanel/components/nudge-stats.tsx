@@ -0,0 +1,145 @@
+import { useState, useEffect, useCallback } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  NUDGE_TYPE_LABELS,
+  type NudgeStats as NudgeStatsValue,
+  type NudgeStatsBucket,
+  type NudgeType,
+} from "@/types/nudge";
+import { useRealtimeUpdates } from "../hooks/use-realtime-updates";
+
+const MAX_CATEGORIES = 5;
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function BucketRow({
+  label,
+  bucket,
+}: {
+  label: string;
+  bucket: NudgeStatsBucket;
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-3 text-sm">
+        <span className="truncate">{label}</span>
+        <span className="flex items-center gap-2 shrink-0">
+          {bucket.suppressed && (
+            <Badge variant="outline" className="text-xs">
+              Paused
+            </Badge>
+          )}
+          {percent(bucket.acceptanceRate)}
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {bucket.followed} followed · {bucket.snoozed} snoozed ·{" "}
+        {bucket.dismissed} dismissed · {bucket.ignored} ignored
+      </p>
+    </div>
+  );
+}
+
+/**
+ * How suggestions were answered, and what Bryn adapts from it
+ */
+export function NudgeStats() {
+  const [stats, setStats] = useState<NudgeStatsValue | null>(null);
+
+  const loadStats = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_NUDGE_STATS",
+      });
+      setStats(response?.stats || null);
+    } catch (error) {
+      console.error("Failed to load nudge stats:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  useRealtimeUpdates(loadStats);
+
+  if (!stats) {
+    return null;
+  }
+
+  const { overall } = stats;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Suggestion Feedback</CardTitle>
+        <CardDescription>
+          How you answered suggestions in the last {stats.windowDays} days
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {overall.responded === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No answers yet. Follow, snooze or dismiss suggestions and Bryn
+            learns which ones are worth showing.
+          </p>
+        ) : (
+          <>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Acceptance</span>
+              <span>
+                {percent(overall.acceptanceRate)} ({overall.followed} of{" "}
+                {overall.responded} followed)
+              </span>
+            </div>
+
+            <div className="space-y-2 border-t pt-3">
+              <p className="text-xs text-muted-foreground">By kind</p>
+              {stats.byType.map((bucket) => (
+                <BucketRow
+                  key={bucket.key}
+                  label={
+                    NUDGE_TYPE_LABELS[bucket.key as NudgeType] || bucket.key
+                  }
+                  bucket={bucket}
+                />
+              ))}
+            </div>
+
+            {stats.byCategory.length > 0 && (
+              <div className="space-y-2 border-t pt-3">
+                <p className="text-xs text-muted-foreground">
+                  By kind of research
+                </p>
+                {stats.byCategory.slice(0, MAX_CATEGORIES).map((bucket) => (
+                  <BucketRow
+                    key={bucket.key}
+                    label={
+                      bucket.key.charAt(0).toUpperCase() + bucket.key.slice(1)
+                    }
+                    bucket={bucket}
+                  />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Better-received suggestions are shown first, and kinds you keep
+          turning down are paused for two weeks. Reminders come after{" "}
+          {stats.dormantAfterDays} days without activity.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
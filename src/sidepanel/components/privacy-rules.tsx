@@ -0,0 +1,297 @@
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { ShieldOff, Trash2 } from "lucide-react";
+import type { CaptureRuleInput, PurgeResult } from "@/core/capture-rules";
+import type {
+  CaptureRule,
+  SensitiveCategory,
+  UserSettings,
+} from "@/types/settings";
+
+type CategoryInfo = { label: string; description: string };
+
+const RULE_TYPES: {
+  value: CaptureRule["type"];
+  label: string;
+  hint: string;
+}[] = [
+  {
+    value: "domain",
+    label: "Domain",
+    hint: "example.com (includes subdomains)",
+  },
+  { value: "glob", label: "URL glob", hint: "https://example.com/account/*" },
+  {
+    value: "regex",
+    label: "Regex",
+    hint: "^https://[^/]*\\.example\\.com/admin",
+  },
+];
+
+const MODE_LABELS: Record<CaptureRule["mode"], string> = {
+  ignore: "Ignore entirely",
+  metadata_only: "Metadata only",
+};
+
+function describePurge(purged: PurgeResult): string {
+  const parts = [
+    purged.pagesDeleted > 0 && `${purged.pagesDeleted} pages deleted`,
+    purged.pagesStripped > 0 && `${purged.pagesStripped} pages stripped`,
+    purged.intentsDeleted > 0 &&
+      `${purged.intentsDeleted} empty intents removed`,
+  ].filter(Boolean);
+  return parts.length > 0
+    ? `Purged: ${parts.join(", ")}`
+    : "No stored pages matched";
+}
+
+/**
+ * Privacy exclusions: built-in sensitive categories and the user's own rules
+ */
+export function PrivacyRules() {
+  const [settings, setSettings] = useState<UserSettings | null>(null);
+  const [categories, setCategories] = useState<Record<
+    SensitiveCategory,
+    CategoryInfo
+  > | null>(null);
+  const [draft, setDraft] = useState<CaptureRuleInput>({
+    type: "domain",
+    pattern: "",
+    mode: "ignore",
+  });
+  const [purgeExisting, setPurgeExisting] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+    loadCategories();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_SETTINGS",
+      });
+      setSettings(response.settings);
+    } catch (error) {
+      console.error("Failed to load capture rules:", error);
+    }
+  };
+
+  const loadCategories = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_SENSITIVE_CATEGORIES",
+      });
+      setCategories(response.categories);
+    } catch (error) {
+      console.error("Failed to load sensitive categories:", error);
+    }
+  };
+
+  const handleToggleCategory = async (
+    category: SensitiveCategory,
+    enabled: boolean
+  ) => {
+    setIsSaving(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "SET_SENSITIVE_CATEGORY",
+        category,
+        enabled,
+        purge: enabled && purgeExisting,
+      });
+      setMessage(response.purged ? describePurge(response.purged) : null);
+      await loadSettings();
+    } catch (error) {
+      console.error("Failed to update sensitive category:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddRule = async () => {
+    setIsSaving(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "ADD_CAPTURE_RULE",
+        rule: draft,
+        purge: purgeExisting,
+      });
+      if (response.error) {
+        setMessage(response.error.replace(/^Error: /, ""));
+        return;
+      }
+      setMessage(
+        response.purged ? describePurge(response.purged) : "Rule added"
+      );
+      setDraft({ ...draft, pattern: "" });
+      await loadSettings();
+    } catch (error) {
+      console.error("Failed to add capture rule:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveRule = async (ruleId: string) => {
+    try {
+      await chrome.runtime.sendMessage({
+        type: "REMOVE_CAPTURE_RULE",
+        ruleId,
+      });
+      await loadSettings();
+    } catch (error) {
+      console.error("Failed to remove capture rule:", error);
+    }
+  };
+
+  if (!settings || !categories) {
+    return null;
+  }
+
+  const ruleType = RULE_TYPES.find((t) => t.value === draft.type)!;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Capture Exclusions</CardTitle>
+        <CardDescription>
+          Sites Bryn never stores, or stores without any page text
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="space-y-3">
+          <p className="text-xs font-semibold text-muted-foreground">
+            Sensitive categories
+          </p>
+          {(Object.keys(categories) as SensitiveCategory[]).map((category) => (
+            <div
+              key={category}
+              className="flex items-center justify-between gap-3"
+            >
+              <div>
+                <p className="text-sm">{categories[category].label}</p>
+                <p className="text-xs text-muted-foreground">
+                  {categories[category].description}
+                </p>
+              </div>
+              <Switch
+                checked={settings.sensitiveCategories[category]}
+                disabled={isSaving}
+                onCheckedChange={(enabled) =>
+                  handleToggleCategory(category, enabled)
+                }
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-muted-foreground">
+            Your rules
+          </p>
+          {settings.captureRules.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              No custom rules yet.
+            </p>
+          ) : (
+            settings.captureRules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-2 text-sm"
+              >
+                <div className="min-w-0 flex items-center gap-2">
+                  <ShieldOff className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  <span className="truncate font-mono text-xs">
+                    {rule.pattern}
+                  </span>
+                  <Badge variant="secondary" className="shrink-0">
+                    {MODE_LABELS[rule.mode]}
+                  </Badge>
+                </div>
+                <button
+                  className="p-1 rounded hover:bg-muted transition-colors"
+                  onClick={() => handleRemoveRule(rule.id)}
+                  title="Remove rule"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            {RULE_TYPES.map((type) => (
+              <button
+                key={type.value}
+                onClick={() => setDraft({ ...draft, type: type.value })}
+                className={`text-xs px-2 py-1.5 rounded border transition-colors ${
+                  draft.type === type.value
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-background hover:bg-muted"
+                }`}
+              >
+                {type.label}
+              </button>
+            ))}
+          </div>
+          <Input
+            value={draft.pattern}
+            placeholder={ruleType.hint}
+            onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(MODE_LABELS) as CaptureRule["mode"][]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setDraft({ ...draft, mode })}
+                className={`text-xs px-2 py-1.5 rounded border transition-colors ${
+                  draft.mode === mode
+                    ? "bg-primary text-primary-foreground"
+                    : "bg-background hover:bg-muted"
+                }`}
+              >
+                {MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-muted-foreground">
+              Also purge matching pages already stored
+            </p>
+            <Switch
+              checked={purgeExisting}
+              onCheckedChange={setPurgeExisting}
+            />
+          </div>
+          <button
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 border rounded hover:bg-muted transition-colors"
+            onClick={handleAddRule}
+            disabled={isSaving || !draft.pattern.trim()}
+          >
+            <ShieldOff className="h-4 w-4" />
+            {isSaving ? "Saving..." : "Add Rule"}
+          </button>
+          {message && (
+            <p className="text-xs text-muted-foreground text-center">
+              {message}
+            </p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
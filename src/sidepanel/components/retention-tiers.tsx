@@ -0,0 +1,242 @@
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import type { RetentionSettings } from "@/types/settings";
+import type { RetentionReport } from "@/types/storage";
+
+type TierKey = Exclude<keyof RetentionSettings, "enabled">;
+
+const FIELDS: {
+  key: TierKey;
+  label: string;
+  hint: string;
+  min: number;
+}[] = [
+  {
+    key: "summaryAfterDays",
+    label: "Summary only after",
+    hint: "Page text dropped, AI summary kept",
+    min: 1,
+  },
+  {
+    key: "metadataAfterDays",
+    label: "Metadata only after",
+    hint: "Title, URL and visit times kept (finished intents)",
+    min: 1,
+  },
+  {
+    key: "deleteAfterDays",
+    label: "Delete after",
+    hint: "Page removed (finished intents, 0 = never)",
+    min: 0,
+  },
+  {
+    key: "archiveIntentsAfterDays",
+    label: "Archive intents after",
+    hint: "Finished intents reduced to label, goal and summary",
+    min: 1,
+  },
+];
+
+const MAX_DAYS = 3650;
+
+export function formatReclaimed(bytes: number): string {
+  return bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${Math.round(bytes / 1024)} KB`;
+}
+
+function describeReport(report: RetentionReport): string {
+  const { summarized, metadataOnly, deleted } = report.pages;
+  return `${new Date(report.ranAt).toLocaleString()}: ${summarized} summarized, ${metadataOnly} metadata only, ${deleted} deleted, ${report.intentsArchived} intents archived · ${formatReclaimed(report.reclaimedBytes)} freed`;
+}
+
+/**
+ * Retention tiers: how long page text and finished intents are kept
+ */
+export function RetentionTiers({ onApplied }: { onApplied?: () => void }) {
+  const [saved, setSaved] = useState<RetentionSettings | null>(null);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [lastReport, setLastReport] = useState<RetentionReport | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const [settingsResponse, statsResponse] = await Promise.all([
+        chrome.runtime.sendMessage({ type: "GET_SETTINGS" }),
+        chrome.runtime.sendMessage({ type: "GET_STORAGE_STATS" }),
+      ]);
+      const retention: RetentionSettings = settingsResponse.settings.retention;
+      setSaved(retention);
+      setDraft(
+        Object.fromEntries(FIELDS.map((f) => [f.key, String(retention[f.key])]))
+      );
+      setLastReport(statsResponse.stats?.retention || null);
+    } catch (error) {
+      console.error("Failed to load retention settings:", error);
+    }
+  };
+
+  if (!saved) {
+    return null;
+  }
+
+  const parsed = Object.fromEntries(
+    FIELDS.map((f) => {
+      const value = Number(draft[f.key]);
+      const valid =
+        Number.isInteger(value) && value >= f.min && value <= MAX_DAYS;
+      return [f.key, valid ? value : null];
+    })
+  ) as Record<TierKey, number | null>;
+
+  // Tiers must come in order: summary → metadata → deleted
+  const isOrdered =
+    parsed.summaryAfterDays !== null &&
+    parsed.metadataAfterDays !== null &&
+    parsed.metadataAfterDays >= parsed.summaryAfterDays &&
+    (parsed.deleteAfterDays === 0 ||
+      (parsed.deleteAfterDays !== null &&
+        parsed.deleteAfterDays >= parsed.metadataAfterDays));
+  const isValid = isOrdered && FIELDS.every((f) => parsed[f.key] !== null);
+  const isChanged = FIELDS.some((f) => parsed[f.key] !== saved[f.key]);
+
+  const saveRetention = async (retention: RetentionSettings) => {
+    setIsSaving(true);
+    try {
+      await chrome.runtime.sendMessage({
+        type: "UPDATE_SETTINGS",
+        settings: { retention },
+      });
+      setSaved(retention);
+    } catch (error) {
+      console.error("Failed to save retention settings:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    await saveRetention({
+      ...saved,
+      ...(parsed as Record<TierKey, number>),
+    });
+  };
+
+  const handleApplyNow = async () => {
+    setIsApplying(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "RUN_RETENTION",
+      });
+      if (response.report) {
+        setLastReport(response.report);
+        onApplied?.();
+      }
+    } catch (error) {
+      console.error("Failed to apply retention:", error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Retention</CardTitle>
+        <CardDescription>
+          Older pages keep less detail; applied daily
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-sm">Compress old data</p>
+            <p className="text-xs text-muted-foreground">
+              Off keeps everything until you delete it
+            </p>
+          </div>
+          <Switch
+            checked={saved.enabled}
+            disabled={isSaving}
+            onCheckedChange={(enabled) => saveRetention({ ...saved, enabled })}
+          />
+        </div>
+
+        {saved.enabled && (
+          <>
+            {FIELDS.map((field) => (
+              <div
+                key={field.key}
+                className="flex items-center justify-between gap-3"
+              >
+                <div>
+                  <p className="text-sm">{field.label}</p>
+                  <p className="text-xs text-muted-foreground">{field.hint}</p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  <Input
+                    type="number"
+                    className={`w-20 ${
+                      parsed[field.key] === null || !isOrdered
+                        ? "border-destructive"
+                        : ""
+                    }`}
+                    min={field.min}
+                    max={MAX_DAYS}
+                    value={draft[field.key]}
+                    onChange={(e) =>
+                      setDraft({ ...draft, [field.key]: e.target.value })
+                    }
+                  />
+                  <span className="w-8 text-xs text-muted-foreground">
+                    days
+                  </span>
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Pages of open intents keep their summary; pages of confirmed
+              intents are never deleted.
+            </p>
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                className="px-3 py-2 border rounded hover:bg-muted transition-colors disabled:opacity-50"
+                onClick={handleSave}
+                disabled={isSaving || !isValid || !isChanged}
+              >
+                {isSaving ? "Saving..." : "Save Tiers"}
+              </button>
+              <button
+                className="px-3 py-2 border rounded hover:bg-muted transition-colors disabled:opacity-50"
+                onClick={handleApplyNow}
+                disabled={isApplying || isChanged}
+              >
+                {isApplying ? "Applying..." : "Apply Now"}
+              </button>
+            </div>
+          </>
+        )}
+
+        {lastReport && (
+          <p className="text-xs text-muted-foreground">
+            Last run {describeReport(lastReport)}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  SEARCH_ENGINES,
+  type SearchEngineId,
+  type SearchSettings,
+} from "@/types/settings";
+
+/**
+ * Engine that search and explore actions from nudges and next steps open
+ */
+export function SearchEngineSettings() {
+  const [saved, setSaved] = useState<SearchSettings | null>(null);
+  const [engine, setEngine] = useState<SearchEngineId>("google");
+  const [customUrl, setCustomUrl] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_SETTINGS",
+      });
+      const search: SearchSettings = response.settings.search;
+      setSaved(search);
+      setEngine(search.engine);
+      setCustomUrl(search.customUrl);
+    } catch (error) {
+      console.error("Failed to load search settings:", error);
+    }
+  };
+
+  if (!saved) {
+    return null;
+  }
+
+  const isValid =
+    engine !== "custom" ||
+    (/^https?:\/\//i.test(customUrl.trim()) && customUrl.includes("%s"));
+  const isChanged =
+    engine !== saved.engine ||
+    (engine === "custom" && customUrl.trim() !== saved.customUrl);
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setIsSaving(true);
+    try {
+      const search: SearchSettings = {
+        engine,
+        customUrl: engine === "custom" ? customUrl.trim() : saved.customUrl,
+      };
+      await chrome.runtime.sendMessage({
+        type: "UPDATE_SETTINGS",
+        settings: { search },
+      });
+      setSaved(search);
+    } catch (error) {
+      console.error("Failed to save search settings:", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Search Engine</CardTitle>
+        <CardDescription>
+          Where searches from suggestions and next steps open
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <select
+          className="w-full text-sm border rounded bg-background px-2 py-2"
+          value={engine}
+          onChange={(e) => setEngine(e.target.value as SearchEngineId)}
+        >
+          {Object.entries(SEARCH_ENGINES).map(([id, { label }]) => (
+            <option key={id} value={id}>
+              {label}
+            </option>
+          ))}
+          <option value="custom">Custom</option>
+        </select>
+        {engine === "custom" && (
+          <div className="space-y-1">
+            <Input
+              className={isValid ? "" : "border-destructive"}
+              placeholder="https://example.com/search?q=%s"
+              value={customUrl}
+              onChange={(e) => setCustomUrl(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              %s is replaced with the search terms
+            </p>
+          </div>
+        )}
+        <button
+          className="w-full px-3 py-2 border rounded hover:bg-muted transition-colors disabled:opacity-50"
+          onClick={handleSave}
+          disabled={isSaving || !isValid || !isChanged}
+        >
+          {isSaving ? "Saving..." : "Save Search Engine"}
+        </button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,11 @@
 import { useState, useEffect, useCallback } from "react";
-import type { Nudge } from "@/types/nudge";
+import type { ActionResult, Nudge, SuggestedAction } from "@/types/nudge";
+import type { SnoozePreset } from "@/types/settings";
 import { useRealtimeUpdates } from "./use-realtime-updates";
 
 export function useNudges() {
   const [nudges, setNudges] = useState<Nudge[]>([]);
+  const [notice, setNotice] = useState<string | null>(null); // Last action's message or error
 
   const loadNudges = useCallback(async () => {
     try {
@@ -43,55 +45,72 @@ export function useNudges() {
 
   const dismissNudge = async (nudgeId: string) => {
     try {
-      await chrome.runtime.sendMessage({ type: "DELETE_NUDGE", nudgeId });
+      const nudge = nudges.find((n) => n.id === nudgeId);
+      if (!nudge) return;
+
+      // Kept as feedback for nudge ranking
+      nudge.status = "discarded";
+      nudge.timing.respondedAt = Date.now();
+      nudge.userResponse = { action: "discard", timestamp: Date.now() };
+
+      await chrome.runtime.sendMessage({ type: "UPDATE_NUDGE", nudge });
       setNudges(nudges.filter((n) => n.id !== nudgeId));
     } catch (error) {
       console.error("Failed to dismiss nudge:", error);
     }
   };
 
-  const snoozeNudge = async (nudgeId: string) => {
+  const snoozeNudge = async (nudgeId: string, preset: SnoozePreset) => {
     try {
-      const nudge = nudges.find((n) => n.id === nudgeId);
-      if (!nudge) return;
-
-      nudge.status = "snoozed";
-      nudge.timing.snoozedUntil = Date.now() + 60 * 60 * 1000; // 1 hour
-
-      await chrome.runtime.sendMessage({ type: "UPDATE_NUDGE", nudge });
+      // Snooze end comes from the nudge preferences; woken by the worker
+      const response = await chrome.runtime.sendMessage({
+        type: "SNOOZE_NUDGE",
+        nudgeId,
+        preset,
+      });
+      if (response.error) throw new Error(response.error);
       setNudges(nudges.filter((n) => n.id !== nudgeId));
     } catch (error) {
       console.error("Failed to snooze nudge:", error);
     }
   };
 
-  const followNudge = async (nudgeId: string, action: any) => {
+  const followNudge = async (
+    nudgeId: string,
+    action: SuggestedAction | null
+  ): Promise<ActionResult | null> => {
     try {
       const nudge = nudges.find((n) => n.id === nudgeId);
-      if (!nudge) return;
+      if (!nudge) return null;
+      setNotice(null);
 
-      // Execute action if provided
+      // Actions run in the service worker (tabs, tab groups, merges)
+      let result: ActionResult | null = null;
       if (action) {
-        if (action.action === "search") {
-          const url = `https://www.google.com/search?q=${encodeURIComponent(
-            action.payload.query
-          )}`;
-          chrome.tabs.create({ url });
-        } else if (action.action === "open_url") {
-          chrome.tabs.create({ url: action.payload.url });
-        }
+        const response = await chrome.runtime.sendMessage({
+          type: "EXECUTE_ACTION",
+          action,
+          intentId: nudge.intentId,
+        });
+        if (response.error) throw new Error(response.error);
+        result = response.result;
+        if (result?.message) setNotice(result.message);
       }
 
       // Mark as acted
       nudge.status = "acted";
       nudge.timing.respondedAt = Date.now();
+      nudge.userResponse = { action: "follow", timestamp: Date.now() };
 
       await chrome.runtime.sendMessage({ type: "UPDATE_NUDGE", nudge });
       setNudges(nudges.filter((n) => n.id !== nudgeId));
+      return result;
     } catch (error) {
       console.error("Failed to follow nudge:", error);
+      setNotice(error instanceof Error ? error.message : String(error));
+      return null;
     }
   };
 
-  return { nudges, dismissNudge, snoozeNudge, followNudge };
+  return { nudges, notice, dismissNudge, snoozeNudge, followNudge };
 }
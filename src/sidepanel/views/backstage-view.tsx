@@ -8,9 +8,21 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Progress } from "@/components/ui/progress";
 import { AppHeader } from "../components/app-header";
 import { LiveStatus } from "../components/live-status";
-import { Download, Trash2 } from "lucide-react";
+import { PrivacyRules } from "../components/privacy-rules";
+import { LifecycleThresholds } from "../components/lifecycle-thresholds";
+import { MatchingWeights } from "../components/matching-weights";
+import { MergeReviewSettings } from "../components/merge-review-settings";
+import { SearchEngineSettings } from "../components/search-engine-settings";
+import { NotificationSettings } from "../components/notification-settings";
+import { NudgePreferences } from "../components/nudge-preferences";
+import { NudgeStats } from "../components/nudge-stats";
+import { BackupRestore } from "../components/backup-restore";
+import { RetentionTiers, formatReclaimed } from "../components/retention-tiers";
+import { Download, History, Trash2, X } from "lucide-react";
+import type { HistoryImportState, RetentionReport } from "@/types/storage";
 
 interface BackstageViewProps {
   onBack: () => void;
@@ -26,6 +38,7 @@ interface StorageStats {
   totalQueueTasks: number;
   totalBytes: number;
   totalMB: number;
+  retention: RetentionReport | null;
 }
 
 interface UserSettings {
@@ -34,6 +47,21 @@ interface UserSettings {
   storageQuotaMB: number;
 }
 
+const IMPORT_DAY_OPTIONS = [7, 14, 30];
+
+function describeLastImport(state: HistoryImportState): string {
+  switch (state.status) {
+    case "completed":
+      return `Last import: ${state.imported} pages from the last ${state.days} days`;
+    case "cancelled":
+      return `Import cancelled — ${state.imported} pages kept`;
+    case "failed":
+      return `Import failed: ${state.error || "unknown error"}`;
+    default:
+      return "";
+  }
+}
+
 export function BackstageView({
   onBack,
   onOpenIntentLibrary,
@@ -46,13 +74,30 @@ export function BackstageView({
   const [isDeleting, setIsDeleting] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [aiModelStatus, setAiModelStatus] = useState<any>(null);
+  const [importState, setImportState] = useState<HistoryImportState | null>(
+    null
+  );
+  const [importDays, setImportDays] = useState(7);
+  const [isStartingImport, setIsStartingImport] = useState(false);
+  const [isCancellingImport, setIsCancellingImport] = useState(false);
+
+  const isImportRunning =
+    importState?.status === "scanning" || importState?.status === "importing";
 
   useEffect(() => {
     loadSettings();
     loadStorageStats();
     loadAIModelStatus();
+    loadImportState();
   }, []);
 
+  // Poll only while an import is draining
+  useEffect(() => {
+    if (!isImportRunning) return;
+    const interval = setInterval(loadImportState, 2000);
+    return () => clearInterval(interval);
+  }, [isImportRunning]);
+
   const loadSettings = async () => {
     try {
       const response = await chrome.runtime.sendMessage({
@@ -86,6 +131,51 @@ export function BackstageView({
     }
   };
 
+  const loadImportState = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_HISTORY_IMPORT_STATUS",
+      });
+      setImportState(response.state);
+    } catch (error) {
+      console.error("Failed to load history import status:", error);
+    }
+  };
+
+  const handleStartImport = async () => {
+    setIsStartingImport(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "START_HISTORY_IMPORT",
+        days: importDays,
+      });
+      if (response.error) {
+        alert(`Failed to start import: ${response.error}`);
+        return;
+      }
+      setImportState(response.state);
+    } catch (error) {
+      console.error("Failed to start history import:", error);
+    } finally {
+      setIsStartingImport(false);
+    }
+  };
+
+  const handleCancelImport = async () => {
+    setIsCancellingImport(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "CANCEL_HISTORY_IMPORT",
+      });
+      setImportState(response.state);
+      loadStorageStats();
+    } catch (error) {
+      console.error("Failed to cancel history import:", error);
+    } finally {
+      setIsCancellingImport(false);
+    }
+  };
+
   const handleExport = async () => {
     setIsExporting(true);
     try {
@@ -132,15 +222,14 @@ export function BackstageView({
     if (!settings) return;
     const maxConcurrent =
       intensity === "low" ? 1 : intensity === "medium" ? 2 : 3;
-    const newSettings = {
-      ...settings,
+    const changes = {
       aiIntensity: intensity,
       maxConcurrentAI: maxConcurrent,
     };
-    setSettings(newSettings);
+    setSettings({ ...settings, ...changes });
     await chrome.runtime.sendMessage({
       type: "UPDATE_SETTINGS",
-      settings: newSettings,
+      settings: changes,
     });
   };
 
@@ -181,6 +270,103 @@ export function BackstageView({
                     </CardContent>
                   </Card>
                 </section>
+                <section className="space-y-3">
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                      History Import
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Give Bryn a head start from your recent Chrome history.
+                    </p>
+                  </div>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle className="text-base">
+                        Import Recent History
+                      </CardTitle>
+                      <CardDescription>
+                        Titles, URLs and visit times only — page content is
+                        never fetched
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {isImportRunning && importState ? (
+                        <div className="space-y-2">
+                          <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">
+                              {importState.status === "scanning"
+                                ? "Reading history..."
+                                : "Clustering pages..."}
+                            </span>
+                            {importState.status === "importing" && (
+                              <span className="font-semibold">
+                                {importState.processed} / {importState.imported}
+                              </span>
+                            )}
+                          </div>
+                          <Progress
+                            value={
+                              importState.imported > 0
+                                ? (importState.processed /
+                                    importState.imported) *
+                                  100
+                                : 0
+                            }
+                            className="h-2"
+                          />
+                          <p className="text-xs text-muted-foreground">
+                            Imported pages are processed only when nothing else
+                            is waiting in the queue.
+                          </p>
+                          <button
+                            className="w-full flex items-center justify-center gap-2 px-3 py-2 border rounded hover:bg-muted transition-colors"
+                            onClick={handleCancelImport}
+                            disabled={isCancellingImport}
+                          >
+                            <X className="h-4 w-4" />
+                            {isCancellingImport
+                              ? "Cancelling..."
+                              : "Cancel Import"}
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="space-y-2">
+                          <div className="grid grid-cols-3 gap-2">
+                            {IMPORT_DAY_OPTIONS.map((days) => (
+                              <button
+                                key={days}
+                                onClick={() => setImportDays(days)}
+                                className={`text-sm px-3 py-2 rounded border transition-colors ${
+                                  importDays === days
+                                    ? "bg-primary text-primary-foreground"
+                                    : "bg-background hover:bg-muted"
+                                }`}
+                              >
+                                {days} days
+                              </button>
+                            ))}
+                          </div>
+                          <button
+                            className="w-full flex items-center justify-center gap-2 px-3 py-2 border rounded hover:bg-muted transition-colors"
+                            onClick={handleStartImport}
+                            disabled={isStartingImport}
+                          >
+                            <History className="h-4 w-4" />
+                            {isStartingImport
+                              ? "Starting..."
+                              : "Import History"}
+                          </button>
+                          {importState && importState.status !== "idle" && (
+                            <p className="text-xs text-muted-foreground text-center">
+                              {describeLastImport(importState)}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </section>
                 <LiveStatus
                   links={{
                     onQueue: onOpenTaskQueue,
@@ -246,6 +432,16 @@ export function BackstageView({
                             {storageStats.totalNudges || 0}
                           </p>
                         </div>
+                        {storageStats.retention && (
+                          <div>
+                            <p className="text-muted-foreground">Reclaimed</p>
+                            <p className="font-semibold">
+                              {formatReclaimed(
+                                storageStats.retention.totalReclaimedBytes
+                              )}
+                            </p>
+                          </div>
+                        )}
                       </div>
 
                       <div className="space-y-2">
@@ -258,6 +454,8 @@ export function BackstageView({
                           {isExporting ? "Exporting..." : "Export All Data"}
                         </button>
 
+                        <BackupRestore onImported={loadStorageStats} />
+
                         <button
                           className={`w-full flex items-center justify-center gap-2 px-3 py-2 border rounded transition-colors ${
                             showDeleteConfirm
@@ -284,6 +482,21 @@ export function BackstageView({
                       </div>
                     </CardContent>
                   </Card>
+
+                  <RetentionTiers onApplied={loadStorageStats} />
+                </section>
+
+                <section className="space-y-3">
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                      Privacy
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Keep sensitive sites out of Bryn entirely.
+                    </p>
+                  </div>
+
+                  <PrivacyRules />
                 </section>
 
                 <section className="space-y-3">
@@ -346,6 +559,37 @@ export function BackstageView({
                   </Card>
                 </section>
 
+                <section className="space-y-3">
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                      Intents
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Choose how long research stays open without new pages.
+                    </p>
+                  </div>
+
+                  <LifecycleThresholds />
+                  <MatchingWeights />
+                  <MergeReviewSettings />
+                </section>
+
+                <section className="space-y-3">
+                  <div>
+                    <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                      Suggestions
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Choose how suggestions reach you and where they lead.
+                    </p>
+                  </div>
+
+                  <NudgePreferences />
+                  <NudgeStats />
+                  <NotificationSettings />
+                  <SearchEngineSettings />
+                </section>
+
                 <section className="space-y-3">
                   <div>
                     <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
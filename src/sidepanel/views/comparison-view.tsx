@@ -0,0 +1,89 @@
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ExternalLink } from "lucide-react";
+import { AppHeader } from "../components/app-header";
+import type { Comparison, ComparisonOption } from "@/types/nudge";
+
+interface ComparisonViewProps {
+  comparison: Comparison;
+  onBack: () => void;
+}
+
+function Field({ label, value }: { label: string; value?: string }) {
+  if (!value) return null;
+  return (
+    <div className="flex justify-between gap-3 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="text-right">{value}</span>
+    </div>
+  );
+}
+
+function OptionCard({ option }: { option: ComparisonOption }) {
+  return (
+    <Card>
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-base">{option.name}</CardTitle>
+        {option.domain && (
+          <CardDescription className="text-xs">{option.domain}</CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-1">
+          <Field label="Price" value={option.price} />
+          <Field label="Rating" value={option.rating} />
+          <Field label="Brand" value={option.brand} />
+          <Field label="Availability" value={option.availability} />
+        </div>
+        {option.summary && (
+          <p className="text-xs text-muted-foreground line-clamp-4">
+            {option.summary}
+          </p>
+        )}
+        {option.url ? (
+          <button
+            className="flex items-center gap-1 text-xs underline"
+            onClick={() => chrome.tabs.create({ url: option.url })}
+          >
+            <ExternalLink className="h-3 w-3" />
+            Open page
+          </button>
+        ) : (
+          <Badge variant="outline" className="text-xs">
+            Not visited yet
+          </Badge>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Side-by-side options from a compare_options action
+ */
+export function ComparisonView({ comparison, onBack }: ComparisonViewProps) {
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <AppHeader
+        showBackButton
+        onBack={onBack}
+        title="Compare Options"
+        subtitle={comparison.title}
+      />
+      <ScrollArea className="flex-1">
+        <div className="p-4 space-y-3">
+          {comparison.options.map((option) => (
+            <OptionCard key={option.pageId || option.name} option={option} />
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
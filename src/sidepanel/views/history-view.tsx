@@ -8,6 +8,7 @@ import { PageCard } from "../components/page-card";
 import { Download } from "lucide-react";
 import type { PageData } from "@/types/page";
 import type { Intent } from "@/types/intent";
+import type { SearchResponse } from "@/types/search";
 
 interface HistoryViewProps {
   onBack: () => void;
@@ -16,11 +17,16 @@ interface HistoryViewProps {
 
 type ViewMode = "by-intent" | "by-domain" | "chronological";
 
+const SEARCH_DEBOUNCE_MS = 250;
+const SEARCH_RESULT_LIMIT = 200;
+
 export function HistoryView({ onBack, onPageClick }: HistoryViewProps) {
   const [pages, setPages] = useState<PageData[]>([]);
   const [intents, setIntents] = useState<Intent[]>([]);
   const [viewMode, setViewMode] = useState<ViewMode>("by-intent");
   const [searchQuery, setSearchQuery] = useState("");
+  // Page IDs from the search index, best match first (null = not searching)
+  const [searchResultIds, setSearchResultIds] = useState<string[] | null>(null);
   const [currentPage, setCurrentPage] = useState(1);
   const [loading, setLoading] = useState(true);
   const PAGES_PER_LOAD = 50;
@@ -29,6 +35,39 @@ export function HistoryView({ onBack, onPageClick }: HistoryViewProps) {
     loadData();
   }, []);
 
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResultIds(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const response: SearchResponse & { error?: string } =
+          await chrome.runtime.sendMessage({
+            type: "SEARCH",
+            query: searchQuery,
+            kind: "page",
+            limit: SEARCH_RESULT_LIMIT,
+          });
+        if (cancelled) return;
+        setSearchResultIds(
+          response.error ? null : response.results.map((r) => r.id)
+        );
+      } catch (error) {
+        console.error("Search failed:", error);
+        if (!cancelled) setSearchResultIds(null);
+      }
+      setCurrentPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery]);
+
   const loadData = async () => {
     setLoading(true);
     try {
@@ -46,12 +85,18 @@ export function HistoryView({ onBack, onPageClick }: HistoryViewProps) {
     }
   };
 
-  // Filter by search
-  const filteredPages = pages.filter(
-    (p) =>
-      p.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      p.url.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  // Filter by search: index results when available, else title/URL match
+  const pagesById = new Map(pages.map((p) => [p.id, p]));
+  const filteredPages =
+    searchResultIds !== null
+      ? searchResultIds
+          .map((id) => pagesById.get(id))
+          .filter((p): p is PageData => !!p)
+      : pages.filter(
+          (p) =>
+            p.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
+            p.url.toLowerCase().includes(searchQuery.toLowerCase())
+        );
 
   // Pagination
   const paginatedPages = filteredPages.slice(0, currentPage * PAGES_PER_LOAD);
@@ -201,7 +246,7 @@ export function HistoryView({ onBack, onPageClick }: HistoryViewProps) {
         {/* Search */}
         <div className="flex gap-2">
           <Input
-            placeholder="Search history..."
+            placeholder="Search history... (domain:, intent:, after:7d)"
             value={searchQuery}
             onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
               setSearchQuery(e.target.value)
@@ -17,22 +17,57 @@ import {
   Loader2,
   Clock,
   XCircle,
+  Circle,
+  HelpCircle,
+  GitBranch,
+  Search,
+  Split,
 } from "lucide-react";
 import type { Intent } from "@/types/intent";
 import type { PageData } from "@/types/page";
 import type { QueuedTask } from "@/core/processing-queue";
+import type {
+  IntentEvolutionStep,
+  RelatedIntent,
+  RelationType,
+} from "@/types/storage";
 import { useRealtimeUpdates } from "../hooks/use-realtime-updates";
+import { IntentSplitPanel } from "../components/intent-split-panel";
+import { MergedIntents } from "../components/merged-intents";
 
 interface IntentDetailViewProps {
   intent: Intent;
   onBack: () => void;
   onPageClick?: (pageId: string) => void;
+  onIntentClick?: (intent: Intent) => void;
 }
 
+// How this intent relates to the other one; incoming = the other came first
+const RELATION_LABELS: Record<
+  RelatedIntent["direction"],
+  Record<RelationType, string>
+> = {
+  outgoing: {
+    continuation: "Continued in",
+    consequence: "Led to",
+    parallel: "Alongside",
+    evolution: "Evolved into",
+    unrelated: "Unrelated",
+  },
+  incoming: {
+    continuation: "Continues",
+    consequence: "Resulted from",
+    parallel: "Alongside",
+    evolution: "Evolved from",
+    unrelated: "Unrelated",
+  },
+};
+
 export function IntentDetailView({
   intent,
   onBack,
   onPageClick,
+  onIntentClick,
 }: IntentDetailViewProps) {
   const [pages, setPages] = useState<PageData[]>([]);
   const [isEditingSummary, setIsEditingSummary] = useState(false);
@@ -49,6 +84,9 @@ export function IntentDetailView({
   const [queuedTaskTypes, setQueuedTaskTypes] = useState<Set<string>>(
     new Set()
   );
+  const [relatedIntents, setRelatedIntents] = useState<RelatedIntent[]>([]);
+  const [evolution, setEvolution] = useState<IntentEvolutionStep[]>([]);
+  const [isSplitting, setIsSplitting] = useState(false);
 
   const loadIntentPages = useCallback(async () => {
     try {
@@ -92,6 +130,19 @@ export function IntentDetailView({
     }
   }, [currentIntent.id]);
 
+  const loadRelationships = useCallback(async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "GET_INTENT_RELATIONSHIPS",
+        intentId: currentIntent.id,
+      });
+      setRelatedIntents(response.related || []);
+      setEvolution(response.evolution || []);
+    } catch (error) {
+      console.error("Failed to load intent relationships:", error);
+    }
+  }, [currentIntent.id]);
+
   const refreshIntent = useCallback(async () => {
     setIsRefreshing(true);
     try {
@@ -105,19 +156,24 @@ export function IntentDetailView({
         setEditedSummary(updated.aiSummary || "");
       }
 
-      // Refresh pages and tasks
-      await Promise.all([loadIntentPages(), loadIntentTasks()]);
+      // Refresh pages, tasks and relationships
+      await Promise.all([
+        loadIntentPages(),
+        loadIntentTasks(),
+        loadRelationships(),
+      ]);
     } catch (error) {
       console.error("Failed to refresh intent:", error);
     } finally {
       setIsRefreshing(false);
     }
-  }, [intent.id, loadIntentPages, loadIntentTasks]);
+  }, [intent.id, loadIntentPages, loadIntentTasks, loadRelationships]);
 
   useEffect(() => {
     loadIntentPages();
     loadIntentTasks();
-  }, [loadIntentPages, loadIntentTasks]);
+    loadRelationships();
+  }, [loadIntentPages, loadIntentTasks, loadRelationships]);
 
   // Real-time updates - refresh when intent/pages/tasks change
   useRealtimeUpdates(refreshIntent);
@@ -199,6 +255,28 @@ export function IntentDetailView({
     }
   };
 
+  // Opened by the service worker, on the search engine chosen in Backstage
+  const runAction = async (message: Record<string, unknown>) => {
+    try {
+      const response = await chrome.runtime.sendMessage(message);
+      if (response?.error) throw new Error(response.error);
+    } catch (error) {
+      console.error("Failed to run action:", error);
+    }
+  };
+
+  const detectRelationships = async () => {
+    try {
+      await chrome.runtime.sendMessage({
+        type: "DETECT_INTENT_RELATIONSHIPS",
+        intentId: currentIntent.id,
+      });
+      await loadIntentTasks();
+    } catch (error) {
+      console.error("Failed to queue relationship detection:", error);
+    }
+  };
+
   const handleMarkComplete = async () => {
     try {
       const updatedIntent = {
@@ -293,6 +371,21 @@ export function IntentDetailView({
     return queuedTaskTypes.has(taskType);
   };
 
+  // Query history in search order, reformulations kept under their chain
+  const chainStarts = new Map<string, number>();
+  const searchPages = pages
+    .filter((page) => page.searchQuery)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  for (const page of searchPages) {
+    const chainId = page.searchQuery!.chainId || page.id;
+    if (!chainStarts.has(chainId)) chainStarts.set(chainId, page.timestamp);
+  }
+  const chainStart = (page: PageData) =>
+    chainStarts.get(page.searchQuery!.chainId || page.id)!;
+  searchPages.sort(
+    (a, b) => chainStart(a) - chainStart(b) || a.timestamp - b.timestamp
+  );
+
   return (
     <div className="h-screen flex flex-col bg-background">
       <div className="border-b bg-background">
@@ -557,35 +650,176 @@ export function IntentDetailView({
           {/* Intent Progress Section */}
           <section>
             <h2 className="text-sm font-semibold mb-3">Intent Progress</h2>
-            <div className="space-y-2">
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">
-                  {getDynamicPhase(currentIntent)}
-                </span>
-                <span className="font-medium">{currentIntent.confidence}%</span>
+            {currentIntent.progress &&
+            currentIntent.progress.milestones.length > 0 ? (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {
+                      currentIntent.progress.milestones.filter(
+                        (m) => m.status === "completed"
+                      ).length
+                    }{" "}
+                    of {currentIntent.progress.milestones.length} milestones
+                  </span>
+                  <span className="font-medium">
+                    {currentIntent.progress.completionEstimate}%
+                  </span>
+                </div>
+                <Progress
+                  value={currentIntent.progress.completionEstimate}
+                  className="h-2"
+                />
+                <div className="space-y-2 mt-3">
+                  {currentIntent.progress.milestones.map((milestone, idx) => (
+                    <div key={idx} className="flex gap-2">
+                      {milestone.status === "completed" ? (
+                        <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0 mt-0.5" />
+                      ) : milestone.status === "in_progress" ? (
+                        <Loader2 className="h-4 w-4 text-blue-500 flex-shrink-0 mt-0.5" />
+                      ) : (
+                        <Circle className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p
+                          className={`text-sm ${
+                            milestone.status === "not_started"
+                              ? "text-muted-foreground"
+                              : "font-medium"
+                          }`}
+                        >
+                          {milestone.step}
+                        </p>
+                        {milestone.evidence.length > 0 && (
+                          <p className="text-xs text-muted-foreground truncate">
+                            {milestone.evidence.join(" · ")}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
               </div>
-              <Progress value={currentIntent.confidence} className="h-2" />
-              <div className="flex gap-2 text-xs text-muted-foreground mt-2">
-                {getDynamicMilestones(currentIntent).map(
-                  (milestone, idx, arr) => (
-                    <React.Fragment key={idx}>
-                      <span
-                        className={
-                          milestone.active ? "text-primary font-medium" : ""
-                        }
-                      >
-                        {milestone.label}
-                      </span>
-                      {idx < arr.length - 1 && <span>→</span>}
-                    </React.Fragment>
-                  )
+            ) : (
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {getDynamicPhase(currentIntent)}
+                  </span>
+                  <span className="font-medium">
+                    {currentIntent.confidence}%
+                  </span>
+                </div>
+                <Progress value={currentIntent.confidence} className="h-2" />
+                <div className="flex gap-2 text-xs text-muted-foreground mt-2">
+                  {getDynamicMilestones(currentIntent).map(
+                    (milestone, idx, arr) => (
+                      <React.Fragment key={idx}>
+                        <span
+                          className={
+                            milestone.active ? "text-primary font-medium" : ""
+                          }
+                        >
+                          {milestone.label}
+                        </span>
+                        {idx < arr.length - 1 && <span>→</span>}
+                      </React.Fragment>
+                    )
+                  )}
+                </div>
+                {isContentQueued("ai_predict_milestone") && (
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    Predicting milestones...
+                  </div>
                 )}
               </div>
-            </div>
+            )}
           </section>
 
           <Separator />
 
+          {/* Knowledge Gaps */}
+          {(currentIntent.knowledgeGaps?.length ||
+            isContentQueued("ai_analyze_knowledge_gaps")) && (
+            <>
+              <section>
+                <h2 className="text-sm font-semibold mb-3">Knowledge Gaps</h2>
+                {currentIntent.knowledgeGaps &&
+                currentIntent.knowledgeGaps.length > 0 ? (
+                  <div className="space-y-3">
+                    {currentIntent.knowledgeGaps.map((gap) => {
+                      const evidencePages = gap.evidencePageIds
+                        .map((id) => pages.find((p) => p.id === id))
+                        .filter((p): p is PageData => !!p);
+
+                      return (
+                        <div key={gap.id} className="flex gap-3">
+                          <HelpCircle className="h-5 w-5 text-orange-500 flex-shrink-0 mt-0.5" />
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <p className="text-sm font-medium">{gap.topic}</p>
+                              <Badge variant="outline" className="text-xs">
+                                {gap.type.replace(/_/g, " ")}
+                              </Badge>
+                            </div>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              {gap.reason}
+                            </p>
+                            {evidencePages.length > 0 && (
+                              <div className="flex flex-wrap gap-x-2 mt-1 text-xs text-muted-foreground">
+                                <span>Seen in:</span>
+                                {evidencePages.map((page) => (
+                                  <button
+                                    key={page.id}
+                                    onClick={() => onPageClick?.(page.id)}
+                                    className="hover:underline truncate max-w-[180px]"
+                                  >
+                                    {page.title}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
+                            <div className="flex flex-wrap gap-x-3 mt-1">
+                              {gap.suggestedSearches.map((query) => (
+                                <button
+                                  key={query}
+                                  onClick={() =>
+                                    runAction({
+                                      type: "EXECUTE_ACTION",
+                                      action: {
+                                        label: query,
+                                        action: "search",
+                                        payload: { query },
+                                        confidence: 1,
+                                        reasoning: gap.reason,
+                                      },
+                                      intentId: currentIntent.id,
+                                    })
+                                  }
+                                  className="text-xs text-primary hover:underline"
+                                >
+                                  Search "{query}" →
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Analyzing knowledge gaps...
+                  </div>
+                )}
+              </section>
+
+              <Separator />
+            </>
+          )}
+
           {/* Suggested Next Steps */}
           <section>
             <div className="flex items-center justify-between mb-3">
@@ -661,17 +895,13 @@ export function IntentDetailView({
 
                             {/* Action Button */}
                             <button
-                              onClick={() => {
-                                if (step.url) {
-                                  chrome.tabs.create({ url: step.url });
-                                } else if (step.query) {
-                                  chrome.tabs.create({
-                                    url: `https://www.google.com/search?q=${encodeURIComponent(
-                                      step.query
-                                    )}`,
-                                  });
-                                }
-                              }}
+                              onClick={() =>
+                                runAction({
+                                  type: "EXECUTE_NEXT_STEP",
+                                  intentId: currentIntent.id,
+                                  stepId: step.id,
+                                })
+                              }
                               className="text-xs text-primary hover:underline mt-2"
                             >
                               Take Action →
@@ -711,6 +941,139 @@ export function IntentDetailView({
 
           <Separator />
 
+          {/* Related Research */}
+          <section>
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-sm font-semibold">Related Research</h2>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={detectRelationships}
+                disabled={isContentQueued("detect_intent_relationships")}
+              >
+                {isContentQueued("detect_intent_relationships")
+                  ? "Detecting..."
+                  : "Detect"}
+              </Button>
+            </div>
+
+            {evolution.length > 1 && (
+              <div className="mb-3">
+                <p className="text-xs text-muted-foreground mb-1">
+                  How this evolved
+                </p>
+                <div className="flex flex-wrap items-center gap-1 text-xs">
+                  {evolution.map((step, idx) => (
+                    <React.Fragment key={step.intent.id}>
+                      {idx > 0 && (
+                        <span
+                          className="text-muted-foreground"
+                          title={step.relationship?.reasoning}
+                        >
+                          →
+                        </span>
+                      )}
+                      {step.intent.id === currentIntent.id ? (
+                        <span className="font-medium text-primary">
+                          {step.intent.label}
+                        </span>
+                      ) : (
+                        <button
+                          onClick={() => onIntentClick?.(step.intent)}
+                          className="hover:underline"
+                        >
+                          {step.intent.label}
+                        </button>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {relatedIntents.length > 0 ? (
+              <div className="space-y-2">
+                {relatedIntents.map(
+                  ({ relationship, intent: other, direction }) => (
+                    <div key={relationship.id} className="flex gap-3">
+                      <GitBranch className="h-4 w-4 text-purple-500 flex-shrink-0 mt-0.5" />
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <Badge variant="outline" className="text-xs">
+                            {RELATION_LABELS[direction][relationship.type]}
+                          </Badge>
+                          <button
+                            onClick={() => onIntentClick?.(other)}
+                            className="text-sm font-medium truncate hover:underline text-left"
+                          >
+                            {other.label}
+                          </button>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {relationship.reasoning}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {new Date(other.firstSeen).toLocaleDateString()} ·{" "}
+                          {other.pageCount} pages ·{" "}
+                          {Math.round(relationship.confidence * 100)}%
+                        </p>
+                      </div>
+                    </div>
+                  )
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No connected research yet. Links to earlier or parallel intents
+                appear here as they are detected.
+              </p>
+            )}
+          </section>
+
+          <Separator />
+
+          {/* Search Queries */}
+          {searchPages.length > 0 && (
+            <>
+              <section>
+                <h2 className="text-sm font-semibold mb-3">
+                  Searches ({searchPages.length})
+                </h2>
+                <div className="space-y-2">
+                  {searchPages.map((page) => {
+                    const { query, engine, previousQuery } = page.searchQuery!;
+                    return (
+                      <div
+                        key={page.id}
+                        className={`flex gap-2 ${previousQuery ? "pl-4" : ""}`}
+                      >
+                        <Search className="h-4 w-4 text-muted-foreground flex-shrink-0 mt-0.5" />
+                        <div className="flex-1 min-w-0">
+                          <button
+                            onClick={() =>
+                              chrome.tabs.create({ url: page.url })
+                            }
+                            className="text-sm truncate hover:underline text-left max-w-full"
+                            title={page.url}
+                          >
+                            {query}
+                          </button>
+                          <p className="text-xs text-muted-foreground">
+                            {previousQuery && "Refined · "}
+                            {engine} ·{" "}
+                            {new Date(page.timestamp).toLocaleString()}
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+
+              <Separator />
+            </>
+          )}
+
           {/* Pages in This Intent */}
           <section>
             <h2 className="text-sm font-semibold mb-3">
@@ -791,10 +1154,10 @@ export function IntentDetailView({
                                 task.status === "completed"
                                   ? "default"
                                   : task.status === "processing"
-                                  ? "secondary"
-                                  : task.status === "failed"
-                                  ? "destructive"
-                                  : "outline"
+                                    ? "secondary"
+                                    : task.status === "failed"
+                                      ? "destructive"
+                                      : "outline"
                               }
                             >
                               {task.status}
@@ -836,6 +1199,8 @@ export function IntentDetailView({
             </>
           )}
 
+          <MergedIntents intent={currentIntent} onUnmerged={refreshIntent} />
+
           {/* Actions & Management */}
           <section>
             <h2 className="text-sm font-semibold mb-3">Actions & Management</h2>
@@ -864,6 +1229,27 @@ export function IntentDetailView({
                 <Download className="h-4 w-4 mr-2" />
                 Export Summary
               </Button>
+              {isSplitting ? (
+                <IntentSplitPanel
+                  intentId={currentIntent.id}
+                  pages={pages}
+                  onSplit={() => {
+                    setIsSplitting(false);
+                    refreshIntent();
+                  }}
+                  onCancel={() => setIsSplitting(false)}
+                />
+              ) : (
+                <Button
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={() => setIsSplitting(true)}
+                  disabled={pages.length < 2}
+                >
+                  <Split className="h-4 w-4 mr-2" />
+                  Split Intent
+                </Button>
+              )}
               <Button
                 variant="outline"
                 className="w-full justify-start text-destructive hover:text-destructive"
@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { AppHeader } from "../components/app-header";
+import { AssignmentExplanation } from "../components/assignment-explanation";
 import {
   ExternalLink,
   Clock,
@@ -30,6 +31,7 @@ interface PageDetailViewProps {
 export function PageDetailView({ pageId, onBack }: PageDetailViewProps) {
   const [page, setPage] = useState<PageData | null>(null);
   const [intent, setIntent] = useState<Intent | null>(null);
+  const [intents, setIntents] = useState<Intent[]>([]);
   const [tasks, setTasks] = useState<QueuedTask[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -56,6 +58,8 @@ export function PageDetailView({ pageId, onBack }: PageDetailViewProps) {
               i.id === foundPage.intentAssignments.primary?.intentId
           );
           setIntent(foundIntent || null);
+          // Runner-up labels and whether they can still take the page
+          setIntents(intentResponse.intents || []);
         }
       }
 
@@ -116,6 +120,22 @@ export function PageDetailView({ pageId, onBack }: PageDetailViewProps) {
     }
   };
 
+  const handleReassign = async (intentId: string) => {
+    try {
+      await chrome.runtime.sendMessage({
+        type: "REASSIGN_PAGE",
+        pageId: page.id,
+        intentId,
+      });
+      await loadPageData();
+    } catch (error) {
+      console.error("Failed to reassign page:", error);
+    }
+  };
+
+  const sections = page.contentSections || [];
+  const keySections = new Set(page.semanticFeatures?.keySections || []);
+
   return (
     <div className="h-screen flex flex-col bg-background">
       <AppHeader
@@ -235,6 +255,13 @@ export function PageDetailView({ pageId, onBack }: PageDetailViewProps) {
                       </div>
                     </div>
                   )}
+                  {page.intentAssignments.primary && (
+                    <AssignmentExplanation
+                      assignment={page.intentAssignments.primary}
+                      intents={intents}
+                      onReassign={handleReassign}
+                    />
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -243,7 +270,9 @@ export function PageDetailView({ pageId, onBack }: PageDetailViewProps) {
           <Separator />
 
           {/* Content & Analysis Section */}
-          {(page.contentSummary || page.semanticFeatures) && (
+          {(page.contentSummary ||
+            page.semanticFeatures ||
+            sections.length > 0) && (
             <>
               <div className="flex items-center gap-2 mb-2">
                 <FileText className="h-5 w-5 text-primary" />
@@ -265,6 +294,48 @@ export function PageDetailView({ pageId, onBack }: PageDetailViewProps) {
                 </Card>
               )}
 
+              {sections.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm">Page Outline</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-1">
+                    {sections.map((section, idx) => (
+                      <div
+                        key={idx}
+                        className="flex items-center justify-between gap-2 text-sm"
+                        style={{
+                          paddingLeft: `${Math.max(section.level - 1, 0) * 12}px`,
+                        }}
+                      >
+                        <span
+                          className={
+                            keySections.has(idx)
+                              ? "font-medium"
+                              : "text-muted-foreground"
+                          }
+                        >
+                          {section.heading || "Introduction"}
+                        </span>
+                        {keySections.has(idx) && (
+                          <Badge variant="secondary" className="text-[10px]">
+                            Key
+                          </Badge>
+                        )}
+                      </div>
+                    ))}
+                    {page.metadata.contentExtraction && (
+                      <p className="text-xs text-muted-foreground pt-2">
+                        {page.metadata.contentExtraction.mainTextLength.toLocaleString()}{" "}
+                        characters of main content,{" "}
+                        {page.metadata.contentExtraction.boilerplateTextLength.toLocaleString()}{" "}
+                        of boilerplate left out
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
               {page.semanticFeatures && (
                 <Card>
                   <CardHeader>
@@ -312,6 +383,17 @@ export function PageDetailView({ pageId, onBack }: PageDetailViewProps) {
                   <div className="text-2xl font-bold">
                     {Math.round(page.interactions.dwellTime / 1000)}s
                   </div>
+                  {page.interactions.dwellBreakdown && (
+                    <div className="text-[10px] text-muted-foreground mt-1">
+                      +
+                      {Math.round(
+                        page.interactions.dwellBreakdown.background / 1000
+                      )}
+                      s background ·{" "}
+                      {Math.round(page.interactions.dwellBreakdown.idle / 1000)}
+                      s idle
+                    </div>
+                  )}
                 </div>
                 <div className="text-center">
                   <div className="text-xs text-muted-foreground mb-1">
@@ -171,6 +171,8 @@ export function TaskQueueView({
         return "Analyze Knowledge Gaps";
       case "ai_predict_milestone":
         return "Predict Intent Milestone";
+      case "detect_intent_relationships":
+        return "Detect Intent Relationships";
       case "generate_activity_summary":
         return "Generate Activity Recap";
       default:
@@ -8,6 +8,7 @@ export interface Intent {
   status: IntentStatus;
   firstSeen: number;
   lastUpdated: number;
+  lastVisited?: number; // Latest page visit; imported visits can predate lastUpdated
   reactivatedAt?: number;
   completedAt?: number;
   pageCount: number;
@@ -23,8 +24,13 @@ export interface Intent {
     mergedInto?: string; // Intent ID if merged
     mergedFrom?: string[]; // Intent IDs that merged into this
     mergedAt?: number; // When merge occurred
+    splitFrom?: string; // Intent ID this was split out of
+    unmergedFrom?: string[]; // Intent IDs a merge with this was undone from
+    splitInto?: string[]; // Intent IDs split out of this
     completedReason?: "explicit" | "inferred" | "timeout" | "merged";
     archivedAt?: number; // When intent became terminal
+    compactedAt?: number; // When retention reduced it to its archive form
+    importedOnly?: boolean; // Built from history import, no live page yet
   };
 
   // AI-generated content
@@ -34,6 +40,8 @@ export interface Intent {
   goalUpdatedAt?: number; // When goal was last updated
   insights?: IntentInsight[]; // Key insights with confidence levels
   nextSteps?: NextStep[]; // Suggested actions
+  knowledgeGaps?: KnowledgeGap[]; // What's missing to reach the goal
+  knowledgeGapsUpdatedAt?: number; // When gaps were last analyzed
 }
 
 export type IntentStatus =
@@ -62,6 +70,49 @@ export interface AggregatedSignals {
     browsingStyle: "focused" | "exploratory" | "scanning";
   };
   cachedForPageCount: number;
+  centroid?: IntentCentroid; // Missing on intents saved before centroids
+}
+
+/**
+ * Running sums over an intent's pages, updated as pages are assigned,
+ * reassigned and merged so matching never re-reads the pages
+ */
+export interface IntentCentroid {
+  embedding: number[]; // Engagement-weighted sum of unit page embeddings
+  weight: number; // Total engagement of the pages in `embedding`
+  pageCount: number;
+  entities: Record<string, number>; // Lowercased name → pages mentioning it
+  domains: Record<string, number>; // Domain → pages
+  queryTerms: Record<string, number>; // Search query term → pages
+  queryChains: Record<string, number>; // Query chain ID → pages
+  updatedAt: number;
+  rebuiltAt: number; // Last full recompute from the pages
+}
+
+/**
+ * An intent merged into another, as listed on the target
+ */
+export interface MergedSource {
+  intentId: string;
+  label: string;
+  mergedAt?: number;
+  pageCount: number; // Pages that would move back
+  blockedReason?: string; // Set when the merge can no longer be undone
+}
+
+/**
+ * Suggested division of an intent's pages into narrower intents
+ */
+export interface SplitProposal {
+  intentId: string;
+  groups: SplitGroup[]; // The first group stays with the intent
+  separation: number; // Mean silhouette, -1 to 1 (low: pages don't separate well)
+}
+
+export interface SplitGroup {
+  pageIds: string[];
+  concepts: string[]; // Most distinctive concepts, best first
+  label?: string; // Set by the user for a new intent
 }
 
 export interface KeywordStats {
@@ -73,14 +124,18 @@ export interface KeywordStats {
 
 export interface IntentProgress {
   milestones: Milestone[];
-  completionEstimate: number;
+  completionEstimate: number; // 0-100, derived from milestone statuses
+  plannedAt?: number; // When the milestone plan was (re)generated
+  plannedForGoal?: string; // Goal the plan was built from (replan if it changes)
+  updatedAt?: number; // Last time statuses were re-evaluated
 }
 
 export interface Milestone {
   step: string;
   status: "not_started" | "in_progress" | "completed";
   completedAt?: number;
-  evidence: string[];
+  evidence: string[]; // Page titles that demonstrate progress on this step
+  evidencePageIds?: string[];
 }
 
 export interface UserFeedback {
@@ -131,3 +186,18 @@ export interface NextStep {
   url?: string;
   query?: string;
 }
+
+export interface KnowledgeGap {
+  id: string;
+  topic: string;
+  type:
+    | "missing_fundamental" // Prerequisite the pages skip over
+    | "unexplored_subtopic" // Part of the goal no page covers
+    | "shallow_coverage" // Visited, but only skimmed
+    | "next_level"; // Natural follow-up once the basics are covered
+  reason: string; // Why this is a gap relative to the goal
+  evidencePageIds: string[]; // Pages that reveal the gap
+  suggestedSearches: string[];
+  confidence: number;
+  createdAt: number;
+}
@@ -0,0 +1,95 @@
+/**
+ * Page → intent matching: signal breakdowns, logged corrections and the
+ * per-user weights learned from them
+ */
+
+export type MatchSignal =
+  "semantic" | "keyword" | "entity" | "temporal" | "domain" | "behavioral";
+
+export type MatchWeights = Record<MatchSignal, number>;
+
+/**
+ * Each signal scored 0-1 for one page against one intent
+ */
+export interface MatchSignals extends MatchWeights {
+  query: number | null; // Null when neither side has a search query
+}
+
+export const MATCH_SIGNALS: MatchSignal[] = [
+  "semantic",
+  "keyword",
+  "entity",
+  "temporal",
+  "domain",
+  "behavioral",
+];
+
+export const DEFAULT_MATCH_WEIGHTS: MatchWeights = {
+  semantic: 0.3,
+  keyword: 0.2,
+  entity: 0.15,
+  temporal: 0.15,
+  domain: 0.1,
+  behavioral: 0.1,
+};
+
+export const DEFAULT_MATCH_THRESHOLD = 0.5; // Considered as a match
+export const ASSIGN_THRESHOLD_MARGIN = 0.05; // Assigned at threshold + margin
+
+/**
+ * Another intent the page was scored against when it was assigned
+ */
+export interface AssignmentCandidate {
+  intentId: string;
+  label: string; // At assignment time
+  confidence: number; // 0-100
+  signals: MatchSignals;
+}
+
+/**
+ * What AI verification (ai_verify_intent_matching) said about an assignment
+ */
+export interface AssignmentVerification {
+  action: "agree" | "merge" | "reassign" | "split";
+  confidence: number; // 0-1
+  reasoning: string;
+  suggestedIntentId?: string; // Reassign/merge target
+  verifiedAt: number;
+}
+
+export type CorrectionKind = "reassign" | "split";
+export type CorrectionSource = "ai_verification" | "user";
+
+/**
+ * One labeled example: should the page have gone to this intent?
+ */
+export interface MatchExample {
+  intentId: string;
+  belongs: boolean;
+  signals: MatchSignals;
+}
+
+export interface MatchCorrection {
+  id: string;
+  createdAt: number;
+  pageId: string;
+  kind: CorrectionKind;
+  source: CorrectionSource;
+  fromIntentId: string | null;
+  toIntentId: string | null; // A new intent for a split
+  examples: MatchExample[];
+}
+
+export interface MatchingModel {
+  weights: MatchWeights; // Sum to 1
+  matchThreshold: number;
+  assignThreshold: number;
+  trainedOn: number; // Examples in the fit
+  fittedAt: number;
+  event: "fit" | "reset";
+}
+
+export interface MatchingModelState {
+  current: MatchingModel | null; // Null = defaults
+  history: MatchingModel[]; // Oldest first
+}
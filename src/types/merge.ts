@@ -0,0 +1,56 @@
+/**
+ * Merge proposals: merges suggested by AI (merge scans, page verification)
+ * kept as records so they can be reviewed before they are applied
+ */
+
+export type MergeProposalStatus =
+  | "pending" // Waiting in the review inbox
+  | "accepted" // Approved or auto-applied, merge task queued
+  | "applied" // Merge done
+  | "rejected" // Declined by the user; the pair is not proposed again
+  | "failed" // Merge task failed (e.g. merge validation)
+  | "stale"; // An intent was merged or removed before review
+
+export type MergeProposalOrigin = "merge_scan" | "ai_verification" | "nudge";
+
+/**
+ * What the target intent would look like after the merge
+ */
+export interface MergePreview {
+  label: string; // Target label, kept until the merged intent is relabeled
+  pageCount: number; // Combined
+  sourcePages: Array<{ id: string; title: string; domain: string }>; // Moving over, newest first
+  domainsAdded: string[]; // Source domains the target lacks
+  sharedConcepts: string[];
+  conceptsAdded: string[]; // Source concepts the target lacks
+  entitiesAdded: string[];
+  firstSeen: number; // Combined time span
+  lastUpdated: number;
+}
+
+export interface MergeProposal {
+  id: string;
+  pairKey: string; // mergePairKey(source, target)
+  sourceIntentId: string; // Merged away
+  targetIntentId: string; // Kept
+  sourceLabel: string;
+  targetLabel: string;
+  confidence: number; // 0-1, from the AI
+  reasoning: string;
+  origin: MergeProposalOrigin;
+  autoApplyThreshold: number; // Setting when proposed; at or above auto-applies
+  preview: MergePreview;
+  status: MergeProposalStatus;
+  createdAt: number;
+  updatedAt: number; // Last proposed or resolved
+  resolvedAt?: number;
+  resolvedBy?: "auto" | "user";
+  error?: string; // Why the merge failed
+}
+
+/**
+ * Same key for both directions of a pair
+ */
+export function mergePairKey(intentA: string, intentB: string): string {
+  return [intentA, intentB].sort().join("|");
+}
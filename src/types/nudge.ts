@@ -8,6 +8,7 @@ export interface Nudge {
   suggestedActions: SuggestedAction[];
   timing: NudgeTiming;
   userResponse?: UserResponse;
+  category?: string; // Intent category when created (see intentCategory)
 }
 
 export type NudgeType =
@@ -18,6 +19,16 @@ export type NudgeType =
   | "knowledge_gap"
   | "milestone_next"
   | "explore_related";
+export const NUDGE_TYPE_LABELS: Record<NudgeType, string> = {
+  reminder: "Pick up dormant research",
+  memory_refresh: "Memory refreshers",
+  next_action: "Next actions",
+  merge_suggestion: "Merge suggestions",
+  knowledge_gap: "Knowledge gaps",
+  milestone_next: "Next milestones",
+  explore_related: "Related topics",
+};
+
 export type NudgePriority = "high" | "medium" | "low";
 export type NudgeStatus =
   | "pending"
@@ -51,6 +62,80 @@ export interface SuggestedAction {
   reasoning: string;
 }
 
+/**
+ * What ActionExecutor did for a SuggestedAction (or an intent's next step)
+ */
+export interface ActionResult {
+  openedTabs: number;
+  comparison?: Comparison; // compare_options: shown in the side panel
+  mergeProposalId?: string; // merge_intents: the approved proposal
+  message?: string;
+}
+
+/**
+ * Options of an intent side by side (compare_options)
+ */
+export interface Comparison {
+  intentId: string;
+  title: string;
+  options: ComparisonOption[];
+}
+
+export interface ComparisonOption {
+  name: string;
+  pageId?: string;
+  url?: string;
+  domain?: string;
+  brand?: string;
+  price?: string; // With currency
+  rating?: string; // With review count
+  availability?: string;
+  summary?: string;
+  engagement?: number; // 0-1
+}
+
+/**
+ * Where a notification click should take the side panel
+ */
+export interface SidePanelLink {
+  intentId: string;
+  comparison?: Comparison; // Result of a compare_options action
+}
+
+/**
+ * How the user responded to one group of nudges (a type, trigger rule or
+ * intent category) over the feedback window
+ */
+export interface NudgeStatsBucket {
+  key: string;
+  responded: number;
+  followed: number; // Includes opening the side panel from a notification
+  snoozed: number;
+  dismissed: number;
+  ignored: number; // Left pending until they expired
+  acceptanceRate: number; // Smoothed toward 50% while there are few responses
+  suppressed: boolean; // Type only: too rarely accepted to keep suggesting
+  lastRespondedAt?: number;
+}
+
+export interface NudgeStats {
+  windowDays: number;
+  overall: NudgeStatsBucket;
+  byType: NudgeStatsBucket[];
+  byRule: NudgeStatsBucket[];
+  byCategory: NudgeStatsBucket[];
+  dormantAfterDays: number; // Tuned dormancy window for reminders
+  computedAt: number;
+}
+
+/**
+ * Desktop notifications delivered today (daily cap)
+ */
+export interface NotificationLog {
+  day: string; // Local date, YYYY-MM-DD
+  delivered: number;
+}
+
 export interface NudgeTiming {
   createdAt: number;
   triggerRule: string;
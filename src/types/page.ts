@@ -1,3 +1,10 @@
+import type {
+  AssignmentCandidate,
+  AssignmentVerification,
+  MatchSignals,
+  MatchWeights,
+} from "@/types/matching";
+
 export interface PageData {
   id: string;
   url: string;
@@ -6,6 +13,9 @@ export interface PageData {
   content: string | null;
   contentSummary: string | null;
   contentSize: number;
+  contentSections?: ContentSection[]; // Main content split at headings (boilerplate removed)
+  structuredData?: StructuredDataItem[]; // schema.org JSON-LD / microdata found on the page
+  searchQuery?: SearchQuery; // Set when the URL is a search results page
   metadata: PageMetadata;
   semanticFeatures?: SemanticFeatures;
   embedding?: number[];
@@ -13,8 +23,18 @@ export interface PageData {
   intentAssignments: IntentAssignments;
   processedAt?: number;
   behavioralClass?: BehavioralClassification;
+  source?: PageSource; // Missing = captured live by the page tracker
+  visitIds?: string[]; // Tracker visits (virtual pages) folded into this page
+  visitTimes?: number[]; // History import only: visit timestamps, oldest first
+  retentionTier?: RetentionTier; // Missing = full content
 }
 
+export type RetentionTier =
+  | "summary" // Content dropped, AI summary and features kept
+  | "metadata"; // URL, title, timings and intent assignments only
+
+export type PageSource = "tracker" | "history_import";
+
 export interface PageMetadata {
   domain: string;
   lang: string;
@@ -37,8 +57,105 @@ export interface PageMetadata {
   hasNavigation: boolean;
   headingCount: number;
   linkCount: number;
+  contentExtraction?: ContentExtraction;
+}
+
+export interface ContentSection {
+  heading: string | null; // null = text before the first heading
+  level: number; // 1-6 from <h1>-<h6>, 0 for leading text
+  text: string;
+}
+
+export interface ContentExtraction {
+  method:
+    | "semantic" // <article> / <main>
+    | "scored" // Densest text block
+    | "body" // Whole body minus boilerplate
+    | "fallback"; // Raw body text (extraction found too little)
+  mainTextLength: number;
+  boilerplateTextLength: number;
 }
 
+export interface SearchQuery {
+  query: string; // As typed, whitespace collapsed
+  engine: string; // "google", "bing"... or the site's hostname for site search
+  kind: "web" | "site";
+  chainId?: string; // Shared by a query and its reformulations
+  previousQuery?: string; // The query this one reformulates
+  previousPageId?: string;
+}
+
+// schema.org entities, normalized to the fields Bryn uses. Values are exactly
+// what the page declares - never AI-inferred.
+
+interface StructuredDataBase {
+  schemaType: string; // Original @type, e.g. "NewsArticle"
+  source: "json-ld" | "microdata";
+  name?: string;
+  description?: string;
+  url?: string;
+}
+
+export interface ProductData extends StructuredDataBase {
+  kind: "product";
+  brand?: string;
+  sku?: string;
+  price?: number;
+  priceCurrency?: string;
+  availability?: string;
+  rating?: number;
+  reviewCount?: number;
+}
+
+export interface ArticleData extends StructuredDataBase {
+  kind: "article";
+  authors: string[];
+  publisher?: string;
+  datePublished?: string;
+  dateModified?: string;
+  section?: string;
+}
+
+export interface RecipeData extends StructuredDataBase {
+  kind: "recipe";
+  authors: string[];
+  ingredients: string[];
+  cuisine?: string;
+  totalTime?: string; // ISO 8601 duration
+  rating?: number;
+}
+
+export interface CourseData extends StructuredDataBase {
+  kind: "course";
+  provider?: string;
+}
+
+export interface EventData extends StructuredDataBase {
+  kind: "event";
+  startDate?: string;
+  endDate?: string;
+  location?: string;
+  organizer?: string;
+}
+
+export interface SoftwareData extends StructuredDataBase {
+  kind: "software";
+  category?: string;
+  operatingSystem?: string;
+  publisher?: string;
+  price?: number;
+  priceCurrency?: string;
+  rating?: number;
+}
+
+export type StructuredDataItem =
+  | ProductData
+  | ArticleData
+  | RecipeData
+  | CourseData
+  | EventData
+  | SoftwareData;
+
 export interface SemanticFeatures {
   concepts: string[];
   entities: {
@@ -56,10 +173,12 @@ export interface SemanticFeatures {
   };
   contentType: string;
   sentiment: string;
+  keySections?: number[]; // Indices into contentSections the AI cited as central
 }
 
 export interface PageInteractions {
-  dwellTime: number;
+  dwellTime: number; // Active time only (visible, focused, not idle)
+  dwellBreakdown?: DwellBreakdown;
   scrollDepth: number;
   scrollPosition: number;
   totalScrollDistance: number;
@@ -68,6 +187,12 @@ export interface PageInteractions {
   focusedSections?: FocusedSection[];
 }
 
+export interface DwellBreakdown {
+  active: number; // ms visible, focused, with recent input or playing media
+  background: number; // ms hidden tab or unfocused window
+  idle: number; // ms visible but no input for a minute
+}
+
 export interface FocusedSection {
   heading: string;
   timeSpent: number;
@@ -97,6 +222,11 @@ export interface IntentAssignment {
   autoAssigned: boolean;
   needsConfirmation?: boolean;
   mergedFrom?: string; // Tracks if assignment came from a merge
+  splitFrom?: string; // Intent the page was split out of
+  signals?: MatchSignals; // Score breakdown when the page was matched
+  weights?: MatchWeights; // Weights the score was computed with
+  runnersUp?: AssignmentCandidate[]; // Next-best intents, best first
+  verification?: AssignmentVerification; // Latest AI verification verdict
 }
 
 export type UserBehavior =
@@ -0,0 +1,57 @@
+// Full-text search over pages and intents (src/core/search-index.ts)
+
+export type SearchDocKind = "page" | "intent";
+
+// One indexed page or intent, kept in the searchDocs store
+export interface SearchDocument {
+  id: string; // "page:<id>" or "intent:<id>"
+  kind: SearchDocKind;
+  refId: string; // Page or intent ID
+  domain?: string; // Pages only
+  timestamp: number; // Page visit / intent last update
+  length: number; // Sum of weighted term frequencies
+  terms: Record<string, number>; // Term → weighted frequency
+}
+
+// Inverted index entry, kept in the searchTerms store
+export interface SearchTermPostings {
+  term: string;
+  postings: Record<string, number>; // Document ID → weighted frequency
+}
+
+export interface SearchIndexStats {
+  docCount: number;
+  totalLength: number;
+  builtAt: number; // Last full rebuild
+}
+
+export interface SearchFilters {
+  kind?: SearchDocKind; // type:page / type:intent
+  domain?: string; // domain:example.com (subdomains match)
+  intent?: string; // intent:<label words or ID>
+  after?: number; // after:2024-05-01, after:7d, date:a..b
+  before?: number; // before:2024-06-01 (exclusive)
+}
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  filters: SearchFilters;
+}
+
+export interface SearchResult {
+  kind: SearchDocKind;
+  id: string; // Page or intent ID
+  title: string;
+  url?: string;
+  domain?: string;
+  timestamp: number;
+  score: number; // BM25; 0 for filter-only queries
+  matchedTerms: string[]; // Index terms that matched (incl. prefix matches)
+  snippet?: string;
+}
+
+export interface SearchResponse {
+  query: ParsedSearchQuery;
+  total: number; // Matches before the limit
+  results: SearchResult[];
+}
@@ -1,3 +1,5 @@
+import type { NudgeType } from "@/types/nudge";
+
 // User settings for AI resource management
 
 export type AIIntensity = "light" | "balanced" | "comprehensive";
@@ -8,8 +10,111 @@ export interface UserSettings {
   enableVerification: boolean;
   enableMergeScans: boolean;
   enableTemporalSmoothing: boolean;
+  captureRules: CaptureRule[]; // User-managed exclusions
+  sensitiveCategories: Record<SensitiveCategory, boolean>; // Built-in exclusions on/off
+  lifecycle: LifecycleSettings; // Automatic dormant/expired/completed transitions
+  retention: RetentionSettings; // How long page text and finished intents are kept
+  merging: MergeSettings; // Which AI-proposed merges apply without review
+  search: SearchSettings; // Where search actions from nudges and next steps go
+  nudges: NudgeSettings; // Which suggestions are made, how many, and when
+  notifications: NotificationSettings; // Desktop notifications for high-priority nudges
+}
+
+// Intent lifecycle thresholds, measured from the intent's last new page
+
+export interface LifecycleSettings {
+  dormantAfterMinutes: number; // Emerging/active → dormant
+  expireAfterDays: number; // Dormant → expired
+  completeAfterDays: number; // Dormant after focused research → completed
+  completeMinEngagement: number; // 0-1, average engagement that counts as focused
+}
+
+// Retention tiers, measured from the page visit. Pages of emerging, active
+// and dormant intents only ever reach the summary tier; pages of confirmed
+// intents are never deleted.
+
+export interface RetentionSettings {
+  enabled: boolean;
+  summaryAfterDays: number; // Full text dropped, AI summary and features kept
+  metadataAfterDays: number; // Only URL, title, timings and assignments kept
+  deleteAfterDays: number; // Page removed (0 = never)
+  archiveIntentsAfterDays: number; // Finished intents compacted, after finishing
+}
+
+// Merge proposals at or above the threshold are applied right away; the rest
+// wait in the review inbox
+
+export interface MergeSettings {
+  autoApplyThreshold: number; // 0-1 AI confidence, 1 = review every merge
+}
+
+// Search engine for search and explore actions
+
+export type SearchEngineId =
+  "google" | "bing" | "duckduckgo" | "brave" | "ecosia" | "custom";
+
+export interface SearchSettings {
+  engine: SearchEngineId;
+  customUrl: string; // Used with "custom"; %s is replaced by the query
+}
+
+export const SEARCH_ENGINES: Record<
+  Exclude<SearchEngineId, "custom">,
+  { label: string; url: string }
+> = {
+  google: { label: "Google", url: "https://www.google.com/search?q=%s" },
+  bing: { label: "Bing", url: "https://www.bing.com/search?q=%s" },
+  duckduckgo: { label: "DuckDuckGo", url: "https://duckduckgo.com/?q=%s" },
+  brave: { label: "Brave Search", url: "https://search.brave.com/search?q=%s" },
+  ecosia: { label: "Ecosia", url: "https://www.ecosia.org/search?q=%s" },
+};
+
+// Nudge preferences. Quiet hours are local hours 0-23 and may wrap past
+// midnight (equal start and end = none); during them no nudges are created,
+// woken from snooze or notified.
+
+export interface NudgeSettings {
+  maxPending: number; // Suggestions waiting in the side panel at once
+  quietHoursStart: number; // Hour nudges stop
+  quietHoursEnd: number; // Hour they resume
+  types: Record<NudgeType, NudgeTypeSettings>;
+  laterTodayHours: number; // "Later today" snooze length
+  morningHour: number; // "Tomorrow" and "Next week" snoozes end at this hour
 }
 
+export interface NudgeTypeSettings {
+  enabled: boolean;
+  maxPerDay: number; // Created per calendar day
+}
+
+export type SnoozePreset = "later_today" | "tomorrow" | "next_week";
+
+// Desktop notifications for high-priority nudges (opt-in), outside the
+// nudge quiet hours
+
+export interface NotificationSettings {
+  enabled: boolean;
+  maxPerDay: number; // Notifications per calendar day
+}
+
+// Privacy exclusions: what the tracker may store for a URL
+
+export type CaptureMode =
+  | "full" // Content, interactions, metadata
+  | "metadata_only" // URL, title, metadata, timings - no text
+  | "ignore"; // Never stored
+
+export interface CaptureRule {
+  id: string;
+  type: "domain" | "glob" | "regex";
+  pattern: string; // domain: host incl. subdomains; glob/regex: full URL
+  mode: Exclude<CaptureMode, "full">;
+  createdAt: number;
+}
+
+export type SensitiveCategory =
+  "banking" | "health" | "webmail" | "auth_payment" | "internal";
+
 export const AI_INTENSITY_PRESETS: Record<AIIntensity, Partial<UserSettings>> = {
   light: {
     maxConcurrentAI: 1,
@@ -37,6 +142,54 @@ export const DEFAULT_SETTINGS: UserSettings = {
   enableVerification: true,
   enableMergeScans: true,
   enableTemporalSmoothing: true,
+  captureRules: [],
+  sensitiveCategories: {
+    banking: true,
+    health: true,
+    webmail: true,
+    auth_payment: true,
+    internal: true,
+  },
+  lifecycle: {
+    dormantAfterMinutes: 30,
+    expireAfterDays: 7,
+    completeAfterDays: 14,
+    completeMinEngagement: 0.7,
+  },
+  retention: {
+    enabled: true,
+    summaryAfterDays: 7,
+    metadataAfterDays: 90,
+    deleteAfterDays: 365,
+    archiveIntentsAfterDays: 30,
+  },
+  merging: {
+    autoApplyThreshold: 0.9,
+  },
+  search: {
+    engine: "google",
+    customUrl: "",
+  },
+  nudges: {
+    maxPending: 3,
+    quietHoursStart: 22,
+    quietHoursEnd: 8,
+    types: {
+      reminder: { enabled: true, maxPerDay: 2 },
+      memory_refresh: { enabled: true, maxPerDay: 1 },
+      next_action: { enabled: true, maxPerDay: 2 },
+      merge_suggestion: { enabled: true, maxPerDay: 1 },
+      knowledge_gap: { enabled: true, maxPerDay: 2 },
+      milestone_next: { enabled: true, maxPerDay: 1 },
+      explore_related: { enabled: true, maxPerDay: 1 },
+    },
+    laterTodayHours: 3,
+    morningHour: 9,
+  },
+  notifications: {
+    enabled: false,
+    maxPerDay: 2,
+  },
 };
 
 
@@ -1,3 +1,9 @@
+import type { Intent } from "@/types/intent";
+import type { PageData } from "@/types/page";
+import type { Nudge } from "@/types/nudge";
+import type { UserSettings } from "@/types/settings";
+import type { UserKnowledgeGraph } from "@/types/knowledge-graph";
+
 export interface StorageStats {
   totalPages: number;
   totalIntents: number;
@@ -9,6 +15,20 @@ export interface StorageStats {
   quotaBytes?: number;
   usagePercent?: number;
   lastActivity?: number; // Timestamp of most recent page visit
+  retention: RetentionReport | null; // Last retention pass
+}
+
+export interface RetentionReport {
+  ranAt: number;
+  pages: {
+    summarized: number; // Full content → summary
+    metadataOnly: number; // → metadata only
+    deleted: number;
+  };
+  intentsArchived: number;
+  tasksRemoved: number; // Queue records that quoted removed text
+  reclaimedBytes: number; // This pass (serialized size, like usageBytes)
+  totalReclaimedBytes: number; // All passes since install
 }
 
 export interface IntentRelationship {
@@ -27,3 +47,109 @@ export type RelationType =
   | "parallel"
   | "evolution"
   | "unrelated";
+
+// Relationship as seen from one intent (query API results)
+export interface RelatedIntent {
+  relationship: IntentRelationship;
+  intent: Intent; // The intent on the other side
+  direction: "incoming" | "outgoing"; // incoming = other intent came first
+}
+
+export interface RelationshipTraversalNode {
+  intent: Intent;
+  depth: number; // Hops from the starting intent
+  via: IntentRelationship; // Edge used to reach this intent
+}
+
+export interface IntentEvolutionStep {
+  intent: Intent;
+  relationship?: IntentRelationship; // Edge from the previous step (none for the root)
+}
+
+export interface HistoryImportState {
+  status:
+    | "idle"
+    | "scanning" // Reading chrome.history
+    | "importing" // Pages queued, import lane still draining
+    | "completed"
+    | "cancelled"
+    | "failed";
+  days: number;
+  found: number; // History entries in the window
+  imported: number; // Pages created and queued
+  skipped: number; // Internal, already tracked, or over the cap
+  processed: number; // Imported pages that have left the import lane
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+// Backup bundles written by EXPORT_ALL_DATA and read back by IMPORT_DATA
+
+export const EXPORT_BUNDLE_VERSION = 2;
+
+export interface ExportBundle {
+  version: number;
+  schemaVersion: number; // DB_VERSION of the records; older ones are upgraded on import
+  exportedAt: number;
+  exportedBy: string;
+  data: {
+    pages: PageData[];
+    intents: Intent[];
+    nudges: Nudge[];
+    queueTasks: unknown[]; // Exported for debugging, never restored
+    settings: UserSettings | null;
+    knowledgeGraph: UserKnowledgeGraph | null; // Rebuilt on import
+    relationships: IntentRelationship[];
+  };
+}
+
+export type ImportMode =
+  | "replace" // Clear everything, then restore the bundle
+  | "merge"; // Add to existing data, remapping colliding IDs
+
+export interface ImportSummary {
+  mode: ImportMode;
+  bundleVersion: number; // As written in the file (0 = unversioned)
+  exportedAt: number | null;
+  pages: {
+    added: number;
+    duplicates: number; // Same URL and visit time as a stored page
+    remapped: number; // ID collided with a different page
+  };
+  intents: {
+    added: number;
+    combined: number; // Folded into a stored intent with the same label
+    remapped: number;
+  };
+  nudges: number;
+  relationships: number;
+  removed: { pages: number; intents: number }; // Replace mode: current data cleared
+  warnings: string[];
+}
+
+// IndexedDB schema migrations (src/core/db-migrations.ts)
+
+export type MigratedStore = "pages" | "intents" | "nudges" | "relationships";
+
+export interface MigrationReport {
+  fromVersion: number; // 0 = new database
+  toVersion: number;
+  ranAt: number;
+  durationMs: number;
+  steps: { version: number; description: string }[];
+  records: Partial<Record<MigratedStore, { scanned: number; updated: number }>>;
+}
+
+export interface StoreValidation {
+  checked: number;
+  invalid: number; // Records that don't match the current types
+  pendingUpgrades: number; // Records a migration step would still rewrite
+  issues: string[]; // First few problems, "<id>: <field> ..."
+}
+
+export interface ValidationReport {
+  dbVersion: number;
+  checkedAt: number;
+  stores: Record<MigratedStore, StoreValidation>;
+}